@@ -1,6 +1,15 @@
 import { Logger } from "@connext/nxtp-utils";
 
-import { TransfersCache, AuctionsCache, ConsumersCache, RoutersCache, TasksCache } from "./lib/caches";
+import {
+  TransfersCache,
+  AuctionsCache,
+  ConsumersCache,
+  RoutersCache,
+  TasksCache,
+  LiquidityCache,
+  ExecutionsCache,
+  DeadLettersCache,
+} from "./lib/caches";
 import { StoreManagerParams, StoreChannel } from "./lib/entities";
 
 export interface Store {
@@ -9,6 +18,9 @@ export interface Store {
   readonly consumers: ConsumersCache;
   readonly routers: RoutersCache;
   readonly tasks: TasksCache;
+  readonly liquidity: LiquidityCache;
+  readonly executions: ExecutionsCache;
+  readonly deadLetters: DeadLettersCache;
 }
 
 /**
@@ -26,6 +38,9 @@ export class StoreManager implements Store {
   public readonly consumers: ConsumersCache;
   public readonly routers: RoutersCache;
   public readonly tasks: TasksCache;
+  public readonly liquidity: LiquidityCache;
+  public readonly executions: ExecutionsCache;
+  public readonly deadLetters: DeadLettersCache;
 
   private constructor({ redis, logger, mock }: StoreManagerParams) {
     this.logger = logger;
@@ -60,6 +75,24 @@ export class StoreManager implements Store {
       mock: !!mock,
       logger: this.logger.child({ name: "TasksCache" }),
     });
+    this.liquidity = new LiquidityCache({
+      host,
+      port,
+      mock: !!mock,
+      logger: this.logger.child({ name: "LiquidityCache" }),
+    });
+    this.executions = new ExecutionsCache({
+      host,
+      port,
+      mock: !!mock,
+      logger: this.logger.child({ name: "ExecutionsCache" }),
+    });
+    this.deadLetters = new DeadLettersCache({
+      host,
+      port,
+      mock: !!mock,
+      logger: this.logger.child({ name: "DeadLettersCache" }),
+    });
   }
 
   public getLogger(): Logger {
@@ -82,3 +115,4 @@ export class StoreManager implements Store {
   }
 }
 export * from "./lib/caches";
+export { SlowPathExecution, DeadLetter } from "./lib/entities";
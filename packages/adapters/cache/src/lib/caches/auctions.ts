@@ -1,4 +1,4 @@
-import { Bid, getNtpTimeSeconds, Auction, AuctionStatus, AuctionTask } from "@connext/nxtp-utils";
+import { Bid, getNtpTimeSeconds, Auction, AuctionEvent, AuctionStatus, AuctionTask } from "@connext/nxtp-utils";
 
 import { Cache } from "./cache";
 
@@ -12,10 +12,23 @@ import { Cache } from "./cache";
  *
  * Auction Tasks:
  *   key: $transferId | value: JSON.stringify(AuctionTask);
+ *
+ * Auction Events:
+ *   key: events:$transferId | value: list of JSON.stringify(AuctionEvent), in order of occurrence;
+ * NOTE: The events of an auction expire after EVENTS_EXPIRY (in seconds) without new events.
+ *
+ * Auction History:
+ *   key: history | value: sorted set of $transferId, scored by the timestamp of the last event;
+ * NOTE: Auctions are removed from the history along with their events, after EVENTS_EXPIRY.
  */
 export class AuctionsCache extends Cache {
   private readonly prefix = "auctions";
 
+  // Maximum number of events recorded for a single auction.
+  public static readonly MAX_EVENTS = 200;
+  // Time (in seconds) after which the events of an auction are dropped if no new event was recorded.
+  public static readonly EVENTS_EXPIRY = 7 * 24 * 60 * 60; // 7 days.
+
   /// MARK - Auction Data
   /**
    * Retrieve auction data for a given transfer ID.
@@ -86,21 +99,57 @@ export class AuctionsCache extends Cache {
    *
    * @param data.transferId - The ID of transfer we are auctioning.
    * @param data.taskId - Auction task ID from relayer.
+   * @param data.round - The auction round of the bid combination sent.
+   * @param data.routers - The routers of the bid combination sent.
    *
    * @returns 0 if updated, 1 if created
    */
-  public async upsertTask({ transferId, taskId }: { transferId: string; taskId: string }): Promise<number> {
+  public async upsertTask({
+    transferId,
+    taskId,
+    round,
+    routers,
+  }: {
+    transferId: string;
+    taskId: string;
+    round?: number;
+    routers?: string[];
+  }): Promise<number> {
     const existing = await this.getTask(transferId);
     const task: AuctionTask = {
       // We update the timestamp each time here; it is intended to reflect when the *last* meta tx was sent.
       timestamp: getNtpTimeSeconds().toString(),
       taskId,
       attempts: existing ? existing.attempts + 1 : 1,
+      round,
+      routers,
+      failed: existing?.failed,
     };
     const res = await this.data.hset(`${this.prefix}:task`, transferId, JSON.stringify(task));
     return Number(res >= 1);
   }
 
+  /**
+   * Records the bid combination sent in the last meta tx for the given transfer ID as failed, so it won't be
+   * sent again.
+   *
+   * @param transferId - The ID of the transfer we are auctioning.
+   * @returns The updated AuctionTask, or undefined if no task exists.
+   */
+  public async failTask(transferId: string): Promise<AuctionTask | undefined> {
+    const existing = await this.getTask(transferId);
+    if (!existing) {
+      return undefined;
+    }
+    const { round, routers, ...rest } = existing;
+    const task: AuctionTask = {
+      ...rest,
+      failed: [...(existing.failed ?? []), ...(round !== undefined && routers ? [{ round, routers }] : [])],
+    };
+    await this.data.hset(`${this.prefix}:task`, transferId, JSON.stringify(task));
+    return task;
+  }
+
   /// MARK - Auction Status
   /**
    * Gets the auction status for the given transfer ID.
@@ -118,12 +167,73 @@ export class AuctionsCache extends Cache {
     return await this.data.hset(`${this.prefix}:status`, transferId, status.toString());
   }
 
-  /// MARK - Queued Transfers
+  /// MARK - Auction Events
+  /**
+   * Records an event in the timeline of the auction for the given transfer ID, and marks the auction
+   * as the most recently updated in the auction history. Auctions without events for EVENTS_EXPIRY are
+   * dropped from the history along the way.
+   *
+   * @param transferId - The ID of the transfer we are auctioning.
+   * @param event - The event to record, minus the timestamp (which is set here).
+   *
+   * @returns The number of events recorded for the auction.
+   */
+  public async addEvent(transferId: string, event: Omit<AuctionEvent, "timestamp">): Promise<number> {
+    const timestamp = getNtpTimeSeconds();
+    const key = `${this.prefix}:events:${transferId}`;
+    const res = await this.data.rpush(key, JSON.stringify({ ...event, timestamp: timestamp.toString() }));
+    if (res > AuctionsCache.MAX_EVENTS) {
+      await this.data.ltrim(key, -AuctionsCache.MAX_EVENTS, -1);
+    }
+    await this.data.expire(key, AuctionsCache.EVENTS_EXPIRY);
+    await this.data.zadd(`${this.prefix}:history`, timestamp, transferId);
+    await this.data.zremrangebyscore(`${this.prefix}:history`, "-inf", `(${timestamp - AuctionsCache.EVENTS_EXPIRY}`);
+    return Math.min(res, AuctionsCache.MAX_EVENTS);
+  }
+
+  /**
+   * Gets the timeline of events for the auction for the given transfer ID.
+   * @param transferId - The ID of the transfer we are auctioning.
+   * @returns An array of events, in order of occurrence. Empty if no events were recorded.
+   */
+  public async getEvents(transferId: string): Promise<AuctionEvent[]> {
+    const res = await this.data.lrange(`${this.prefix}:events:${transferId}`, 0, -1);
+    return res.map((event) => JSON.parse(event) as AuctionEvent);
+  }
+
+  /**
+   * Gets the transfer IDs of auctions, most recently updated first.
+   * @param limit - The maximum number of transfer IDs to return.
+   * @param offset - The number of transfer IDs to skip.
+   * @returns An array of transfer IDs along with the timestamp of their last update.
+   */
+  public async getHistory(limit: number, offset = 0): Promise<{ transferId: string; updated: string }[]> {
+    const res = await this.data.zrevrange(`${this.prefix}:history`, offset, offset + limit - 1, "WITHSCORES");
+    const history: { transferId: string; updated: string }[] = [];
+    for (let i = 0; i < res.length; i += 2) {
+      history.push({ transferId: res[i], updated: res[i + 1].toString() });
+    }
+    return history;
+  }
+
+  /// MARK - Transfers By Status
   /**
    * Retrieve all transfer IDs that have the AuctionStatus.Queued status.
    * @returns An array of transfer IDs.
    */
   public async getQueuedTransfers(): Promise<string[]> {
+    return await this.getTransfersByStatus(AuctionStatus.Queued);
+  }
+
+  /**
+   * Retrieve all transfer IDs that have the AuctionStatus.Sent status, i.e. whose meta tx is awaiting execution.
+   * @returns An array of transfer IDs.
+   */
+  public async getSentTransfers(): Promise<string[]> {
+    return await this.getTransfersByStatus(AuctionStatus.Sent);
+  }
+
+  private async getTransfersByStatus(status: AuctionStatus): Promise<string[]> {
     const stream = this.data.hscanStream(`${this.prefix}:status`);
     const keys: string[] = [];
     await new Promise((res) => {
@@ -140,8 +250,7 @@ export class AuctionsCache extends Cache {
     });
     const filtered: string[] = [];
     for (const key of keys) {
-      const status = await this.getStatus(key);
-      if (status === AuctionStatus.Queued) {
+      if ((await this.getStatus(key)) === status) {
         filtered.push(key);
       }
     }
@@ -0,0 +1,77 @@
+import { DeadLetter } from "../entities";
+
+import { Cache } from "./cache";
+
+/**
+ * Redis Store Details:
+ * Dead-Lettered Messages:
+ *   key: deadletters:$queue | field: $transferId | value: JSON.stringify(DeadLetter);
+ *
+ * Dead-Lettered Message Index:
+ *   key: deadletters:$queue:index | value: sorted set of $transferId, scored by the timestamp it was dead-lettered;
+ * NOTE: Only the latest MAX_DEAD_LETTERS messages of each queue are kept.
+ */
+export class DeadLettersCache extends Cache {
+  private readonly prefix = "deadletters";
+
+  // Maximum number of dead-lettered messages kept per queue.
+  public static readonly MAX_DEAD_LETTERS = 1_000;
+
+  /**
+   * Get the dead-lettered message for a given transfer.
+   * @param queue - The queue the message was dead-lettered from.
+   * @param transferId - The ID of the transfer.
+   * @returns DeadLetter if there is one for the transfer, undefined otherwise.
+   */
+  public async getDeadLetter(queue: string, transferId: string): Promise<DeadLetter | undefined> {
+    const res = await this.data.hget(`${this.prefix}:${queue}`, transferId);
+    return res ? (JSON.parse(res) as DeadLetter) : undefined;
+  }
+
+  /**
+   * Get all the messages dead-lettered from a given queue.
+   * @param queue - The queue the messages were dead-lettered from.
+   * @returns Dead-lettered messages keyed by transfer ID.
+   */
+  public async getDeadLetters(queue: string): Promise<Record<string, DeadLetter>> {
+    const res = await this.data.hgetall(`${this.prefix}:${queue}`);
+    const deadLetters: Record<string, DeadLetter> = {};
+    for (const [transferId, value] of Object.entries(res)) {
+      deadLetters[transferId] = JSON.parse(value) as DeadLetter;
+    }
+    return deadLetters;
+  }
+
+  /**
+   * Store a dead-lettered message, replacing any previous one for the same transfer. The oldest messages are
+   * dropped once there are more than MAX_DEAD_LETTERS.
+   * @param queue - The queue the message was dead-lettered from.
+   * @param deadLetter - The dead-lettered message.
+   */
+  public async addDeadLetter(queue: string, deadLetter: DeadLetter): Promise<void> {
+    const { transferId } = deadLetter.transfer;
+    await this.data.hset(`${this.prefix}:${queue}`, transferId, JSON.stringify(deadLetter));
+    await this.data.zadd(`${this.prefix}:${queue}:index`, deadLetter.timestamp, transferId);
+
+    // Drop the oldest messages once over the limit.
+    const excess = (await this.data.zcard(`${this.prefix}:${queue}:index`)) - DeadLettersCache.MAX_DEAD_LETTERS;
+    if (excess > 0) {
+      const oldest = await this.data.zrange(`${this.prefix}:${queue}:index`, 0, excess - 1);
+      await this.removeDeadLetters(queue, oldest);
+    }
+  }
+
+  /**
+   * Remove the dead-lettered messages for the given transfers (e.g. once they have been replayed).
+   * @param queue - The queue the messages were dead-lettered from.
+   * @param transferIds - The IDs of the transfers.
+   * @returns Number of messages removed.
+   */
+  public async removeDeadLetters(queue: string, transferIds: string[]): Promise<number> {
+    if (transferIds.length === 0) {
+      return 0;
+    }
+    await this.data.zrem(`${this.prefix}:${queue}:index`, ...transferIds);
+    return await this.data.hdel(`${this.prefix}:${queue}`, ...transferIds);
+  }
+}
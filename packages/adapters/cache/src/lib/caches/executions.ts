@@ -0,0 +1,88 @@
+import { getNtpTimeSeconds } from "@connext/nxtp-utils";
+
+import { SlowPathExecution } from "../entities";
+
+import { Cache } from "./cache";
+
+/**
+ * Redis Store Details:
+ * Slow-Path Executions:
+ *   key: executions:data | field: $transferId | value: JSON.stringify(SlowPathExecution);
+ */
+export class ExecutionsCache extends Cache {
+  private readonly prefix = "executions";
+
+  /**
+   * Get the execution record for a given transfer.
+   * @param transferId - The ID of the transfer.
+   * @returns SlowPathExecution if the transfer is being tracked, undefined otherwise.
+   */
+  public async getExecution(transferId: string): Promise<SlowPathExecution | undefined> {
+    const res = await this.data.hget(`${this.prefix}:data`, transferId);
+    return res ? (JSON.parse(res) as SlowPathExecution) : undefined;
+  }
+
+  /**
+   * Get the execution records of all the transfers being tracked.
+   * @returns Execution records keyed by transfer ID.
+   */
+  public async getExecutions(): Promise<Record<string, SlowPathExecution>> {
+    const res = await this.data.hgetall(`${this.prefix}:data`);
+    const executions: Record<string, SlowPathExecution> = {};
+    for (const [transferId, value] of Object.entries(res)) {
+      executions[transferId] = JSON.parse(value) as SlowPathExecution;
+    }
+    return executions;
+  }
+
+  /**
+   * Record an attempt to execute a given transfer, starting to track it if it isn't being tracked already.
+   * Any error from a previous attempt is cleared.
+   * @param transferId - The ID of the transfer.
+   * @param taskId - The ID of the relayer task created for the attempt, if the relayer accepted it.
+   * @returns The updated execution record.
+   */
+  public async setAttempt(transferId: string, taskId?: string): Promise<SlowPathExecution> {
+    const existing = await this.getExecution(transferId);
+    const execution: SlowPathExecution = {
+      taskId,
+      attempts: (existing?.attempts ?? 0) + 1,
+      timestamp: getNtpTimeSeconds(),
+    };
+    await this.data.hset(`${this.prefix}:data`, transferId, JSON.stringify(execution));
+    return execution;
+  }
+
+  /**
+   * Record that the latest attempt to execute a given transfer failed.
+   * @param transferId - The ID of the transfer.
+   * @param error - Reason the attempt failed.
+   * @param retryDelay - Time (in seconds) to wait before retrying.
+   * @returns The updated execution record, or undefined if the transfer isn't being tracked.
+   */
+  public async setFailed(
+    transferId: string,
+    error: string,
+    retryDelay: number,
+  ): Promise<SlowPathExecution | undefined> {
+    const existing = await this.getExecution(transferId);
+    if (!existing) {
+      return undefined;
+    }
+    const execution: SlowPathExecution = { ...existing, error, retryAt: getNtpTimeSeconds() + retryDelay };
+    await this.data.hset(`${this.prefix}:data`, transferId, JSON.stringify(execution));
+    return execution;
+  }
+
+  /**
+   * Stop tracking the given transfers (e.g. once they have been executed).
+   * @param transferIds - The IDs of the transfers.
+   * @returns Number of transfers removed.
+   */
+  public async removeExecutions(transferIds: string[]): Promise<number> {
+    if (transferIds.length === 0) {
+      return 0;
+    }
+    return await this.data.hdel(`${this.prefix}:data`, ...transferIds);
+  }
+}
@@ -4,3 +4,6 @@ export { AuctionsCache } from "./auctions";
 export { ConsumersCache } from "./consumers";
 export { RoutersCache } from "./routers";
 export { TasksCache } from "./tasks";
+export { LiquidityCache } from "./liquidity";
+export { ExecutionsCache } from "./executions";
+export { DeadLettersCache } from "./deadLetters";
@@ -0,0 +1,263 @@
+import { BigNumber, constants } from "ethers";
+import { delay, getNtpTimeSeconds, getRandomBytes32 } from "@connext/nxtp-utils";
+
+import { LiquidityReservation } from "../entities";
+
+import { Cache } from "./cache";
+
+/**
+ * Redis Store Details:
+ * Reserved Liquidity:
+ *   key: liquidity:$router:reservations | field: $transferId | value: JSON.stringify(LiquidityReservation);
+ * NOTE: Reservations will expire after their set expiry time (in seconds) has elapsed.
+ * Reservation Lock:
+ *   key: liquidity:$router:lock | value: random token of the lock holder;
+ * NOTE: The lock expires after LOCK_EXPIRY (in ms), in case the holder never releases it.
+ * Paused Bidding:
+ *   key: liquidity:$router:paused | value: set of $domain (whole domain paused) or $domain:$asset;
+ */
+export class LiquidityCache extends Cache {
+  // Default expiry time (in seconds) after which a reservation is released, if it hasn't been
+  // released already (e.g. because the transfer was never executed).
+  public static readonly DEFAULT_RESERVATION_EXPIRY = 5 * 60; // 5 minutes.
+  // Time (in ms) after which the reservation lock is released if the holder never releases it, and the
+  // time (in ms) we wait for the lock before giving up.
+  public static readonly LOCK_EXPIRY = 5_000;
+  public static readonly LOCK_TIMEOUT = 5_000;
+  private static readonly LOCK_RETRY_INTERVAL = 25;
+  private readonly prefix = "liquidity";
+
+  /**
+   * Reserve liquidity for a transfer the router has bid on.
+   * @param domain - Domain number.
+   * @param router - Router address.
+   * @param asset - Token address.
+   * @param transferId - The ID of the transfer the liquidity is reserved for.
+   * @param amount - Amount of liquidity to reserve.
+   * @param expiry - Time (in seconds) after which the reservation is released.
+   * @returns 1 if added, 0 if updated.
+   */
+  public async reserveLiquidity(
+    domain: string,
+    router: string,
+    asset: string,
+    transferId: string,
+    amount: BigNumber | string,
+    expiry = LiquidityCache.DEFAULT_RESERVATION_EXPIRY,
+  ): Promise<number> {
+    const key = `${this.prefix}:${router.toLowerCase()}:reservations`;
+    const reservation: LiquidityReservation = {
+      domain,
+      asset: asset.toLowerCase(),
+      amount: BigNumber.from(amount).toString(),
+      timestamp: getNtpTimeSeconds(),
+      expiry,
+    };
+    return await this.data.hset(key, transferId, JSON.stringify(reservation));
+  }
+
+  /**
+   * Reserve liquidity for a transfer, but only if the total liquidity reserved by the router on the domain
+   * for the asset, including this reservation, stays within `cap`. The check and the reservation are made
+   * while holding the router's reservation lock, so concurrent bids can't both pass the check with the
+   * same liquidity.
+   * @param domain - Domain number.
+   * @param router - Router address.
+   * @param asset - Token address.
+   * @param transferId - The ID of the transfer the liquidity is reserved for.
+   * @param amount - Amount of liquidity to reserve.
+   * @param cap - Maximum total amount of liquidity that may be reserved on the domain for the asset.
+   * @param expiry - Time (in seconds) after which the reservation is released.
+   * @returns true if reserved, false if the reservation would exceed the cap or the lock couldn't be acquired.
+   */
+  public async reserveLiquidityWithinCap(
+    domain: string,
+    router: string,
+    asset: string,
+    transferId: string,
+    amount: BigNumber | string,
+    cap: BigNumber | string,
+    expiry = LiquidityCache.DEFAULT_RESERVATION_EXPIRY,
+  ): Promise<boolean> {
+    const reserved = await this.withLock(router, async () => {
+      // Don't count an existing reservation for the same transfer, as it is replaced by this one.
+      const reservations = await this.getReservations(router);
+      const committed = Object.entries(reservations)
+        .filter(
+          ([_transferId, reservation]) =>
+            _transferId !== transferId && reservation.domain === domain && reservation.asset === asset.toLowerCase(),
+        )
+        .reduce((total, [, reservation]) => total.add(reservation.amount), constants.Zero);
+      if (committed.add(amount).gt(cap)) {
+        return false;
+      }
+      await this.reserveLiquidity(domain, router, asset, transferId, amount, expiry);
+      return true;
+    });
+    return !!reserved;
+  }
+
+  /**
+   * Release liquidity reserved for a transfer.
+   * @param router - Router address.
+   * @param transferId - The ID of the transfer the liquidity is reserved for.
+   * @returns 1 if released, 0 if there was no reservation.
+   */
+  public async releaseLiquidity(router: string, transferId: string): Promise<number> {
+    const key = `${this.prefix}:${router.toLowerCase()}:reservations`;
+    return await this.data.hdel(key, transferId);
+  }
+
+  /**
+   * Get all the reservations that haven't expired for a given router. Expired reservations are
+   * released along the way.
+   * @param router - Router address.
+   * @returns Reservations keyed by transfer ID.
+   */
+  public async getReservations(router: string): Promise<Record<string, LiquidityReservation>> {
+    const key = `${this.prefix}:${router.toLowerCase()}:reservations`;
+    const res = await this.data.hgetall(key);
+    const now = getNtpTimeSeconds();
+    const reservations: Record<string, LiquidityReservation> = {};
+    const expired: string[] = [];
+    for (const [transferId, value] of Object.entries(res)) {
+      const reservation = JSON.parse(value) as LiquidityReservation;
+      if (now - reservation.timestamp >= reservation.expiry) {
+        expired.push(transferId);
+      } else {
+        reservations[transferId] = reservation;
+      }
+    }
+    if (expired.length > 0) {
+      await this.data.hdel(key, ...expired);
+    }
+    return reservations;
+  }
+
+  /**
+   * Get total liquidity reserved by a given router on a given domain for a given asset.
+   * @param domain - Domain number.
+   * @param router - Router address.
+   * @param asset - Token address.
+   * @returns BigNumber sum of all reservations that haven't expired.
+   */
+  public async getReservedLiquidity(domain: string, router: string, asset: string): Promise<BigNumber> {
+    const reservations = await this.getReservations(router);
+    return Object.values(reservations)
+      .filter((reservation) => reservation.domain === domain && reservation.asset === asset.toLowerCase())
+      .reduce((total, reservation) => total.add(reservation.amount), constants.Zero);
+  }
+
+  /**
+   * Pause bidding for a given router on a given domain, or only for a given asset on that domain.
+   * @param router - Router address.
+   * @param domain - Domain number.
+   * @param asset - (optional) Token address. If omitted, bidding is paused for every asset on the domain.
+   * @returns 1 if paused, 0 if it was already paused.
+   */
+  public async pause(router: string, domain: string, asset?: string): Promise<number> {
+    const key = `${this.prefix}:${router.toLowerCase()}:paused`;
+    return await this.data.sadd(key, this.getPausedMember(domain, asset));
+  }
+
+  /**
+   * Resume bidding for a given router on a given domain, or for a given asset on that domain. Resuming a domain
+   * doesn't resume assets that were paused individually.
+   * @param router - Router address.
+   * @param domain - Domain number.
+   * @param asset - (optional) Token address.
+   * @returns 1 if resumed, 0 if it wasn't paused.
+   */
+  public async resume(router: string, domain: string, asset?: string): Promise<number> {
+    const key = `${this.prefix}:${router.toLowerCase()}:paused`;
+    return await this.data.srem(key, this.getPausedMember(domain, asset));
+  }
+
+  /**
+   * Check whether bidding is paused for a given router on a given domain for a given asset, either because
+   * the asset or the whole domain is paused.
+   * @param router - Router address.
+   * @param domain - Domain number.
+   * @param asset - Token address.
+   * @returns true if paused, false otherwise.
+   */
+  public async isPaused(router: string, domain: string, asset: string): Promise<boolean> {
+    const key = `${this.prefix}:${router.toLowerCase()}:paused`;
+    const [domainPaused, assetPaused] = await Promise.all([
+      this.data.sismember(key, this.getPausedMember(domain)),
+      this.data.sismember(key, this.getPausedMember(domain, asset)),
+    ]);
+    return domainPaused === 1 || assetPaused === 1;
+  }
+
+  /**
+   * Get everything bidding is currently paused for, for a given router.
+   * @param router - Router address.
+   * @returns Paused domains, along with the paused asset if only an asset is paused on the domain.
+   */
+  public async getPaused(router: string): Promise<{ domain: string; asset?: string }[]> {
+    const key = `${this.prefix}:${router.toLowerCase()}:paused`;
+    const members = await this.data.smembers(key);
+    return members.sort().map((member) => {
+      const [domain, asset] = member.split(":");
+      return asset ? { domain, asset } : { domain };
+    });
+  }
+
+  /**
+   * Move a router's reservations and paused bidding over to another address, e.g. once the router has switched to
+   * a new signing key. Anything already kept for the new address stays. Moving again is a no-op, so every process
+   * that sees the switch can move the state without coordinating.
+   * @param from - Router address to move from.
+   * @param to - Router address to move to.
+   * @returns true if moved, false if the reservation lock for the new address couldn't be acquired.
+   */
+  public async moveRouter(from: string, to: string): Promise<boolean> {
+    const fromKey = `${this.prefix}:${from.toLowerCase()}`;
+    const toKey = `${this.prefix}:${to.toLowerCase()}`;
+    const moved = await this.withLock(to, async () => {
+      const reservations = await this.data.hgetall(`${fromKey}:reservations`);
+      if (Object.keys(reservations).length > 0) {
+        await this.data.hset(`${toKey}:reservations`, reservations);
+      }
+      const paused = await this.data.smembers(`${fromKey}:paused`);
+      if (paused.length > 0) {
+        await this.data.sadd(`${toKey}:paused`, ...paused);
+      }
+      await this.data.del(`${fromKey}:reservations`, `${fromKey}:paused`);
+      return true;
+    });
+    return !!moved;
+  }
+
+  /**
+   * Runs `fn` while holding the reservation lock for the given router.
+   * @param router - Router address.
+   * @param fn - Function to run while holding the lock.
+   * @returns The result of `fn`, or undefined if the lock couldn't be acquired within LOCK_TIMEOUT.
+   */
+  private async withLock<T>(router: string, fn: () => Promise<T>): Promise<T | undefined> {
+    const key = `${this.prefix}:${router.toLowerCase()}:lock`;
+    const token = getRandomBytes32();
+    const deadline = Date.now() + LiquidityCache.LOCK_TIMEOUT;
+    while (!(await this.data.set(key, token, "PX", LiquidityCache.LOCK_EXPIRY, "NX"))) {
+      if (Date.now() >= deadline) {
+        this.logger.warn("Timed out waiting for the reservation lock", undefined, undefined, { router });
+        return undefined;
+      }
+      await delay(LiquidityCache.LOCK_RETRY_INTERVAL);
+    }
+    try {
+      return await fn();
+    } finally {
+      // Only release the lock if it's still ours, i.e. it didn't expire and get acquired by someone else.
+      if ((await this.data.get(key)) === token) {
+        await this.data.del(key);
+      }
+    }
+  }
+
+  private getPausedMember(domain: string, asset?: string): string {
+    return asset ? `${domain}:${asset.toLowerCase()}` : domain;
+  }
+}
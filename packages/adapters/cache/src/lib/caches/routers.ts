@@ -10,12 +10,18 @@ import { Cache } from "./cache";
  * Router Liquidity:
  *   key: $router:$domain:liquidity:$asset | value: string;
  * NOTE: Router Liquidity will expire after a set amount of time.
+ * Router Executions:
+ *   key: routers:$router:executions | value: list of "1" (success) or "0" (failure), most recent first;
+ * Router Last Selected:
+ *   key: routers:$router | field: lastSelected | value: number (timestamp, in seconds);
  */
 export class RoutersCache extends Cache {
   // TODO: Implement configurable expiry times per domain.
   // Default expiry time (in seconds) after which liquidity data is considered stale.
   public static readonly DEFAULT_LIQUIDITY_EXPIRY = 30; // 30 seconds.
   public static readonly DEFAULT_APPROVAL_EXPIRY = 24 * 60 * 60; // 24 hours.
+  // Number of most recent execution results kept for each router when calculating its success rate.
+  public static readonly EXECUTION_HISTORY_LENGTH = 100;
   private readonly prefix = "routers";
 
   /**
@@ -59,4 +65,53 @@ export class RoutersCache extends Cache {
       }),
     );
   }
+
+  /**
+   * Record the result of an execution attempt involving a given router.
+   * @param router - Router address.
+   * @param success - Whether the execution attempt succeeded.
+   * @returns The length of the execution history after recording.
+   */
+  public async recordExecution(router: string, success: boolean): Promise<number> {
+    const key = `${this.prefix}:${router}:executions`;
+    await this.data.lpush(key, success ? "1" : "0");
+    await this.data.ltrim(key, 0, RoutersCache.EXECUTION_HISTORY_LENGTH - 1);
+    return await this.data.llen(key);
+  }
+
+  /**
+   * Get the success rate of a given router's recent execution attempts.
+   * @param router - Router address.
+   * @returns Number between 0 and 1 if any execution attempts were recorded, undefined if not.
+   */
+  public async getSuccessRate(router: string): Promise<number | undefined> {
+    const key = `${this.prefix}:${router}:executions`;
+    const res = await this.data.lrange(key, 0, RoutersCache.EXECUTION_HISTORY_LENGTH - 1);
+    if (res.length === 0) {
+      return undefined;
+    }
+    return res.filter((result) => result === "1").length / res.length;
+  }
+
+  /**
+   * Set the time a given router was last selected in an auction.
+   * @param router - Router address.
+   * @param timestamp - Timestamp (in seconds); defaults to now.
+   * @returns 1 if added, 0 if updated.
+   */
+  public async setLastSelected(router: string, timestamp = getNtpTimeSeconds()): Promise<number> {
+    const key = `${this.prefix}:${router}`;
+    return await this.data.hset(key, "lastSelected", timestamp.toString());
+  }
+
+  /**
+   * Get the time a given router was last selected in an auction.
+   * @param router - Router address.
+   * @returns Timestamp (in seconds) if found, undefined if the router was never selected.
+   */
+  public async getLastSelected(router: string): Promise<number | undefined> {
+    const key = `${this.prefix}:${router}`;
+    const res = await this.data.hget(key, "lastSelected");
+    return res ? Number(res) : undefined;
+  }
 }
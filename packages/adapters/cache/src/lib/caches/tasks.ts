@@ -1,4 +1,4 @@
-import { getRandomBytes32, RelayerApiFee, RelayerTaskStatus } from "@connext/nxtp-utils";
+import { getNtpTimeSeconds, getRandomBytes32, RelayerApiFee, RelayerTaskStatus } from "@connext/nxtp-utils";
 
 import { Cache } from "./cache";
 
@@ -22,6 +22,11 @@ export type CachedTaskData = {
  *
  * Task Tx Hash:
  *   key: hash:$taskId | value: string;
+ *
+ * Task Indexes:
+ *   key: index:$status:$chain | value: sorted set of $taskId, scored by the time the task was created;
+ * NOTE: $status and $chain are each "all" for the indexes that aren't filtered by them. A task is only in the indexes
+ * for its current status.
  */
 export class TasksCache extends Cache {
   private readonly prefix = "tasks";
@@ -53,6 +58,12 @@ export class TasksCache extends Cache {
     const taskId = getRandomBytes32();
     const key = `${this.prefix}:data`;
     await this.data.hset(key, taskId, JSON.stringify(params));
+    const created = getNtpTimeSeconds();
+    await this.data
+      .multi()
+      .zadd(this.getIndexKey(), created, taskId)
+      .zadd(this.getIndexKey(undefined, params.chain), created, taskId)
+      .exec();
     await this.setStatus(taskId, RelayerTaskStatus.Pending);
     return taskId;
   }
@@ -71,13 +82,27 @@ export class TasksCache extends Cache {
   }
 
   /**
-   * Set the status of a given task.
+   * Set the status of a given task, moving it to the indexes for that status.
    * @param taskId - The ID of the task we are setting the status of.
    * @param status - The status to set.
    * @returns 1 if added, 0 if updated.
    */
   private async setStatus(taskId: string, status: RelayerTaskStatus): Promise<number> {
-    return await this.data.hset(`${this.prefix}:status`, taskId, status.toString());
+    const [task, created] = await Promise.all([this.getTask(taskId), this.data.zscore(this.getIndexKey(), taskId)]);
+    const multi = this.data.multi().hset(`${this.prefix}:status`, taskId, status.toString());
+    if (task && created !== null) {
+      // Remove the task from every other status' indexes, rather than only the previous one's, so concurrent
+      // updates can't leave it listed under two statuses.
+      for (const other of Object.values(RelayerTaskStatus).filter((other) => other !== status)) {
+        multi.zrem(this.getIndexKey(other), taskId).zrem(this.getIndexKey(other, task.chain), taskId);
+      }
+      multi.zadd(this.getIndexKey(status), created, taskId).zadd(this.getIndexKey(status, task.chain), created, taskId);
+    }
+    const [[error, res]] = (await multi.exec())!;
+    if (error) {
+      throw error;
+    }
+    return res as number;
   }
 
   /// MARK - Task Errors
@@ -114,6 +139,18 @@ export class TasksCache extends Cache {
     return res ?? undefined;
   }
 
+  /**
+   * Set the hash of the transaction submitted for a given task. Will also set the status of the task to
+   * RelayerTaskStatus.Sent. The hash may be updated later on if the transaction is replaced (e.g. gas bumped).
+   * @param taskId - The ID of the task.
+   * @param txHash - The transaction hash to set.
+   * @returns Number indicating whether the transaction hash was updated.
+   */
+  public async setSent(taskId: string, txHash: string): Promise<number> {
+    await this.setStatus(taskId, RelayerTaskStatus.Sent);
+    return await this.data.hset(`${this.prefix}:hash`, taskId, txHash);
+  }
+
   /**
    * Set the transaction hash for a given task. Will also set the status of the task to RelayerTaskStatus.Completed.
    * @param taskId - The ID of the task.
@@ -125,34 +162,75 @@ export class TasksCache extends Cache {
     return await this.data.hset(`${this.prefix}:hash`, taskId, txHash);
   }
 
-  /// MARK - Pending Tasks
+  /// MARK - Task Listing
   /**
    * Retrieve all task IDs that are pending action, based on status marked RelayerTaskStatus.Pending.
    *
    * @returns An array of task IDs.
    */
   public async getPending(): Promise<string[]> {
-    const stream = this.data.hscanStream(`${this.prefix}:status`);
-    const keys: string[] = [];
-    await new Promise((res) => {
-      stream.on("data", (resultKeys: string[] = []) => {
-        // Note that resultKeys will sometimes contain duplicates due to SCAN's implementation in Redis
-        // link : https://redis.io/commands/scan/#scan-guarantees
-        for (const resultKey of resultKeys) {
-          if (!keys.includes(resultKey)) keys.push(resultKey);
-        }
-      });
-      stream.on("end", async () => {
-        res(undefined);
-      });
-    });
-    const filtered: string[] = [];
-    for (const key of keys) {
-      const status = await this.getStatus(key);
-      if (status === RelayerTaskStatus.Pending) {
-        filtered.push(key);
+    return await this.getTaskIds(RelayerTaskStatus.Pending);
+  }
+
+  /**
+   * Retrieve task IDs in the order the tasks were created, optionally filtered by status and chain.
+   *
+   * @param status - (optional) Only retrieve tasks with this status.
+   * @param chain - (optional) Only retrieve tasks for this chain.
+   * @param limit - (optional) Maximum number of task IDs to retrieve.
+   * @param after - (optional) Only retrieve tasks created after this task, i.e. the last task ID of the previous page.
+   * @returns An array of task IDs, which is empty if `after` isn't a known task.
+   */
+  public async getTaskIds(
+    status?: RelayerTaskStatus,
+    chain?: number,
+    limit?: number,
+    after?: string,
+  ): Promise<string[]> {
+    const key = this.getIndexKey(status, chain);
+    const range = (min: number | string) =>
+      limit === undefined
+        ? this.data.zrangebyscore(key, min, "+inf")
+        : this.data.zrangebyscore(key, min, "+inf", "LIMIT", 0, limit);
+    if (!after) {
+      return await range("-inf");
+    }
+
+    const created = await this.data.zscore(this.getIndexKey(), after);
+    if (created === null) {
+      return [];
+    }
+    // Tasks created at the same time as the cursor are ordered by ID.
+    const tied = (await this.data.zrangebyscore(key, created, created)).filter((taskId) => taskId > after);
+    return [...tied, ...(await range(`(${created}`))].slice(0, limit);
+  }
+
+  /**
+   * Adds tasks that aren't indexed yet, i.e. those created before the indexes were kept, to the indexes. Their
+   * creation time is unknown, so they're listed ahead of every other task. Tasks without data are skipped.
+   *
+   * @returns Number of tasks indexed.
+   */
+  public async reindex(): Promise<number> {
+    const statuses = await this.data.hgetall(`${this.prefix}:status`);
+    let indexed = 0;
+    for (const taskId of Object.keys(statuses)) {
+      const task = await this.getTask(taskId);
+      if (!task || (await this.data.zscore(this.getIndexKey(), taskId)) !== null) {
+        continue;
       }
+      await this.data
+        .multi()
+        .zadd(this.getIndexKey(), 0, taskId)
+        .zadd(this.getIndexKey(undefined, task.chain), 0, taskId)
+        .exec();
+      await this.setStatus(taskId, await this.getStatus(taskId));
+      indexed++;
     }
-    return filtered;
+    return indexed;
+  }
+
+  private getIndexKey(status?: RelayerTaskStatus, chain?: number): string {
+    return `${this.prefix}:index:${status ?? "all"}:${chain ?? "all"}`;
   }
 }
@@ -1,4 +1,4 @@
-import { Logger } from "@connext/nxtp-utils";
+import { Logger, XTransfer } from "@connext/nxtp-utils";
 
 export type CacheParams = { host?: string; port?: number; mock: boolean; logger: Logger };
 
@@ -6,3 +6,37 @@ export type TimestampedCacheValue<T> = {
   value: T;
   timestamp: number;
 };
+
+export type LiquidityReservation = {
+  domain: string;
+  asset: string;
+  amount: string;
+  // Timestamp (in seconds) at which the reservation was made.
+  timestamp: number;
+  // Time (in seconds) after which the reservation is released.
+  expiry: number;
+};
+
+export type SlowPathExecution = {
+  // ID of the relayer task created by the latest attempt, if the relayer accepted it.
+  taskId?: string;
+  // Number of times execution has been attempted.
+  attempts: number;
+  // Timestamp (in seconds) of the latest attempt.
+  timestamp: number;
+  // Timestamp (in seconds) after which the transfer may be retried. Only set if the latest attempt failed.
+  retryAt?: number;
+  // Reason the latest attempt failed, if it did.
+  error?: string;
+};
+
+export type DeadLetter = {
+  // The transfer carried by the dead-lettered message.
+  transfer: XTransfer;
+  // Number of times handling the message was attempted.
+  attempts: number;
+  // Timestamp (in seconds) at which the message was dead-lettered.
+  timestamp: number;
+  // Reason handling the message failed, if known.
+  error?: string;
+};
@@ -5,6 +5,8 @@ import {
   mock,
   mkAddress,
   Auction,
+  AuctionEvent,
+  AuctionEventType,
   AuctionStatus,
   AuctionTask,
   getRandomBytes32,
@@ -41,6 +43,11 @@ describe("AuctionCache", () => {
       const res = await redis.hget(`${prefix}:task`, transferId);
       return res ? JSON.parse(res) : null;
     },
+
+    addEvent: async (transferId: string, event: AuctionEvent) =>
+      await redis.rpush(`${prefix}:events:${transferId}`, JSON.stringify(event)),
+    setHistory: async (transferId: string, timestamp: number) =>
+      await redis.zadd(`${prefix}:history`, timestamp, transferId),
   };
 
   const logger = new Logger({ level: "debug" });
@@ -245,6 +252,153 @@ describe("AuctionCache", () => {
       });
     });
 
+    describe("#failTask", () => {
+      it("happy: should record the last bid combination sent as failed", async () => {
+        const transferId = getRandomBytes32();
+        const taskId = getRandomBytes32();
+        await mockRedisHelpers.setTask(transferId, {
+          timestamp: getNtpTimeSeconds().toString(),
+          taskId,
+          attempts: 2,
+          round: 2,
+          routers: [mkAddress("0xb"), mkAddress("0xc")],
+          failed: [{ round: 1, routers: [mkAddress("0xa")] }],
+        });
+
+        const res = await cache.failTask(transferId);
+        const { timestamp, ...task } = (await mockRedisHelpers.getTask(transferId))!;
+        expect(task).to.deep.eq({
+          taskId,
+          attempts: 2,
+          failed: [
+            { round: 1, routers: [mkAddress("0xa")] },
+            { round: 2, routers: [mkAddress("0xb"), mkAddress("0xc")] },
+          ],
+        });
+        expect(res).to.deep.eq({ timestamp, ...task });
+      });
+
+      it("should keep failed combinations when the next meta tx is sent", async () => {
+        const transferId = getRandomBytes32();
+        await cache.upsertTask({ transferId, taskId: getRandomBytes32(), round: 1, routers: [mkAddress("0xa")] });
+        await cache.failTask(transferId);
+
+        const taskId = getRandomBytes32();
+        await cache.upsertTask({ transferId, taskId, round: 1, routers: [mkAddress("0xb")] });
+        const { timestamp, ...task } = (await mockRedisHelpers.getTask(transferId))!;
+        expect(task).to.deep.eq({
+          taskId,
+          attempts: 2,
+          round: 1,
+          routers: [mkAddress("0xb")],
+          failed: [{ round: 1, routers: [mkAddress("0xa")] }],
+        });
+      });
+
+      it("sad: should return undefined if auction task does not exist", async () => {
+        const res = await cache.failTask(getRandomBytes32());
+        expect(res).to.eq(undefined);
+      });
+    });
+
+    describe("#addEvent", () => {
+      it("happy: should record events in order, along with timestamp", async () => {
+        const transferId = getRandomBytes32();
+        const currentTime = getNtpTimeSeconds();
+
+        expect(
+          await cache.addEvent(transferId, { type: AuctionEventType.BidReceived, routers: [mock.address.router] }),
+        ).to.eq(1);
+        expect(await cache.addEvent(transferId, { type: AuctionEventType.RoundChosen, round: 1 })).to.eq(2);
+
+        const events = await cache.getEvents(transferId);
+        expect(events.map(({ timestamp: _, ...event }) => event)).to.deep.eq([
+          { type: AuctionEventType.BidReceived, routers: [mock.address.router] },
+          { type: AuctionEventType.RoundChosen, round: 1 },
+        ]);
+        expect(+events[0].timestamp).to.be.gte(currentTime);
+      });
+
+      it("should drop the oldest events once the limit is reached", async () => {
+        const transferId = getRandomBytes32();
+        for (let i = 0; i < AuctionsCache.MAX_EVENTS; i++) {
+          await mockRedisHelpers.addEvent(transferId, {
+            type: AuctionEventType.RoundChosen,
+            round: i,
+            timestamp: getNtpTimeSeconds().toString(),
+          });
+        }
+
+        const res = await cache.addEvent(transferId, { type: AuctionEventType.Executed });
+        expect(res).to.eq(AuctionsCache.MAX_EVENTS);
+
+        const events = await cache.getEvents(transferId);
+        expect(events.length).to.eq(AuctionsCache.MAX_EVENTS);
+        expect(events[0].round).to.eq(1);
+        expect(events[events.length - 1].type).to.eq(AuctionEventType.Executed);
+      });
+
+      it("should mark the auction as most recently updated in the history", async () => {
+        const [transferIdA, transferIdB] = [getRandomBytes32(), getRandomBytes32()];
+        await mockRedisHelpers.setHistory(transferIdA, getNtpTimeSeconds() - 10);
+        await mockRedisHelpers.setHistory(transferIdB, getNtpTimeSeconds() - 5);
+
+        await cache.addEvent(transferIdA, { type: AuctionEventType.Executed });
+
+        const history = await cache.getHistory(10);
+        expect(history.map(({ transferId }) => transferId)).to.deep.eq([transferIdA, transferIdB]);
+      });
+
+      it("should set the events to expire", async () => {
+        const transferId = getRandomBytes32();
+        await cache.addEvent(transferId, { type: AuctionEventType.Executed });
+
+        const ttl = await redis.ttl(`${prefix}:events:${transferId}`);
+        expect(ttl).to.be.gt(0);
+        expect(ttl).to.be.lte(AuctionsCache.EVENTS_EXPIRY);
+      });
+
+      it("should drop auctions whose events expired from the history", async () => {
+        const [transferIdA, transferIdB] = [getRandomBytes32(), getRandomBytes32()];
+        await mockRedisHelpers.setHistory(transferIdA, getNtpTimeSeconds() - AuctionsCache.EVENTS_EXPIRY - 10);
+        await mockRedisHelpers.setHistory(transferIdB, getNtpTimeSeconds() - 10);
+
+        await cache.addEvent(getRandomBytes32(), { type: AuctionEventType.Executed });
+
+        const history = await cache.getHistory(10);
+        expect(history.map(({ transferId }) => transferId)).to.not.include(transferIdA);
+        expect(history.map(({ transferId }) => transferId)).to.include(transferIdB);
+      });
+    });
+
+    describe("#getEvents", () => {
+      it("should return empty array if no events were recorded", async () => {
+        const res = await cache.getEvents(getRandomBytes32());
+        expect(res).to.deep.eq([]);
+      });
+    });
+
+    describe("#getHistory", () => {
+      it("happy: should page through auctions, most recently updated first", async () => {
+        const timestamp = getNtpTimeSeconds();
+        const transferIds = new Array(5).fill(0).map(() => getRandomBytes32());
+        for (let i = 0; i < transferIds.length; i++) {
+          await mockRedisHelpers.setHistory(transferIds[i], timestamp + i);
+        }
+
+        expect(await cache.getHistory(2)).to.deep.eq([
+          { transferId: transferIds[4], updated: (timestamp + 4).toString() },
+          { transferId: transferIds[3], updated: (timestamp + 3).toString() },
+        ]);
+        expect((await cache.getHistory(2, 4)).map(({ transferId }) => transferId)).to.deep.eq([transferIds[0]]);
+      });
+
+      it("should return empty array if there is no history", async () => {
+        const res = await cache.getHistory(10);
+        expect(res).to.deep.eq([]);
+      });
+    });
+
     describe("#getQueuedTransfers", () => {
       const mockTransferIdBatch = (count: number) => new Array(count).fill(0).map(() => getRandomBytes32());
 
@@ -289,5 +443,19 @@ describe("AuctionCache", () => {
         expect(res).to.deep.eq([]);
       });
     });
+
+    describe("#getSentTransfers", () => {
+      it("happy: should retrieve only transfers with sent status", async () => {
+        const sentTransferIds = new Array(5).fill(0).map(() => getRandomBytes32());
+        for (const transferId of sentTransferIds) {
+          await mockRedisHelpers.setStatus(transferId, AuctionStatus.Sent);
+        }
+        await mockRedisHelpers.setStatus(getRandomBytes32(), AuctionStatus.Queued);
+        await mockRedisHelpers.setStatus(getRandomBytes32(), AuctionStatus.Executed);
+
+        const res = await cache.getSentTransfers();
+        expect(res).to.deep.eq(sentTransferIds);
+      });
+    });
   });
 });
@@ -0,0 +1,134 @@
+import { expect, Logger, mock, getNtpTimeSeconds } from "@connext/nxtp-utils";
+import { restore, stub } from "sinon";
+
+import { DeadLettersCache } from "../../../src/lib/caches/deadLetters";
+import { DeadLetter } from "../../../src/lib/entities";
+
+const RedisMock = require("ioredis-mock");
+const redis = new RedisMock();
+
+describe("DeadLettersCache", () => {
+  const prefix = "deadletters";
+  const queue = "xcalls";
+  const logger = new Logger({ level: "debug" });
+
+  // Round-tripped through JSON, as it would be when read back from the cache.
+  const mockDeadLetter = (overrides: Partial<DeadLetter> = {}): DeadLetter =>
+    JSON.parse(
+      JSON.stringify({
+        transfer: mock.entity.xtransfer(),
+        attempts: 3,
+        timestamp: getNtpTimeSeconds(),
+        error: "ExecuteError",
+        ...overrides,
+      }),
+    );
+
+  const mockRedisHelpers = {
+    setDeadLetter: async (deadLetter: DeadLetter) =>
+      await redis.hset(`${prefix}:${queue}`, deadLetter.transfer.transferId, JSON.stringify(deadLetter)),
+    getDeadLetter: async (transferId: string): Promise<DeadLetter | null> => {
+      const res = await redis.hget(`${prefix}:${queue}`, transferId);
+      return res ? (JSON.parse(res) as DeadLetter) : null;
+    },
+  };
+
+  let cache: DeadLettersCache;
+  beforeEach(async () => {
+    cache = new DeadLettersCache({ host: "mock", port: 1234, mock: true, logger });
+    await redis.flushall();
+  });
+
+  afterEach(() => {
+    restore();
+  });
+
+  describe("#getDeadLetter", () => {
+    it("happy: should get a dead-lettered message", async () => {
+      const deadLetter = mockDeadLetter();
+      await mockRedisHelpers.setDeadLetter(deadLetter);
+      expect(await cache.getDeadLetter(queue, deadLetter.transfer.transferId)).to.be.deep.eq(deadLetter);
+    });
+
+    it("should return undefined if there's no dead-lettered message for the transfer", async () => {
+      expect(await cache.getDeadLetter(queue, mock.entity.xtransfer().transferId)).to.be.undefined;
+    });
+
+    it("should not return messages dead-lettered from other queues", async () => {
+      const deadLetter = mockDeadLetter();
+      await mockRedisHelpers.setDeadLetter(deadLetter);
+      expect(await cache.getDeadLetter("other", deadLetter.transfer.transferId)).to.be.undefined;
+    });
+  });
+
+  describe("#getDeadLetters", () => {
+    it("happy: should get all dead-lettered messages", async () => {
+      const deadLetter1 = mockDeadLetter();
+      const deadLetter2 = mockDeadLetter({ attempts: 1, error: undefined });
+      await mockRedisHelpers.setDeadLetter(deadLetter1);
+      await mockRedisHelpers.setDeadLetter(deadLetter2);
+      expect(await cache.getDeadLetters(queue)).to.be.deep.eq({
+        [deadLetter1.transfer.transferId]: deadLetter1,
+        [deadLetter2.transfer.transferId]: deadLetter2,
+      });
+    });
+
+    it("should return an empty object if there are none", async () => {
+      expect(await cache.getDeadLetters(queue)).to.be.deep.eq({});
+    });
+  });
+
+  describe("#addDeadLetter", () => {
+    it("happy: should store a dead-lettered message", async () => {
+      const deadLetter = mockDeadLetter();
+      await cache.addDeadLetter(queue, deadLetter);
+      expect(await mockRedisHelpers.getDeadLetter(deadLetter.transfer.transferId)).to.be.deep.eq(deadLetter);
+    });
+
+    it("should replace a previous message for the same transfer", async () => {
+      const deadLetter = mockDeadLetter();
+      await mockRedisHelpers.setDeadLetter(deadLetter);
+      await cache.addDeadLetter(queue, { ...deadLetter, attempts: 5 });
+      expect((await mockRedisHelpers.getDeadLetter(deadLetter.transfer.transferId))!.attempts).to.be.eq(5);
+    });
+
+    it("should drop the oldest messages once over the limit", async () => {
+      stub(DeadLettersCache, "MAX_DEAD_LETTERS").value(2);
+      const timestamp = getNtpTimeSeconds();
+      const deadLetters = [0, 1, 2].map((i) => mockDeadLetter({ timestamp: timestamp + i }));
+      // Add the oldest last, to make sure messages are dropped by timestamp.
+      await cache.addDeadLetter(queue, deadLetters[1]);
+      await cache.addDeadLetter(queue, deadLetters[2]);
+      await cache.addDeadLetter(queue, deadLetters[0]);
+
+      expect(Object.keys(await cache.getDeadLetters(queue))).to.have.members([
+        deadLetters[1].transfer.transferId,
+        deadLetters[2].transfer.transferId,
+      ]);
+    });
+  });
+
+  describe("#removeDeadLetters", () => {
+    it("happy: should remove the given dead-lettered messages", async () => {
+      const deadLetter1 = mockDeadLetter();
+      const deadLetter2 = mockDeadLetter();
+      await mockRedisHelpers.setDeadLetter(deadLetter1);
+      await mockRedisHelpers.setDeadLetter(deadLetter2);
+
+      expect(await cache.removeDeadLetters(queue, [deadLetter1.transfer.transferId])).to.be.eq(1);
+      expect(await mockRedisHelpers.getDeadLetter(deadLetter1.transfer.transferId)).to.be.null;
+      expect(await mockRedisHelpers.getDeadLetter(deadLetter2.transfer.transferId)).to.be.deep.eq(deadLetter2);
+    });
+
+    it("should remove the messages from the index", async () => {
+      const deadLetter = mockDeadLetter();
+      await cache.addDeadLetter(queue, deadLetter);
+      await cache.removeDeadLetters(queue, [deadLetter.transfer.transferId]);
+      expect(await redis.zcard(`${prefix}:${queue}:index`)).to.be.eq(0);
+    });
+
+    it("should do nothing if no transfer IDs are given", async () => {
+      expect(await cache.removeDeadLetters(queue, [])).to.be.eq(0);
+    });
+  });
+});
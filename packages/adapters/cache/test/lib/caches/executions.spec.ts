@@ -0,0 +1,104 @@
+import { expect, Logger, mkBytes32, getNtpTimeSeconds } from "@connext/nxtp-utils";
+
+import { ExecutionsCache } from "../../../src/lib/caches/executions";
+import { SlowPathExecution } from "../../../src/lib/entities";
+
+const RedisMock = require("ioredis-mock");
+const redis = new RedisMock();
+
+describe("ExecutionsCache", () => {
+  const prefix = "executions";
+  const logger = new Logger({ level: "debug" });
+  const transferId = mkBytes32("0x1");
+  const taskId = mkBytes32("0x2");
+
+  const mockRedisHelpers = {
+    setExecution: async (transferId: string, execution: SlowPathExecution) =>
+      await redis.hset(`${prefix}:data`, transferId, JSON.stringify(execution)),
+    getExecution: async (transferId: string): Promise<SlowPathExecution | null> => {
+      const res = await redis.hget(`${prefix}:data`, transferId);
+      return res ? (JSON.parse(res) as SlowPathExecution) : null;
+    },
+  };
+
+  let cache: ExecutionsCache;
+  beforeEach(async () => {
+    cache = new ExecutionsCache({ host: "mock", port: 1234, mock: true, logger });
+    await redis.flushall();
+  });
+
+  describe("#getExecution", () => {
+    it("happy: should get an execution record", async () => {
+      const execution = { taskId, attempts: 1, timestamp: getNtpTimeSeconds() };
+      await mockRedisHelpers.setExecution(transferId, execution);
+      expect(await cache.getExecution(transferId)).to.be.deep.eq(execution);
+    });
+
+    it("should return undefined if the transfer isn't tracked", async () => {
+      expect(await cache.getExecution(transferId)).to.be.undefined;
+    });
+  });
+
+  describe("#getExecutions", () => {
+    it("happy: should get all execution records", async () => {
+      const execution = { taskId, attempts: 1, timestamp: getNtpTimeSeconds() };
+      await mockRedisHelpers.setExecution(transferId, execution);
+      await mockRedisHelpers.setExecution(mkBytes32("0x3"), { ...execution, attempts: 2 });
+      expect(await cache.getExecutions()).to.be.deep.eq({
+        [transferId]: execution,
+        [mkBytes32("0x3")]: { ...execution, attempts: 2 },
+      });
+    });
+  });
+
+  describe("#setAttempt", () => {
+    it("happy: should start tracking a transfer", async () => {
+      const execution = await cache.setAttempt(transferId, taskId);
+      expect(execution.attempts).to.be.eq(1);
+      expect(execution.taskId).to.be.eq(taskId);
+      expect(await mockRedisHelpers.getExecution(transferId)).to.be.deep.eq(execution);
+    });
+
+    it("should increment the attempts and clear the previous error", async () => {
+      await mockRedisHelpers.setExecution(transferId, {
+        taskId,
+        attempts: 2,
+        timestamp: 0,
+        retryAt: 10,
+        error: "Cancelled",
+      });
+      const execution = await cache.setAttempt(transferId, mkBytes32("0x4"));
+      expect(execution.attempts).to.be.eq(3);
+      expect(execution.taskId).to.be.eq(mkBytes32("0x4"));
+      expect(execution.error).to.be.undefined;
+      expect(execution.retryAt).to.be.undefined;
+    });
+  });
+
+  describe("#setFailed", () => {
+    it("happy: should record the failure and when to retry", async () => {
+      await mockRedisHelpers.setExecution(transferId, { taskId, attempts: 1, timestamp: 0 });
+      const execution = await cache.setFailed(transferId, "Cancelled", 60);
+      expect(execution!.error).to.be.eq("Cancelled");
+      expect(execution!.retryAt).to.be.gte(getNtpTimeSeconds() + 59);
+      expect(await mockRedisHelpers.getExecution(transferId)).to.be.deep.eq(execution);
+    });
+
+    it("should do nothing if the transfer isn't tracked", async () => {
+      expect(await cache.setFailed(transferId, "Cancelled", 60)).to.be.undefined;
+      expect(await mockRedisHelpers.getExecution(transferId)).to.be.null;
+    });
+  });
+
+  describe("#removeExecutions", () => {
+    it("happy: should stop tracking the transfers", async () => {
+      await mockRedisHelpers.setExecution(transferId, { taskId, attempts: 1, timestamp: 0 });
+      expect(await cache.removeExecutions([transferId, mkBytes32("0x3")])).to.be.eq(1);
+      expect(await mockRedisHelpers.getExecution(transferId)).to.be.null;
+    });
+
+    it("should do nothing if no transfers are given", async () => {
+      expect(await cache.removeExecutions([])).to.be.eq(0);
+    });
+  });
+});
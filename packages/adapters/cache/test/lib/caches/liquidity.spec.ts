@@ -0,0 +1,216 @@
+import { Logger, expect, mock, getNtpTimeSeconds, mkAddress, mkBytes32 } from "@connext/nxtp-utils";
+
+import { LiquidityCache } from "../../../src/index";
+import { LiquidityReservation } from "../../../src/lib/entities";
+
+const RedisMock = require("ioredis-mock");
+const redis = new RedisMock();
+
+describe("LiquidityCache", () => {
+  const prefix = "liquidity";
+  // Helpers for accessing mock cache directly and altering state.
+  const mockRedisHelpers = {
+    setReservation: async (router: string, transferId: string, reservation: LiquidityReservation) =>
+      await redis.hset(`${prefix}:${router}:reservations`, transferId, JSON.stringify(reservation)),
+    getReservation: async (router: string, transferId: string): Promise<LiquidityReservation | null> => {
+      const res = await redis.hget(`${prefix}:${router}:reservations`, transferId);
+      return res ? (JSON.parse(res) as LiquidityReservation) : null;
+    },
+  };
+
+  const domain = mock.domain.A;
+  const router = mock.address.router.toLowerCase();
+  const asset = mock.asset.A.address.toLowerCase();
+
+  const logger = new Logger({ level: "debug" });
+  let cache: LiquidityCache;
+  beforeEach(() => {
+    cache = new LiquidityCache({ host: "mock", port: 1234, mock: true, logger });
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+  });
+
+  describe("#reserveLiquidity", () => {
+    it("happy: should reserve liquidity for the transfer, along with timestamp", async () => {
+      const transferId = mkBytes32("0x1");
+      const currentTime = getNtpTimeSeconds();
+
+      await cache.reserveLiquidity(domain, router, asset, transferId, "1234567890", 60);
+      const res = await mockRedisHelpers.getReservation(router, transferId);
+
+      expect(res.domain).to.be.eq(domain);
+      expect(res.asset).to.be.eq(asset);
+      expect(res.amount).to.be.eq("1234567890");
+      expect(res.expiry).to.be.eq(60);
+      expect(res.timestamp).to.be.gte(currentTime);
+    });
+
+    it("happy: should use the default expiry", async () => {
+      const transferId = mkBytes32("0x1");
+
+      await cache.reserveLiquidity(domain, router, asset, transferId, "1234567890");
+      const res = await mockRedisHelpers.getReservation(router, transferId);
+
+      expect(res.expiry).to.be.eq(LiquidityCache.DEFAULT_RESERVATION_EXPIRY);
+    });
+  });
+
+  describe("#reserveLiquidityWithinCap", () => {
+    it("happy: should reserve liquidity if the total stays within the cap", async () => {
+      await cache.reserveLiquidity(domain, router, asset, mkBytes32("0x1"), "100");
+      const reserved = await cache.reserveLiquidityWithinCap(domain, router, asset, mkBytes32("0x2"), "200", "300", 60);
+      expect(reserved).to.be.true;
+      const res = await mockRedisHelpers.getReservation(router, mkBytes32("0x2"));
+      expect(res!.amount).to.be.eq("200");
+      expect(res!.expiry).to.be.eq(60);
+    });
+
+    it("should not reserve liquidity if the total would exceed the cap", async () => {
+      await cache.reserveLiquidity(domain, router, asset, mkBytes32("0x1"), "100");
+      const reserved = await cache.reserveLiquidityWithinCap(domain, router, asset, mkBytes32("0x2"), "201", "300");
+      expect(reserved).to.be.false;
+      expect(await mockRedisHelpers.getReservation(router, mkBytes32("0x2"))).to.be.null;
+    });
+
+    it("should ignore reservations for other domains and assets, and the transfer's own reservation", async () => {
+      await cache.reserveLiquidity(mock.domain.B, router, asset, mkBytes32("0x1"), "100");
+      await cache.reserveLiquidity(domain, router, mock.asset.B.address, mkBytes32("0x2"), "100");
+      await cache.reserveLiquidity(domain, router, asset, mkBytes32("0x3"), "100");
+      const reserved = await cache.reserveLiquidityWithinCap(domain, router, asset, mkBytes32("0x3"), "300", "300");
+      expect(reserved).to.be.true;
+      expect((await cache.getReservedLiquidity(domain, router, asset)).toString()).to.be.eq("300");
+    });
+
+    it("should release the lock once the reservation is made", async () => {
+      await cache.reserveLiquidityWithinCap(domain, router, asset, mkBytes32("0x1"), "100", "300");
+      expect(await redis.get(`${prefix}:${router}:lock`)).to.be.null;
+    });
+  });
+
+  describe("#releaseLiquidity", () => {
+    it("happy: should release the reservation", async () => {
+      const transferId = mkBytes32("0x1");
+      await cache.reserveLiquidity(domain, router, asset, transferId, "1234567890");
+
+      const res = await cache.releaseLiquidity(router, transferId);
+
+      expect(res).to.be.eq(1);
+      expect(await mockRedisHelpers.getReservation(router, transferId)).to.be.null;
+    });
+
+    it("should return 0 if there was no reservation", async () => {
+      expect(await cache.releaseLiquidity(router, mkBytes32("0x1"))).to.be.eq(0);
+    });
+  });
+
+  describe("#getReservations", () => {
+    it("happy: should return reservations and release expired ones", async () => {
+      const reservation = { domain, asset, amount: "100", timestamp: getNtpTimeSeconds(), expiry: 60 };
+      await mockRedisHelpers.setReservation(router, mkBytes32("0x1"), reservation);
+      await mockRedisHelpers.setReservation(router, mkBytes32("0x2"), {
+        ...reservation,
+        timestamp: getNtpTimeSeconds() - 120,
+      });
+
+      const res = await cache.getReservations(router);
+
+      expect(res).to.be.deep.eq({ [mkBytes32("0x1")]: reservation });
+      expect(await mockRedisHelpers.getReservation(router, mkBytes32("0x2"))).to.be.null;
+    });
+  });
+
+  describe("#getReservedLiquidity", () => {
+    it("happy: should sum reservations for the domain and asset", async () => {
+      await cache.reserveLiquidity(domain, router, asset, mkBytes32("0x1"), "100");
+      await cache.reserveLiquidity(domain, router, asset.toUpperCase(), mkBytes32("0x2"), "200");
+      await cache.reserveLiquidity(mock.domain.B, router, asset, mkBytes32("0x3"), "400");
+
+      const res = await cache.getReservedLiquidity(domain, router, asset);
+
+      expect(res.toString()).to.be.eq("300");
+    });
+
+    it("should return zero if there are no reservations", async () => {
+      const res = await cache.getReservedLiquidity(domain, router, asset);
+
+      expect(res.toString()).to.be.eq("0");
+    });
+  });
+
+  describe("#pause", () => {
+    it("happy: should pause a domain", async () => {
+      expect(await cache.pause(router, domain)).to.be.eq(1);
+      expect(await cache.isPaused(router, domain, asset)).to.be.true;
+      expect(await cache.isPaused(router, mock.domain.B, asset)).to.be.false;
+    });
+
+    it("happy: should pause an asset on a domain", async () => {
+      await cache.pause(router, domain, asset.toUpperCase());
+      expect(await cache.isPaused(router, domain, asset)).to.be.true;
+      expect(await cache.isPaused(router, domain, mock.asset.B.address)).to.be.false;
+    });
+
+    it("should return 0 if already paused", async () => {
+      await cache.pause(router, domain);
+      expect(await cache.pause(router, domain)).to.be.eq(0);
+    });
+  });
+
+  describe("#resume", () => {
+    it("happy: should resume a paused domain", async () => {
+      await cache.pause(router, domain);
+      expect(await cache.resume(router, domain)).to.be.eq(1);
+      expect(await cache.isPaused(router, domain, asset)).to.be.false;
+    });
+
+    it("should not resume assets paused individually", async () => {
+      await cache.pause(router, domain);
+      await cache.pause(router, domain, asset);
+      await cache.resume(router, domain);
+      expect(await cache.isPaused(router, domain, asset)).to.be.true;
+    });
+
+    it("should return 0 if not paused", async () => {
+      expect(await cache.resume(router, domain, asset)).to.be.eq(0);
+    });
+  });
+
+  describe("#getPaused", () => {
+    it("happy: should list paused domains and assets", async () => {
+      await cache.pause(router, domain);
+      await cache.pause(router, mock.domain.B, asset);
+
+      expect(await cache.getPaused(router)).to.be.deep.eq([{ domain }, { domain: mock.domain.B, asset }]);
+    });
+
+    it("should return an empty list if nothing is paused", async () => {
+      expect(await cache.getPaused(router)).to.be.deep.eq([]);
+    });
+  });
+
+  describe("#moveRouter", () => {
+    const next = mkAddress("0xdef").toLowerCase();
+
+    it("happy: should move reservations and paused bidding to the new address", async () => {
+      await cache.reserveLiquidity(domain, router, asset, mkBytes32("0x1"), "100");
+      await cache.reserveLiquidity(domain, next, asset, mkBytes32("0x2"), "200");
+      await cache.pause(router, domain);
+      await cache.pause(next, mock.domain.B, asset);
+
+      expect(await cache.moveRouter(router, next)).to.be.true;
+      expect(Object.keys(await cache.getReservations(next))).to.have.members([mkBytes32("0x1"), mkBytes32("0x2")]);
+      expect(await cache.getPaused(next)).to.be.deep.eq([{ domain }, { domain: mock.domain.B, asset }]);
+      expect(await cache.getReservations(router)).to.be.deep.eq({});
+      expect(await cache.getPaused(router)).to.be.deep.eq([]);
+    });
+
+    it("should keep the new address's state when moving again", async () => {
+      await cache.pause(router, domain);
+      await cache.moveRouter(router, next);
+      await cache.moveRouter(router, next);
+      expect(await cache.getPaused(next)).to.be.deep.eq([{ domain }]);
+    });
+  });
+});
@@ -130,4 +130,61 @@ describe("AuctionCache", () => {
       expect(res.timestamp).to.be.gte(currentTime);
     });
   });
+
+  describe("#recordExecution", () => {
+    it("happy: should record execution results, most recent first", async () => {
+      const router = mock.address.router;
+
+      await cache.recordExecution(router, true);
+      const res = await cache.recordExecution(router, false);
+
+      expect(res).to.be.eq(2);
+      expect(await redis.lrange(`${prefix}:${router}:executions`, 0, -1)).to.be.deep.eq(["0", "1"]);
+    });
+
+    it("should only keep the most recent execution results", async () => {
+      const router = mock.address.router;
+
+      for (let i = 0; i < RoutersCache.EXECUTION_HISTORY_LENGTH + 5; i++) {
+        await cache.recordExecution(router, true);
+      }
+
+      expect(await redis.llen(`${prefix}:${router}:executions`)).to.be.eq(RoutersCache.EXECUTION_HISTORY_LENGTH);
+    });
+  });
+
+  describe("#getSuccessRate", () => {
+    it("happy: should return the ratio of successful executions", async () => {
+      const router = mock.address.router;
+      await redis.lpush(`${prefix}:${router}:executions`, "1", "0", "1", "1");
+
+      const res = await cache.getSuccessRate(router);
+
+      expect(res).to.be.eq(0.75);
+    });
+
+    it("sad: should return undefined if no executions were recorded", async () => {
+      const res = await cache.getSuccessRate(mock.address.router);
+
+      expect(res).to.be.undefined;
+    });
+  });
+
+  describe("#setLastSelected / #getLastSelected", () => {
+    it("happy: should set and get the time the router was last selected", async () => {
+      const router = mock.address.router;
+      const currentTime = getNtpTimeSeconds();
+
+      await cache.setLastSelected(router);
+      const res = await cache.getLastSelected(router);
+
+      expect(res).to.be.gte(currentTime);
+    });
+
+    it("sad: should return undefined if the router was never selected", async () => {
+      const res = await cache.getLastSelected(mock.address.router);
+
+      expect(res).to.be.undefined;
+    });
+  });
 });
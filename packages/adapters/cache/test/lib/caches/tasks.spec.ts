@@ -1,4 +1,4 @@
-import { stub, SinonStub } from "sinon";
+import { stub, useFakeTimers, SinonFakeTimers, SinonStub } from "sinon";
 import {
   Logger,
   expect,
@@ -54,11 +54,25 @@ describe("TasksCache", () => {
   };
 
   let cache: TasksCache;
+  let clock: SinonFakeTimers;
+
+  // Creates tasks one after the other, by default a second apart so they're ordered by creation time.
+  const createTasks = async (count: number, spaced = true): Promise<string[]> => {
+    const taskIds: string[] = [];
+    for (let i = 0; i < count; i++) {
+      taskIds.push(await cache.createTask(mockTask));
+      if (spaced) clock.tick(1_000);
+    }
+    return taskIds;
+  };
+
   beforeEach(() => {
+    clock = useFakeTimers({ now: 1_000_000_000, toFake: ["Date"] });
     cache = new TasksCache({ host: "mock", port: 1234, mock: true, logger });
   });
 
   afterEach(async () => {
+    clock.restore();
     await redis.flushall();
   });
 
@@ -157,39 +171,41 @@ describe("TasksCache", () => {
     });
   });
 
-  describe("#getPending", () => {
-    const mockTaskIdBatch = (count: number) => new Array(count).fill(0).map(() => getRandomBytes32());
+  describe("#setSent", () => {
+    it("happy: should set task hash and status", async () => {
+      const taskId = getRandomBytes32();
+      const hash = getRandomBytes32();
+      const res = await cache.setSent(taskId, hash);
+      expect(res).to.eq(1);
 
+      expect(await cache.getHash(taskId)).to.be.eq(hash);
+      expect(await mockRedisHelpers.getStatus(taskId)).to.be.eq(RelayerTaskStatus.Sent);
+    });
+  });
+
+  describe("#getPending", () => {
     it("happy: should retrieve existing pending tasks", async () => {
-      const taskIds = mockTaskIdBatch(10);
-      for (const taskId of taskIds) {
-        await mockRedisHelpers.setStatus(taskId, RelayerTaskStatus.Pending);
-      }
+      const taskIds = await createTasks(10);
 
       const res = await cache.getPending();
-      expect(res).to.deep.eq(taskIds);
+      expect(res).to.have.members(taskIds);
     });
 
     it("should not retrieve tasks of other statuses", async () => {
-      const pendingTaskIds = mockTaskIdBatch(10);
-      for (const taskId of pendingTaskIds) {
-        await mockRedisHelpers.setStatus(taskId, RelayerTaskStatus.Pending);
-      }
+      const pendingTaskIds = await createTasks(10);
 
       // Simulate: a lot have been sent already.
-      const completedTaskIds = mockTaskIdBatch(1234);
-      for (const taskId of completedTaskIds) {
-        await mockRedisHelpers.setStatus(taskId, RelayerTaskStatus.Completed);
+      for (const taskId of await createTasks(25)) {
+        await cache.setHash(taskId, getRandomBytes32());
       }
 
       const res = await cache.getPending();
-      expect(res).to.deep.eq(pendingTaskIds);
+      expect(res).to.have.members(pendingTaskIds);
     });
 
     it("should return empty array if no tasks have pending status", async () => {
-      const completedTaskIds = mockTaskIdBatch(27);
-      for (const taskId of completedTaskIds) {
-        await mockRedisHelpers.setStatus(taskId, RelayerTaskStatus.Completed);
+      for (const taskId of await createTasks(7)) {
+        await cache.setHash(taskId, getRandomBytes32());
       }
 
       const res = await cache.getPending();
@@ -201,4 +217,73 @@ describe("TasksCache", () => {
       expect(res).to.deep.eq([]);
     });
   });
+
+  describe("#getTaskIds", () => {
+    it("happy: should retrieve all tasks in the order they were created", async () => {
+      const taskIds = await createTasks(3);
+      await cache.setSent(taskIds[1], getRandomBytes32());
+      await cache.setHash(taskIds[2], getRandomBytes32());
+
+      const res = await cache.getTaskIds();
+      expect(res).to.deep.eq(taskIds);
+    });
+
+    it("happy: should retrieve tasks with the given status", async () => {
+      const taskIds = await createTasks(3);
+      await cache.setSent(taskIds[0], getRandomBytes32());
+      await cache.setSent(taskIds[2], getRandomBytes32());
+
+      const res = await cache.getTaskIds(RelayerTaskStatus.Sent);
+      expect(res).to.deep.eq([taskIds[0], taskIds[2]]);
+    });
+
+    it("happy: should retrieve tasks with the given status and chain", async () => {
+      const taskIds = await createTasks(2);
+      const otherChain = await cache.createTask({ ...mockTask, chain: 2 });
+      await cache.setError(taskIds[1], "some error");
+
+      expect(await cache.getTaskIds(RelayerTaskStatus.Pending, mockTask.chain)).to.deep.eq([taskIds[0]]);
+      expect(await cache.getTaskIds(undefined, 2)).to.deep.eq([otherChain]);
+      expect(await cache.getTaskIds(RelayerTaskStatus.Cancelled, 2)).to.deep.eq([]);
+    });
+
+    it("happy: should page through tasks after the given task", async () => {
+      const taskIds = await createTasks(5);
+
+      expect(await cache.getTaskIds(undefined, undefined, 2)).to.deep.eq(taskIds.slice(0, 2));
+      expect(await cache.getTaskIds(undefined, undefined, 2, taskIds[1])).to.deep.eq(taskIds.slice(2, 4));
+      expect(await cache.getTaskIds(undefined, undefined, 2, taskIds[3])).to.deep.eq(taskIds.slice(4));
+    });
+
+    it("should order tasks created at the same time by ID", async () => {
+      const taskIds = (await createTasks(4, false)).sort();
+
+      expect(await cache.getTaskIds()).to.deep.eq(taskIds);
+      expect(await cache.getTaskIds(undefined, undefined, 2, taskIds[0])).to.deep.eq(taskIds.slice(1, 3));
+    });
+
+    it("should return empty array if the cursor isn't a known task", async () => {
+      await createTasks(2);
+      expect(await cache.getTaskIds(undefined, undefined, 2, getRandomBytes32())).to.deep.eq([]);
+    });
+  });
+
+  describe("#reindex", () => {
+    it("happy: should index tasks created before the indexes were kept", async () => {
+      const indexed = await createTasks(1);
+      const taskIds = [getRandomBytes32(), getRandomBytes32()];
+      for (const taskId of taskIds) {
+        await mockRedisHelpers.createTask(taskId, mockTask);
+      }
+      await mockRedisHelpers.setStatus(taskIds[0], RelayerTaskStatus.Pending);
+      await mockRedisHelpers.setStatus(taskIds[1], RelayerTaskStatus.Sent);
+      // Tasks without data are skipped.
+      await mockRedisHelpers.setStatus(getRandomBytes32(), RelayerTaskStatus.Pending);
+
+      expect(await cache.reindex()).to.eq(2);
+      expect(await cache.getPending()).to.have.members([taskIds[0], ...indexed]);
+      expect(await cache.getTaskIds(RelayerTaskStatus.Sent, mockTask.chain)).to.deep.eq([taskIds[1]]);
+      expect(await cache.reindex()).to.eq(0);
+    });
+  });
 });
@@ -0,0 +1,60 @@
+import { Logger } from "@connext/nxtp-utils";
+
+import { Relayer, RelayerBackend, RelayerConfig, RelayerType } from "./lib/entities";
+import { RelayerConfigInvalid } from "./lib/errors";
+import { ConnextRelayer, FallbackRelayer, GelatoRelayer, LocalRelayer } from "./lib/relayers";
+
+export * from "./lib/entities";
+export * from "./lib/errors";
+export * from "./lib/relayers";
+
+/**
+ * Creates a single relayer backend from its config.
+ *
+ * @param config - Relayer config.
+ * @param logger - Logger used by the relayer.
+ */
+export const createRelayerBackend = (config: RelayerConfig, logger: Logger): RelayerBackend => {
+  switch (config.type) {
+    case RelayerType.Gelato:
+      return new GelatoRelayer(logger);
+    case RelayerType.Connext:
+      if (!config.url) {
+        throw new RelayerConfigInvalid("Connext relayer requires a url", { config });
+      }
+      return new ConnextRelayer(config.url, logger);
+    case RelayerType.Local:
+      if (!config.url || !config.privateKey) {
+        throw new RelayerConfigInvalid("Local relayer requires a url and a privateKey", { type: config.type });
+      }
+      return new LocalRelayer(config.url, config.privateKey, logger);
+    default:
+      throw new RelayerConfigInvalid(`Unknown relayer type: ${config.type}`, { config });
+  }
+};
+
+/**
+ * Creates a relayer that sends transactions for each chain through that chain's configured relayers, in order,
+ * falling back on the next relayer whenever one fails.
+ *
+ * @param configs - Relayer configs for each chain ID, in order of preference.
+ * @param logger - Logger used by the relayers.
+ */
+export const createRelayer = (configs: Record<number, RelayerConfig[]>, logger: Logger): Relayer => {
+  // Backends with the same config are shared across chains, so task lookups only hit each backend once.
+  const backends: Map<string, RelayerBackend> = new Map();
+  const relayers: Map<number, RelayerBackend[]> = new Map();
+  for (const [chainId, chainConfigs] of Object.entries(configs)) {
+    relayers.set(
+      Number(chainId),
+      chainConfigs.map((config) => {
+        const key = `${config.type}:${config.url ?? ""}:${config.privateKey ?? ""}`;
+        if (!backends.has(key)) {
+          backends.set(key, createRelayerBackend(config, logger));
+        }
+        return backends.get(key)!;
+      }),
+    );
+  }
+  return new FallbackRelayer(relayers, logger);
+};
@@ -0,0 +1,62 @@
+import { Type, Static } from "@sinclair/typebox";
+import { RelayerApiFee, RelayerTaskStatus, RequestContext } from "@connext/nxtp-utils";
+
+export enum RelayerType {
+  Gelato = "Gelato",
+  Connext = "Connext",
+  Local = "Local",
+}
+
+export const TRelayerConfig = Type.Object({
+  type: Type.Enum(RelayerType),
+  // Connext relayer: URL of the relayer server. Local relayer: RPC provider URL for the chain.
+  url: Type.Optional(Type.String()),
+  // Local relayer only: private key of the account that will submit transactions.
+  privateKey: Type.Optional(Type.String()),
+});
+
+export type RelayerConfig = Static<typeof TRelayerConfig>;
+
+/**
+ * A backend capable of submitting meta transactions on our behalf and reporting back on their progress.
+ */
+export interface Relayer {
+  /**
+   * Sends a meta transaction to be executed by the relayer.
+   *
+   * @param chainId - Chain ID the transaction will be executed on.
+   * @param destinationAddress - Target address of the transaction.
+   * @param encodedData - Calldata of the transaction.
+   * @param fee - Fee offered to the relayer. Relayers that don't take a fee with the task ignore it.
+   * @returns The ID of the task created by the relayer, used for tracking its status.
+   */
+  send(
+    chainId: number,
+    destinationAddress: string,
+    encodedData: string,
+    fee: RelayerApiFee,
+    _requestContext: RequestContext,
+  ): Promise<string>;
+
+  /**
+   * Gets the status of a task previously created by `send`.
+   *
+   * @param taskId - ID of the task.
+   * @returns The status of the task; RelayerTaskStatus.None if the relayer doesn't know about it.
+   */
+  getTaskStatus(taskId: string): Promise<RelayerTaskStatus>;
+
+  /**
+   * Gets the address the relayer will submit transactions from on the given chain.
+   *
+   * @param chainId - Chain ID the transaction will be executed on.
+   */
+  getRelayerAddress(chainId: number): Promise<string>;
+}
+
+/**
+ * A single relayer network.
+ */
+export interface RelayerBackend extends Relayer {
+  readonly type: RelayerType;
+}
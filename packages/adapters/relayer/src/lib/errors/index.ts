@@ -0,0 +1,39 @@
+import { NxtpError } from "@connext/nxtp-utils";
+
+export class RelayerSendFailed extends NxtpError {
+  constructor(context: any = {}) {
+    super(`Relayer Send Failed`, context, RelayerSendFailed.name);
+  }
+}
+
+export class ChainNotSupportedByRelayer extends NxtpError {
+  constructor(chainId: number, relayer: string, context: any = {}) {
+    super(
+      `Chain ${chainId} is not supported by the ${relayer} relayer.`,
+      { ...context, chainId, relayer },
+      ChainNotSupportedByRelayer.name,
+    );
+  }
+}
+
+export class NoRelayersConfigured extends NxtpError {
+  constructor(chainId: number, context: any = {}) {
+    super(`No relayers configured for chain ${chainId}.`, { ...context, chainId }, NoRelayersConfigured.name);
+  }
+}
+
+export class AllRelayersFailed extends NxtpError {
+  constructor(chainId: number, errors: any[], context: any = {}) {
+    super(
+      `All relayers configured for chain ${chainId} failed.`,
+      { ...context, chainId, errors },
+      AllRelayersFailed.name,
+    );
+  }
+}
+
+export class RelayerConfigInvalid extends NxtpError {
+  constructor(reason: string, context: any = {}) {
+    super(`Relayer config invalid: ${reason}`, context, RelayerConfigInvalid.name);
+  }
+}
@@ -0,0 +1,21 @@
+import {
+  gelatoSend,
+  isChainSupportedByGelato,
+  getGelatoRelayerAddress,
+  getGelatoTaskStatus,
+  connextRelayerSend,
+  connextRelayerGetTaskStatus,
+  connextRelayerGetAddress,
+} from "@connext/nxtp-utils";
+
+export const getHelpers = () => {
+  return {
+    gelatoSend,
+    isChainSupportedByGelato,
+    getGelatoRelayerAddress,
+    getGelatoTaskStatus,
+    connextRelayerSend,
+    connextRelayerGetTaskStatus,
+    connextRelayerGetAddress,
+  };
+};
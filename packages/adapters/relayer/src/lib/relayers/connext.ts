@@ -0,0 +1,52 @@
+import { createLoggingContext, Logger, RelayerApiFee, RelayerTaskStatus, RequestContext } from "@connext/nxtp-utils";
+
+import { RelayerBackend, RelayerType } from "../entities";
+import { getHelpers } from "../helpers";
+
+/**
+ * @classdesc Sends meta transactions through a Connext relayer (see `agents/relayer`).
+ */
+export class ConnextRelayer implements RelayerBackend {
+  public readonly type = RelayerType.Connext;
+
+  constructor(private readonly url: string, private readonly logger: Logger) {}
+
+  public async getRelayerAddress(): Promise<string> {
+    const { connextRelayerGetAddress } = getHelpers();
+    // The Connext relayer uses the same wallet on every chain.
+    return await connextRelayerGetAddress(this.url);
+  }
+
+  public async getTaskStatus(taskId: string): Promise<RelayerTaskStatus> {
+    const { connextRelayerGetTaskStatus } = getHelpers();
+    const { status } = await connextRelayerGetTaskStatus(this.url, taskId);
+    return status;
+  }
+
+  public async send(
+    chainId: number,
+    destinationAddress: string,
+    encodedData: string,
+    fee: RelayerApiFee,
+    _requestContext: RequestContext,
+  ): Promise<string> {
+    const { connextRelayerSend } = getHelpers();
+    const { requestContext, methodContext } = createLoggingContext(this.send.name, _requestContext);
+
+    this.logger.info("Sending to Connext relayer", requestContext, methodContext, {
+      url: this.url,
+      encodedData,
+      destinationAddress,
+      chainId,
+      fee,
+    });
+
+    const { taskId } = await connextRelayerSend(this.url, chainId, {
+      fee,
+      to: destinationAddress,
+      data: encodedData,
+    });
+    this.logger.info("Sent to Connext relayer", requestContext, methodContext, { taskId });
+    return taskId;
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  createLoggingContext,
+  jsonifyError,
+  Logger,
+  RelayerApiFee,
+  RelayerTaskStatus,
+  RequestContext,
+} from "@connext/nxtp-utils";
+
+import { Relayer, RelayerBackend } from "../entities";
+import { AllRelayersFailed, NoRelayersConfigured } from "../errors";
+
+/**
+ * @classdesc Dispatches meta transactions to an ordered list of relayers configured for each chain. Each
+ * relayer is tried in turn until one of them accepts the transaction.
+ */
+export class FallbackRelayer implements Relayer {
+  // Most tasks tracked at once. Tasks that are no longer tracked are looked up on every relayer.
+  public static readonly MAX_TRACKED_TASKS = 10_000;
+
+  // Relayer that accepted each task sent, used to look up the task's status later on. Tasks are dropped once they
+  // reach a final status.
+  private readonly relayersByTaskId: Map<string, RelayerBackend> = new Map();
+
+  /**
+   * @param relayers - Relayers to use for each chain ID, in order of preference.
+   */
+  constructor(private readonly relayers: Map<number, RelayerBackend[]>, private readonly logger: Logger) {}
+
+  private getRelayers(chainId: number): RelayerBackend[] {
+    const relayers = this.relayers.get(chainId) ?? [];
+    if (relayers.length === 0) {
+      throw new NoRelayersConfigured(chainId);
+    }
+    return relayers;
+  }
+
+  /**
+   * Gets the address of the preferred relayer for the chain, i.e. the first one able to report its address.
+   */
+  public async getRelayerAddress(chainId: number): Promise<string> {
+    const errors: any[] = [];
+    for (const relayer of this.getRelayers(chainId)) {
+      try {
+        return await relayer.getRelayerAddress(chainId);
+      } catch (error: unknown) {
+        errors.push({ relayer: relayer.type, error: jsonifyError(error as Error) });
+      }
+    }
+    throw new AllRelayersFailed(chainId, errors, { method: this.getRelayerAddress.name });
+  }
+
+  private track(taskId: string, relayer: RelayerBackend): void {
+    // Maps iterate in insertion order, so the first key is always the oldest task.
+    const oldest = this.relayersByTaskId.keys().next();
+    if (this.relayersByTaskId.size >= FallbackRelayer.MAX_TRACKED_TASKS && !oldest.done) {
+      this.relayersByTaskId.delete(oldest.value);
+    }
+    this.relayersByTaskId.set(taskId, relayer);
+  }
+
+  private static isFinal(status: RelayerTaskStatus): boolean {
+    return status === RelayerTaskStatus.Completed || status === RelayerTaskStatus.Cancelled;
+  }
+
+  /**
+   * Gets the status of a task from the relayer it was sent to. If the task wasn't sent through this instance
+   * (e.g. it was sent before a restart), every configured relayer is asked in turn.
+   */
+  public async getTaskStatus(taskId: string): Promise<RelayerTaskStatus> {
+    const relayer = this.relayersByTaskId.get(taskId);
+    if (relayer) {
+      const status = await relayer.getTaskStatus(taskId);
+      if (FallbackRelayer.isFinal(status)) {
+        this.relayersByTaskId.delete(taskId);
+      }
+      return status;
+    }
+
+    const { requestContext, methodContext } = createLoggingContext(this.getTaskStatus.name);
+    const relayers = new Set([...this.relayers.values()].flat());
+    for (const relayer of relayers) {
+      try {
+        const status = await relayer.getTaskStatus(taskId);
+        if (status !== RelayerTaskStatus.None) {
+          if (!FallbackRelayer.isFinal(status)) {
+            this.track(taskId, relayer);
+          }
+          return status;
+        }
+      } catch (error: unknown) {
+        this.logger.debug("Task status not found on relayer", requestContext, methodContext, {
+          taskId,
+          relayer: relayer.type,
+          error: jsonifyError(error as Error),
+        });
+      }
+    }
+    return RelayerTaskStatus.None;
+  }
+
+  public async send(
+    chainId: number,
+    destinationAddress: string,
+    encodedData: string,
+    fee: RelayerApiFee,
+    _requestContext: RequestContext,
+  ): Promise<string> {
+    const { requestContext, methodContext } = createLoggingContext(this.send.name, _requestContext);
+
+    const errors: any[] = [];
+    for (const relayer of this.getRelayers(chainId)) {
+      try {
+        const taskId = await relayer.send(chainId, destinationAddress, encodedData, fee, requestContext);
+        this.track(taskId, relayer);
+        return taskId;
+      } catch (error: unknown) {
+        this.logger.warn("Failed to send to relayer", requestContext, methodContext, {
+          chainId,
+          relayer: relayer.type,
+          error: jsonifyError(error as Error),
+        });
+        errors.push({ relayer: relayer.type, error: jsonifyError(error as Error) });
+      }
+    }
+    throw new AllRelayersFailed(chainId, errors);
+  }
+}
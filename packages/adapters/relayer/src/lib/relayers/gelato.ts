@@ -0,0 +1,74 @@
+import { AxiosError } from "axios";
+import { createLoggingContext, Logger, RelayerApiFee, RelayerTaskStatus, RequestContext } from "@connext/nxtp-utils";
+
+import { RelayerBackend, RelayerType } from "../entities";
+import { ChainNotSupportedByRelayer, RelayerSendFailed } from "../errors";
+import { getHelpers } from "../helpers";
+
+/// Gelato task states, mapped to the task statuses used by our own relayer.
+export const GelatoTaskStates: Record<string, RelayerTaskStatus> = {
+  CheckPending: RelayerTaskStatus.Pending,
+  ExecPending: RelayerTaskStatus.Sent,
+  WaitingForConfirmation: RelayerTaskStatus.Sent,
+  ExecSuccess: RelayerTaskStatus.Completed,
+  ExecReverted: RelayerTaskStatus.Cancelled,
+  Cancelled: RelayerTaskStatus.Cancelled,
+  Blacklisted: RelayerTaskStatus.Cancelled,
+  NotFound: RelayerTaskStatus.None,
+};
+
+/**
+ * @classdesc Sends meta transactions through the Gelato relay network.
+ */
+export class GelatoRelayer implements RelayerBackend {
+  public readonly type = RelayerType.Gelato;
+
+  constructor(private readonly logger: Logger) {}
+
+  public async getRelayerAddress(chainId: number): Promise<string> {
+    const { getGelatoRelayerAddress } = getHelpers();
+    return await getGelatoRelayerAddress(chainId, this.logger);
+  }
+
+  public async getTaskStatus(taskId: string): Promise<RelayerTaskStatus> {
+    const { getGelatoTaskStatus } = getHelpers();
+    const result = await getGelatoTaskStatus(taskId, this.logger);
+    return GelatoTaskStates[result?.taskState] ?? RelayerTaskStatus.None;
+  }
+
+  public async send(
+    chainId: number,
+    destinationAddress: string,
+    encodedData: string,
+    _fee: RelayerApiFee,
+    _requestContext: RequestContext,
+  ): Promise<string> {
+    const { gelatoSend, isChainSupportedByGelato } = getHelpers();
+    const { requestContext, methodContext } = createLoggingContext(this.send.name, _requestContext);
+
+    const isSupportedByGelato = await isChainSupportedByGelato(chainId);
+    if (!isSupportedByGelato) {
+      throw new ChainNotSupportedByRelayer(chainId, this.type);
+    }
+
+    this.logger.info("Sending to Gelato network", requestContext, methodContext, {
+      encodedData,
+      destinationAddress,
+      chainId,
+    });
+
+    const result = await gelatoSend(chainId, {
+      dest: destinationAddress,
+      data: encodedData,
+      token: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+      relayerFee: "0",
+    });
+
+    if ((result as AxiosError).isAxiosError) {
+      throw new RelayerSendFailed({ result });
+    }
+    const { taskId } = result;
+    this.logger.info("Sent to Gelato network", requestContext, methodContext, { result, taskId });
+    return taskId;
+  }
+}
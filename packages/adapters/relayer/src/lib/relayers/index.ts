@@ -0,0 +1,4 @@
+export * from "./gelato";
+export * from "./connext";
+export * from "./local";
+export * from "./fallback";
@@ -0,0 +1,56 @@
+import { providers, Wallet } from "ethers";
+import { createLoggingContext, Logger, RelayerApiFee, RelayerTaskStatus, RequestContext } from "@connext/nxtp-utils";
+
+import { RelayerBackend, RelayerType } from "../entities";
+import { ChainNotSupportedByRelayer } from "../errors";
+
+/**
+ * @classdesc Stand-in for a relayer network that submits transactions directly from a local wallet. Intended
+ * for local setups and integration tests, where no external relayer network is available. Task IDs are the
+ * hashes of the submitted transactions.
+ */
+export class LocalRelayer implements RelayerBackend {
+  public readonly type = RelayerType.Local;
+
+  private readonly wallet: Wallet;
+
+  constructor(url: string, privateKey: string, private readonly logger: Logger) {
+    this.wallet = new Wallet(privateKey, new providers.JsonRpcProvider(url));
+  }
+
+  public async getRelayerAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  public async getTaskStatus(taskId: string): Promise<RelayerTaskStatus> {
+    const receipt = await this.wallet.provider.getTransactionReceipt(taskId);
+    if (receipt) {
+      return receipt.status === 1 ? RelayerTaskStatus.Completed : RelayerTaskStatus.Cancelled;
+    }
+    const tx = await this.wallet.provider.getTransaction(taskId);
+    return tx ? RelayerTaskStatus.Sent : RelayerTaskStatus.None;
+  }
+
+  public async send(
+    chainId: number,
+    destinationAddress: string,
+    encodedData: string,
+    _fee: RelayerApiFee,
+    _requestContext: RequestContext,
+  ): Promise<string> {
+    const { requestContext, methodContext } = createLoggingContext(this.send.name, _requestContext);
+
+    const network = await this.wallet.provider.getNetwork();
+    if (network.chainId !== chainId) {
+      throw new ChainNotSupportedByRelayer(chainId, this.type, { providerChainId: network.chainId });
+    }
+
+    const response = await this.wallet.sendTransaction({ chainId, to: destinationAddress, data: encodedData });
+    this.logger.info("Sent transaction from local relayer", requestContext, methodContext, {
+      chainId,
+      destinationAddress,
+      hash: response.hash,
+    });
+    return response.hash;
+  }
+}
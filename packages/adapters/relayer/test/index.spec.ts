@@ -0,0 +1,45 @@
+import { expect, Logger } from "@connext/nxtp-utils";
+
+import { createRelayer, createRelayerBackend, RelayerType } from "../src";
+import { RelayerConfigInvalid } from "../src/lib/errors";
+import { ConnextRelayer, FallbackRelayer, GelatoRelayer, LocalRelayer } from "../src/lib/relayers";
+
+const logger = new Logger({ level: "silent" });
+
+describe("Relayer", () => {
+  describe("#createRelayerBackend", () => {
+    it("should create a relayer of each type", () => {
+      expect(createRelayerBackend({ type: RelayerType.Gelato }, logger)).to.be.instanceOf(GelatoRelayer);
+      expect(
+        createRelayerBackend({ type: RelayerType.Connext, url: "http://relayer.example" }, logger),
+      ).to.be.instanceOf(ConnextRelayer);
+      expect(
+        createRelayerBackend(
+          {
+            type: RelayerType.Local,
+            url: "http://localhost:8545",
+            privateKey: "0xc87509a1c067bbde78beb793e6fa76530b6382a4c0241e5e4a9ec0a0f44dc0d3",
+          },
+          logger,
+        ),
+      ).to.be.instanceOf(LocalRelayer);
+    });
+
+    it("should throw if a required field is missing", () => {
+      expect(() => createRelayerBackend({ type: RelayerType.Connext }, logger)).to.throw(RelayerConfigInvalid);
+      expect(() => createRelayerBackend({ type: RelayerType.Local, url: "http://localhost:8545" }, logger)).to.throw(
+        RelayerConfigInvalid,
+      );
+    });
+  });
+
+  describe("#createRelayer", () => {
+    it("should create a fallback relayer", () => {
+      const relayer = createRelayer(
+        { 1337: [{ type: RelayerType.Connext, url: "http://relayer.example" }, { type: RelayerType.Gelato }] },
+        logger,
+      );
+      expect(relayer).to.be.instanceOf(FallbackRelayer);
+    });
+  });
+});
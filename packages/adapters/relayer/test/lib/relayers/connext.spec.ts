@@ -0,0 +1,67 @@
+import { stub, restore, reset, SinonStub } from "sinon";
+import { constants } from "ethers";
+import { expect, Logger, mkAddress, mkBytes32, RelayerTaskStatus, createRequestContext } from "@connext/nxtp-utils";
+
+import { ConnextRelayer } from "../../../src/lib/relayers/connext";
+import * as HelperFns from "../../../src/lib/helpers";
+
+const logger = new Logger({ level: "silent" });
+const requestContext = createRequestContext("ConnextRelayer");
+const url = "http://relayer.example";
+const fee = { chain: 1338, amount: "100", token: constants.AddressZero };
+
+describe("ConnextRelayer", () => {
+  let relayer: ConnextRelayer;
+  let connextRelayerSendStub: SinonStub;
+  let connextRelayerGetTaskStatusStub: SinonStub;
+  let connextRelayerGetAddressStub: SinonStub;
+
+  beforeEach(() => {
+    connextRelayerSendStub = stub().resolves({ message: "Task created", taskId: mkBytes32("0x1") });
+    connextRelayerGetTaskStatusStub = stub();
+    connextRelayerGetAddressStub = stub().resolves(mkAddress("0xrelayer"));
+    stub(HelperFns, "getHelpers").returns({
+      connextRelayerSend: connextRelayerSendStub,
+      connextRelayerGetTaskStatus: connextRelayerGetTaskStatusStub,
+      connextRelayerGetAddress: connextRelayerGetAddressStub,
+    } as any);
+    relayer = new ConnextRelayer(url, logger);
+  });
+
+  afterEach(() => {
+    restore();
+    reset();
+  });
+
+  describe("#getRelayerAddress", () => {
+    it("should get the address from the relayer", async () => {
+      expect(await relayer.getRelayerAddress()).to.eq(mkAddress("0xrelayer"));
+      expect(connextRelayerGetAddressStub).to.be.calledOnceWithExactly(url);
+    });
+  });
+
+  describe("#getTaskStatus", () => {
+    it("should get the task status from the relayer", async () => {
+      connextRelayerGetTaskStatusStub.resolves({ chain: 1337, taskId: "0x1", status: RelayerTaskStatus.Sent });
+      expect(await relayer.getTaskStatus("0x1")).to.eq(RelayerTaskStatus.Sent);
+      expect(connextRelayerGetTaskStatusStub).to.be.calledOnceWithExactly(url, "0x1");
+    });
+
+    it("should throw if the relayer doesn't know about the task", async () => {
+      connextRelayerGetTaskStatusStub.rejects(new Error("TaskNotFound"));
+      await expect(relayer.getTaskStatus("0x1")).to.be.rejectedWith("TaskNotFound");
+    });
+  });
+
+  describe("#send", () => {
+    it("should send the transaction to the relayer with the fee offered", async () => {
+      const taskId = await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext);
+      expect(taskId).to.eq(mkBytes32("0x1"));
+      expect(connextRelayerSendStub).to.be.calledOnceWithExactly(url, 1337, {
+        fee,
+        to: mkAddress("0xa"),
+        data: "0xbeed",
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { stub, restore, reset, SinonStub } from "sinon";
+import { constants } from "ethers";
+import { expect, Logger, mkAddress, mkBytes32, RelayerTaskStatus, createRequestContext } from "@connext/nxtp-utils";
+
+import { FallbackRelayer } from "../../../src/lib/relayers/fallback";
+import { RelayerBackend, RelayerType } from "../../../src/lib/entities";
+import { AllRelayersFailed, NoRelayersConfigured } from "../../../src/lib/errors";
+
+const logger = new Logger({ level: "silent" });
+const requestContext = createRequestContext("FallbackRelayer");
+const fee = { chain: 1337, amount: "0", token: constants.AddressZero };
+
+const mockBackend = (type: RelayerType, address: string) => ({
+  type,
+  send: stub().resolves(mkBytes32(address)),
+  getTaskStatus: stub().resolves(RelayerTaskStatus.None),
+  getRelayerAddress: stub().resolves(mkAddress(address)),
+});
+
+describe("FallbackRelayer", () => {
+  let connext: { [K in keyof RelayerBackend]: any };
+  let gelato: { [K in keyof RelayerBackend]: any };
+  let relayer: FallbackRelayer;
+
+  beforeEach(() => {
+    connext = mockBackend(RelayerType.Connext, "0xc");
+    gelato = mockBackend(RelayerType.Gelato, "0xd");
+    relayer = new FallbackRelayer(
+      new Map([
+        [1337, [connext, gelato]],
+        [1338, [gelato]],
+      ]),
+      logger,
+    );
+  });
+
+  afterEach(() => {
+    restore();
+    reset();
+  });
+
+  describe("#send", () => {
+    it("should send through the first relayer configured for the chain", async () => {
+      expect(await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext)).to.eq(mkBytes32("0xc"));
+      expect(connext.send).to.be.calledOnceWith(1337, mkAddress("0xa"), "0xbeed", fee);
+      expect(gelato.send).to.not.be.called;
+    });
+
+    it("should fall back to the next relayer if one fails", async () => {
+      (connext.send as SinonStub).rejects(new Error("Relayer down"));
+      expect(await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext)).to.eq(mkBytes32("0xd"));
+      expect(gelato.send).to.be.calledOnceWith(1337, mkAddress("0xa"), "0xbeed", fee);
+    });
+
+    it("should throw if every relayer fails", async () => {
+      (gelato.send as SinonStub).rejects(new Error("Relayer down"));
+      await expect(relayer.send(1338, mkAddress("0xa"), "0xbeed", fee, requestContext)).to.be.rejectedWith(
+        AllRelayersFailed,
+      );
+    });
+
+    it("should throw if no relayers are configured for the chain", async () => {
+      await expect(relayer.send(1, mkAddress("0xa"), "0xbeed", fee, requestContext)).to.be.rejectedWith(
+        NoRelayersConfigured,
+      );
+    });
+  });
+
+  describe("#getRelayerAddress", () => {
+    it("should get the address of the first relayer that reports it", async () => {
+      (connext.getRelayerAddress as SinonStub).rejects(new Error("Relayer down"));
+      expect(await relayer.getRelayerAddress(1337)).to.eq(mkAddress("0xd"));
+    });
+  });
+
+  describe("#getTaskStatus", () => {
+    it("should get the status from the relayer the task was sent to", async () => {
+      (connext.send as SinonStub).rejects(new Error("Relayer down"));
+      (gelato.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.Sent);
+      const taskId = await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext);
+      expect(await relayer.getTaskStatus(taskId)).to.eq(RelayerTaskStatus.Sent);
+      expect(connext.getTaskStatus).to.not.be.called;
+    });
+
+    it("should stop tracking a task once it reaches a final status", async () => {
+      const taskId = await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext);
+      (connext.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.Completed);
+      expect(await relayer.getTaskStatus(taskId)).to.eq(RelayerTaskStatus.Completed);
+
+      // The task is no longer tracked, so every relayer is asked.
+      (connext.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.None);
+      (gelato.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.Completed);
+      expect(await relayer.getTaskStatus(taskId)).to.eq(RelayerTaskStatus.Completed);
+      expect(gelato.getTaskStatus).to.be.calledOnceWithExactly(taskId);
+    });
+
+    it("should stop tracking the oldest task once too many are tracked", async () => {
+      stub(FallbackRelayer, "MAX_TRACKED_TASKS").value(2);
+      (connext.send as SinonStub).onCall(0).resolves(mkBytes32("0x1"));
+      (connext.send as SinonStub).onCall(1).resolves(mkBytes32("0x2"));
+      (connext.send as SinonStub).onCall(2).resolves(mkBytes32("0x3"));
+      for (let i = 0; i < 3; i++) {
+        await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext);
+      }
+
+      await relayer.getTaskStatus(mkBytes32("0x3"));
+      expect(gelato.getTaskStatus).to.not.be.called;
+      await relayer.getTaskStatus(mkBytes32("0x1"));
+      expect(gelato.getTaskStatus).to.be.calledOnceWithExactly(mkBytes32("0x1"));
+    });
+
+    it("should ask every relayer for unknown tasks", async () => {
+      (connext.getTaskStatus as SinonStub).rejects(new Error("TaskNotFound"));
+      (gelato.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.Completed);
+      expect(await relayer.getTaskStatus(mkBytes32("0x1"))).to.eq(RelayerTaskStatus.Completed);
+      expect(gelato.getTaskStatus).to.be.calledOnceWithExactly(mkBytes32("0x1"));
+    });
+
+    it("should return none if no relayer knows about the task", async () => {
+      expect(await relayer.getTaskStatus(mkBytes32("0x1"))).to.eq(RelayerTaskStatus.None);
+    });
+  });
+});
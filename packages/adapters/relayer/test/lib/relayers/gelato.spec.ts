@@ -0,0 +1,93 @@
+import { stub, restore, reset, SinonStub } from "sinon";
+import { constants } from "ethers";
+import { expect, Logger, mkAddress, mkBytes32, RelayerTaskStatus, createRequestContext } from "@connext/nxtp-utils";
+
+import { GelatoRelayer } from "../../../src/lib/relayers/gelato";
+import { ChainNotSupportedByRelayer, RelayerSendFailed } from "../../../src/lib/errors";
+import * as HelperFns from "../../../src/lib/helpers";
+
+const logger = new Logger({ level: "silent" });
+const requestContext = createRequestContext("GelatoRelayer");
+const fee = { chain: 1337, amount: "0", token: constants.AddressZero };
+const mockAxiosErrorResponse = { isAxiosError: true, code: 500, response: "Invalid fee" };
+const mockAxiosSuccessResponse = { taskId: mkBytes32("0x1"), msg: "success" };
+
+describe("GelatoRelayer", () => {
+  let relayer: GelatoRelayer;
+  let gelatoSendStub: SinonStub;
+  let isChainSupportedByGelatoStub: SinonStub;
+  let getGelatoRelayerAddressStub: SinonStub;
+  let getGelatoTaskStatusStub: SinonStub;
+
+  beforeEach(() => {
+    gelatoSendStub = stub().resolves(mockAxiosSuccessResponse);
+    isChainSupportedByGelatoStub = stub().resolves(true);
+    getGelatoRelayerAddressStub = stub().resolves(mkAddress("0xrelayer"));
+    getGelatoTaskStatusStub = stub();
+    stub(HelperFns, "getHelpers").returns({
+      gelatoSend: gelatoSendStub,
+      isChainSupportedByGelato: isChainSupportedByGelatoStub,
+      getGelatoRelayerAddress: getGelatoRelayerAddressStub,
+      getGelatoTaskStatus: getGelatoTaskStatusStub,
+    } as any);
+    relayer = new GelatoRelayer(logger);
+  });
+
+  afterEach(() => {
+    restore();
+    reset();
+  });
+
+  describe("#getRelayerAddress", () => {
+    it("should work", async () => {
+      expect(await relayer.getRelayerAddress(1337)).to.eq(mkAddress("0xrelayer"));
+      expect(getGelatoRelayerAddressStub).to.be.calledOnceWith(1337);
+    });
+  });
+
+  describe("#getTaskStatus", () => {
+    it("should map the gelato task state", async () => {
+      getGelatoTaskStatusStub.resolves({ taskState: "ExecPending" });
+      expect(await relayer.getTaskStatus("0x1")).to.eq(RelayerTaskStatus.Sent);
+
+      getGelatoTaskStatusStub.resolves({ taskState: "ExecSuccess" });
+      expect(await relayer.getTaskStatus("0x1")).to.eq(RelayerTaskStatus.Completed);
+
+      getGelatoTaskStatusStub.resolves({ taskState: "ExecReverted" });
+      expect(await relayer.getTaskStatus("0x1")).to.eq(RelayerTaskStatus.Cancelled);
+    });
+
+    it("should return none if the task state is unknown", async () => {
+      getGelatoTaskStatusStub.resolves(undefined);
+      expect(await relayer.getTaskStatus("0x1")).to.eq(RelayerTaskStatus.None);
+    });
+  });
+
+  describe("#send", () => {
+    it("should error if the chain is not supported by gelato", async () => {
+      isChainSupportedByGelatoStub.resolves(false);
+      await expect(relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext)).to.be.rejectedWith(
+        ChainNotSupportedByRelayer,
+      );
+      expect(gelatoSendStub).to.not.be.called;
+    });
+
+    it("should error if gelato returns error", async () => {
+      gelatoSendStub.resolves(mockAxiosErrorResponse);
+      await expect(relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext)).to.be.rejectedWith(
+        RelayerSendFailed,
+      );
+    });
+
+    it("should send the transaction to gelato", async () => {
+      const taskId = await relayer.send(1337, mkAddress("0xa"), "0xbeed", fee, requestContext);
+      expect(taskId).to.eq(mockAxiosSuccessResponse.taskId);
+      expect(gelatoSendStub).to.be.calledOnceWith(1337, {
+        dest: mkAddress("0xa"),
+        data: "0xbeed",
+        token: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
+        relayerFee: "0",
+      });
+    });
+  });
+});
@@ -1 +1,11 @@
 export { SubgraphReader } from "./reader";
+export {
+  SubgraphCacheConfig,
+  SubgraphCacheStats,
+  SubgraphHealthConfig,
+  SubgraphHealthConfigSchema,
+  SubgraphChainReader,
+  SubgraphDomainHealth,
+  SubgraphEndpointHealth,
+} from "./lib/entities";
+export { SubgraphStale } from "./lib/errors";
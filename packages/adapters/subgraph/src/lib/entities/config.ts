@@ -2,7 +2,8 @@ import { Type, Static } from "@sinclair/typebox";
 
 export const SubgraphMeshOptionSchema = Type.Object({
   domain: Type.String(),
-  prefix: Type.String(),
+  prefix: Type.String(), // The endpoint queries for the domain are currently routed to.
+  prefixes: Type.Array(Type.String()), // All endpoints serving the domain, in order of preference.
 });
 
 export const SubgraphMapSchema = Type.Object({
@@ -11,3 +12,66 @@ export const SubgraphMapSchema = Type.Object({
 });
 
 export type SubgraphMap = Static<typeof SubgraphMapSchema>;
+
+// TTLs are in ms. A TTL of 0 disables caching for that method, but concurrent identical queries are still coalesced.
+export const SubgraphCacheConfigSchema = Type.Object({
+  enabled: Type.Boolean(),
+  ttls: Type.Optional(
+    Type.Partial(
+      Type.Object({
+        getAssetByLocal: Type.Integer({ minimum: 0 }),
+        getAssetByCanonicalId: Type.Integer({ minimum: 0 }),
+        getAssetBalance: Type.Integer({ minimum: 0 }),
+        getAssetBalances: Type.Integer({ minimum: 0 }),
+      }),
+    ),
+  ),
+  maxEntries: Type.Optional(Type.Integer({ minimum: 1 })),
+});
+
+export type SubgraphCacheConfig = Static<typeof SubgraphCacheConfigSchema>;
+export type SubgraphCachedMethod = keyof NonNullable<SubgraphCacheConfig["ttls"]>;
+
+export type SubgraphCacheStats = {
+  hits: number;
+  misses: number;
+  coalesced: number; // Queries that joined an identical in-flight query.
+  size: number;
+};
+
+export const SubgraphHealthConfigSchema = Type.Object({
+  maxLag: Type.Integer({ minimum: 0 }), // Blocks an endpoint may trail the chain head before it's considered stale.
+  interval: Type.Optional(Type.Integer({ minimum: 1000 })), // ms between health checks.
+  domains: Type.Optional(
+    Type.Record(
+      Type.String(),
+      Type.Object({
+        maxLag: Type.Optional(Type.Integer({ minimum: 0 })),
+        // Prefixes of other sources in .graphclientrc.yml serving this domain, to fail over to.
+        fallbackPrefixes: Type.Optional(Type.Array(Type.String())),
+      }),
+    ),
+  ),
+});
+
+export type SubgraphHealthConfig = Static<typeof SubgraphHealthConfigSchema>;
+
+// Anything that can tell us the chain head, e.g. the txservice `ChainReader`.
+export type SubgraphChainReader = {
+  getBlockNumber: (chainId: number) => Promise<number>;
+};
+
+export type SubgraphEndpointHealth = {
+  prefix: string;
+  blockNumber?: number; // Undefined if the endpoint didn't respond.
+  lag?: number; // Undefined if either the endpoint or the RPC didn't respond.
+  healthy: boolean;
+};
+
+export type SubgraphDomainHealth = {
+  prefix: string; // The endpoint queries are routed to.
+  stale: boolean; // Whether every endpoint is unhealthy.
+  head?: number; // Undefined if the RPC didn't respond.
+  maxLag: number;
+  endpoints: SubgraphEndpointHealth[];
+};
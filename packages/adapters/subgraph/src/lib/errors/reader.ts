@@ -41,3 +41,13 @@ export class XQueryResultParseError extends NxtpError {
     super("Parsing xquery result failed!", context, XQueryResultParseError.name);
   }
 }
+
+export class SubgraphStale extends NxtpError {
+  constructor(domain: string, context: any = {}) {
+    super(
+      "Subgraph stale: every subgraph endpoint for the domain lags too far behind the chain head.",
+      { ...context, staleDomain: domain },
+      SubgraphStale.name,
+    );
+  }
+}
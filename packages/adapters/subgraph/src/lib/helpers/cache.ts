@@ -0,0 +1,68 @@
+import { SubgraphCacheStats } from "../entities";
+
+/**
+ * An in-memory cache for subgraph query results. Each entry lives for the TTL given when it is fetched, and
+ * concurrent fetches of the same key share a single in-flight request.
+ *
+ * Undefined results and failed fetches are not cached, so an entity that doesn't exist yet (or a flaky subgraph)
+ * doesn't stick around for a whole TTL.
+ */
+export class QueryCache {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  private stats = { hits: 0, misses: 0, coalesced: 0 };
+
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * Gets the cached value for the key, or fetches and caches it.
+   *
+   * @param key - The cache key, unique to the query and its arguments.
+   * @param ttl - How long to cache the fetched value for, in ms. 0 only coalesces concurrent fetches.
+   * @param fetch - Fetches the value on a cache miss.
+   */
+  public async get<T>(key: string, ttl: number, fetch: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.hits++;
+      return entry.value as T;
+    }
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    this.stats.misses++;
+    const request = fetch()
+      .then((value) => {
+        if (ttl > 0 && value !== undefined) {
+          this.set(key, value, ttl);
+        }
+        return value;
+      })
+      .finally(() => this.inflight.delete(key));
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  public getStats(): SubgraphCacheStats {
+    return { ...this.stats, size: this.entries.size };
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  private set(key: string, value: unknown, ttl: number): void {
+    // Re-inserting moves the key to the end, so the first key is always the least recently fetched.
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+}
@@ -34,14 +34,12 @@ export const create = async (
   };
   [...chaindata.values()].forEach((chainData) => {
     if (networks.includes(chainData.network)) {
-      config.sources[chainData.domainId] = {
-        domain: chainData.domainId,
-        prefix: prefixOverride
-          ? `${prefixOverride}${chainData.network}`
-          : env === "staging"
-          ? `${env}${chainData.network}`
-          : chainData.network,
-      };
+      const prefix = prefixOverride
+        ? `${prefixOverride}${chainData.network}`
+        : env === "staging"
+        ? `${env}${chainData.network}`
+        : chainData.network;
+      config.sources[chainData.domainId] = { domain: chainData.domainId, prefix, prefixes: [prefix] };
       config.supported[chainData.domainId] = true;
     } else {
       config.supported[chainData.domainId] = false;
@@ -1,15 +1,17 @@
 import { getContext } from "../../reader";
-import { DomainInvalid } from "../errors";
+import { DomainInvalid, SubgraphStale } from "../errors";
 
 /**
- * Finds the subgraph prefix for the given domain in the mesh config.
+ * Finds the subgraph prefix for the given domain in the mesh config, i.e. the endpoint its queries are routed to.
  *
  * @param domain - The domain whose prefix is desired.
+ * @throws SubgraphStale if the last health check found every endpoint for the domain stale.
  */
 export const getPrefixForDomain = (domain: string): string => {
-  const { config } = getContext();
-  if (Object.keys(config.sources).includes(domain)) return config.sources[domain].prefix;
-  else throw new DomainInvalid(domain);
+  const { config, health } = getContext();
+  if (!Object.keys(config.sources).includes(domain)) throw new DomainInvalid(domain);
+  if (health?.[domain]?.stale) throw new SubgraphStale(domain, { health: health[domain] });
+  return config.sources[domain].prefix;
 };
 
 /**
@@ -20,7 +22,7 @@ export const getPrefixForDomain = (domain: string): string => {
 export const getDomainFromPrefix = (prefix: string): string | undefined => {
   const { config } = getContext();
   for (const entry of Object.values(config.sources)) {
-    if (entry.prefix === prefix) return entry.domain;
+    if (entry.prefixes.includes(prefix)) return entry.domain;
   }
   return undefined;
 };
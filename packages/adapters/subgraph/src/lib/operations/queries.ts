@@ -120,6 +120,22 @@ export const getLastestBlockNumberQuery = (prefixes: string[]): string => {
   }`;
 };
 
+const blockHashQuery = (prefix: string, blockNumber: number): string => {
+  return `${prefix}_block${blockNumber}: ${prefix}__meta(block: { number: ${blockNumber} }) { block { number hash } }`;
+};
+export const getBlockHashesQuery = (prefix: string, blockNumbers: number[]): string => {
+  let combinedQuery = "";
+  for (const blockNumber of blockNumbers) {
+    combinedQuery += blockHashQuery(prefix, blockNumber);
+  }
+
+  return gql`
+    query GetBlockHashes {
+      ${combinedQuery}
+    }
+  `;
+};
+
 const maxRoutersPerTransferQuery = (prefix: string): string => {
   return `${prefix}_setting (id: "1") {maxRoutersPerTransfer}`;
 };
@@ -207,6 +223,119 @@ export const getAssetBalancesRoutersQuery = (
     `;
 };
 
+/**
+ * Gets the router liquidity events after the given timestamp or, if `afterId` is given, the events at the given
+ * timestamp with a greater ID, ordered by ID.
+ */
+export const getRouterLiquidityEventsQuery = (
+  prefix: string,
+  timestamp: number,
+  limit: number,
+  afterId?: string,
+): string => {
+  const filter =
+    afterId === undefined
+      ? `where: { timestamp_gt: ${timestamp} }, orderBy: timestamp`
+      : `where: { timestamp: ${timestamp}, id_gt: "${afterId}" }, orderBy: id`;
+  const queryString = `
+    ${prefix}_routerLiquidityEvents(
+    ${filter},
+    first: ${limit},
+    orderDirection: asc) {
+      id
+      eventType
+      router {
+        id
+      }
+      asset {
+        local
+      }
+      amount
+      balance
+      caller
+      transactionHash
+      timestamp
+      blockNumber
+    }`;
+
+  return gql`
+    query GetRouterLiquidityEvents {
+      ${queryString}
+    }
+  `;
+};
+
+export const getStableSwapExchangesQuery = (
+  prefix: string,
+  timestamp: number,
+  limit: number,
+  afterId?: string,
+): string => {
+  const filter =
+    afterId === undefined
+      ? `where: { timestamp_gt: ${timestamp} }, orderBy: timestamp`
+      : `where: { timestamp: ${timestamp}, id_gt: "${afterId}" }, orderBy: id`;
+  const queryString = `
+    ${prefix}_stableSwapExchanges(
+    ${filter},
+    first: ${limit},
+    orderDirection: asc) {
+      id
+      poolId
+      buyer
+      boughtId
+      soldId
+      tokensSold
+      tokensBought
+      fee
+      balances
+      transactionHash
+      timestamp
+      blockNumber
+    }`;
+
+  return gql`
+    query GetStableSwapExchanges {
+      ${queryString}
+    }
+  `;
+};
+
+export const getStableSwapPoolEventsQuery = (
+  prefix: string,
+  timestamp: number,
+  limit: number,
+  afterId?: string,
+): string => {
+  const filter =
+    afterId === undefined
+      ? `where: { timestamp_gt: ${timestamp} }, orderBy: timestamp`
+      : `where: { timestamp: ${timestamp}, id_gt: "${afterId}" }, orderBy: id`;
+  const queryString = `
+    ${prefix}_stableSwapPoolEvents(
+    ${filter},
+    first: ${limit},
+    orderDirection: asc) {
+      id
+      poolId
+      eventType
+      provider
+      tokenAmounts
+      fees
+      lpTokenSupply
+      balances
+      transactionHash
+      timestamp
+      blockNumber
+    }`;
+
+  return gql`
+    query GetStableSwapPoolEvents {
+      ${queryString}
+    }
+  `;
+};
+
 export const getRouterQuery = (prefix: string, router: string): string => {
   const queryString = `
     ${prefix}_router(id: "${router}") {
@@ -1,4 +1,5 @@
 import { BigNumber } from "ethers";
+import interval from "interval-promise";
 import {
   XTransfer,
   SubgraphQueryMetaParams,
@@ -8,6 +9,9 @@ import {
   DestinationTransfer,
   RouterBalance,
   AssetBalance,
+  RouterLiquidityEvent,
+  StableSwapExchange,
+  StableSwapPoolEvent,
   SubgraphQueryByTransferIDsMetaParams,
   SubgraphQueryByTimestampMetaParams,
 } from "@connext/nxtp-utils";
@@ -25,7 +29,11 @@ import {
   getOriginTransfersByTransactionHashesQuery,
   getDestinationTransfersByIdsQuery,
   getAssetBalancesRoutersQuery,
+  getRouterLiquidityEventsQuery,
+  getStableSwapExchangesQuery,
+  getStableSwapPoolEventsQuery,
   getLastestBlockNumberQuery,
+  getBlockHashesQuery,
   getMaxRoutersPerTransferQuery,
   getOriginTransfersByIDsCombinedQuery,
   getDestinationTransfersByIDsCombinedQuery,
@@ -33,34 +41,180 @@ import {
   getDestinationTransfersByNonceQuery,
   getDestinationTransfersByDomainAndReconcileTimestampQuery,
 } from "./lib/operations";
-import { SubgraphMap } from "./lib/entities";
-
-let context: { config: SubgraphMap };
+import {
+  SubgraphCacheConfig,
+  SubgraphCachedMethod,
+  SubgraphCacheStats,
+  SubgraphChainReader,
+  SubgraphDomainHealth,
+  SubgraphEndpointHealth,
+  SubgraphHealthConfig,
+  SubgraphMap,
+} from "./lib/entities";
+import { QueryCache } from "./lib/helpers/cache";
+
+// Asset metadata almost never changes, while balances move with every transfer.
+export const DEFAULT_CACHE_TTLS: Record<SubgraphCachedMethod, number> = {
+  getAssetByLocal: 300_000,
+  getAssetByCanonicalId: 300_000,
+  getAssetBalance: 5_000,
+  getAssetBalances: 5_000,
+};
+export const DEFAULT_CACHE_MAX_ENTRIES = 10_000;
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 60_000;
+
+let context: { config: SubgraphMap; health?: Record<string, SubgraphDomainHealth> };
 export const getContext = () => context;
 
 export class SubgraphReader {
   private static instance: SubgraphReader | undefined;
+  private readonly cache?: QueryCache;
+  private readonly cacheTtls: Record<SubgraphCachedMethod, number> = DEFAULT_CACHE_TTLS;
+  private readonly health?: { config: SubgraphHealthConfig; chainReader: SubgraphChainReader };
 
   // Getter for reading supported domains.
   public get supported(): Record<string, boolean> {
     return { ...context.config.supported };
   }
 
-  private constructor(config: SubgraphMap) {
-    context = { config };
+  private constructor(
+    config: SubgraphMap,
+    cacheConfig?: SubgraphCacheConfig,
+    health?: { config: SubgraphHealthConfig; chainReader: SubgraphChainReader },
+  ) {
+    context = { config, health: {} };
+    if (cacheConfig?.enabled) {
+      this.cache = new QueryCache(cacheConfig.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES);
+      this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...cacheConfig.ttls };
+    }
+    if (health) {
+      this.health = health;
+      for (const [domain, { fallbackPrefixes }] of Object.entries(health.config.domains ?? {})) {
+        const source = config.sources[domain];
+        if (source && fallbackPrefixes) {
+          source.prefixes = [...new Set([...source.prefixes, ...fallbackPrefixes])];
+        }
+      }
+    }
   }
 
   public static async create(
     chainData: Map<string, ChainData>,
     env: "staging" | "production" = "production",
     prefixOverride?: string, // optional override for the prefix
+    cacheConfig?: SubgraphCacheConfig, // optional caching of asset and balance queries
+    health?: { config: SubgraphHealthConfig; chainReader: SubgraphChainReader }, // optional staleness checks
   ): Promise<SubgraphReader> {
     if (SubgraphReader.instance) {
       return SubgraphReader.instance;
     }
     const { create } = getHelpers();
     const config = await create(chainData, env, prefixOverride);
-    return new SubgraphReader(config);
+    const reader = new SubgraphReader(config, cacheConfig, health);
+    if (health) {
+      await reader.checkHealth();
+      interval(async () => {
+        await reader.checkHealth();
+      }, health.config.interval ?? DEFAULT_HEALTH_CHECK_INTERVAL);
+    }
+    return reader;
+  }
+
+  /**
+   * Compares each endpoint's latest indexed block against the chain head, and routes each domain's queries to its
+   * freshest endpoint that's within the allowed lag. If none are, queries for the domain throw `SubgraphStale` until a
+   * later check finds a healthy endpoint. Runs periodically if health checks were configured on creation.
+   *
+   * @param domains - The domains to check. Defaults to all domains with a subgraph.
+   * @returns The health of each checked domain.
+   */
+  public async checkHealth(
+    domains: string[] = Object.keys(context.config.sources),
+  ): Promise<Record<string, SubgraphDomainHealth>> {
+    const results: Record<string, SubgraphDomainHealth> = {};
+    if (!this.health) return results;
+    const { config, chainReader } = this.health;
+
+    await Promise.all(
+      domains.map(async (domain) => {
+        const source = context.config.sources[domain];
+        if (!source) return;
+        const maxLag = config.domains?.[domain]?.maxLag ?? config.maxLag;
+        const [head, blockNumbers] = await Promise.all([
+          chainReader.getBlockNumber(Number(domain)).catch(() => undefined),
+          Promise.all(source.prefixes.map((prefix) => this.getEndpointBlockNumber(domain, prefix))),
+        ]);
+
+        // If the RPC is down we can't tell how far behind the endpoints are, so any that respond are considered healthy.
+        const endpoints: SubgraphEndpointHealth[] = source.prefixes.map((prefix, i) => {
+          const blockNumber = blockNumbers[i];
+          const lag = head !== undefined && blockNumber !== undefined ? Math.max(head - blockNumber, 0) : undefined;
+          return { prefix, blockNumber, lag, healthy: blockNumber !== undefined && (lag ?? 0) <= maxLag };
+        });
+        // Sorting is stable, so endpoints at the same block keep their order of preference.
+        const freshest = endpoints
+          .filter((endpoint) => endpoint.healthy)
+          .sort((a, b) => b.blockNumber! - a.blockNumber!)[0];
+        if (freshest) {
+          source.prefix = freshest.prefix;
+        }
+        results[domain] = { prefix: source.prefix, stale: !freshest, head, maxLag, endpoints };
+      }),
+    );
+
+    context.health = { ...context.health, ...results };
+    return results;
+  }
+
+  /**
+   * Gets the results of the last health check for each domain, if health checks are enabled.
+   */
+  public getHealth(): Record<string, SubgraphDomainHealth> {
+    return { ...context.health };
+  }
+
+  /**
+   * Gets the latest block indexed by one of a domain's endpoints.
+   *
+   * @returns The block number, or undefined if the endpoint failed to respond.
+   */
+  private async getEndpointBlockNumber(domain: string, prefix: string): Promise<number | undefined> {
+    const { execute } = getHelpers();
+    try {
+      const response = await execute(getLastestBlockNumberQuery([prefix]));
+      const blockInfo = response.get(domain)?.[0];
+      return blockInfo ? Number(blockInfo.block.number) : undefined;
+    } catch (e: unknown) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the cache hit/miss stats, or undefined if caching is disabled.
+   */
+  public getCacheStats(): SubgraphCacheStats | undefined {
+    return this.cache?.getStats();
+  }
+
+  /**
+   * Drops all cached query results, e.g. once we know a balance has changed.
+   */
+  public clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Runs the query through the cache if caching is enabled.
+   *
+   * @param method - The reader method being cached, which determines the TTL.
+   * @param args - The method arguments, which make up the cache key along with the method.
+   * @param fetch - Runs the query.
+   */
+  private async cached<T>(method: SubgraphCachedMethod, args: string[], fetch: () => Promise<T>): Promise<T> {
+    if (!this.cache) {
+      return await fetch();
+    }
+    return await this.cache.get(`${method}:${args.join(":")}`, this.cacheTtls[method], fetch);
   }
 
   /**
@@ -93,6 +247,30 @@ export class SubgraphReader {
     return blockNumberRes;
   }
 
+  /**
+   * Gets the hashes of the given blocks on a domain, as indexed by the subgraph. Used to detect chain reorgs.
+   * @param domain The domain you're getting the block hashes for
+   * @param blockNumbers The block numbers you're getting the hashes for
+   * @returns A map of block number to block hash
+   */
+  public async getBlockHashes(domain: string, blockNumbers: number[]): Promise<Map<number, string>> {
+    const { execute, getPrefixForDomain } = getHelpers();
+    const blockHashes: Map<number, string> = new Map();
+    if (blockNumbers.length === 0) return blockHashes;
+
+    const prefix = getPrefixForDomain(domain);
+    const query = getBlockHashesQuery(prefix, [...new Set(blockNumbers)]);
+    const response = await execute(query);
+    // The subgraph returns no block for numbers it hasn't indexed.
+    const blockInfos = (response.get(domain) ?? []) as ({ block: { number: string; hash: string } | null } | null)[];
+    for (const blockInfo of blockInfos) {
+      if (blockInfo?.block?.hash) {
+        blockHashes.set(Number(blockInfo.block.number), blockInfo.block.hash);
+      }
+    }
+    return blockHashes;
+  }
+
   /**
    * Gets the maxRoutersPerTransfer for domains
    * @param domains The domain list you're getting the maxRoutersPerTransfer for
@@ -128,12 +306,14 @@ export class SubgraphReader {
     const { execute, getPrefixForDomain } = getHelpers();
     const prefix = getPrefixForDomain(domain);
 
-    const query = getAssetBalanceQuery(prefix, router.toLowerCase(), local.toLowerCase());
-    const response = await execute(query);
-    if (![...response.values()][0] || [...response.values()][0].length == 0) {
-      return BigNumber.from("0");
-    }
-    return BigNumber.from([...response.values()][0][0].amount);
+    return await this.cached("getAssetBalance", [domain, router.toLowerCase(), local.toLowerCase()], async () => {
+      const query = getAssetBalanceQuery(prefix, router.toLowerCase(), local.toLowerCase());
+      const response = await execute(query);
+      if (![...response.values()][0] || [...response.values()][0].length == 0) {
+        return BigNumber.from("0");
+      }
+      return BigNumber.from([...response.values()][0][0].amount);
+    });
   }
 
   /**
@@ -147,13 +327,17 @@ export class SubgraphReader {
     const { execute, getPrefixForDomain } = getHelpers();
     const prefix = getPrefixForDomain(domain);
 
-    const query = getAssetBalancesQuery(prefix, router.toLowerCase());
-    const response = await execute(query);
+    const balances = await this.cached("getAssetBalances", [domain, router.toLowerCase()], async () => {
+      const query = getAssetBalancesQuery(prefix, router.toLowerCase());
+      const response = await execute(query);
 
-    const assetBalances = [...response.values()][0] ? [...response.values()][0][0] : [];
-    const balances: Record<string, BigNumber> = {};
-    assetBalances.forEach((bal: any) => (balances[bal.asset.local as string] = BigNumber.from(bal.amount)));
-    return balances;
+      const assetBalances = [...response.values()][0] ? [...response.values()][0][0] : [];
+      const balances: Record<string, BigNumber> = {};
+      assetBalances.forEach((bal: any) => (balances[bal.asset.local as string] = BigNumber.from(bal.amount)));
+      return balances;
+    });
+    // Callers may modify the record, so don't hand out the cached one.
+    return { ...balances };
   }
 
   /**
@@ -192,6 +376,146 @@ export class SubgraphReader {
     });
   }
 
+  /**
+   * Gets the liquidity added and removed by routers on a domain, ordered by timestamp and ID.
+   *
+   * @param domain - The domain to get the liquidity events on
+   * @param limit - The max number of events to return
+   * @param after - The timestamp and ID of the last event already fetched. Events with a later timestamp, or the same
+   * timestamp and a greater ID, are returned. Defaults to the start.
+   * @returns The router liquidity events
+   */
+  public async getRouterLiquidityEvents(
+    domain: string,
+    limit: number,
+    after: { timestamp: number; id: string } = { timestamp: 0, id: "" },
+  ): Promise<RouterLiquidityEvent[]> {
+    const { execute, getPrefixForDomain } = getHelpers();
+    const prefix = getPrefixForDomain(domain);
+
+    const getEvents = async (query: string): Promise<RouterLiquidityEvent[]> => {
+      const response = await execute(query);
+      const events = [...response.values()][0] ? [...response.values()][0][0] : [];
+      return events.map((event: any) => {
+        return {
+          id: event.id,
+          domain,
+          router: event.router.id,
+          eventType: event.eventType,
+          asset: event.asset.local,
+          amount: event.amount,
+          balance: event.balance,
+          caller: event.caller,
+          transactionHash: event.transactionHash,
+          timestamp: BigNumber.from(event.timestamp).toNumber(),
+          blockNumber: BigNumber.from(event.blockNumber).toNumber(),
+        } as RouterLiquidityEvent;
+      });
+    };
+
+    // The subgraph only orders by a single field (breaking ties by ID), so get the rest of the events sharing the
+    // cursor's timestamp first, followed by the events after it.
+    const events = await getEvents(getRouterLiquidityEventsQuery(prefix, after.timestamp, limit, after.id));
+    if (events.length < limit) {
+      events.push(...(await getEvents(getRouterLiquidityEventsQuery(prefix, after.timestamp, limit - events.length))));
+    }
+    return events;
+  }
+
+  /**
+   * Gets the swaps in the domain's StableSwap pools, ordered by timestamp and ID.
+   *
+   * @param domain - The domain to get the swaps on
+   * @param limit - The max number of swaps to return
+   * @param after - The timestamp and ID of the last swap already fetched. Swaps with a later timestamp, or the same
+   * timestamp and a greater ID, are returned. Defaults to the start.
+   * @returns The swaps
+   */
+  public async getStableSwapExchanges(
+    domain: string,
+    limit: number,
+    after: { timestamp: number; id: string } = { timestamp: 0, id: "" },
+  ): Promise<StableSwapExchange[]> {
+    const { execute, getPrefixForDomain } = getHelpers();
+    const prefix = getPrefixForDomain(domain);
+
+    const getExchanges = async (query: string): Promise<StableSwapExchange[]> => {
+      const response = await execute(query);
+      const exchanges = [...response.values()][0] ? [...response.values()][0][0] : [];
+      return exchanges.map((exchange: any) => {
+        return {
+          id: exchange.id,
+          domain,
+          poolId: exchange.poolId,
+          buyer: exchange.buyer,
+          boughtId: BigNumber.from(exchange.boughtId).toNumber(),
+          soldId: BigNumber.from(exchange.soldId).toNumber(),
+          tokensSold: exchange.tokensSold,
+          tokensBought: exchange.tokensBought,
+          fee: exchange.fee,
+          balances: exchange.balances,
+          transactionHash: exchange.transactionHash,
+          timestamp: BigNumber.from(exchange.timestamp).toNumber(),
+          blockNumber: BigNumber.from(exchange.blockNumber).toNumber(),
+        } as StableSwapExchange;
+      });
+    };
+
+    // As with router liquidity events, get the rest of the swaps sharing the cursor's timestamp first.
+    const exchanges = await getExchanges(getStableSwapExchangesQuery(prefix, after.timestamp, limit, after.id));
+    if (exchanges.length < limit) {
+      exchanges.push(
+        ...(await getExchanges(getStableSwapExchangesQuery(prefix, after.timestamp, limit - exchanges.length))),
+      );
+    }
+    return exchanges;
+  }
+
+  /**
+   * Gets the liquidity added to and removed from the domain's StableSwap pools, ordered by timestamp and ID.
+   *
+   * @param domain - The domain to get the pool events on
+   * @param limit - The max number of events to return
+   * @param after - The timestamp and ID of the last event already fetched. Events with a later timestamp, or the same
+   * timestamp and a greater ID, are returned. Defaults to the start.
+   * @returns The pool events
+   */
+  public async getStableSwapPoolEvents(
+    domain: string,
+    limit: number,
+    after: { timestamp: number; id: string } = { timestamp: 0, id: "" },
+  ): Promise<StableSwapPoolEvent[]> {
+    const { execute, getPrefixForDomain } = getHelpers();
+    const prefix = getPrefixForDomain(domain);
+
+    const getEvents = async (query: string): Promise<StableSwapPoolEvent[]> => {
+      const response = await execute(query);
+      const events = [...response.values()][0] ? [...response.values()][0][0] : [];
+      return events.map((event: any) => {
+        return {
+          id: event.id,
+          domain,
+          poolId: event.poolId,
+          eventType: event.eventType,
+          provider: event.provider,
+          tokenAmounts: event.tokenAmounts,
+          fees: event.fees,
+          lpTokenSupply: event.lpTokenSupply,
+          balances: event.balances,
+          transactionHash: event.transactionHash,
+          timestamp: BigNumber.from(event.timestamp).toNumber(),
+          blockNumber: BigNumber.from(event.blockNumber).toNumber(),
+        } as StableSwapPoolEvent;
+      });
+    };
+
+    const events = await getEvents(getStableSwapPoolEventsQuery(prefix, after.timestamp, limit, after.id));
+    if (events.length < limit) {
+      events.push(...(await getEvents(getStableSwapPoolEventsQuery(prefix, after.timestamp, limit - events.length))));
+    }
+    return events;
+  }
+
   /**
    * Returns the router's approval status
    *
@@ -218,13 +542,15 @@ export class SubgraphReader {
     const { execute, getPrefixForDomain } = getHelpers();
     const prefix = getPrefixForDomain(domain);
 
-    const query = getAssetByLocalQuery(prefix, local.toLowerCase());
-    const response = await execute(query);
-    const assets = [...response.values()][0] ? [...response.values()][0][0] : [];
-    if (assets.length === 0) {
-      return undefined;
-    }
-    return assets[0] as Asset;
+    return await this.cached("getAssetByLocal", [domain, local.toLowerCase()], async () => {
+      const query = getAssetByLocalQuery(prefix, local.toLowerCase());
+      const response = await execute(query);
+      const assets = [...response.values()][0] ? [...response.values()][0][0] : [];
+      if (assets.length === 0) {
+        return undefined;
+      }
+      return assets[0] as Asset;
+    });
   }
 
   /**
@@ -236,13 +562,15 @@ export class SubgraphReader {
     const { execute, getPrefixForDomain } = getHelpers();
     const prefix = getPrefixForDomain(domain);
 
-    const query = getAssetByCanonicalIdQuery(prefix, canonicalId.toLowerCase());
-    const response = await execute(query);
-    const assets = [...response.values()][0] ? [...response.values()][0][0] : [];
-    if (assets.length === 0) {
-      return undefined;
-    }
-    return assets[0] as Asset;
+    return await this.cached("getAssetByCanonicalId", [domain, canonicalId.toLowerCase()], async () => {
+      const query = getAssetByCanonicalIdQuery(prefix, canonicalId.toLowerCase());
+      const response = await execute(query);
+      const assets = [...response.values()][0] ? [...response.values()][0][0] : [];
+      if (assets.length === 0) {
+        return undefined;
+      }
+      return assets[0] as Asset;
+    });
   }
 
   // public async getTransaction(domain: string, transactionId: string): Promise<XTransfer> {}
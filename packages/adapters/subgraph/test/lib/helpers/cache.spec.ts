@@ -0,0 +1,71 @@
+import { expect } from "@connext/nxtp-utils";
+import { stub, useFakeTimers, SinonFakeTimers } from "sinon";
+import { QueryCache } from "../../../src/lib/helpers/cache";
+
+describe("Helpers:cache", () => {
+  let cache: QueryCache;
+  let clock: SinonFakeTimers;
+  beforeEach(() => {
+    cache = new QueryCache(2);
+    clock = useFakeTimers({ now: 1_000_000, toFake: ["Date"] });
+  });
+  afterEach(() => {
+    clock.restore();
+  });
+
+  describe("#get", () => {
+    it("happy: should cache the value until the ttl expires", async () => {
+      const fetch = stub().resolves("value");
+
+      expect(await cache.get("key", 1_000, fetch)).to.be.eq("value");
+      expect(await cache.get("key", 1_000, fetch)).to.be.eq("value");
+      expect(fetch).to.be.calledOnce;
+
+      clock.tick(1_001);
+      expect(await cache.get("key", 1_000, fetch)).to.be.eq("value");
+      expect(fetch).to.be.calledTwice;
+      expect(cache.getStats()).to.be.deep.eq({ hits: 1, misses: 2, coalesced: 0, size: 1 });
+    });
+
+    it("should coalesce concurrent fetches of the same key", async () => {
+      const fetch = stub().resolves("value");
+
+      const results = await Promise.all([cache.get("key", 0, fetch), cache.get("key", 0, fetch)]);
+
+      expect(results).to.be.deep.eq(["value", "value"]);
+      expect(fetch).to.be.calledOnce;
+      expect(cache.getStats()).to.be.deep.eq({ hits: 0, misses: 1, coalesced: 1, size: 0 });
+    });
+
+    it("should not cache undefined values or failures", async () => {
+      const fetch = stub().onFirstCall().resolves(undefined).onSecondCall().rejects(new Error("fail"));
+      fetch.onThirdCall().resolves("value");
+
+      expect(await cache.get("key", 1_000, fetch)).to.be.undefined;
+      await expect(cache.get("key", 1_000, fetch)).to.be.rejectedWith("fail");
+      expect(await cache.get("key", 1_000, fetch)).to.be.eq("value");
+      expect(fetch).to.be.calledThrice;
+    });
+
+    it("should evict the least recently fetched entry once full", async () => {
+      await cache.get("a", 1_000, async () => 1);
+      await cache.get("b", 1_000, async () => 2);
+      await cache.get("c", 1_000, async () => 3);
+
+      const fetch = stub().resolves(4);
+      expect(await cache.get("a", 1_000, fetch)).to.be.eq(4);
+      expect(await cache.get("c", 1_000, fetch)).to.be.eq(3);
+      expect(cache.getStats().size).to.be.eq(2);
+    });
+  });
+
+  describe("#clear", () => {
+    it("should drop cached values", async () => {
+      const fetch = stub().resolves("value");
+      await cache.get("key", 1_000, fetch);
+      cache.clear();
+      await cache.get("key", 1_000, fetch);
+      expect(fetch).to.be.calledTwice;
+    });
+  });
+});
@@ -35,8 +35,8 @@ describe("Helpers:create", () => {
       const subgraphMap = await create(mockChainData, "staging");
       const response = {
         sources: {
-          "1111": { domain: "1111", prefix: "stagingrinkeby" },
-          "3331": { domain: "3331", prefix: "staginggoerli" },
+          "1111": { domain: "1111", prefix: "stagingrinkeby", prefixes: ["stagingrinkeby"] },
+          "3331": { domain: "3331", prefix: "staginggoerli", prefixes: ["staginggoerli"] },
         },
         supported: { "1111": true, "3331": true, "5555555555555": false },
       };
@@ -48,8 +48,8 @@ describe("Helpers:create", () => {
       const subgraphMap = await create(mockChainData, "production");
       const response = {
         sources: {
-          "1111": { domain: "1111", prefix: "rinkeby" },
-          "3331": { domain: "3331", prefix: "goerli" },
+          "1111": { domain: "1111", prefix: "rinkeby", prefixes: ["rinkeby"] },
+          "3331": { domain: "3331", prefix: "goerli", prefixes: ["goerli"] },
         },
         supported: { "1111": true, "3331": true, "5555555555555": false },
       };
@@ -61,8 +61,8 @@ describe("Helpers:create", () => {
       const subgraphMap = await create(mockChainData);
       const response = {
         sources: {
-          "1111": { domain: "1111", prefix: "rinkeby" },
-          "3331": { domain: "3331", prefix: "goerli" },
+          "1111": { domain: "1111", prefix: "rinkeby", prefixes: ["rinkeby"] },
+          "3331": { domain: "3331", prefix: "goerli", prefixes: ["goerli"] },
         },
         supported: { "1111": true, "3331": true, "5555555555555": false },
       };
@@ -82,7 +82,7 @@ describe("Helpers:create", () => {
       const subgraphMap = await create(_chainData);
       const response = {
         sources: {
-          "1111": { domain: "1111", prefix: "rinkeby" },
+          "1111": { domain: "1111", prefix: "rinkeby", prefixes: ["rinkeby"] },
         },
         supported: { "1111": true },
       };
@@ -91,8 +91,8 @@ export const mockDestinationTransferEntity = {
 const defaultContext: { config: SubgraphMap } = {
   config: {
     sources: {
-      "1111": { domain: "1111", prefix: "rinkeby" },
-      "3331": { domain: "3331", prefix: "goerli" },
+      "1111": { domain: "1111", prefix: "rinkeby", prefixes: ["rinkeby"] },
+      "3331": { domain: "3331", prefix: "goerli", prefixes: ["goerli"] },
     },
     supported: { "1111": true, "3331": true, "5555555555555": false },
   },
@@ -1,4 +1,4 @@
-import { stub, SinonStub, restore, reset } from "sinon";
+import { stub, SinonStub, restore, reset, useFakeTimers } from "sinon";
 import {
   expect,
   mkAddress,
@@ -15,11 +15,14 @@ import {
   mockOriginTransferEntity,
   mockResponse,
   stubContext,
+  getContextStub,
 } from "./mock";
 import { SubgraphReader } from "../src/reader";
 import * as ParserFns from "../src/lib/helpers/parse";
 
 import * as ExecuteFns from "../src/lib/helpers/execute";
+import * as CreateFns from "../src/lib/helpers/create";
+import { SubgraphStale } from "../src/lib/errors";
 import { BigNumber } from "ethers";
 
 describe("SubgraphReader", () => {
@@ -132,6 +135,190 @@ describe("SubgraphReader", () => {
     });
   });
 
+  describe("#getRouterLiquidityEvents", () => {
+    const mockEventEntity = (index: number, timestamp: string) => ({
+      id: `${mkBytes32("0xabc")}-${index}`,
+      eventType: "Add",
+      router: { id: mkAddress("0xaaa") },
+      asset: { local: mkAddress("0x222") },
+      amount: "100",
+      balance: "150",
+      caller: mkAddress("0xaaa"),
+      transactionHash: mkBytes32("0xabc"),
+      timestamp,
+      blockNumber: "50000",
+    });
+
+    it("should return the router liquidity events", async () => {
+      response.set("1111", [[mockEventEntity(1, "1660000000")]]);
+      executeStub.onFirstCall().resolves(new Map());
+      executeStub.onSecondCall().resolves(response);
+      expect(await subgraphReader.getRouterLiquidityEvents("1111", 100)).to.be.deep.eq([
+        {
+          id: `${mkBytes32("0xabc")}-1`,
+          domain: "1111",
+          router: mkAddress("0xaaa"),
+          eventType: "Add",
+          asset: mkAddress("0x222"),
+          amount: "100",
+          balance: "150",
+          caller: mkAddress("0xaaa"),
+          transactionHash: mkBytes32("0xabc"),
+          timestamp: 1660000000,
+          blockNumber: 50000,
+        },
+      ]);
+    });
+
+    it("should get the rest of the events at the cursor's timestamp before the later events", async () => {
+      executeStub.onFirstCall().resolves(new Map([["1111", [[mockEventEntity(2, "1000")]]]]));
+      executeStub.onSecondCall().resolves(new Map([["1111", [[mockEventEntity(1, "1001")]]]]));
+
+      const events = await subgraphReader.getRouterLiquidityEvents("1111", 2, {
+        timestamp: 1000,
+        id: `${mkBytes32("0xabc")}-1`,
+      });
+
+      expect(events.map(({ id, timestamp }) => ({ id, timestamp }))).to.be.deep.eq([
+        { id: `${mkBytes32("0xabc")}-2`, timestamp: 1000 },
+        { id: `${mkBytes32("0xabc")}-1`, timestamp: 1001 },
+      ]);
+      expect(executeStub.getCall(0).args[0])
+        .to.include("timestamp: 1000")
+        .and.include(`id_gt: "${mkBytes32("0xabc")}-1"`);
+      expect(executeStub.getCall(1).args[0]).to.include("timestamp_gt: 1000").and.include("first: 1");
+    });
+
+    it("should not get later events if the events at the cursor's timestamp fill the page", async () => {
+      executeStub.resolves(new Map([["1111", [[mockEventEntity(2, "1000")]]]]));
+      const events = await subgraphReader.getRouterLiquidityEvents("1111", 1, { timestamp: 1000, id: "" });
+      expect(events.length).to.be.eq(1);
+      expect(executeStub).to.be.calledOnce;
+    });
+
+    it("should return an empty array if there are no events", async () => {
+      executeStub.resolves(response);
+      expect(await subgraphReader.getRouterLiquidityEvents("1111", 100)).to.be.deep.eq([]);
+    });
+  });
+
+  describe("#getStableSwapExchanges", () => {
+    it("should return the swaps", async () => {
+      response.set("1111", [
+        [
+          {
+            id: `${mkBytes32("0xabc")}-2`,
+            poolId: mkAddress("0xc"),
+            buyer: mkAddress("0xaaa"),
+            boughtId: "1",
+            soldId: "0",
+            tokensSold: "100",
+            tokensBought: "99",
+            fee: "1",
+            balances: ["1100", "901"],
+            transactionHash: mkBytes32("0xabc"),
+            timestamp: "1660000000",
+            blockNumber: "50000",
+          },
+        ],
+      ]);
+      executeStub.onFirstCall().resolves(new Map());
+      executeStub.onSecondCall().resolves(response);
+      expect(await subgraphReader.getStableSwapExchanges("1111", 100)).to.be.deep.eq([
+        {
+          id: `${mkBytes32("0xabc")}-2`,
+          domain: "1111",
+          poolId: mkAddress("0xc"),
+          buyer: mkAddress("0xaaa"),
+          boughtId: 1,
+          soldId: 0,
+          tokensSold: "100",
+          tokensBought: "99",
+          fee: "1",
+          balances: ["1100", "901"],
+          transactionHash: mkBytes32("0xabc"),
+          timestamp: 1660000000,
+          blockNumber: 50000,
+        },
+      ]);
+    });
+
+    it("should get the rest of the swaps at the cursor's timestamp before the later swaps", async () => {
+      const mockExchangeEntity = (index: number, timestamp: string) => ({
+        id: `${mkBytes32("0xabc")}-${index}`,
+        poolId: mkAddress("0xc"),
+        buyer: mkAddress("0xaaa"),
+        boughtId: "1",
+        soldId: "0",
+        tokensSold: "100",
+        tokensBought: "99",
+        fee: "1",
+        balances: ["1100", "901"],
+        transactionHash: mkBytes32("0xabc"),
+        timestamp,
+        blockNumber: "50000",
+      });
+      executeStub.onFirstCall().resolves(new Map([["1111", [[mockExchangeEntity(2, "1000")]]]]));
+      executeStub.onSecondCall().resolves(new Map([["1111", [[mockExchangeEntity(1, "1001")]]]]));
+
+      const exchanges = await subgraphReader.getStableSwapExchanges("1111", 2, {
+        timestamp: 1000,
+        id: `${mkBytes32("0xabc")}-1`,
+      });
+
+      expect(exchanges.map(({ id, timestamp }) => ({ id, timestamp }))).to.be.deep.eq([
+        { id: `${mkBytes32("0xabc")}-2`, timestamp: 1000 },
+        { id: `${mkBytes32("0xabc")}-1`, timestamp: 1001 },
+      ]);
+      expect(executeStub.getCall(0).args[0])
+        .to.include("timestamp: 1000")
+        .and.include(`id_gt: "${mkBytes32("0xabc")}-1"`);
+      expect(executeStub.getCall(1).args[0]).to.include("timestamp_gt: 1000").and.include("first: 1");
+    });
+
+    it("should return an empty array if there are no swaps", async () => {
+      executeStub.resolves(response);
+      expect(await subgraphReader.getStableSwapExchanges("1111", 100)).to.be.deep.eq([]);
+    });
+  });
+
+  describe("#getStableSwapPoolEvents", () => {
+    it("should return the pool events", async () => {
+      const event = {
+        id: `${mkBytes32("0xabc")}-3`,
+        poolId: mkAddress("0xc"),
+        eventType: "Add",
+        provider: mkAddress("0xaaa"),
+        tokenAmounts: ["100", "100"],
+        fees: ["0", "0"],
+        lpTokenSupply: "2200",
+        balances: ["1100", "1100"],
+        transactionHash: mkBytes32("0xabc"),
+        timestamp: "1660000000",
+        blockNumber: "50000",
+      };
+      response.set("1111", [[event]]);
+      executeStub.onFirstCall().resolves(new Map());
+      executeStub.onSecondCall().resolves(response);
+      expect(await subgraphReader.getStableSwapPoolEvents("1111", 100)).to.be.deep.eq([
+        {
+          id: event.id,
+          domain: "1111",
+          poolId: mkAddress("0xc"),
+          eventType: "Add",
+          provider: mkAddress("0xaaa"),
+          tokenAmounts: ["100", "100"],
+          fees: ["0", "0"],
+          lpTokenSupply: "2200",
+          balances: ["1100", "1100"],
+          transactionHash: mkBytes32("0xabc"),
+          timestamp: 1660000000,
+          blockNumber: 50000,
+        },
+      ]);
+    });
+  });
+
   describe("#isRouterApproved", () => {
     it("should be approved", async () => {
       response.set("1111", [{ id: mkAddress() }]);
@@ -460,6 +647,26 @@ describe("SubgraphReader", () => {
     });
   });
 
+  describe("#getBlockHashes", () => {
+    it("should return the hash per block number", async () => {
+      response.set("1111", [
+        { block: { number: 100, hash: mkBytes32("0x100") } },
+        { block: { number: 101, hash: mkBytes32("0x101") } },
+      ]);
+      executeStub.resolves(response);
+      const res = await subgraphReader.getBlockHashes("1111", [100, 101, 100]);
+      expect(executeStub).to.be.calledOnce;
+      expect(res.get(100)).to.be.eq(mkBytes32("0x100"));
+      expect(res.get(101)).to.be.eq(mkBytes32("0x101"));
+    });
+
+    it("should not query the subgraph if there are no block numbers", async () => {
+      const res = await subgraphReader.getBlockHashes("1111", []);
+      expect(executeStub).to.not.be.called;
+      expect(res.size).to.be.eq(0);
+    });
+  });
+
   describe("#getMaxRoutersPerTransfer", () => {
     it("should return maxRoutersPerTransfer per domain", async () => {
       response.set("1111", [{ maxRoutersPerTransfer: 3 }]);
@@ -470,4 +677,162 @@ describe("SubgraphReader", () => {
       expect(res.get("3331")).to.be.eq(3);
     });
   });
+
+  describe("#cache", () => {
+    const asset = {
+      local: mkAddress("0x111"),
+      adoptedAsset: mkAddress("0x112"),
+      canonicalId: mkBytes32(),
+      canonicalDomain: "1111",
+      blockNumber: "5000",
+    };
+
+    it("should not cache if caching is disabled", async () => {
+      response.set("1111", [[asset]]);
+      executeStub.resolves(response);
+
+      await subgraphReader.getAssetByLocal("1111", mkAddress("0x111"));
+      await subgraphReader.getAssetByLocal("1111", mkAddress("0x111"));
+
+      expect(executeStub).to.be.calledTwice;
+      expect(subgraphReader.getCacheStats()).to.be.undefined;
+    });
+
+    it("happy: should cache assets and coalesce concurrent queries", async () => {
+      const cachedReader = await SubgraphReader.create(mockChainData, "production", undefined, { enabled: true });
+      response.set("1111", [[asset]]);
+      executeStub.resolves(response);
+
+      const [first, second] = await Promise.all([
+        cachedReader.getAssetByLocal("1111", mkAddress("0x111")),
+        cachedReader.getAssetByLocal("1111", mkAddress("0x111").toUpperCase()),
+      ]);
+      const third = await cachedReader.getAssetByLocal("1111", mkAddress("0x111"));
+
+      expect(first).to.be.deep.eq(asset);
+      expect(second).to.be.deep.eq(asset);
+      expect(third).to.be.deep.eq(asset);
+      expect(executeStub).to.be.calledOnce;
+      expect(cachedReader.getCacheStats()).to.be.deep.eq({ hits: 1, misses: 1, coalesced: 1, size: 1 });
+    });
+
+    it("should query again once the method's ttl expires", async () => {
+      const cachedReader = await SubgraphReader.create(mockChainData, "production", undefined, {
+        enabled: true,
+        ttls: { getAssetBalance: 0 },
+      });
+      response.set("1111", [{ amount: "100" }]);
+      executeStub.resolves(response);
+
+      await cachedReader.getAssetBalance("1111", mkAddress("0x11"), mkAddress("0x111"));
+      await cachedReader.getAssetBalance("1111", mkAddress("0x11"), mkAddress("0x111"));
+
+      expect(executeStub).to.be.calledTwice;
+    });
+
+    it("should query again once the cache is cleared", async () => {
+      const cachedReader = await SubgraphReader.create(mockChainData, "production", undefined, { enabled: true });
+      response.set("1111", [[{ asset: { local: mkAddress("0x111") }, amount: "100" }]]);
+      executeStub.resolves(response);
+
+      await cachedReader.getAssetBalances("1111", mkAddress("0x11"));
+      cachedReader.clearCache();
+      await cachedReader.getAssetBalances("1111", mkAddress("0x11"));
+
+      expect(executeStub).to.be.calledTwice;
+    });
+  });
+
+  describe("#checkHealth", () => {
+    let chainReader: { getBlockNumber: SinonStub };
+    let blockNumbers: Record<string, number | Error>;
+    const createHealthyReader = () =>
+      SubgraphReader.create(mockChainData, "production", undefined, undefined, {
+        config: { maxLag: 10, domains: { "1111": { fallbackPrefixes: ["backuprinkeby"] } } },
+        chainReader,
+      });
+
+    beforeEach(() => {
+      // Use the reader's own context, so routing decisions are visible to the prefix helpers.
+      getContextStub.restore();
+      useFakeTimers();
+      stub(CreateFns, "create").resolves({
+        sources: { "1111": { domain: "1111", prefix: "rinkeby", prefixes: ["rinkeby"] } },
+        supported: { "1111": true },
+      });
+      chainReader = { getBlockNumber: stub().resolves(1000) };
+      blockNumbers = { rinkeby: 1000, backuprinkeby: 1000 };
+      executeStub.callsFake(async (query: string) => {
+        const prefix = query.includes("backuprinkeby__meta") ? "backuprinkeby" : "rinkeby";
+        if (blockNumbers[prefix] instanceof Error) throw blockNumbers[prefix];
+        return new Map([["1111", [{ block: { number: blockNumbers[prefix] } }]]]);
+      });
+    });
+
+    it("does nothing if health checks are disabled", async () => {
+      expect(await subgraphReader.checkHealth()).to.be.deep.eq({});
+    });
+
+    it("happy: should route to the freshest endpoint", async () => {
+      blockNumbers.backuprinkeby = 995;
+      const reader = await createHealthyReader();
+
+      expect(chainReader.getBlockNumber).to.be.calledWith(1111);
+      expect(reader.getHealth()["1111"]).to.be.deep.eq({
+        prefix: "rinkeby",
+        stale: false,
+        head: 1000,
+        maxLag: 10,
+        endpoints: [
+          { prefix: "rinkeby", blockNumber: 1000, lag: 0, healthy: true },
+          { prefix: "backuprinkeby", blockNumber: 995, lag: 5, healthy: true },
+        ],
+      });
+    });
+
+    it("should fail over to a fallback endpoint if the preferred one lags or is down", async () => {
+      blockNumbers.rinkeby = 900;
+      const reader = await createHealthyReader();
+      expect(reader.getHealth()["1111"].prefix).to.be.eq("backuprinkeby");
+
+      blockNumbers.rinkeby = new Error("down");
+      blockNumbers.backuprinkeby = 999;
+      const health = await reader.checkHealth(["1111"]);
+      expect(health["1111"].prefix).to.be.eq("backuprinkeby");
+      expect(health["1111"].endpoints[0]).to.be.deep.eq({
+        prefix: "rinkeby",
+        blockNumber: undefined,
+        lag: undefined,
+        healthy: false,
+      });
+
+      // Results from the fallback endpoint are still attributed to the domain.
+      response.set("1111", [{ amount: "100" }]);
+      executeStub.resolves(response);
+      await reader.getAssetBalance("1111", mkAddress("0x11"), mkAddress("0x111"));
+      expect(executeStub.lastCall.args[0]).to.include("backuprinkeby_");
+    });
+
+    it("should throw SubgraphStale until an endpoint catches up", async () => {
+      blockNumbers = { rinkeby: 900, backuprinkeby: 980 };
+      const reader = await createHealthyReader();
+
+      expect(reader.getHealth()["1111"].stale).to.be.true;
+      await expect(reader.getAssetBalance("1111", mkAddress("0x11"), mkAddress("0x111"))).to.be.rejectedWith(
+        SubgraphStale,
+      );
+
+      blockNumbers.rinkeby = 995;
+      await reader.checkHealth();
+      expect(reader.getHealth()["1111"]).to.deep.include({ prefix: "rinkeby", stale: false });
+    });
+
+    it("should consider responding endpoints healthy if the chain head is unknown", async () => {
+      chainReader.getBlockNumber.rejects(new Error("rpc down"));
+      blockNumbers.rinkeby = 10;
+      const reader = await createHealthyReader();
+
+      expect(reader.getHealth()["1111"]).to.deep.include({ prefix: "backuprinkeby", stale: false, head: undefined });
+    });
+  });
 });
@@ -13,6 +13,7 @@ import { BigNumber, Signer, Wallet, providers, constants, Contract, utils, BigNu
 import { validateProviderConfig, ChainConfig } from "./config";
 import {
   ConfigurationError,
+  FeeMarketNotSupported,
   GasEstimateInvalid,
   parseError,
   RpcError,
@@ -36,7 +37,12 @@ const PROVIDER_MAX_LAG = 30;
 // Default value for block period time (in ms) if we're unable to attain that info from the providers for some reason.
 const DEFAULT_BLOCK_PERIOD = 2_000;
 
-type ChainRpcProviderCache = { gasPrice: BigNumber; transactionCount: number };
+type ChainRpcProviderCache = {
+  gasPrice: BigNumber;
+  baseFeePerGas: BigNumber;
+  maxPriorityFeePerGas: BigNumber;
+  transactionCount: number;
+};
 
 // TODO: Multiton?
 /**
@@ -145,6 +151,12 @@ export class RpcProviderAggregator {
       gasPrice: {
         ttl: 30_000,
       },
+      baseFeePerGas: {
+        ttl: 5_000,
+      },
+      maxPriorityFeePerGas: {
+        ttl: 30_000,
+      },
       transactionCount: {
         ttl: 2_000,
       },
@@ -478,6 +490,121 @@ export class RpcProviderAggregator {
     return gasPrice;
   }
 
+  /**
+   * Get the current EIP-1559 gas fees for the chain for which this instance is servicing.
+   *
+   * @param context - RequestContext instance in which we are executing this method.
+   *
+   * @returns The maxFeePerGas (base fee plus configured buffer plus priority fee) and maxPriorityFeePerGas values
+   * to use for a type-2 transaction.
+   * @throws FeeMarketNotSupported if the chain's latest block does not report a base fee.
+   */
+  public async getGasFees(
+    context: RequestContext,
+  ): Promise<{ maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber }> {
+    const { requestContext, methodContext } = createLoggingContext(this.getGasFees.name, context);
+    const { baseFeeBufferPercent, gasPriceMaximum } = this.config;
+
+    const [baseFeePerGas, priorityFee] = await Promise.all([this.getBaseFee(), this.getMaxPriorityFee(requestContext)]);
+    let maxPriorityFeePerGas = priorityFee;
+    let maxFeePerGas = baseFeePerGas.add(baseFeePerGas.mul(baseFeeBufferPercent).div(100)).add(maxPriorityFeePerGas);
+
+    // Ensure we remain within the configured absolute maximum. The priority fee can never exceed the max fee.
+    const max = BigNumber.from(gasPriceMaximum);
+    if (maxFeePerGas.gt(max)) {
+      this.logger.warn("Hit the gas price absolute maximum.", requestContext, methodContext, {
+        chainId: this.chainId,
+        maxFeePerGas: utils.formatUnits(maxFeePerGas, "gwei"),
+        absoluteMax: utils.formatUnits(max, "gwei"),
+      });
+      maxFeePerGas = max;
+    }
+    if (maxPriorityFeePerGas.gt(maxFeePerGas)) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Get the base fee per gas of the latest block.
+   *
+   * @returns The BigNumber value for the current base fee.
+   * @throws FeeMarketNotSupported if the block does not report a base fee (i.e. the chain does not support EIP-1559).
+   */
+  public async getBaseFee(): Promise<BigNumber> {
+    if (this.cache.data.baseFeePerGas) {
+      return this.cache.data.baseFeePerGas;
+    }
+
+    const block = await this.getBlock("latest");
+    if (!block.baseFeePerGas) {
+      throw new FeeMarketNotSupported(this.chainId, { blockNumber: block.number });
+    }
+    this.cache.set({ baseFeePerGas: block.baseFeePerGas });
+    return block.baseFeePerGas;
+  }
+
+  /**
+   * Estimate the priority fee (tip) per gas needed for timely inclusion. Uses the configured reward percentile
+   * of recent blocks from eth_feeHistory, falling back to eth_maxPriorityFeePerGas if the former is unavailable.
+   *
+   * @param context - RequestContext instance in which we are executing this method.
+   *
+   * @returns The BigNumber value for the priority fee, no lower than the configured minimum.
+   */
+  public async getMaxPriorityFee(context: RequestContext): Promise<BigNumber> {
+    const { requestContext, methodContext } = createLoggingContext(this.getMaxPriorityFee.name, context);
+
+    if (this.cache.data.maxPriorityFeePerGas) {
+      return this.cache.data.maxPriorityFeePerGas;
+    }
+
+    const { feeHistoryBlocks, feeHistoryRewardPercentile, priorityFeeMinimum } = this.config;
+    let maxPriorityFeePerGas: BigNumber | undefined = undefined;
+    try {
+      const feeHistory = await this.execute<{ reward?: string[][] }>(false, async (provider: SyncProvider) => {
+        return await provider.send("eth_feeHistory", [
+          utils.hexValue(feeHistoryBlocks),
+          "latest",
+          [feeHistoryRewardPercentile],
+        ]);
+      });
+      // Each entry holds the reward at our requested percentile for one block; take the median across blocks.
+      const rewards = (feeHistory.reward ?? [])
+        .map((reward) => BigNumber.from(reward[0]))
+        .sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+      if (rewards.length > 0) {
+        maxPriorityFeePerGas = rewards[Math.floor(rewards.length / 2)];
+      }
+    } catch (e: unknown) {
+      this.logger.debug("Could not get fee history, using eth_maxPriorityFeePerGas.", requestContext, methodContext, {
+        chainId: this.chainId,
+        error: jsonifyError(e as NxtpError),
+      });
+    }
+
+    if (!maxPriorityFeePerGas) {
+      try {
+        maxPriorityFeePerGas = await this.execute<BigNumber>(false, async (provider: SyncProvider) => {
+          return BigNumber.from(await provider.send("eth_maxPriorityFeePerGas", []));
+        });
+      } catch (e: unknown) {
+        this.logger.debug("Could not get max priority fee, using minimum.", requestContext, methodContext, {
+          chainId: this.chainId,
+          error: jsonifyError(e as NxtpError),
+        });
+      }
+    }
+
+    const min = BigNumber.from(priorityFeeMinimum);
+    if (!maxPriorityFeePerGas || maxPriorityFeePerGas.lt(min)) {
+      maxPriorityFeePerGas = min;
+    }
+    this.cache.set({ maxPriorityFeePerGas });
+    return maxPriorityFeePerGas;
+  }
+
   /**
    * Get the current balance for the specified address.
    *
@@ -88,6 +88,20 @@ const CoreChainConfigSchema = Type.Object({
   // in the event that a gas station is malfunctioning.
   hardcodedGasPrice: Type.Optional(TIntegerString),
 
+  /// EIP-1559
+  // Whether to send type-2 (EIP-1559) transactions on this chain. If the chain's blocks do not report a base fee, or
+  // a hardcoded gas price is configured, we'll fall back to sending legacy (type-0) transactions.
+  eip1559: Type.Optional(Type.Boolean()),
+  // Number of recent blocks to sample (using eth_feeHistory) when estimating the priority fee.
+  feeHistoryBlocks: Type.Integer(),
+  // Percentile (0-100) of the priority fees paid in each sampled block that we'll use for our estimate.
+  feeHistoryRewardPercentile: Type.Integer(),
+  // Minimum priority fee (tip) per gas.
+  priorityFeeMinimum: TIntegerString,
+  // % of the current base fee we add on top of it when setting the max fee per gas. This is headroom that keeps the tx
+  // valid should the base fee rise while it's pending (at 100%, it stays valid through ~6 consecutive full blocks).
+  baseFeeBufferPercent: Type.Integer(),
+
   /// GAS LIMIT
   // An integer value by which we will inflate the gas LIMIT that is returned by the provider (flat increase).
   // Use this if your provider is returning low values and you're getting "out of gas" call exceptions.
@@ -211,6 +225,11 @@ export const DEFAULT_CHAIN_CONFIG: CoreChainConfig = {
   gasPriceMaximum: parseUnits("1500", "gwei").toString(),
   gasPriceMinimum: parseUnits("5", "gwei").toString(),
   gasPriceMaxIncreaseScalar: 200,
+  eip1559: false,
+  feeHistoryBlocks: 10,
+  feeHistoryRewardPercentile: 50,
+  priorityFeeMinimum: parseUnits("1", "gwei").toString(),
+  baseFeeBufferPercent: 100,
   confirmations: 10,
   // NOTE: This should be the amount of time we are willing to wait for a transaction
   // to get 1 confirmation.
@@ -13,6 +13,7 @@ import interval from "interval-promise";
 
 import {
   BadNonce,
+  FeeMarketNotSupported,
   TransactionReplaced,
   TransactionReverted,
   OperationTimeout,
@@ -343,6 +344,36 @@ export class TransactionDispatch extends RpcProviderAggregator {
     return { nonce, backfill, transactionCount };
   }
 
+  /**
+   * Determine the gas fee values for a new transaction. If EIP-1559 is enabled for this chain (and no hardcoded gas
+   * price is configured), we'll use type-2 fees; otherwise, or if the chain turns out not to support the fee market,
+   * we'll use a legacy gas price.
+   *
+   * @param context - Request context object used for logging.
+   * @returns Gas fee values: either price, or maxFeePerGas and maxPriorityFeePerGas.
+   */
+  private async determineGasFees(context: RequestContext): Promise<Omit<Gas, "limit">> {
+    const { requestContext, methodContext } = createLoggingContext(this.determineGasFees.name, context);
+    if (this.config.eip1559 && !this.config.hardcodedGasPrice) {
+      try {
+        return await this.getGasFees(requestContext);
+      } catch (error: unknown) {
+        if ((error as NxtpError).type !== FeeMarketNotSupported.type) {
+          throw error;
+        }
+        this.logger.warn(
+          "EIP-1559 is enabled but not supported by chain, using legacy gas price.",
+          requestContext,
+          methodContext,
+          {
+            chainId: this.chainId,
+          },
+        );
+      }
+    }
+    return { price: await this.getGasPrice(requestContext) };
+  }
+
   /// LIFECYCLE
   /**
    *
@@ -381,9 +412,9 @@ export class TransactionDispatch extends RpcProviderAggregator {
           // that, if we get past this method, we can *generally* assume that the transaction will go through on submit - although it's
           // still possible to revert due to a state change below.
           const attemptedNonces: number[] = [];
-          const [gasLimit, gasPrice, nonceInfo] = await Promise.all([
+          const [gasLimit, gasFees, nonceInfo] = await Promise.all([
             this.estimateGas(minTx),
-            this.getGasPrice(requestContext),
+            this.determineGasFees(requestContext),
             this.determineNonce(attemptedNonces),
           ]);
           let { nonce, backfill, transactionCount } = nonceInfo;
@@ -391,7 +422,7 @@ export class TransactionDispatch extends RpcProviderAggregator {
           // TODO: Remove hardcoded (exposed gasLimitInflation config var should replace this).
           const gas: Gas = {
             limit: gasLimit,
-            price: gasPrice,
+            ...gasFees,
           };
           if (this.chainId === 42161) {
             gas.limit = BigNumber.from(10_000_000);
@@ -438,8 +469,10 @@ export class TransactionDispatch extends RpcProviderAggregator {
               if (backfill) {
                 const replaced = this.inflightBuffer.getTxByNonce(transaction.nonce);
                 // Lets make sure we only replace/backfill a transaction that did not actually make it to chain.
-                if (replaced) {
+                if (replaced && replaced.type === transaction.type) {
                   transaction.gas.price = replaced.gas.price;
+                  transaction.gas.maxFeePerGas = replaced.gas.maxFeePerGas;
+                  transaction.gas.maxPriorityFeePerGas = replaced.gas.maxPriorityFeePerGas;
                 }
               }
               await this.submit(transaction);
@@ -550,6 +583,10 @@ export class TransactionDispatch extends RpcProviderAggregator {
           hash: response.hash,
           nonce: response.nonce,
           gasPrice: response.gasPrice ? utils.formatUnits(response.gasPrice, "gwei") : undefined,
+          maxFeePerGas: response.maxFeePerGas ? utils.formatUnits(response.maxFeePerGas, "gwei") : undefined,
+          maxPriorityFeePerGas: response.maxPriorityFeePerGas
+            ? utils.formatUnits(response.maxPriorityFeePerGas, "gwei")
+            : undefined,
           gasLimit: response.gasLimit.toString(),
         },
         transaction: transaction.loggable,
@@ -773,11 +810,16 @@ export class TransactionDispatch extends RpcProviderAggregator {
   /**
    * Bump the gas price for this tx up by the configured percentage.
    *
+   * @remarks
+   * For EIP-1559 transactions, nodes will only accept a replacement if *both* the max fee and the priority fee are
+   * raised by at least their minimum price bump (10% by default on geth) from the transaction being replaced. So we
+   * bump both by the configured percentage, and use the current fee market values instead if they are higher.
+   *
    * @param transaction - OnchainTransaction object to modify based on bump result.
    */
   public async bump(transaction: OnchainTransaction) {
     const { requestContext, methodContext } = createLoggingContext(this.bump.name, transaction.context);
-    const currentGasPrice = (transaction.gas.price ?? transaction.gas.maxPriorityFeePerGas)!;
+    const currentGasPrice = (transaction.type === 2 ? transaction.gas.maxFeePerGas : transaction.gas.price)!;
     if (
       transaction.bumps >= transaction.hashes.length ||
       currentGasPrice.gte(BigNumber.from(this.config.gasPriceMaximum))
@@ -793,7 +835,46 @@ export class TransactionDispatch extends RpcProviderAggregator {
       return;
     }
     transaction.bumps++;
-    // TODO: EIP-1559 support.
+    // Scale up gas by percentage as specified by config.
+    const applyBump = (value: BigNumber): BigNumber =>
+      value.add(value.mul(this.config.gasPriceReplacementBumpPercent).div(100)).add(1);
+
+    if (transaction.type === 2) {
+      const previousFees = transaction.loggableGasFee;
+      const currentPriorityFee = transaction.gas.maxPriorityFeePerGas!;
+      // Get the current fee market values, in case the base fee has changed drastically since we submitted.
+      let updatedFees: { maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber };
+      try {
+        updatedFees = await this.getGasFees(requestContext);
+      } catch {
+        updatedFees = { maxFeePerGas: currentGasPrice, maxPriorityFeePerGas: currentPriorityFee };
+      }
+      const bumpedMaxFee = applyBump(currentGasPrice);
+      const bumpedPriorityFee = applyBump(currentPriorityFee);
+      let maxFeePerGas = updatedFees.maxFeePerGas.gt(bumpedMaxFee) ? updatedFees.maxFeePerGas : bumpedMaxFee;
+      let maxPriorityFeePerGas = updatedFees.maxPriorityFeePerGas.gt(bumpedPriorityFee)
+        ? updatedFees.maxPriorityFeePerGas
+        : bumpedPriorityFee;
+      const max = BigNumber.from(this.config.gasPriceMaximum);
+      if (maxFeePerGas.gt(max)) {
+        maxFeePerGas = max;
+      }
+      if (maxPriorityFeePerGas.gt(maxFeePerGas)) {
+        maxPriorityFeePerGas = maxFeePerGas;
+      }
+      transaction.gas.maxFeePerGas = maxFeePerGas;
+      transaction.gas.maxPriorityFeePerGas = maxPriorityFeePerGas;
+
+      this.logger.info(`Tx bumped.`, requestContext, methodContext, {
+        chainId: this.chainId,
+        updatedMaxFeePerGas: utils.formatUnits(updatedFees.maxFeePerGas, "gwei"),
+        updatedMaxPriorityFeePerGas: utils.formatUnits(updatedFees.maxPriorityFeePerGas, "gwei"),
+        previousFees,
+        transaction: transaction.loggable,
+      });
+      return;
+    }
+
     // Get the current gas baseline price, in case it has changed drastically in the last block.
     let updatedGasPrice: BigNumber;
     try {
@@ -802,16 +883,7 @@ export class TransactionDispatch extends RpcProviderAggregator {
       updatedGasPrice = BigNumber.from(this.config.gasPriceMinimum);
     }
     const determinedBaseline = updatedGasPrice.gt(currentGasPrice) ? updatedGasPrice : currentGasPrice;
-    // Scale up gas by percentage as specified by config.
-    if (transaction.type === 0) {
-      transaction.gas.price = determinedBaseline
-        .add(determinedBaseline.mul(this.config.gasPriceReplacementBumpPercent).div(100))
-        .add(1);
-    } else {
-      transaction.gas.maxPriorityFeePerGas = determinedBaseline
-        .add(determinedBaseline.mul(this.config.gasPriceReplacementBumpPercent).div(100))
-        .add(1);
-    }
+    transaction.gas.price = applyBump(determinedBaseline);
 
     this.logger.info(`Tx bumped.`, requestContext, methodContext, {
       chainId: this.chainId,
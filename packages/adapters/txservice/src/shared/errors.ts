@@ -256,6 +256,17 @@ export class GasEstimateInvalid extends NxtpError {
   }
 }
 
+export class FeeMarketNotSupported extends NxtpError {
+  /**
+   * Thrown if EIP-1559 fees were requested for a chain whose blocks do not report a base fee.
+   */
+  static readonly type = FeeMarketNotSupported.name;
+
+  constructor(public readonly chainId: number, public readonly context: any = {}) {
+    super(`EIP-1559 fee market is not supported on chain ${chainId}.`, context, FeeMarketNotSupported.type);
+  }
+}
+
 export class ChainNotSupported extends NxtpError {
   static readonly type = ChainNotSupported.name;
 
@@ -63,8 +63,8 @@ export class OnchainTransaction {
   public bumps = 0;
 
   // The EIP-2718 type of this transaction envelope.
-  // 0 = legacy, 1 = EIP-1559, 2 = EIP-1559 with priority.
-  public type = 0; // TODO: Support EIP-1559 transactions.
+  // 0 = legacy, 2 = EIP-1559 (dynamic fee). Determined by which gas fee values are given on construction.
+  public type: number;
 
   public get hash(): string | undefined {
     return this.didMine
@@ -201,5 +201,7 @@ export class OnchainTransaction {
     public readonly gas: Gas,
     private readonly config: TransactionConfig,
     public readonly uuid: string,
-  ) {}
+  ) {
+    this.type = gas.price === undefined && gas.maxFeePerGas !== undefined ? 2 : 0;
+  }
 }
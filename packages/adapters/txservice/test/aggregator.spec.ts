@@ -8,6 +8,7 @@ import { ChainConfig, DEFAULT_CHAIN_CONFIG } from "../src/config";
 import {
   OnchainTransaction,
   SyncProvider,
+  FeeMarketNotSupported,
   GasEstimateInvalid,
   RpcError,
   OperationTimeout,
@@ -509,6 +510,84 @@ describe("RpcProviderAggregator", () => {
     });
   });
 
+  describe("#getGasFees", () => {
+    it("happy: should return the max fee and priority fee", async () => {
+      const baseFee = utils.parseUnits("10", "gwei");
+      const priorityFee = utils.parseUnits("2", "gwei");
+      Sinon.stub(chainProvider, "getBaseFee").resolves(baseFee);
+      Sinon.stub(chainProvider, "getMaxPriorityFee").resolves(priorityFee);
+
+      const result = await chainProvider.getGasFees(context);
+
+      // With the default 100% buffer, max fee = 2 * base fee + priority fee.
+      expect(result.maxFeePerGas.toString()).to.be.eq(baseFee.mul(2).add(priorityFee).toString());
+      expect(result.maxPriorityFeePerGas.toString()).to.be.eq(priorityFee.toString());
+    });
+
+    it("should cap max fee and priority fee at configured absolute maximum", async () => {
+      const max = utils.parseUnits("100", "gwei");
+      (chainProvider as any).config.gasPriceMaximum = max.toString();
+      Sinon.stub(chainProvider, "getBaseFee").resolves(utils.parseUnits("90", "gwei"));
+      Sinon.stub(chainProvider, "getMaxPriorityFee").resolves(utils.parseUnits("120", "gwei"));
+
+      const result = await chainProvider.getGasFees(context);
+
+      expect(result.maxFeePerGas.toString()).to.be.eq(max.toString());
+      expect(result.maxPriorityFeePerGas.toString()).to.be.eq(max.toString());
+    });
+  });
+
+  describe("#getBaseFee", () => {
+    it("happy: should return the base fee of the latest block", async () => {
+      const baseFee = utils.parseUnits("12", "gwei");
+      coreSyncProvider.getBlock.resolves({ number: 1, baseFeePerGas: baseFee } as unknown as providers.Block);
+
+      const result = await chainProvider.getBaseFee();
+
+      expect(result.toString()).to.be.eq(baseFee.toString());
+      expect(coreSyncProvider.getBlock.getCall(0).args[0]).to.be.eq("latest");
+    });
+
+    it("should throw if the block does not have a base fee", async () => {
+      coreSyncProvider.getBlock.resolves({ number: 1, baseFeePerGas: null } as unknown as providers.Block);
+
+      await expect(chainProvider.getBaseFee()).to.be.rejectedWith(FeeMarketNotSupported);
+    });
+  });
+
+  describe("#getMaxPriorityFee", () => {
+    it("happy: should return the median reward from fee history", async () => {
+      coreSyncProvider.send.resolves({
+        reward: [["0x77359400"], ["0x3b9aca00"], ["0xb2d05e00"]],
+      });
+
+      const result = await chainProvider.getMaxPriorityFee(context);
+
+      // Median of 2, 1, and 3 gwei.
+      expect(result.toString()).to.be.eq(utils.parseUnits("2", "gwei").toString());
+      expect(coreSyncProvider.send.getCall(0).args[0]).to.be.eq("eth_feeHistory");
+    });
+
+    it("should fall back to eth_maxPriorityFeePerGas if fee history fails", async () => {
+      coreSyncProvider.send
+        .withArgs("eth_feeHistory", Sinon.match.any)
+        .rejects(new RpcError(RpcError.reasons.FailedToSend));
+      coreSyncProvider.send.withArgs("eth_maxPriorityFeePerGas", Sinon.match.any).resolves("0x77359400");
+
+      const result = await chainProvider.getMaxPriorityFee(context);
+
+      expect(result.toString()).to.be.eq(utils.parseUnits("2", "gwei").toString());
+    });
+
+    it("should use configured minimum if estimate is lower", async () => {
+      coreSyncProvider.send.resolves({ reward: [["0x1"]] });
+
+      const result = await chainProvider.getMaxPriorityFee(context);
+
+      expect(result.toString()).to.be.eq((chainProvider as any).config.priorityFeeMinimum);
+    });
+  });
+
   describe("#getBalance", () => {
     it("happy: should return the balance", async () => {
       const testBalance = utils.parseUnits("42", "ether");
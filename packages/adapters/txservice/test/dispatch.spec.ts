@@ -9,6 +9,7 @@ import { RpcProviderAggregator } from "../src/aggregator";
 import {
   OnchainTransaction,
   BadNonce,
+  FeeMarketNotSupported,
   MaxBufferLengthError,
   NotEnoughConfirmations,
   RpcError,
@@ -42,6 +43,7 @@ let transaction: OnchainTransaction;
 let txDispatch: TransactionDispatch;
 let dispatchCallbacks: DispatchCallbacks;
 let getGasPriceStub: SinonStub;
+let getGasFeesStub: SinonStub;
 let estimateGasStub: SinonStub;
 let getTransactionStub: SinonStub;
 let getTransactionCountStub: SinonStub;
@@ -65,6 +67,10 @@ const stubAllDispatchMethods = (): void => {
   getTransactionStub = stub(txDispatch as any, "getTransaction").resolves([TEST_TX_RESPONSE]);
   getTransactionCountStub = stub(txDispatch as any, "getTransactionCount").resolves(TEST_TX_RESPONSE.nonce);
   getGasPriceStub = stub(txDispatch as any, "getGasPrice").resolves(TEST_FULL_TX.gasPrice);
+  getGasFeesStub = stub(txDispatch as any, "getGasFees").resolves({
+    maxFeePerGas: utils.parseUnits("20", "gwei"),
+    maxPriorityFeePerGas: utils.parseUnits("2", "gwei"),
+  });
   estimateGasStub = stub(txDispatch as any, "estimateGas").resolves(TEST_FULL_TX.gasLimit);
   submitStub = stub(txDispatch as any, "submit").resolves();
   mineStub = stub(txDispatch as any, "mine").resolves();
@@ -533,6 +539,39 @@ describe("TransactionDispatch", () => {
       await expect(txDispatch.send(TEST_TX, context)).to.be.rejectedWith("fail");
     });
 
+    it("should send a type-2 transaction if EIP-1559 is enabled", async () => {
+      (txDispatch as any).config.eip1559 = true;
+      await txDispatch.send(TEST_TX, context);
+
+      expect(getGasFeesStub.callCount).to.eq(1);
+      expect(getGasPriceStub.callCount).to.eq(0);
+      const transaction: OnchainTransaction = submitStub.getCall(0).args[0];
+      expect(transaction.type).to.eq(2);
+      expect(transaction.gas.price).to.be.undefined;
+      expect(transaction.gas.maxFeePerGas!.toString()).to.eq(utils.parseUnits("20", "gwei").toString());
+      expect(transaction.gas.maxPriorityFeePerGas!.toString()).to.eq(utils.parseUnits("2", "gwei").toString());
+    });
+
+    it("should fall back to a legacy transaction if the chain does not support EIP-1559", async () => {
+      (txDispatch as any).config.eip1559 = true;
+      getGasFeesStub.rejects(new FeeMarketNotSupported(TEST_SENDER_CHAIN_ID));
+      await txDispatch.send(TEST_TX, context);
+
+      expect(getGasPriceStub.callCount).to.eq(1);
+      const transaction: OnchainTransaction = submitStub.getCall(0).args[0];
+      expect(transaction.type).to.eq(0);
+      expect(transaction.gas.price!.toString()).to.eq(TEST_FULL_TX.gasPrice!.toString());
+    });
+
+    it("should use a legacy transaction if a hardcoded gas price is configured", async () => {
+      (txDispatch as any).config.eip1559 = true;
+      (txDispatch as any).config.hardcodedGasPrice = "100";
+      await txDispatch.send(TEST_TX, context);
+
+      expect(getGasFeesStub.callCount).to.eq(0);
+      expect(getGasPriceStub.callCount).to.eq(1);
+    });
+
     it("should retrieve new nonce and retry after a badnonce error", async () => {
       const badNonceError = new BadNonce(BadNonce.reasons.NonceExpired);
       submitStub.onCall(0).rejects(badNonceError);
@@ -811,6 +850,46 @@ describe("TransactionDispatch", () => {
       await txDispatch.bump(transaction);
       expect(transaction.gas.price.toNumber()).to.be.eq(13);
     });
+
+    describe("EIP-1559", () => {
+      beforeEach(() => {
+        transaction.type = 2;
+        transaction.gas.price = undefined;
+        transaction.gas.maxFeePerGas = BigNumber.from(100);
+        transaction.gas.maxPriorityFeePerGas = BigNumber.from(10);
+      });
+
+      it("happy: should bump both max fee and priority fee by the replacement percentage", async () => {
+        getGasFeesStub.resolves({ maxFeePerGas: BigNumber.from(50), maxPriorityFeePerGas: BigNumber.from(5) });
+        await txDispatch.bump(transaction);
+        expect(transaction.gas.maxFeePerGas!.toNumber()).to.be.eq(121);
+        expect(transaction.gas.maxPriorityFeePerGas!.toNumber()).to.be.eq(13);
+        expect(transaction.gas.price).to.be.undefined;
+        expect(getGasPriceStub.callCount).to.be.eq(0);
+      });
+
+      it("happy: should use current fees if they are higher than the bumped fees", async () => {
+        getGasFeesStub.resolves({ maxFeePerGas: BigNumber.from(300), maxPriorityFeePerGas: BigNumber.from(30) });
+        await txDispatch.bump(transaction);
+        expect(transaction.gas.maxFeePerGas!.toNumber()).to.be.eq(300);
+        expect(transaction.gas.maxPriorityFeePerGas!.toNumber()).to.be.eq(30);
+      });
+
+      it("should bump previous fees if getGasFees fails", async () => {
+        getGasFeesStub.rejects(new Error("fail"));
+        await txDispatch.bump(transaction);
+        expect(transaction.gas.maxFeePerGas!.toNumber()).to.be.eq(121);
+        expect(transaction.gas.maxPriorityFeePerGas!.toNumber()).to.be.eq(13);
+      });
+
+      it("shouldn't bump if max fee has reached maximum gas price", async () => {
+        const max = (txDispatch as any).config.gasPriceMaximum;
+        transaction.gas.maxFeePerGas = BigNumber.from(max);
+        await txDispatch.bump(transaction);
+        expect(transaction.gas.maxFeePerGas.toString()).to.be.eq(max);
+        expect(transaction.bumps).to.be.eq(0);
+      });
+    });
   });
 
   describe("#fail", () => {
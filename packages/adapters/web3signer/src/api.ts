@@ -1,8 +1,9 @@
-import { NxtpError } from "@connext/nxtp-utils";
+import { jsonifyError } from "@connext/nxtp-utils";
 import axios, { AxiosResponse } from "axios";
 import { Bytes } from "ethers";
 
-// TODO: This class might benefit from some error handling / logging and response sanitization logic.
+import { Web3SignerBadResponse, Web3SignerRequestFailed } from "./errors";
+
 /**
  * Simple class for wrapping axios calls to the web3signer API.
  */
@@ -17,25 +18,30 @@ export class Web3SignerApi {
 
   public async sign(identifier: string, data: string | Bytes): Promise<string> {
     const endpoint = Web3SignerApi.ENDPOINTS.SIGN;
-    let response: AxiosResponse<string> = await axios.post(this.formatUrl(endpoint, identifier), {
-      data,
-    });
-    response = this.sanitizeResponse(response, endpoint);
+    const response = await this.request<string>(endpoint, () =>
+      axios.post(this.formatUrl(endpoint, identifier), {
+        data,
+      }),
+    );
     return response.data;
   }
 
-  public async getServerStatus(): Promise<string> {
+  /**
+   * Returns whether the web3signer instance is up, as reported by its upcheck endpoint.
+   */
+  public async upcheck(): Promise<boolean> {
     const endpoint = Web3SignerApi.ENDPOINTS.SERVER_STATUS;
-    let response: AxiosResponse<string> = await axios.get(this.formatUrl(endpoint));
-    response = this.sanitizeResponse(response, endpoint);
-    return response.data[0];
+    const response = await this.request<string>(endpoint, () => axios.get(this.formatUrl(endpoint)));
+    return response.data === "OK";
   }
 
-  public async getPublicKey(): Promise<string> {
+  /**
+   * Returns the public keys of all the keys loaded in the web3signer instance.
+   */
+  public async getPublicKeys(): Promise<string[]> {
     const endpoint = Web3SignerApi.ENDPOINTS.PUBLIC_KEY;
-    let response: AxiosResponse<string> = await axios.get(this.formatUrl(endpoint));
-    response = this.sanitizeResponse(response, endpoint);
-    return response.data[0];
+    const response = await this.request<string[]>(endpoint, () => axios.get(this.formatUrl(endpoint)));
+    return response.data;
   }
 
   private formatUrl(
@@ -49,18 +55,29 @@ export class Web3SignerApi {
     return url;
   }
 
-  private sanitizeResponse(
-    response: AxiosResponse<string>,
+  private async request<T extends string | string[]>(
+    endpoint: typeof Web3SignerApi.ENDPOINTS[keyof typeof Web3SignerApi.ENDPOINTS],
+    send: () => Promise<AxiosResponse<T>>,
+  ): Promise<AxiosResponse<T>> {
+    let response: AxiosResponse<T>;
+    try {
+      response = await send();
+    } catch (error: any) {
+      throw new Web3SignerRequestFailed(endpoint, {
+        status: error.response?.status,
+        data: error.response?.data,
+        error: jsonifyError(error as Error),
+      });
+    }
+    return this.sanitizeResponse(response, endpoint);
+  }
+
+  private sanitizeResponse<T extends string | string[]>(
+    response: AxiosResponse<T>,
     endpoint: typeof Web3SignerApi.ENDPOINTS[keyof typeof Web3SignerApi.ENDPOINTS],
-  ): AxiosResponse<string> {
+  ): AxiosResponse<T> {
     if (!response || !response.data || response.data.length === 0) {
-      throw new NxtpError(
-        "Received bad response from web3signer instance; make sure your key file is configured correctly.",
-        {
-          response,
-          endpoint,
-        },
-      );
+      throw new Web3SignerBadResponse(endpoint, { status: response?.status, data: response?.data });
     }
     return response;
   }
@@ -0,0 +1,29 @@
+import { NxtpError } from "@connext/nxtp-utils";
+
+export class Web3SignerRequestFailed extends NxtpError {
+  constructor(endpoint: string, context: any = {}) {
+    super(`Request to web3signer failed: ${endpoint}`, { ...context, endpoint }, Web3SignerRequestFailed.name);
+  }
+}
+
+export class Web3SignerBadResponse extends NxtpError {
+  constructor(endpoint: string, context: any = {}) {
+    super(
+      "Received bad response from web3signer instance; make sure your key file is configured correctly.",
+      { ...context, endpoint },
+      Web3SignerBadResponse.name,
+    );
+  }
+}
+
+export class Web3SignerKeyNotFound extends NxtpError {
+  constructor(identifier?: string, context: any = {}) {
+    super(
+      identifier
+        ? "No key loaded in web3signer matches the given public key or address."
+        : "No keys loaded in web3signer.",
+      { ...context, identifier },
+      Web3SignerKeyNotFound.name,
+    );
+  }
+}
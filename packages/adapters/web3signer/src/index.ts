@@ -1,7 +1,44 @@
 import { Signer, providers, utils, Bytes, BigNumber } from "ethers";
-import { getAddressFromPublicKey } from "@connext/nxtp-utils";
+import { getAddressFromPublicKey, getNtpTimeSeconds, jsonifyError } from "@connext/nxtp-utils";
 
 import { Web3SignerApi } from "./api";
+import { Web3SignerKeyNotFound } from "./errors";
+
+export * from "./errors";
+
+export type Web3SignerRotation = {
+  // Public key or address of the key to rotate to.
+  identifier: string;
+  // Unix timestamp (in seconds) from which to start checking whether the new key is registered.
+  from?: number;
+  // Seconds between registration checks.
+  checkInterval?: number;
+  // Whether the new key's address is registered as the signer, e.g. approved as a router.
+  isRegistered: (address: string) => Promise<boolean>;
+  onRotated?: (address: string, previous: string) => void;
+};
+
+export type Web3SignerOptions = {
+  // Public key or address of the key to sign with. Defaults to the first key loaded in web3signer.
+  identifier?: string;
+  rotation?: Web3SignerRotation;
+};
+
+export type Web3SignerHealth = {
+  healthy: boolean;
+  address?: string;
+  rotation?: { identifier: string; from?: number; lastCheck?: number; error?: any };
+  error?: any;
+};
+
+type Web3SignerKey = { publicKey: string; address: string };
+
+// The key in use and any pending rotation, shared by a signer and the copies `connect` makes of it.
+type Web3SignerState = {
+  key?: Web3SignerKey;
+  // Cleared once we've switched to the new key.
+  rotation?: Web3SignerRotation & { lastCheck?: number; error?: any };
+};
 
 export class Web3Signer extends Signer {
   private static MESSAGE_PREFIX = "\x19Ethereum Signed Message:\n";
@@ -21,31 +58,76 @@ export class Web3Signer extends Signer {
     ]);
   }
 
-  public address?: string;
   public provider?: providers.Provider;
   private api: Web3SignerApi;
+  private state: Web3SignerState;
 
-  constructor(public readonly web3SignerUrl: string, provider?: providers.Provider) {
+  constructor(
+    public readonly web3SignerUrl: string,
+    provider?: providers.Provider,
+    public readonly options: Web3SignerOptions = {},
+  ) {
     super();
     this.web3SignerUrl = web3SignerUrl;
     this.provider = provider;
     this.api = new Web3SignerApi(web3SignerUrl);
+    this.state = { rotation: options.rotation ? { ...options.rotation } : undefined };
+  }
+
+  // The address of the key in use, once resolved.
+  public get address(): string | undefined {
+    return this.state.key?.address;
   }
 
   public connect(provider: providers.Provider): Web3Signer {
     this.provider = provider;
-    return new Web3Signer(this.web3SignerUrl, provider);
+    const signer = new Web3Signer(this.web3SignerUrl, provider, this.options);
+    // Share the key in use and any pending rotation, so the copy neither reverts to the configured key nor runs
+    // the rotation a second time.
+    signer.state = this.state;
+    return signer;
+  }
+
+  /**
+   * Starts rotating to another key, replacing any pending rotation. Useful when the registration check relies on
+   * something that isn't available yet when the signer is created.
+   */
+  public rotate(rotation: Web3SignerRotation): void {
+    this.state.rotation = { ...rotation };
   }
 
+  /**
+   * Gets the address of the key in use, switching to the rotation's key first if it's due. The key only ever
+   * switches here, so a caller that reads the address and then signs, signs with the key for that address.
+   */
   public async getAddress(): Promise<string> {
-    const publicKey = await this.api.getPublicKey();
-    const address = Web3Signer.getAddressFromPublicKey(publicKey);
-    this.address = address;
-    return address;
+    await this.getKey();
+    await this.checkRotation();
+    return this.state.key!.address;
+  }
+
+  /**
+   * Reports whether web3signer is up, along with the key in use and the state of any pending rotation.
+   */
+  public async getHealth(): Promise<Web3SignerHealth> {
+    const rotation = this.state.rotation
+      ? {
+          identifier: this.state.rotation.identifier,
+          from: this.state.rotation.from,
+          lastCheck: this.state.rotation.lastCheck,
+          error: this.state.rotation.error,
+        }
+      : undefined;
+    try {
+      const healthy = await this.api.upcheck();
+      return { healthy, address: this.address, rotation };
+    } catch (error: unknown) {
+      return { healthy: false, address: this.address, rotation, error: jsonifyError(error as Error) };
+    }
   }
 
   public async signMessage(message: Bytes | string): Promise<string> {
-    const identifier = await this.api.getPublicKey();
+    const { publicKey: identifier } = await this.getKey();
     const data = Web3Signer.prepareEthereumSignedMessage(message);
     const digestBytes = utils.hexZeroPad(data, data.length);
 
@@ -76,10 +158,60 @@ export class Web3Signer extends Signer {
           },
     );
 
-    const identifier = await this.api.getPublicKey();
+    const { publicKey: identifier } = await this.getKey();
     const digestBytes = utils.serializeTransaction(baseTx);
 
     const signature = await this.api.sign(identifier, digestBytes);
     return utils.serializeTransaction(baseTx, signature);
   }
+
+  private async getKey(): Promise<Web3SignerKey> {
+    if (!this.state.key) {
+      this.state.key = await this.resolveKey(this.options.identifier);
+    }
+    return this.state.key;
+  }
+
+  /**
+   * Switches to the rotation's key once it's registered. Checks are throttled to the check interval, and a failed
+   * check leaves the current key in use.
+   */
+  private async checkRotation(): Promise<void> {
+    const rotation = this.state.rotation;
+    const now = getNtpTimeSeconds();
+    if (!rotation || now < (rotation.from ?? 0) || now < (rotation.lastCheck ?? 0) + (rotation.checkInterval ?? 60)) {
+      return;
+    }
+    rotation.lastCheck = now;
+
+    try {
+      const next = await this.resolveKey(rotation.identifier);
+      if (!(await rotation.isRegistered(next.address))) {
+        return;
+      }
+      const previous = this.state.key!.address;
+      this.state.key = next;
+      this.state.rotation = undefined;
+      rotation.onRotated?.(next.address, previous);
+    } catch (error: unknown) {
+      rotation.error = jsonifyError(error as Error);
+    }
+  }
+
+  private async resolveKey(identifier?: string): Promise<Web3SignerKey> {
+    const keys = (await this.api.getPublicKeys()).map((publicKey) => ({
+      publicKey,
+      address: Web3Signer.getAddressFromPublicKey(publicKey),
+    }));
+    const key = identifier
+      ? keys.find(
+          ({ publicKey, address }) =>
+            publicKey.toLowerCase() === identifier.toLowerCase() || address.toLowerCase() === identifier.toLowerCase(),
+        )
+      : keys[0];
+    if (!key) {
+      throw new Web3SignerKeyNotFound(identifier, { available: keys.map(({ address }) => address) });
+    }
+    return key;
+  }
 }
@@ -0,0 +1,251 @@
+import { restore, reset, stub, useFakeTimers, SinonFakeTimers, SinonStub } from "sinon";
+import { providers, utils, Wallet } from "ethers";
+import { expect, mkAddress } from "@connext/nxtp-utils";
+
+import { Web3Signer, Web3SignerKeyNotFound, Web3SignerRequestFailed } from "../src";
+import { Web3SignerApi } from "../src/api";
+
+const url = "http://web3signer.example";
+
+// Keys loaded in the mock web3signer instance.
+const wallets = [Wallet.createRandom(), Wallet.createRandom()];
+const publicKeys = wallets.map((wallet) => wallet.publicKey);
+
+describe("Web3Signer", () => {
+  let getPublicKeysStub: SinonStub;
+  let signStub: SinonStub;
+  let upcheckStub: SinonStub;
+  let clock: SinonFakeTimers;
+
+  beforeEach(() => {
+    getPublicKeysStub = stub(Web3SignerApi.prototype, "getPublicKeys").resolves(publicKeys);
+    // Sign the way web3signer does: the keccak256 hash of the data, with the key matching the identifier.
+    signStub = stub(Web3SignerApi.prototype, "sign").callsFake(
+      async (identifier: string, data: string | utils.Bytes) => {
+        const wallet = wallets.find((wallet) => wallet.publicKey === identifier)!;
+        return utils.joinSignature(wallet._signingKey().signDigest(utils.keccak256(data)));
+      },
+    );
+    upcheckStub = stub(Web3SignerApi.prototype, "upcheck").resolves(true);
+    clock = useFakeTimers({ now: 1_000_000_000, toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    clock.restore();
+    restore();
+    reset();
+  });
+
+  describe("#getAddress", () => {
+    it("should use the first key loaded by default", async () => {
+      const signer = new Web3Signer(url);
+      expect(await signer.getAddress()).to.eq(wallets[0].address);
+      expect(signer.address).to.eq(wallets[0].address);
+    });
+
+    it("should select the key by public key or address", async () => {
+      expect(await new Web3Signer(url, undefined, { identifier: publicKeys[1] }).getAddress()).to.eq(
+        wallets[1].address,
+      );
+      expect(await new Web3Signer(url, undefined, { identifier: wallets[1].address.toLowerCase() }).getAddress()).to.eq(
+        wallets[1].address,
+      );
+    });
+
+    it("should only fetch the keys once", async () => {
+      const signer = new Web3Signer(url);
+      await signer.getAddress();
+      await signer.getAddress();
+      expect(getPublicKeysStub).to.be.calledOnce;
+    });
+
+    it("should throw if the key isn't loaded", async () => {
+      await expect(new Web3Signer(url, undefined, { identifier: mkAddress("0xabc") }).getAddress()).to.be.rejectedWith(
+        Web3SignerKeyNotFound,
+      );
+    });
+
+    it("should throw if no keys are loaded", async () => {
+      getPublicKeysStub.resolves([]);
+      await expect(new Web3Signer(url).getAddress()).to.be.rejectedWith(Web3SignerKeyNotFound);
+    });
+
+    it("should throw if web3signer fails", async () => {
+      getPublicKeysStub.rejects(new Web3SignerRequestFailed("api/v1/eth1/publicKeys"));
+      await expect(new Web3Signer(url).getAddress()).to.be.rejectedWith(Web3SignerRequestFailed);
+    });
+  });
+
+  describe("#signMessage", () => {
+    it("should sign with the selected key", async () => {
+      const signer = new Web3Signer(url, undefined, { identifier: wallets[1].address });
+      const signature = await signer.signMessage("hello");
+      expect(signStub.firstCall.args[0]).to.eq(publicKeys[1]);
+      expect(utils.verifyMessage("hello", signature)).to.eq(wallets[1].address);
+    });
+  });
+
+  describe("#signTransaction", () => {
+    it("should sign the transaction with the selected key", async () => {
+      const signer = new Web3Signer(url, undefined, { identifier: publicKeys[1] });
+      const signed = await signer.signTransaction({
+        to: mkAddress("0xdef"),
+        nonce: 1,
+        gasLimit: 21_000,
+        gasPrice: 1_000_000_000,
+        value: 1,
+        chainId: 1337,
+      });
+      const tx = utils.parseTransaction(signed);
+      expect(tx.from).to.eq(wallets[1].address);
+      expect(tx.to).to.eq(utils.getAddress(mkAddress("0xdef")));
+      expect(tx.chainId).to.eq(1337);
+    });
+  });
+
+  describe("rotation", () => {
+    const now = () => Math.floor(Date.now() / 1000);
+    let isRegistered: SinonStub;
+    let onRotated: SinonStub;
+
+    beforeEach(() => {
+      isRegistered = stub().resolves(false);
+      onRotated = stub();
+    });
+
+    const createSigner = (from?: number) =>
+      new Web3Signer(url, undefined, {
+        identifier: wallets[0].address,
+        rotation: { identifier: wallets[1].address, from, checkInterval: 60, isRegistered, onRotated },
+      });
+
+    it("should not check the new key before the rotation starts", async () => {
+      const signer = createSigner(now() + 100);
+      expect(await signer.getAddress()).to.eq(wallets[0].address);
+      expect(isRegistered).to.not.be.called;
+    });
+
+    it("should switch to the new key once it's registered", async () => {
+      const signer = createSigner();
+      isRegistered.resolves(true);
+
+      expect(await signer.getAddress()).to.eq(wallets[1].address);
+      expect(isRegistered).to.be.calledOnceWithExactly(wallets[1].address);
+      expect(onRotated).to.be.calledOnceWithExactly(wallets[1].address, wallets[0].address);
+      expect((await signer.getHealth()).rotation).to.be.undefined;
+    });
+
+    it("should only switch keys when the address is read", async () => {
+      const signer = createSigner();
+      await signer.getAddress();
+      isRegistered.resolves(true);
+      clock.tick(60_000);
+
+      const signature = await signer.signMessage("hello");
+      expect(utils.verifyMessage("hello", signature)).to.eq(wallets[0].address);
+      expect(isRegistered).to.be.calledOnce;
+      expect(await signer.getAddress()).to.eq(wallets[1].address);
+    });
+
+    it("should start a rotation given after the signer is created", async () => {
+      const signer = new Web3Signer(url, undefined, { identifier: wallets[0].address });
+      expect(await signer.getAddress()).to.eq(wallets[0].address);
+
+      isRegistered.resolves(true);
+      signer.rotate({ identifier: wallets[1].address, isRegistered, onRotated });
+      expect(await signer.getAddress()).to.eq(wallets[1].address);
+      expect(onRotated).to.be.calledOnceWithExactly(wallets[1].address, wallets[0].address);
+    });
+
+    it("should keep the current key until the new key is registered, checking once per interval", async () => {
+      const signer = createSigner();
+
+      expect(await signer.getAddress()).to.eq(wallets[0].address);
+      expect(await signer.getAddress()).to.eq(wallets[0].address);
+      expect(isRegistered).to.be.calledOnce;
+
+      clock.tick(60_000);
+      isRegistered.resolves(true);
+      expect(await signer.getAddress()).to.eq(wallets[1].address);
+      expect(isRegistered).to.be.calledTwice;
+    });
+
+    it("should keep the current key and record the error if the check fails", async () => {
+      const signer = new Web3Signer(url, undefined, {
+        rotation: { identifier: mkAddress("0xabc"), isRegistered, onRotated },
+      });
+
+      expect(await signer.getAddress()).to.eq(wallets[0].address);
+      const { rotation } = await signer.getHealth();
+      expect(rotation!.lastCheck).to.eq(now());
+      expect(rotation!.error.type).to.eq(Web3SignerKeyNotFound.name);
+      expect(onRotated).to.not.be.called;
+    });
+  });
+
+  describe("#connect", () => {
+    it("should share the key in use and the pending rotation", async () => {
+      const isRegistered = stub().resolves(false);
+      const signer = new Web3Signer(url, undefined, {
+        rotation: { identifier: wallets[1].address, checkInterval: 60, isRegistered },
+      });
+      await signer.getAddress();
+
+      const provider = new providers.JsonRpcProvider("http://localhost:8545");
+      const connected = signer.connect(provider);
+
+      expect(connected.provider).to.eq(provider);
+      expect(connected.address).to.eq(wallets[0].address);
+      expect(await connected.getAddress()).to.eq(wallets[0].address);
+      // The key isn't fetched again, and the rotation check isn't repeated within its interval.
+      expect(getPublicKeysStub).to.be.calledTwice;
+      expect(isRegistered).to.be.calledOnce;
+      expect((await connected.getHealth()).rotation).to.deep.eq((await signer.getHealth()).rotation);
+    });
+
+    it("should only rotate once for the signer and its copies", async () => {
+      const isRegistered = stub().resolves(false);
+      const onRotated = stub();
+      const signer = new Web3Signer(url, undefined, {
+        rotation: { identifier: wallets[1].address, checkInterval: 60, isRegistered, onRotated },
+      });
+      await signer.getAddress();
+      const connected = signer.connect(new providers.JsonRpcProvider("http://localhost:8545"));
+
+      clock.tick(60_000);
+      isRegistered.resolves(true);
+      expect(await connected.getAddress()).to.eq(wallets[1].address);
+      expect(await signer.getAddress()).to.eq(wallets[1].address);
+      expect(signer.address).to.eq(wallets[1].address);
+      expect(isRegistered).to.be.calledTwice;
+      expect(onRotated).to.be.calledOnce;
+    });
+
+    it("should keep a completed rotation", async () => {
+      const signer = new Web3Signer(url, undefined, {
+        rotation: { identifier: wallets[1].address, isRegistered: stub().resolves(true) },
+      });
+      await signer.getAddress();
+
+      const connected = signer.connect(new providers.JsonRpcProvider("http://localhost:8545"));
+      expect(await connected.getAddress()).to.eq(wallets[1].address);
+      expect((await connected.getHealth()).rotation).to.be.undefined;
+    });
+  });
+
+  describe("#getHealth", () => {
+    it("should report healthy with the key in use", async () => {
+      const signer = new Web3Signer(url);
+      await signer.getAddress();
+      expect(await signer.getHealth()).to.deep.eq({ healthy: true, address: wallets[0].address, rotation: undefined });
+    });
+
+    it("should report unhealthy if web3signer is down", async () => {
+      upcheckStub.rejects(new Web3SignerRequestFailed("upcheck"));
+      const health = await new Web3Signer(url).getHealth();
+      expect(health.healthy).to.be.false;
+      expect(health.address).to.be.undefined;
+      expect(health.error.type).to.eq(Web3SignerRequestFailed.name);
+    });
+  });
+});
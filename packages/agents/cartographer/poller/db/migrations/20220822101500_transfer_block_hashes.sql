@@ -0,0 +1,12 @@
+-- migrate:up
+ALTER TABLE transfers
+ADD COLUMN xcall_block_hash character(66);
+ALTER TABLE transfers
+ADD COLUMN execute_block_hash character(66);
+ALTER TABLE transfers
+ADD COLUMN reconcile_block_hash character(66);
+
+-- migrate:down
+ALTER TABLE transfers DROP COLUMN xcall_block_hash;
+ALTER TABLE transfers DROP COLUMN execute_block_hash;
+ALTER TABLE transfers DROP COLUMN reconcile_block_hash;
@@ -0,0 +1,105 @@
+-- migrate:up
+
+-- 0. Append-only snapshots of router balances, taken by the routers poller
+CREATE TABLE IF NOT EXISTS public.router_balance_snapshots (
+    router_address character(42) NOT NULL,
+    asset_canonical_id character(66) NOT NULL,
+    asset_domain character varying(255) NOT NULL,
+    balance numeric DEFAULT 0 NOT NULL,
+    "timestamp" integer NOT NULL,
+    PRIMARY KEY (router_address, asset_canonical_id, asset_domain, "timestamp")
+);
+
+CREATE INDEX IF NOT EXISTS router_balance_snapshots_timestamp_idx ON public.router_balance_snapshots ("timestamp");
+
+GRANT SELECT ON public.router_balance_snapshots to query;
+
+
+-- 1. Liquidity added and removed by routers, from the subgraph's RouterLiquidityAdded/Removed events
+CREATE TYPE public.router_liquidity_event_type AS ENUM (
+    'Add',
+    'Remove'
+);
+
+CREATE TABLE IF NOT EXISTS public.router_liquidity_events (
+    id character varying(255) NOT NULL PRIMARY KEY,
+    domain character varying(255) NOT NULL,
+    router_address character(42) NOT NULL,
+    event_type public.router_liquidity_event_type NOT NULL,
+    asset character(42) NOT NULL,
+    amount numeric NOT NULL,
+    balance numeric NOT NULL,
+    caller character(42) NOT NULL,
+    transaction_hash character(66) NOT NULL,
+    "timestamp" integer NOT NULL,
+    block_number integer NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS router_liquidity_events_timestamp_idx ON public.router_liquidity_events ("timestamp");
+
+GRANT SELECT ON public.router_liquidity_events to query;
+
+
+-- 2. Hourly router liquidity
+CREATE OR REPLACE VIEW public.hourly_router_liquidity AS (
+    SELECT
+	date_trunc('hour', to_timestamp(rbs."timestamp")) AS liquidity_hour,
+	rbs.router_address AS router,
+	rbs.asset_domain AS domain,
+	rbs.asset_canonical_id AS canonical_id,
+	AVG(rbs.balance) AS avg_liquidity,
+	MIN(rbs.balance) AS min_liquidity,
+	MAX(rbs.balance) AS max_liquidity,
+	COUNT(*) AS snapshot_count
+    FROM public.router_balance_snapshots rbs
+    GROUP BY 1,2,3,4
+);
+
+GRANT SELECT ON public.hourly_router_liquidity to query;
+
+
+-- 3. Daily router liquidity
+CREATE OR REPLACE VIEW public.daily_router_liquidity AS (
+    SELECT
+	date_trunc('day', to_timestamp(rbs."timestamp"))::date AS liquidity_date,
+	rbs.router_address AS router,
+	rbs.asset_domain AS domain,
+	rbs.asset_canonical_id AS canonical_id,
+	AVG(rbs.balance) AS avg_liquidity,
+	MIN(rbs.balance) AS min_liquidity,
+	MAX(rbs.balance) AS max_liquidity,
+	COUNT(*) AS snapshot_count
+    FROM public.router_balance_snapshots rbs
+    GROUP BY 1,2,3,4
+);
+
+GRANT SELECT ON public.daily_router_liquidity to query;
+
+
+-- 4. Daily net liquidity added/removed
+CREATE OR REPLACE VIEW public.daily_router_liquidity_changes AS (
+    SELECT
+	date_trunc('day', to_timestamp(rle."timestamp"))::date AS liquidity_date,
+	rle.router_address AS router,
+	rle.domain,
+	rle.asset AS local,
+	a.canonical_id,
+	SUM(CASE WHEN rle.event_type = 'Add' THEN rle.amount ELSE 0 END) AS liquidity_added,
+	SUM(CASE WHEN rle.event_type = 'Remove' THEN rle.amount ELSE 0 END) AS liquidity_removed,
+	SUM(CASE WHEN rle.event_type = 'Add' THEN rle.amount ELSE -rle.amount END) AS net_liquidity,
+	COUNT(*) AS event_count
+    FROM public.router_liquidity_events rle
+    LEFT JOIN public.assets a ON (a.local = rle.asset AND a.domain = rle.domain)
+    GROUP BY 1,2,3,4,5
+);
+
+GRANT SELECT ON public.daily_router_liquidity_changes to query;
+
+
+-- migrate:down
+DROP VIEW IF EXISTS public.daily_router_liquidity_changes;
+DROP VIEW IF EXISTS public.daily_router_liquidity;
+DROP VIEW IF EXISTS public.hourly_router_liquidity;
+DROP TABLE IF EXISTS public.router_liquidity_events;
+DROP TYPE IF EXISTS public.router_liquidity_event_type;
+DROP TABLE IF EXISTS public.router_balance_snapshots;
@@ -0,0 +1,106 @@
+-- migrate:up
+
+-- 0. Swaps in the StableSwap pools, from the subgraph's StableSwapExchange entities. Pools are identified by their address
+CREATE TABLE IF NOT EXISTS public.stableswap_exchanges (
+    id character varying(255) NOT NULL PRIMARY KEY,
+    domain character varying(255) NOT NULL,
+    pool_id character(42) NOT NULL,
+    buyer character(42) NOT NULL,
+    bought_id integer NOT NULL,
+    sold_id integer NOT NULL,
+    tokens_sold numeric NOT NULL,
+    tokens_bought numeric NOT NULL,
+    fee numeric NOT NULL,
+    balances numeric[] NOT NULL,
+    transaction_hash character(66) NOT NULL,
+    "timestamp" integer NOT NULL,
+    block_number integer NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS stableswap_exchanges_pool_timestamp_idx ON public.stableswap_exchanges (domain, pool_id, "timestamp");
+
+GRANT SELECT ON public.stableswap_exchanges to query;
+
+
+-- 1. Liquidity added to and removed from the StableSwap pools, from the subgraph's StableSwapPoolEvent entities
+CREATE TYPE public.stableswap_pool_event_type AS ENUM (
+    'Add',
+    'Remove'
+);
+
+CREATE TABLE IF NOT EXISTS public.stableswap_pool_events (
+    id character varying(255) NOT NULL PRIMARY KEY,
+    domain character varying(255) NOT NULL,
+    pool_id character(42) NOT NULL,
+    event_type public.stableswap_pool_event_type NOT NULL,
+    provider character(42) NOT NULL,
+    token_amounts numeric[] NOT NULL,
+    fees numeric[] NOT NULL,
+    lp_token_supply numeric NOT NULL,
+    balances numeric[] NOT NULL,
+    transaction_hash character(66) NOT NULL,
+    "timestamp" integer NOT NULL,
+    block_number integer NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS stableswap_pool_events_pool_timestamp_idx ON public.stableswap_pool_events (domain, pool_id, "timestamp");
+
+GRANT SELECT ON public.stableswap_pool_events to query;
+
+
+-- 2. Latest balances and LP token supply of each pool
+CREATE OR REPLACE VIEW public.stableswap_pools AS (
+    SELECT DISTINCT ON (e.domain, e.pool_id)
+	e.domain,
+	e.pool_id,
+	e.balances,
+	(
+	    SELECT spe.lp_token_supply FROM public.stableswap_pool_events spe
+	    WHERE spe.domain = e.domain AND spe.pool_id = e.pool_id
+	    ORDER BY spe.block_number DESC LIMIT 1
+	) AS lp_token_supply,
+	e."timestamp" AS last_event_timestamp
+    FROM (
+	SELECT domain, pool_id, balances, "timestamp", block_number FROM public.stableswap_exchanges
+	UNION ALL
+	SELECT domain, pool_id, balances, "timestamp", block_number FROM public.stableswap_pool_events
+    ) e
+    ORDER BY e.domain, e.pool_id, e.block_number DESC
+);
+
+GRANT SELECT ON public.stableswap_pools to query;
+
+
+-- 3. Daily volume (by token sold) and fees (by token charged) of each pool's tokens
+CREATE OR REPLACE VIEW public.daily_swap_volume AS (
+    SELECT
+	date_trunc('day', to_timestamp(t."timestamp"))::date AS swap_day,
+	t.domain,
+	t.pool_id,
+	t.token_index,
+	SUM(t.volume) AS volume,
+	SUM(t.fee) AS fees,
+	SUM(t.swap_count) AS swap_count
+    FROM (
+	SELECT domain, pool_id, sold_id AS token_index, tokens_sold AS volume, 0 AS fee, 1 AS swap_count, "timestamp"
+	FROM public.stableswap_exchanges
+	UNION ALL
+	SELECT domain, pool_id, bought_id, 0, fee, 0, "timestamp"
+	FROM public.stableswap_exchanges
+	UNION ALL
+	-- fees charged for imbalanced deposits and withdrawals
+	SELECT spe.domain, spe.pool_id, (f.ordinality - 1)::integer, 0, f.fee, 0, spe."timestamp"
+	FROM public.stableswap_pool_events spe, unnest(spe.fees) WITH ORDINALITY AS f(fee, ordinality)
+    ) t
+    GROUP BY 1,2,3,4
+);
+
+GRANT SELECT ON public.daily_swap_volume to query;
+
+
+-- migrate:down
+DROP VIEW IF EXISTS public.daily_swap_volume;
+DROP VIEW IF EXISTS public.stableswap_pools;
+DROP TABLE IF EXISTS public.stableswap_pool_events;
+DROP TYPE IF EXISTS public.stableswap_pool_event_type;
+DROP TABLE IF EXISTS public.stableswap_exchanges;
@@ -9,6 +9,26 @@ SET xmloption = content;
 SET client_min_messages = warning;
 SET row_security = off;
 
+--
+-- Name: router_liquidity_event_type; Type: TYPE; Schema: public; Owner: -
+--
+
+CREATE TYPE public.router_liquidity_event_type AS ENUM (
+    'Add',
+    'Remove'
+);
+
+
+--
+-- Name: stableswap_pool_event_type; Type: TYPE; Schema: public; Owner: -
+--
+
+CREATE TYPE public.stableswap_pool_event_type AS ENUM (
+    'Add',
+    'Remove'
+);
+
+
 --
 -- Name: transfer_status; Type: TYPE; Schema: public; Owner: -
 --
@@ -75,6 +95,38 @@ CREATE TABLE public.checkpoints (
 );
 
 
+--
+-- Name: router_balance_snapshots; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.router_balance_snapshots (
+    router_address character(42) NOT NULL,
+    asset_canonical_id character(66) NOT NULL,
+    asset_domain character varying(255) NOT NULL,
+    balance numeric DEFAULT 0 NOT NULL,
+    "timestamp" integer NOT NULL
+);
+
+
+--
+-- Name: router_liquidity_events; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.router_liquidity_events (
+    id character varying(255) NOT NULL,
+    domain character varying(255) NOT NULL,
+    router_address character(42) NOT NULL,
+    event_type public.router_liquidity_event_type NOT NULL,
+    asset character(42) NOT NULL,
+    amount numeric NOT NULL,
+    balance numeric NOT NULL,
+    caller character(42) NOT NULL,
+    transaction_hash character(66) NOT NULL,
+    "timestamp" integer NOT NULL,
+    block_number integer NOT NULL
+);
+
+
 --
 -- Name: routers; Type: TABLE; Schema: public; Owner: -
 --
@@ -113,6 +165,47 @@ CREATE TABLE public.schema_migrations (
 );
 
 
+--
+-- Name: stableswap_exchanges; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.stableswap_exchanges (
+    id character varying(255) NOT NULL,
+    domain character varying(255) NOT NULL,
+    pool_id character(42) NOT NULL,
+    buyer character(42) NOT NULL,
+    bought_id integer NOT NULL,
+    sold_id integer NOT NULL,
+    tokens_sold numeric NOT NULL,
+    tokens_bought numeric NOT NULL,
+    fee numeric NOT NULL,
+    balances numeric[] NOT NULL,
+    transaction_hash character(66) NOT NULL,
+    "timestamp" integer NOT NULL,
+    block_number integer NOT NULL
+);
+
+
+--
+-- Name: stableswap_pool_events; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.stableswap_pool_events (
+    id character varying(255) NOT NULL,
+    domain character varying(255) NOT NULL,
+    pool_id character(42) NOT NULL,
+    event_type public.stableswap_pool_event_type NOT NULL,
+    provider character(42) NOT NULL,
+    token_amounts numeric[] NOT NULL,
+    fees numeric[] NOT NULL,
+    lp_token_supply numeric NOT NULL,
+    balances numeric[] NOT NULL,
+    transaction_hash character(66) NOT NULL,
+    "timestamp" integer NOT NULL,
+    block_number integer NOT NULL
+);
+
+
 --
 -- Name: transfers; Type: TABLE; Schema: public; Owner: -
 --
@@ -163,7 +256,10 @@ CREATE TABLE public.transfers (
     reconcile_block_number integer,
     update_time timestamp without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
     agent character(42),
-    slippage_tol numeric
+    slippage_tol numeric,
+    xcall_block_hash character(66),
+    execute_block_hash character(66),
+    reconcile_block_hash character(66)
 );
 
 
@@ -191,6 +287,22 @@ ALTER TABLE ONLY public.checkpoints
     ADD CONSTRAINT checkpoints_pkey PRIMARY KEY (check_name);
 
 
+--
+-- Name: router_balance_snapshots router_balance_snapshots_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.router_balance_snapshots
+    ADD CONSTRAINT router_balance_snapshots_pkey PRIMARY KEY (router_address, asset_canonical_id, asset_domain, "timestamp");
+
+
+--
+-- Name: router_liquidity_events router_liquidity_events_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.router_liquidity_events
+    ADD CONSTRAINT router_liquidity_events_pkey PRIMARY KEY (id);
+
+
 --
 -- Name: routers routers_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -207,6 +319,22 @@ ALTER TABLE ONLY public.schema_migrations
     ADD CONSTRAINT schema_migrations_pkey PRIMARY KEY (version);
 
 
+--
+-- Name: stableswap_exchanges stableswap_exchanges_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.stableswap_exchanges
+    ADD CONSTRAINT stableswap_exchanges_pkey PRIMARY KEY (id);
+
+
+--
+-- Name: stableswap_pool_events stableswap_pool_events_pkey; Type: CONSTRAINT; Schema: public; Owner: -
+--
+
+ALTER TABLE ONLY public.stableswap_pool_events
+    ADD CONSTRAINT stableswap_pool_events_pkey PRIMARY KEY (id);
+
+
 --
 -- Name: transfers transfers_pkey; Type: CONSTRAINT; Schema: public; Owner: -
 --
@@ -215,6 +343,34 @@ ALTER TABLE ONLY public.transfers
     ADD CONSTRAINT transfers_pkey PRIMARY KEY (transfer_id);
 
 
+--
+-- Name: router_balance_snapshots_timestamp_idx; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX router_balance_snapshots_timestamp_idx ON public.router_balance_snapshots USING btree ("timestamp");
+
+
+--
+-- Name: router_liquidity_events_timestamp_idx; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX router_liquidity_events_timestamp_idx ON public.router_liquidity_events USING btree ("timestamp");
+
+
+--
+-- Name: stableswap_exchanges_pool_timestamp_idx; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX stableswap_exchanges_pool_timestamp_idx ON public.stableswap_exchanges USING btree (domain, pool_id, "timestamp");
+
+
+--
+-- Name: stableswap_pool_events_pool_timestamp_idx; Type: INDEX; Schema: public; Owner: -
+--
+
+CREATE INDEX stableswap_pool_events_pool_timestamp_idx ON public.stableswap_pool_events USING btree (domain, pool_id, "timestamp");
+
+
 --
 -- Name: transfers update_time_on_transfers; Type: TRIGGER; Schema: public; Owner: -
 --
@@ -255,3 +411,6 @@ INSERT INTO public.schema_migrations (version) VALUES
     ('20220707182823');
     ('20220811120125');
     ('20220816134851');
+    ('20220822101500');
+    ('20220823093000');
+    ('20220825120000');
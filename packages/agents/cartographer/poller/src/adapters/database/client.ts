@@ -1,4 +1,16 @@
-import { XTransfer, XTransferStatus, RouterBalance, convertFromDbTransfer } from "@connext/nxtp-utils";
+import {
+  XTransfer,
+  XTransferStatus,
+  RouterBalance,
+  RouterLiquidityEvent,
+  StableSwapExchange,
+  StableSwapPoolEvent,
+  CartographerApiAsset,
+  CartographerApiRouterLiquidity,
+  CartographerApiTransferVolume,
+  convertFromDbTransfer,
+  convertToRouterBalance,
+} from "@connext/nxtp-utils";
 import { Pool } from "pg";
 import * as db from "zapatos/db";
 import { raw } from "zapatos/db";
@@ -39,6 +51,7 @@ const convertToDbTransfer = (transfer: XTransfer): s.transfers.Insertable => {
     xcall_gas_price: transfer.origin?.xcall?.gasPrice as any,
     xcall_gas_limit: transfer.origin?.xcall?.gasLimit as any,
     xcall_block_number: transfer.origin?.xcall?.blockNumber,
+    xcall_block_hash: transfer.origin?.xcall?.blockHash,
 
     destination_chain: transfer.destination?.chain,
     status: transfer.destination?.status,
@@ -54,6 +67,7 @@ const convertToDbTransfer = (transfer: XTransfer): s.transfers.Insertable => {
     execute_gas_price: transfer.destination?.execute?.gasPrice as any,
     execute_gas_limit: transfer.destination?.execute?.gasLimit as any,
     execute_block_number: transfer.destination?.execute?.blockNumber,
+    execute_block_hash: transfer.destination?.execute?.blockHash,
     execute_origin_sender: transfer.destination?.execute?.originSender,
 
     reconcile_caller: transfer.destination?.reconcile?.caller,
@@ -62,6 +76,7 @@ const convertToDbTransfer = (transfer: XTransfer): s.transfers.Insertable => {
     reconcile_gas_price: transfer.destination?.reconcile?.gasPrice as any,
     reconcile_gas_limit: transfer.destination?.reconcile?.gasLimit as any,
     reconcile_block_number: transfer.destination?.reconcile?.blockNumber,
+    reconcile_block_hash: transfer.destination?.reconcile?.blockHash,
   };
 };
 
@@ -163,6 +178,155 @@ export const getTransfersWithDestinationPending = async (
   return transfer_ids;
 };
 
+export const getTransferBlocks = async (
+  domain: string,
+  fromBlock: number,
+  _pool?: Pool,
+): Promise<{ blockNumber: number; blockHash: string }[]> => {
+  const poolToUse = _pool ?? pool;
+  const blocks = await db.sql<s.transfers.SQL, { block_number: number; block_hash: string }[]>`
+    SELECT DISTINCT "xcall_block_number" AS "block_number", "xcall_block_hash" AS "block_hash" FROM ${"transfers"}
+    WHERE ${{ origin_domain: domain }} AND "xcall_block_number" >= ${db.param(
+    fromBlock,
+  )} AND "xcall_block_hash" IS NOT NULL
+    UNION
+    SELECT DISTINCT "execute_block_number" AS "block_number", "execute_block_hash" AS "block_hash" FROM ${"transfers"}
+    WHERE ${{ destination_domain: domain }} AND "execute_block_number" >= ${db.param(
+    fromBlock,
+  )} AND "execute_block_hash" IS NOT NULL
+    UNION
+    SELECT DISTINCT "reconcile_block_number" AS "block_number", "reconcile_block_hash" AS "block_hash" FROM ${"transfers"}
+    WHERE ${{ destination_domain: domain }} AND "reconcile_block_number" >= ${db.param(
+    fromBlock,
+  )} AND "reconcile_block_hash" IS NOT NULL
+  `.run(poolToUse);
+
+  return blocks.map((block) => ({ blockNumber: block.block_number, blockHash: block.block_hash }));
+};
+
+const rewindCheckPoint = async (check: string, point: number, poolToUse: Pool): Promise<void> => {
+  const current = await getCheckPoint(check, poolToUse);
+  if (point < current) {
+    await saveCheckPoint(check, Math.max(point, 0), poolToUse);
+  }
+};
+
+/**
+ * Rolls back everything saved for a domain from `forkBlock` onwards after a chain reorg. The affected xcall, execute and
+ * reconcile data is cleared so the pending transfer queries pick the transfers up again, and the domain's checkpoints are
+ * rewound so the orphaned range gets re-polled.
+ * @param domain - The domain that reorged
+ * @param forkBlock - The first block that is no longer canonical
+ * @returns The number of transfers rolled back
+ */
+export const rollbackTransfers = async (domain: string, forkBlock: number, _pool?: Pool): Promise<number> => {
+  const poolToUse = _pool ?? pool;
+  const transfers = await db.sql<s.transfers.SQL, s.transfers.JSONSelectable[]>`SELECT * FROM ${"transfers"} WHERE (${{
+    origin_domain: domain,
+  }} AND "xcall_block_number" >= ${db.param(forkBlock)}) OR (${{
+    destination_domain: domain,
+  }} AND ("execute_block_number" >= ${db.param(forkBlock)} OR "reconcile_block_number" >= ${db.param(forkBlock)}))`.run(
+    poolToUse,
+  );
+
+  const xcalled = transfers.filter((t) => t.origin_domain === domain && (t.xcall_block_number ?? 0) >= forkBlock);
+  const executed = transfers.filter(
+    (t) => t.destination_domain === domain && (t.execute_block_number ?? 0) >= forkBlock,
+  );
+  const reconciled = transfers.filter(
+    (t) => t.destination_domain === domain && (t.reconcile_block_number ?? 0) >= forkBlock,
+  );
+
+  // Rewind the checkpoints first, so the range is re-polled even if we fail partway through.
+  if (xcalled.length > 0) {
+    await rewindCheckPoint(
+      "origin_nonce_" + domain,
+      Math.min(...xcalled.map((t) => Number(t.nonce ?? 0))) - 1,
+      poolToUse,
+    );
+  }
+  if (executed.length > 0) {
+    await rewindCheckPoint(
+      "destination_nonce_" + domain,
+      Math.min(...executed.map((t) => Number(t.nonce ?? 0))) - 1,
+      poolToUse,
+    );
+  }
+  if (reconciled.length > 0) {
+    await rewindCheckPoint(
+      "destination_reconcile_timestamp_" + domain,
+      Math.min(...reconciled.map((t) => t.reconcile_timestamp ?? 0)) - 1,
+      poolToUse,
+    );
+  }
+
+  for (const transfer of transfers) {
+    const update: s.transfers.Updatable = {};
+    if (xcalled.includes(transfer)) {
+      Object.assign(update, {
+        origin_chain: null,
+        origin_transacting_asset: null,
+        origin_transacting_amount: null,
+        origin_bridged_asset: null,
+        origin_bridged_amount: null,
+        xcall_caller: null,
+        xcall_transaction_hash: null,
+        xcall_timestamp: null,
+        xcall_gas_price: null,
+        xcall_gas_limit: null,
+        xcall_block_number: null,
+        xcall_block_hash: null,
+      });
+    }
+
+    const isExecuted = !!transfer.execute_block_number && !executed.includes(transfer);
+    const isReconciled = !!transfer.reconcile_block_number && !reconciled.includes(transfer);
+    if (executed.includes(transfer)) {
+      Object.assign(update, {
+        routers: null,
+        destination_transacting_asset: null,
+        destination_transacting_amount: null,
+        execute_caller: null,
+        execute_transaction_hash: null,
+        execute_timestamp: null,
+        execute_gas_price: null,
+        execute_gas_limit: null,
+        execute_block_number: null,
+        execute_block_hash: null,
+        execute_origin_sender: null,
+      });
+    }
+    if (reconciled.includes(transfer)) {
+      Object.assign(update, {
+        reconcile_caller: null,
+        reconcile_transaction_hash: null,
+        reconcile_timestamp: null,
+        reconcile_gas_price: null,
+        reconcile_gas_limit: null,
+        reconcile_block_number: null,
+        reconcile_block_hash: null,
+      });
+    }
+    if (!isExecuted && !isReconciled) {
+      Object.assign(update, { destination_chain: null, destination_local_asset: null, destination_local_amount: null });
+    }
+    update.status =
+      isExecuted && isReconciled
+        ? transfer.status
+        : isExecuted
+        ? XTransferStatus.Executed
+        : isReconciled
+        ? XTransferStatus.Reconciled
+        : XTransferStatus.XCalled;
+
+    await db.sql<s.transfers.SQL, s.transfers.JSONSelectable[]>`UPDATE ${"transfers"} SET (${db.cols(
+      update,
+    )}) = (${db.vals(update)}) WHERE ${{ transfer_id: transfer.transfer_id }}`.run(poolToUse);
+  }
+
+  return transfers.length;
+};
+
 export const saveRouterBalances = async (routerBalances: RouterBalance[], _pool?: Pool): Promise<void> => {
   const poolToUse = _pool ?? pool;
   const routers: s.routers.Insertable[] = routerBalances.map((router) => {
@@ -216,3 +380,324 @@ export const saveRouterBalances = async (routerBalances: RouterBalance[], _pool?
     }
   }
 };
+
+/**
+ * Appends a snapshot of every router's current balances to the router balance history.
+ * @param timestamp - The time of the snapshot, in seconds
+ */
+export const saveRouterBalanceSnapshot = async (timestamp: number, _pool?: Pool): Promise<void> => {
+  const poolToUse = _pool ?? pool;
+  await db.sql<s.router_balance_snapshots.SQL | s.asset_balances.SQL, s.router_balance_snapshots.JSONSelectable[]>`
+    INSERT INTO ${"router_balance_snapshots"} ("router_address", "asset_canonical_id", "asset_domain", "balance", "timestamp")
+    SELECT "router_address", "asset_canonical_id", "asset_domain", "balance", ${db.param(
+      timestamp,
+      "integer",
+    )} FROM ${"asset_balances"}
+    ON CONFLICT DO NOTHING
+  `.run(poolToUse);
+};
+
+/**
+ * Gets the timestamp and ID of the last router liquidity event saved for a domain, from which to resume polling.
+ * Events are ordered by timestamp, then by ID.
+ */
+export const getRouterLiquidityEventsCursor = async (
+  domain: string,
+  _pool?: Pool,
+): Promise<{ timestamp: number; id: string } | undefined> => {
+  const poolToUse = _pool ?? pool;
+  const events = await db.sql<s.router_liquidity_events.SQL, s.router_liquidity_events.JSONSelectable[]>`
+    SELECT * FROM ${"router_liquidity_events"} WHERE ${{ domain }} AND ${"timestamp"} = (
+      SELECT MAX(${"timestamp"}) FROM ${"router_liquidity_events"} WHERE ${{ domain }}
+    )`.run(poolToUse);
+  if (events.length === 0) {
+    return undefined;
+  }
+  // Compare IDs by code point, as the subgraph does, rather than by the database's collation.
+  const id = events.map((event) => event.id).reduce((max, id) => (id > max ? id : max));
+  return { timestamp: events[0].timestamp, id };
+};
+
+export const saveRouterLiquidityEvents = async (events: RouterLiquidityEvent[], _pool?: Pool): Promise<void> => {
+  const poolToUse = _pool ?? pool;
+  const liquidityEvents: s.router_liquidity_events.Insertable[] = events.map((event) => {
+    return {
+      id: event.id,
+      domain: event.domain,
+      router_address: event.router,
+      event_type: event.eventType,
+      asset: event.asset,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      amount: event.amount as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      balance: event.balance as any,
+      caller: event.caller,
+      transaction_hash: event.transactionHash,
+      timestamp: event.timestamp,
+      block_number: event.blockNumber,
+    };
+  });
+
+  // The events are immutable, so anything we've already saved can be skipped.
+  for (const event of liquidityEvents) {
+    await db.sql<s.router_liquidity_events.SQL, s.router_liquidity_events.JSONSelectable[]>`
+    INSERT INTO ${"router_liquidity_events"} (${db.cols(event)}) VALUES (${db.vals(
+      event,
+    )}) ON CONFLICT ("id") DO NOTHING RETURNING *
+    `.run(poolToUse);
+  }
+};
+
+/**
+ * Gets the timestamp and ID of the last StableSwap exchange saved for a domain, from which to resume polling.
+ */
+export const getStableSwapExchangesCursor = async (
+  domain: string,
+  _pool?: Pool,
+): Promise<{ timestamp: number; id: string } | undefined> => {
+  const poolToUse = _pool ?? pool;
+  const exchanges = await db.sql<s.stableswap_exchanges.SQL, s.stableswap_exchanges.JSONSelectable[]>`
+    SELECT * FROM ${"stableswap_exchanges"} WHERE ${{ domain }} AND ${"timestamp"} = (
+      SELECT MAX(${"timestamp"}) FROM ${"stableswap_exchanges"} WHERE ${{ domain }}
+    )`.run(poolToUse);
+  if (exchanges.length === 0) {
+    return undefined;
+  }
+  const id = exchanges.map((exchange) => exchange.id).reduce((max, id) => (id > max ? id : max));
+  return { timestamp: exchanges[0].timestamp, id };
+};
+
+/**
+ * Gets the timestamp and ID of the last StableSwap pool event saved for a domain, from which to resume polling.
+ */
+export const getStableSwapPoolEventsCursor = async (
+  domain: string,
+  _pool?: Pool,
+): Promise<{ timestamp: number; id: string } | undefined> => {
+  const poolToUse = _pool ?? pool;
+  const events = await db.sql<s.stableswap_pool_events.SQL, s.stableswap_pool_events.JSONSelectable[]>`
+    SELECT * FROM ${"stableswap_pool_events"} WHERE ${{ domain }} AND ${"timestamp"} = (
+      SELECT MAX(${"timestamp"}) FROM ${"stableswap_pool_events"} WHERE ${{ domain }}
+    )`.run(poolToUse);
+  if (events.length === 0) {
+    return undefined;
+  }
+  const id = events.map((event) => event.id).reduce((max, id) => (id > max ? id : max));
+  return { timestamp: events[0].timestamp, id };
+};
+
+export const saveStableSwapExchanges = async (exchanges: StableSwapExchange[], _pool?: Pool): Promise<void> => {
+  const poolToUse = _pool ?? pool;
+  const swaps: s.stableswap_exchanges.Insertable[] = exchanges.map((exchange) => {
+    return {
+      id: exchange.id,
+      domain: exchange.domain,
+      pool_id: exchange.poolId,
+      buyer: exchange.buyer,
+      bought_id: exchange.boughtId,
+      sold_id: exchange.soldId,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      tokens_sold: exchange.tokensSold as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      tokens_bought: exchange.tokensBought as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      fee: exchange.fee as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      balances: exchange.balances as any,
+      transaction_hash: exchange.transactionHash,
+      timestamp: exchange.timestamp,
+      block_number: exchange.blockNumber,
+    };
+  });
+
+  for (const swap of swaps) {
+    await db.sql<s.stableswap_exchanges.SQL, s.stableswap_exchanges.JSONSelectable[]>`
+    INSERT INTO ${"stableswap_exchanges"} (${db.cols(swap)}) VALUES (${db.vals(
+      swap,
+    )}) ON CONFLICT ("id") DO NOTHING RETURNING *
+    `.run(poolToUse);
+  }
+};
+
+export const saveStableSwapPoolEvents = async (events: StableSwapPoolEvent[], _pool?: Pool): Promise<void> => {
+  const poolToUse = _pool ?? pool;
+  const poolEvents: s.stableswap_pool_events.Insertable[] = events.map((event) => {
+    return {
+      id: event.id,
+      domain: event.domain,
+      pool_id: event.poolId,
+      event_type: event.eventType,
+      provider: event.provider,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      token_amounts: event.tokenAmounts as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      fees: event.fees as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      lp_token_supply: event.lpTokenSupply as any,
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
+      balances: event.balances as any,
+      transaction_hash: event.transactionHash,
+      timestamp: event.timestamp,
+      block_number: event.blockNumber,
+    };
+  });
+
+  for (const event of poolEvents) {
+    await db.sql<s.stableswap_pool_events.SQL, s.stableswap_pool_events.JSONSelectable[]>`
+    INSERT INTO ${"stableswap_pool_events"} (${db.cols(event)}) VALUES (${db.vals(
+      event,
+    )}) ON CONFLICT ("id") DO NOTHING RETURNING *
+    `.run(poolToUse);
+  }
+};
+
+export type TransferFilters = {
+  status?: XTransferStatus;
+  originDomain?: string;
+  destinationDomain?: string;
+  xcallCaller?: string;
+  to?: string;
+  router?: string;
+};
+
+/**
+ * Gets a page of transfers matching the filters. Transfers are ordered by origin nonce or xcall timestamp, with ties
+ * broken by transfer ID, so the next page starts right after the sort key of the last transfer.
+ * @param after - The sort key of the last transfer on the previous page
+ */
+export const getTransfers = async (
+  filters: TransferFilters,
+  orderBy: "nonce" | "timestamp",
+  limit: number,
+  after?: { value: number; transferId: string },
+  orderDirection: "ASC" | "DESC" = "ASC",
+  _pool?: Pool,
+): Promise<XTransfer[]> => {
+  const poolToUse = _pool ?? pool;
+  const sortKey = raw(orderBy === "nonce" ? `COALESCE("nonce", 0)` : `COALESCE("xcall_timestamp", 0)`);
+  const where: s.transfers.Whereable = {
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.originDomain ? { origin_domain: filters.originDomain } : {}),
+    ...(filters.destinationDomain ? { destination_domain: filters.destinationDomain } : {}),
+    ...(filters.xcallCaller ? { xcall_caller: filters.xcallCaller } : {}),
+    ...(filters.to ? { to: filters.to } : {}),
+    ...(filters.router ? { routers: db.sql`${db.param(filters.router)} = ANY(${db.self})` } : {}),
+  };
+  const op = raw(orderDirection === "ASC" ? ">" : "<");
+  const cursor = after
+    ? db.sql<s.transfers.SQL>`AND (${sortKey} ${op} ${db.param(after.value, "integer")} OR (${sortKey} = ${db.param(
+        after.value,
+        "integer",
+      )} AND ${"transfer_id"} ${op} ${db.param(after.transferId)}))`
+    : raw("");
+  const transfers = await db.sql<
+    s.transfers.SQL,
+    s.transfers.JSONSelectable[]
+  >`SELECT * FROM ${"transfers"} WHERE ${where} ${cursor}
+    ORDER BY ${sortKey} ${raw(orderDirection)}, ${"transfer_id"} ${raw(orderDirection)} LIMIT ${db.param(limit)}`.run(
+    poolToUse,
+  );
+  return transfers.map(convertFromDbTransfer);
+};
+
+/**
+ * Gets the balances of a page of routers, ordered by router address.
+ * @param after - The address of the last router on the previous page
+ */
+export const getRouterBalances = async (limit: number, after?: string, _pool?: Pool): Promise<RouterBalance[]> => {
+  const poolToUse = _pool ?? pool;
+  const cursor = after ? db.sql<s.asset_balances.SQL>`WHERE ${"router_address"} > ${db.param(after)}` : raw("");
+  const rows = await db.sql<
+    s.routers_with_balances.SQL | s.asset_balances.SQL,
+    s.routers_with_balances.JSONSelectable[]
+  >`SELECT * FROM ${"routers_with_balances"} WHERE ${"router_address"} IN (
+      SELECT DISTINCT ${"router_address"} FROM ${"asset_balances"} ${cursor} ORDER BY ${"router_address"} LIMIT ${db.param(
+    limit,
+  )}
+    ) ORDER BY ${"router_address"}, ${"canonical_id"}, ${"domain"}`.run(poolToUse);
+  return convertToRouterBalance(rows);
+};
+
+/**
+ * Gets a page of assets, ordered by canonical ID and domain.
+ * @param after - The canonical ID and domain of the last asset on the previous page
+ */
+export const getAssets = async (
+  filters: { domain?: string; canonicalId?: string },
+  limit: number,
+  after?: { canonicalId: string; domain: string },
+  _pool?: Pool,
+): Promise<CartographerApiAsset[]> => {
+  const poolToUse = _pool ?? pool;
+  const where: s.assets.Whereable = {
+    ...(filters.domain ? { domain: filters.domain } : {}),
+    ...(filters.canonicalId ? { canonical_id: filters.canonicalId } : {}),
+  };
+  const cursor = after
+    ? db.sql<s.assets.SQL>`AND (${"canonical_id"} > ${db.param(after.canonicalId)} OR (${"canonical_id"} = ${db.param(
+        after.canonicalId,
+      )} AND ${"domain"} > ${db.param(after.domain)}))`
+    : raw("");
+  const assets = await db.sql<
+    s.assets.SQL,
+    s.assets.JSONSelectable[]
+  >`SELECT * FROM ${"assets"} WHERE ${where} ${cursor}
+    ORDER BY ${"canonical_id"}, ${"domain"} LIMIT ${db.param(limit)}`.run(poolToUse);
+  return assets.map((asset) => ({
+    local: asset.local,
+    adoptedAsset: asset.adopted,
+    canonicalId: asset.canonical_id,
+    canonicalDomain: asset.canonical_domain,
+    domain: asset.domain,
+  }));
+};
+
+// Matches a date column against inclusive `YYYY-MM-DD` bounds, either of which may be left open.
+const inDateRange = (from?: string, to?: string): db.SQLFragment =>
+  db.sql`${db.self} >= COALESCE(${db.param(from ?? null)}::date, '-infinity') AND ${db.self} <= COALESCE(${db.param(
+    to ?? null,
+  )}::date, 'infinity')`;
+
+/**
+ * Gets the daily transfer volume per route, router and asset, oldest first.
+ */
+export const getDailyTransferVolume = async (
+  filters: { originDomain?: string; destinationDomain?: string; from?: string; to?: string },
+  _pool?: Pool,
+): Promise<CartographerApiTransferVolume[]> => {
+  const poolToUse = _pool ?? pool;
+  const where: s.daily_transfer_volume.Whereable = {
+    transfer_date: inDateRange(filters.from, filters.to),
+    ...(filters.originDomain ? { origin_chain: filters.originDomain } : {}),
+    ...(filters.destinationDomain ? { destination_chain: filters.destinationDomain } : {}),
+  };
+  return await db.sql<s.daily_transfer_volume.SQL, CartographerApiTransferVolume[]>`
+    SELECT ${"transfer_date"}::text AS "date", ${"status"}, ${"origin_chain"} AS "originDomain",
+      ${"destination_chain"} AS "destinationDomain", COALESCE(${"router"}, '') AS "router", ${"asset"},
+      ${"volume"}::text AS "volume", ${"force_slow_transfer_volume"}::integer AS "forceSlowTransferCount"
+    FROM ${"daily_transfer_volume"} WHERE ${where}
+    ORDER BY ${"transfer_date"}, ${"origin_chain"}, ${"destination_chain"}, "router", ${"asset"}, ${"status"}`.run(
+    poolToUse,
+  );
+};
+
+/**
+ * Gets the daily average, minimum and maximum liquidity of each router and asset, oldest first.
+ */
+export const getDailyRouterLiquidity = async (
+  filters: { router?: string; domain?: string; from?: string; to?: string },
+  _pool?: Pool,
+): Promise<CartographerApiRouterLiquidity[]> => {
+  const poolToUse = _pool ?? pool;
+  const where: s.daily_router_liquidity.Whereable = {
+    liquidity_date: inDateRange(filters.from, filters.to),
+    ...(filters.router ? { router: filters.router } : {}),
+    ...(filters.domain ? { domain: filters.domain } : {}),
+  };
+  return await db.sql<s.daily_router_liquidity.SQL, CartographerApiRouterLiquidity[]>`
+    SELECT ${"liquidity_date"}::text AS "date", ${"router"}, ${"domain"}, ${"canonical_id"} AS "canonicalId",
+      ${"avg_liquidity"}::text AS "avgLiquidity", ${"min_liquidity"}::text AS "minLiquidity",
+      ${"max_liquidity"}::text AS "maxLiquidity", ${"snapshot_count"}::integer AS "snapshotCount"
+    FROM ${"daily_router_liquidity"} WHERE ${where}
+    ORDER BY ${"liquidity_date"}, ${"router"}, ${"domain"}, ${"canonical_id"}`.run(poolToUse);
+};
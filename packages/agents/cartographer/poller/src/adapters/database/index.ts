@@ -1,4 +1,15 @@
-import { jsonifyError, XTransfer, XTransferStatus, RouterBalance } from "@connext/nxtp-utils";
+import {
+  jsonifyError,
+  XTransfer,
+  XTransferStatus,
+  RouterBalance,
+  RouterLiquidityEvent,
+  StableSwapExchange,
+  StableSwapPoolEvent,
+  CartographerApiAsset,
+  CartographerApiRouterLiquidity,
+  CartographerApiTransferVolume,
+} from "@connext/nxtp-utils";
 import { Pool } from "pg";
 
 import { getContext } from "../../shared";
@@ -11,6 +22,22 @@ import {
   saveRouterBalances,
   saveCheckPoint,
   getCheckPoint,
+  getTransferBlocks,
+  rollbackTransfers,
+  saveRouterBalanceSnapshot,
+  getRouterLiquidityEventsCursor,
+  saveRouterLiquidityEvents,
+  getStableSwapExchangesCursor,
+  saveStableSwapExchanges,
+  getStableSwapPoolEventsCursor,
+  saveStableSwapPoolEvents,
+  getTransferByTransferId,
+  getTransfers,
+  getRouterBalances,
+  getAssets,
+  getDailyTransferVolume,
+  getDailyRouterLiquidity,
+  TransferFilters,
 } from "./client";
 
 export type Database = {
@@ -35,8 +62,54 @@ export type Database = {
     _pool?: Pool,
   ) => Promise<string[]>;
   saveRouterBalances: (routerBalances: RouterBalance[], _pool?: Pool) => Promise<void>;
+  saveRouterBalanceSnapshot: (timestamp: number, _pool?: Pool) => Promise<void>;
+  getRouterLiquidityEventsCursor: (
+    domain: string,
+    _pool?: Pool,
+  ) => Promise<{ timestamp: number; id: string } | undefined>;
+  saveRouterLiquidityEvents: (events: RouterLiquidityEvent[], _pool?: Pool) => Promise<void>;
+  getStableSwapExchangesCursor: (
+    domain: string,
+    _pool?: Pool,
+  ) => Promise<{ timestamp: number; id: string } | undefined>;
+  saveStableSwapExchanges: (exchanges: StableSwapExchange[], _pool?: Pool) => Promise<void>;
+  getStableSwapPoolEventsCursor: (
+    domain: string,
+    _pool?: Pool,
+  ) => Promise<{ timestamp: number; id: string } | undefined>;
+  saveStableSwapPoolEvents: (events: StableSwapPoolEvent[], _pool?: Pool) => Promise<void>;
   saveCheckPoint: (check: string, point: number, _pool?: Pool) => Promise<void>;
   getCheckPoint: (check_name: string, _pool?: Pool) => Promise<number>;
+  getTransferBlocks: (
+    domain: string,
+    fromBlock: number,
+    _pool?: Pool,
+  ) => Promise<{ blockNumber: number; blockHash: string }[]>;
+  rollbackTransfers: (domain: string, forkBlock: number, _pool?: Pool) => Promise<number>;
+  getTransferByTransferId: (transfer_id: string, _pool?: Pool) => Promise<XTransfer | undefined>;
+  getTransfers: (
+    filters: TransferFilters,
+    orderBy: "nonce" | "timestamp",
+    limit: number,
+    after?: { value: number; transferId: string },
+    orderDirection?: "ASC" | "DESC",
+    _pool?: Pool,
+  ) => Promise<XTransfer[]>;
+  getRouterBalances: (limit: number, after?: string, _pool?: Pool) => Promise<RouterBalance[]>;
+  getAssets: (
+    filters: { domain?: string; canonicalId?: string },
+    limit: number,
+    after?: { canonicalId: string; domain: string },
+    _pool?: Pool,
+  ) => Promise<CartographerApiAsset[]>;
+  getDailyTransferVolume: (
+    filters: { originDomain?: string; destinationDomain?: string; from?: string; to?: string },
+    _pool?: Pool,
+  ) => Promise<CartographerApiTransferVolume[]>;
+  getDailyRouterLiquidity: (
+    filters: { router?: string; domain?: string; from?: string; to?: string },
+    _pool?: Pool,
+  ) => Promise<CartographerApiRouterLiquidity[]>;
 };
 
 export let pool: Pool;
@@ -59,8 +132,23 @@ export const getDatabase = async (): Promise<Database> => {
     getTransfersWithOriginPending,
     getTransfersWithDestinationPending,
     saveRouterBalances,
+    saveRouterBalanceSnapshot,
+    getRouterLiquidityEventsCursor,
+    saveRouterLiquidityEvents,
+    getStableSwapExchangesCursor,
+    saveStableSwapExchanges,
+    getStableSwapPoolEventsCursor,
+    saveStableSwapPoolEvents,
     saveCheckPoint,
     getCheckPoint,
+    getTransferBlocks,
+    rollbackTransfers,
+    getTransferByTransferId,
+    getTransfers,
+    getRouterBalances,
+    getAssets,
+    getDailyTransferVolume,
+    getDailyRouterLiquidity,
   };
 };
 
@@ -0,0 +1,43 @@
+import { SubgraphChainReader, SubgraphReader } from "@connext/nxtp-adapters-subgraph";
+import { ChainData } from "@connext/nxtp-utils";
+import { providers } from "ethers";
+
+import { CartographerConfig } from "../../config";
+
+/**
+ * Reads the chain head of each domain from the providers in its chain config. Domains without providers can't be
+ * read, so their subgraph endpoints are only checked for responding.
+ */
+export const getChainReader = (chains: CartographerConfig["chains"]): SubgraphChainReader => {
+  const chainProviders: Record<string, providers.Provider> = {};
+  for (const [domain, { providers: urls }] of Object.entries(chains)) {
+    if (urls && urls.length > 0) {
+      chainProviders[domain] = new providers.FallbackProvider(
+        urls.map((url) => new providers.StaticJsonRpcProvider(url)),
+        1,
+      );
+    }
+  }
+  return {
+    getBlockNumber: async (domain: number) => {
+      const provider = chainProviders[domain.toString()];
+      if (!provider) {
+        throw new Error(`No providers configured for domain ${domain}`);
+      }
+      return await provider.getBlockNumber();
+    },
+  };
+};
+
+export const setupSubgraphReader = async (
+  chainData: Map<string, ChainData>,
+  config: CartographerConfig,
+): Promise<SubgraphReader> => {
+  return await SubgraphReader.create(
+    chainData,
+    config.environment,
+    config.subgraphPrefix,
+    undefined,
+    config.subgraphHealth ? { config: config.subgraphHealth, chainReader: getChainReader(config.chains) } : undefined,
+  );
+};
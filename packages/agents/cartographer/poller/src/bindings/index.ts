@@ -1,2 +1,3 @@
 export { bindTransfers } from "./transfers";
 export { bindRouters } from "./routers";
+export { bindServer } from "./server";
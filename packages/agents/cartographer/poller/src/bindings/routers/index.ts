@@ -1,7 +1,8 @@
 import { createLoggingContext, jsonifyError, NxtpError } from "@connext/nxtp-utils";
 
 import { getContext } from "../../shared";
-import { updateRouters } from "../../lib/operations/routers";
+import { snapshotRouterBalances, updateRouterLiquidityEvents, updateRouters } from "../../lib/operations/routers";
+import { updateStableSwapEvents } from "../../lib/operations/stableswap";
 
 // Ought to be configured properly for each network; we consult the chain config below.
 export const DEFAULT_SAFE_CONFIRMATIONS = 5;
@@ -12,6 +13,10 @@ export const bindRouters = async () => {
   try {
     logger.debug("Bind routers polling loop start", requestContext, methodContext);
     await updateRouters();
+    await updateRouterLiquidityEvents();
+    await updateStableSwapEvents();
+    // Snapshot once the balances are updated.
+    await snapshotRouterBalances();
     logger.debug("Bind routers polling loop complete", requestContext, methodContext);
   } catch (err: unknown) {
     logger.error(
@@ -0,0 +1,297 @@
+import fastify, { FastifyInstance } from "fastify";
+import pino from "pino";
+import {
+  createLoggingContext,
+  jsonifyError,
+  CartographerApiErrorResponse,
+  CartographerApiErrorResponseSchema,
+  CartographerApiGetTransfersRequest,
+  CartographerApiGetTransfersRequestSchema,
+  CartographerApiGetTransfersResponse,
+  CartographerApiGetTransfersResponseSchema,
+  CartographerApiGetTransferResponse,
+  CartographerApiGetTransferResponseSchema,
+  CartographerApiGetRoutersRequest,
+  CartographerApiGetRoutersRequestSchema,
+  CartographerApiGetRoutersResponse,
+  CartographerApiGetRoutersResponseSchema,
+  CartographerApiGetAssetsRequest,
+  CartographerApiGetAssetsRequestSchema,
+  CartographerApiGetAssetsResponse,
+  CartographerApiGetAssetsResponseSchema,
+  CartographerApiGetTransferMetricsRequest,
+  CartographerApiGetTransferMetricsRequestSchema,
+  CartographerApiGetTransferMetricsResponse,
+  CartographerApiGetTransferMetricsResponseSchema,
+  CartographerApiGetLiquidityMetricsRequest,
+  CartographerApiGetLiquidityMetricsRequestSchema,
+  CartographerApiGetLiquidityMetricsResponse,
+  CartographerApiGetLiquidityMetricsResponseSchema,
+} from "@connext/nxtp-utils";
+
+import { getContext } from "../../shared";
+
+// Default number of items returned per page by the paginated endpoints.
+export const DEFAULT_PAGE_LIMIT = 100;
+
+/**
+ * Cursors are opaque to clients: they carry the sort key of the last item on a page, so the next page can be fetched
+ * with a keyset query instead of an offset that drifts as new rows are saved.
+ */
+export const encodeCursor = (key: Record<string, string | number>): string =>
+  Buffer.from(JSON.stringify(key)).toString("base64url");
+
+/**
+ * Decodes a cursor made by `encodeCursor`, checking it has the expected fields.
+ *
+ * @returns The sort key, or undefined if the cursor is malformed.
+ */
+export const decodeCursor = <T extends Record<string, string | number>>(
+  cursor: string,
+  fields: { [K in keyof T]: "string" | "number" },
+): T | undefined => {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const valid = Object.entries(fields).every(([field, type]) => typeof key?.[field] === type);
+    return valid ? (key as T) : undefined;
+  } catch (_: unknown) {
+    return undefined;
+  }
+};
+
+// The sort key carried by each endpoint's cursor.
+const cursorFields = {
+  transfers: { value: "number", transferId: "string" },
+  routers: { router: "string" },
+  assets: { canonicalId: "string", domain: "string" },
+} as const;
+
+export const bindServer = async (): Promise<FastifyInstance> => {
+  const {
+    config,
+    logger,
+    adapters: { database },
+  } = getContext();
+  const server = fastify({ logger: pino({ level: config.logLevel === "debug" ? "debug" : "warn" }) });
+
+  server.get("/ping", async (_req, res) => {
+    return res.code(200).send("pong\n");
+  });
+
+  server.get<{
+    Querystring: CartographerApiGetTransfersRequest;
+    Reply: CartographerApiGetTransfersResponse | CartographerApiErrorResponse;
+  }>(
+    "/transfers",
+    {
+      schema: {
+        querystring: CartographerApiGetTransfersRequestSchema,
+        response: {
+          200: CartographerApiGetTransfersResponseSchema,
+          500: CartographerApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /transfers endpoint");
+      try {
+        const { orderBy = "nonce", order = "asc", limit = DEFAULT_PAGE_LIMIT, cursor, ...filters } = request.query;
+        const after = cursor
+          ? decodeCursor<{ value: number; transferId: string }>(cursor, cursorFields.transfers)
+          : undefined;
+        if (cursor && !after) {
+          return response.code(400).send({ message: "Invalid cursor" });
+        }
+
+        // Fetch one extra transfer to learn whether there is another page.
+        const transfers = await database.getTransfers(
+          {
+            ...filters,
+            xcallCaller: filters.xcallCaller?.toLowerCase(),
+            to: filters.to?.toLowerCase(),
+            router: filters.router?.toLowerCase(),
+          },
+          orderBy,
+          limit + 1,
+          after,
+          order === "asc" ? "ASC" : "DESC",
+        );
+        const page = transfers.slice(0, limit);
+        const last = page[page.length - 1];
+        const nextCursor =
+          transfers.length > limit
+            ? encodeCursor({
+                value: (orderBy === "nonce" ? last.nonce : last.origin?.xcall.timestamp) ?? 0,
+                transferId: last.transferId,
+              })
+            : undefined;
+        return response.status(200).send({ transfers: page, nextCursor });
+      } catch (error: unknown) {
+        logger.error("Transfers Get Error", requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: "Transfers Get Error", error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  server.get<{
+    Params: { transferId: string };
+    Reply: CartographerApiGetTransferResponse | CartographerApiErrorResponse;
+  }>(
+    "/transfers/:transferId",
+    {
+      schema: {
+        response: {
+          200: CartographerApiGetTransferResponseSchema,
+          404: CartographerApiErrorResponseSchema,
+          500: CartographerApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /transfers/:transferId endpoint");
+      try {
+        const transfer = await database.getTransferByTransferId(request.params.transferId.toLowerCase());
+        if (!transfer) {
+          return response.code(404).send({ message: "Transfer not found" });
+        }
+        return response.status(200).send(transfer);
+      } catch (error: unknown) {
+        logger.error("Transfer Get Error", requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: "Transfer Get Error", error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  server.get<{
+    Querystring: CartographerApiGetRoutersRequest;
+    Reply: CartographerApiGetRoutersResponse | CartographerApiErrorResponse;
+  }>(
+    "/routers",
+    {
+      schema: {
+        querystring: CartographerApiGetRoutersRequestSchema,
+        response: {
+          200: CartographerApiGetRoutersResponseSchema,
+          500: CartographerApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /routers endpoint");
+      try {
+        const { limit = DEFAULT_PAGE_LIMIT, cursor } = request.query;
+        const after = cursor ? decodeCursor<{ router: string }>(cursor, cursorFields.routers) : undefined;
+        if (cursor && !after) {
+          return response.code(400).send({ message: "Invalid cursor" });
+        }
+
+        const routers = await database.getRouterBalances(limit + 1, after?.router);
+        const page = routers.slice(0, limit);
+        const nextCursor = routers.length > limit ? encodeCursor({ router: page[page.length - 1].router }) : undefined;
+        return response.status(200).send({ routers: page, nextCursor });
+      } catch (error: unknown) {
+        logger.error("Routers Get Error", requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: "Routers Get Error", error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  server.get<{
+    Querystring: CartographerApiGetAssetsRequest;
+    Reply: CartographerApiGetAssetsResponse | CartographerApiErrorResponse;
+  }>(
+    "/assets",
+    {
+      schema: {
+        querystring: CartographerApiGetAssetsRequestSchema,
+        response: {
+          200: CartographerApiGetAssetsResponseSchema,
+          500: CartographerApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /assets endpoint");
+      try {
+        const { limit = DEFAULT_PAGE_LIMIT, cursor, ...filters } = request.query;
+        const after = cursor
+          ? decodeCursor<{ canonicalId: string; domain: string }>(cursor, cursorFields.assets)
+          : undefined;
+        if (cursor && !after) {
+          return response.code(400).send({ message: "Invalid cursor" });
+        }
+
+        const assets = await database.getAssets(
+          { ...filters, canonicalId: filters.canonicalId?.toLowerCase() },
+          limit + 1,
+          after,
+        );
+        const page = assets.slice(0, limit);
+        const last = page[page.length - 1];
+        const nextCursor =
+          assets.length > limit ? encodeCursor({ canonicalId: last.canonicalId, domain: last.domain }) : undefined;
+        return response.status(200).send({ assets: page, nextCursor });
+      } catch (error: unknown) {
+        logger.error("Assets Get Error", requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: "Assets Get Error", error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  server.get<{
+    Querystring: CartographerApiGetTransferMetricsRequest;
+    Reply: CartographerApiGetTransferMetricsResponse | CartographerApiErrorResponse;
+  }>(
+    "/metrics/transfers",
+    {
+      schema: {
+        querystring: CartographerApiGetTransferMetricsRequestSchema,
+        response: {
+          200: CartographerApiGetTransferMetricsResponseSchema,
+          500: CartographerApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /metrics/transfers endpoint");
+      try {
+        const volume = await database.getDailyTransferVolume(request.query);
+        return response.status(200).send({ volume });
+      } catch (error: unknown) {
+        logger.error("Transfer Metrics Get Error", requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: "Transfer Metrics Get Error", error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  server.get<{
+    Querystring: CartographerApiGetLiquidityMetricsRequest;
+    Reply: CartographerApiGetLiquidityMetricsResponse | CartographerApiErrorResponse;
+  }>(
+    "/metrics/liquidity",
+    {
+      schema: {
+        querystring: CartographerApiGetLiquidityMetricsRequestSchema,
+        response: {
+          200: CartographerApiGetLiquidityMetricsResponseSchema,
+          500: CartographerApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /metrics/liquidity endpoint");
+      try {
+        const { router, ...filters } = request.query;
+        const liquidity = await database.getDailyRouterLiquidity({ ...filters, router: router?.toLowerCase() });
+        return response.status(200).send({ liquidity });
+      } catch (error: unknown) {
+        logger.error("Liquidity Metrics Get Error", requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: "Liquidity Metrics Get Error", error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  const address = await server.listen({ port: config.server.port, host: config.server.host });
+  logger.info(`Server listening at ${address}`);
+  return server;
+};
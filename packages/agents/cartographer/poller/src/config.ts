@@ -4,8 +4,15 @@ import { existsSync, readFileSync } from "fs";
 import { Type, Static } from "@sinclair/typebox";
 import { config as dotenvConfig } from "dotenv";
 import { ajv } from "@connext/nxtp-utils";
+import { SubgraphHealthConfigSchema } from "@connext/nxtp-adapters-subgraph";
 
 const DEFAULT_POLL_INTERVAL = 15_000;
+// Ought to be configured properly for each network; we consult the chain config and chain data as well.
+export const DEFAULT_SAFE_CONFIRMATIONS = 5;
+export const DEFAULT_VERIFY_DEPTH = 100;
+export const DEFAULT_SNAPSHOT_INTERVAL = 3_600;
+const DEFAULT_SERVER_PORT = 8080;
+const DEFAULT_SERVER_HOST = "0.0.0.0";
 
 dotenvConfig();
 
@@ -13,7 +20,18 @@ export const TDatabaseConfig = Type.Object({
   url: Type.String({ format: "uri" }),
 });
 
-export const TChains = Type.Record(Type.String(), Type.Object({}));
+export const TChains = Type.Record(
+  Type.String(),
+  Type.Object({
+    confirmations: Type.Optional(Type.Integer({ minimum: 0 })), // Blocks behind the subgraph head we consider final.
+    providers: Type.Optional(Type.Array(Type.String())), // RPCs to read the chain head from, for subgraph health checks.
+  }),
+);
+
+export const TServerConfig = Type.Object({
+  port: Type.Integer({ minimum: 1, maximum: 65535 }),
+  host: Type.String({ format: "ipv4" }),
+});
 
 export const Cartographer = Type.Object({
   pollInterval: Type.Integer({ minimum: 1000 }),
@@ -28,8 +46,13 @@ export const Cartographer = Type.Object({
   ]),
   database: TDatabaseConfig,
   subgraphPrefix: Type.Optional(Type.String()),
+  // Checks subgraph endpoints against the chain head, failing over to fresher ones. Disabled if not set.
+  subgraphHealth: Type.Optional(SubgraphHealthConfigSchema),
   environment: Type.Union([Type.Literal("staging"), Type.Literal("production")]),
   chains: TChains,
+  verifyDepth: Type.Integer({ minimum: 1 }), // How many blocks back to re-verify saved transfers for reorgs.
+  snapshotInterval: Type.Integer({ minimum: 1 }), // Seconds between router balance snapshots.
+  server: TServerConfig,
 });
 
 export type CartographerConfig = Static<typeof Cartographer>;
@@ -75,9 +98,29 @@ export const getEnvConfig = (): CartographerConfig => {
       "info",
     database: { url: process.env.DATABASE_URL || configJson.databaseUrl || configFile.databaseUrl },
     subgraphPrefix: process.env.CARTOGRAPHER_SUBGRAPH_PREFIX || configJson.subgraphPrefix || configFile.subgraphPrefix,
+    subgraphHealth: configJson.subgraphHealth || configFile.subgraphHealth,
     environment:
       process.env.CARTOGRAPHER_ENVIRONMENT || configJson.environment || configFile.environment || "production",
     chains: process.env.CARTOGRAPHER_CHAINS || configJson.chains || configFile.chains || {},
+    verifyDepth:
+      process.env.CARTOGRAPHER_VERIFY_DEPTH || configJson.verifyDepth || configFile.verifyDepth || DEFAULT_VERIFY_DEPTH,
+    snapshotInterval:
+      process.env.CARTOGRAPHER_SNAPSHOT_INTERVAL ||
+      configJson.snapshotInterval ||
+      configFile.snapshotInterval ||
+      DEFAULT_SNAPSHOT_INTERVAL,
+    server: {
+      port:
+        process.env.CARTOGRAPHER_SERVER_PORT ||
+        configJson.server?.port ||
+        configFile.server?.port ||
+        DEFAULT_SERVER_PORT,
+      host:
+        process.env.CARTOGRAPHER_SERVER_HOST ||
+        configJson.server?.host ||
+        configFile.server?.host ||
+        DEFAULT_SERVER_HOST,
+    },
   };
 
   const validate = ajv.compile(Cartographer);
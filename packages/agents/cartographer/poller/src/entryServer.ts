@@ -0,0 +1,6 @@
+import tracer from "dd-trace";
+
+import { makeServer } from "./server";
+
+tracer.init({ profiling: true, runtimeMetrics: true });
+makeServer();
@@ -1 +1,2 @@
 export { updateTransfers } from "./transfers";
+export { verifyTransfers } from "./reorgs";
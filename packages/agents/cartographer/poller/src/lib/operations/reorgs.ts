@@ -0,0 +1,55 @@
+import { createLoggingContext } from "@connext/nxtp-utils";
+
+import { getContext } from "../../shared";
+
+/**
+ * Re-verifies the block hashes of the transfers saved within `verifyDepth` blocks of each domain's head against the
+ * subgraph. If any of them no longer match, the chain reorged and everything saved from the fork block onwards is rolled
+ * back, to be re-polled from the canonical chain.
+ */
+export const verifyTransfers = async () => {
+  const {
+    adapters: { subgraph, database },
+    logger,
+    domains,
+    config,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(verifyTransfers.name);
+
+  const latestBlockNumbers: Map<string, number> = await subgraph.getLatestBlockNumber(domains);
+
+  await Promise.all(
+    domains.map(async (domain) => {
+      const latestBlockNumber = latestBlockNumbers.get(domain);
+      if (!latestBlockNumber) {
+        return;
+      }
+
+      const blocks = await database.getTransferBlocks(domain, Math.max(latestBlockNumber - config.verifyDepth, 0));
+      if (blocks.length === 0) {
+        return;
+      }
+
+      const blockHashes = await subgraph.getBlockHashes(
+        domain,
+        blocks.map((block) => block.blockNumber),
+      );
+      const mismatched = blocks.filter(
+        ({ blockNumber, blockHash }) =>
+          blockHashes.has(blockNumber) && blockHashes.get(blockNumber)!.toLowerCase() !== blockHash.toLowerCase(),
+      );
+      if (mismatched.length === 0) {
+        return;
+      }
+
+      const forkBlock = Math.min(...mismatched.map((block) => block.blockNumber));
+      logger.warn("Reorg detected, rolling back transfers", requestContext, methodContext, {
+        domain,
+        forkBlock,
+        mismatched,
+      });
+      const rolledBack = await database.rollbackTransfers(domain, forkBlock);
+      logger.info("Rolled back transfers", requestContext, methodContext, { domain, forkBlock, rolledBack });
+    }),
+  );
+};
@@ -1,4 +1,4 @@
-import { createLoggingContext } from "@connext/nxtp-utils";
+import { createLoggingContext, getNtpTimeSeconds } from "@connext/nxtp-utils";
 
 import { getContext } from "../../shared";
 
@@ -29,3 +29,47 @@ export const updateRouters = async () => {
     logger.debug("Saved balances", requestContext, methodContext, { domain: domain, offset: newOffset });
   }
 };
+
+export const updateRouterLiquidityEvents = async () => {
+  const {
+    adapters: { subgraph, database },
+    logger,
+    domains,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(updateRouterLiquidityEvents.name);
+
+  for (const domain of domains) {
+    // Resume from the last event saved, so events sharing a timestamp are never skipped across pages.
+    const cursor = await database.getRouterLiquidityEventsCursor(domain);
+    const limit = 100;
+
+    const events = await subgraph.getRouterLiquidityEvents(domain, limit, cursor);
+    await database.saveRouterLiquidityEvents(events);
+
+    logger.debug("Saved router liquidity events", requestContext, methodContext, {
+      domain,
+      cursor,
+      count: events.length,
+    });
+  }
+};
+
+export const snapshotRouterBalances = async () => {
+  const {
+    adapters: { database },
+    logger,
+    config,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(snapshotRouterBalances.name);
+
+  const lastSnapshot = await database.getCheckPoint("router_balance_snapshot_timestamp");
+  const now = getNtpTimeSeconds();
+  if (now - lastSnapshot < config.snapshotInterval) {
+    logger.debug("Skipping router balance snapshot", requestContext, methodContext, { lastSnapshot, now });
+    return;
+  }
+
+  await database.saveRouterBalanceSnapshot(now);
+  await database.saveCheckPoint("router_balance_snapshot_timestamp", now);
+  logger.info("Saved router balance snapshot", requestContext, methodContext, { timestamp: now });
+};
@@ -0,0 +1,33 @@
+import { createLoggingContext } from "@connext/nxtp-utils";
+
+import { getContext } from "../../shared";
+
+export const updateStableSwapEvents = async () => {
+  const {
+    adapters: { subgraph, database },
+    logger,
+    domains,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(updateStableSwapEvents.name);
+
+  for (const domain of domains) {
+    const limit = 100;
+
+    // Swaps and pool events are paged separately, each resuming from the last one saved.
+    const exchangesCursor = await database.getStableSwapExchangesCursor(domain);
+    const exchanges = await subgraph.getStableSwapExchanges(domain, limit, exchangesCursor);
+    await database.saveStableSwapExchanges(exchanges);
+
+    const poolEventsCursor = await database.getStableSwapPoolEventsCursor(domain);
+    const poolEvents = await subgraph.getStableSwapPoolEvents(domain, limit, poolEventsCursor);
+    await database.saveStableSwapPoolEvents(poolEvents);
+
+    logger.debug("Saved StableSwap events", requestContext, methodContext, {
+      domain,
+      exchangesCursor,
+      exchanges: exchanges.length,
+      poolEventsCursor,
+      poolEvents: poolEvents.length,
+    });
+  }
+};
@@ -4,9 +4,11 @@ import {
   SubgraphQueryByTimestampMetaParams,
   SubgraphQueryByTransferIDsMetaParams,
   XTransfer,
+  XTransferMethodCall,
 } from "@connext/nxtp-utils";
 
 import { getContext } from "../../shared";
+import { DEFAULT_SAFE_CONFIRMATIONS } from "../../config";
 
 const getMaxNonce = (transfers: XTransfer[]): number => {
   return transfers.length == 0 ? 0 : Math.max(...transfers.map((transfer) => transfer.nonce ?? 0)) ?? 0;
@@ -18,6 +20,54 @@ const getMaxReconcileTimestamp = (transfers: XTransfer[]): number => {
     : Math.max(...transfers.map((transfer) => transfer.destination?.reconcile?.timestamp ?? 0)) ?? 0;
 };
 
+/**
+ * Gets the number of blocks behind the subgraph head we consider final for a domain. Transfers are only polled up to
+ * that depth, so reorgs shallower than it never make it into the db.
+ */
+export const getSafeConfirmations = (domain: string): number => {
+  const { config, chainData } = getContext();
+  return config.chains[domain]?.confirmations ?? chainData.get(domain)?.confirmations ?? DEFAULT_SAFE_CONFIRMATIONS;
+};
+
+/**
+ * Looks up the hashes of the blocks the transfers' xcalls, executes and reconciles happened in, and attaches them to the
+ * transfers so we can later tell if any of them got reorged out.
+ */
+export const attachBlockHashes = async (transfers: XTransfer[]): Promise<void> => {
+  const {
+    adapters: { subgraph },
+  } = getContext();
+
+  const calls: [string, XTransferMethodCall][] = [];
+  for (const transfer of transfers) {
+    const { originDomain, destinationDomain } = transfer.xparams ?? {};
+    if (originDomain && transfer.origin?.xcall) calls.push([originDomain, transfer.origin.xcall]);
+    if (destinationDomain && transfer.destination?.execute)
+      calls.push([destinationDomain, transfer.destination.execute]);
+    if (destinationDomain && transfer.destination?.reconcile) {
+      calls.push([destinationDomain, transfer.destination.reconcile]);
+    }
+  }
+
+  const blockNumbers: Map<string, number[]> = new Map();
+  for (const [domain, call] of calls) {
+    if (!call.blockNumber) continue;
+    blockNumbers.set(domain, [...(blockNumbers.get(domain) ?? []), call.blockNumber]);
+  }
+
+  const blockHashes: Map<string, Map<number, string>> = new Map();
+  await Promise.all(
+    [...blockNumbers.entries()].map(async ([domain, numbers]) => {
+      blockHashes.set(domain, await subgraph.getBlockHashes(domain, numbers));
+    }),
+  );
+
+  for (const [domain, call] of calls) {
+    const blockHash = blockHashes.get(domain)?.get(call.blockNumber);
+    if (blockHash) call.blockHash = blockHash;
+  }
+};
+
 export const updateTransfers = async () => {
   const {
     adapters: { subgraph, database },
@@ -49,11 +99,17 @@ export const updateTransfers = async () => {
         return;
       }
 
+      // Only poll up to a safe depth, so we don't save anything that could still be reorged out.
+      const maxBlockNumber = latestBlockNumber - getSafeConfirmations(domain);
+      if (maxBlockNumber <= 0) {
+        return;
+      }
+
       // Retrieve the most recent origin transfers we've saved for this domain.
       const latestOriginNonce = await database.getCheckPoint("origin_nonce_" + domain);
 
       subgraphOriginQueryMetaParams.set(domain, {
-        maxBlockNumber: latestBlockNumber,
+        maxBlockNumber,
         latestNonce: latestOriginNonce == 0 ? latestOriginNonce : latestOriginNonce + 1,
         orderDirection: "asc",
       });
@@ -62,7 +118,7 @@ export const updateTransfers = async () => {
       const latestDestinationNonce = await database.getCheckPoint("destination_nonce_" + domain);
 
       subgraphDestinationQueryMetaParams.set(domain, {
-        maxBlockNumber: latestBlockNumber,
+        maxBlockNumber,
         latestNonce: latestDestinationNonce == 0 ? latestDestinationNonce : latestDestinationNonce + 1,
         orderDirection: "asc",
       });
@@ -70,7 +126,7 @@ export const updateTransfers = async () => {
       const reconciledTimestamp = await database.getCheckPoint("destination_reconcile_timestamp_" + domain);
 
       subgraphReconcileQueryMetaParams.set(domain, {
-        maxBlockNumber: latestBlockNumber,
+        maxBlockNumber,
         fromTimestamp: reconciledTimestamp,
         orderDirection: "asc",
       });
@@ -78,14 +134,14 @@ export const updateTransfers = async () => {
       const pendingOriginTransfersIDs = await database.getTransfersWithOriginPending(domain, 100, "ASC");
 
       subgraphOriginPendingQueryMetaParams.set(domain, {
-        maxBlockNumber: latestBlockNumber,
+        maxBlockNumber,
         transferIDs: pendingOriginTransfersIDs,
       });
 
       const pendingDestinationTransfersIDs = await database.getTransfersWithDestinationPending(domain, 100, "ASC");
 
       subgraphDestinationPendingQueryMetaParams.set(domain, {
-        maxBlockNumber: latestBlockNumber,
+        maxBlockNumber,
         transferIDs: pendingDestinationTransfersIDs,
       });
     }),
@@ -102,6 +158,7 @@ export const updateTransfers = async () => {
       );
       logger.info("Retrieved origin transfer", _requestContext, _methodContext, { transfer });
     });
+    await attachBlockHashes(transfers);
     await database.saveTransfers(transfers);
 
     await Promise.all(
@@ -123,6 +180,7 @@ export const updateTransfers = async () => {
       transfers: transfers,
       count: transfers.length,
     });
+    await attachBlockHashes(transfers);
     await database.saveTransfers(transfers);
 
     await Promise.all(
@@ -147,6 +205,7 @@ export const updateTransfers = async () => {
         domain: domain,
         count: domainTransfers.length,
       });
+      await attachBlockHashes(domainTransfers);
       await database.saveTransfers(domainTransfers);
 
       const max = getMaxReconcileTimestamp(domainTransfers);
@@ -163,6 +222,7 @@ export const updateTransfers = async () => {
       transfers: transfers,
       count: transfers.length,
     });
+    await attachBlockHashes(transfers);
     await database.saveTransfers(transfers);
   }
 
@@ -172,6 +232,7 @@ export const updateTransfers = async () => {
       transfers: transfers,
       count: transfers.length,
     });
+    await attachBlockHashes(transfers);
     await database.saveTransfers(transfers);
   }
 };
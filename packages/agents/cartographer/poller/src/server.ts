@@ -0,0 +1,34 @@
+import { createMethodContext, createRequestContext, getChainData, Logger } from "@connext/nxtp-utils";
+
+import { getDatabase } from "./adapters/database";
+import { bindServer } from "./bindings";
+import { CartographerConfig, getConfig } from "./config";
+import { context } from "./shared";
+
+export const makeServer = async (_configOverride?: CartographerConfig) => {
+  const requestContext = createRequestContext("Server Init");
+  const methodContext = createMethodContext(makeServer.name);
+  context.adapters = {} as any;
+
+  /// MARK - Config
+  context.chainData = await getChainData();
+  context.config = _configOverride ?? (await getConfig());
+  context.logger = new Logger({
+    level: context.config.logLevel,
+    name: "cartographer-server",
+    formatters: {
+      level: (label) => {
+        return { level: label.toUpperCase() };
+      },
+    },
+  });
+  context.logger.info("Config generated", requestContext, methodContext, { config: context.config });
+
+  /// MARK - Adapters
+  // The server only reads what the pollers have saved, so it doesn't need the subgraphs.
+  context.adapters.database = await getDatabase();
+
+  /// MARK - Bindings
+  await bindServer();
+  context.logger.info("Server initialized!", requestContext, methodContext, { server: context.config.server });
+};
@@ -1,7 +1,7 @@
-import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
 import { createMethodContext, createRequestContext, getChainData, Logger } from "@connext/nxtp-utils";
 
 import { getDatabase, closeDatabase } from "./adapters/database";
+import { setupSubgraphReader } from "./adapters/subgraph";
 import { bindTransfers } from "./bindings";
 import { CartographerConfig, getConfig } from "./config";
 import { context } from "./shared";
@@ -28,11 +28,7 @@ export const makeTransfersPoller = async (_configOverride?: CartographerConfig)
   context.logger.info("Config generated", requestContext, methodContext, { config: context.config });
 
   /// MARK - Adapters
-  context.adapters.subgraph = await SubgraphReader.create(
-    chainData,
-    context.config.environment,
-    context.config.subgraphPrefix,
-  );
+  context.adapters.subgraph = await setupSubgraphReader(chainData, context.config);
   context.adapters.database = await getDatabase();
 
   /// MARK - Domains
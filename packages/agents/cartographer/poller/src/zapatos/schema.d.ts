@@ -19,6 +19,14 @@ declare module 'zapatos/schema' {
 
   /* --- enums --- */
 
+  export type router_liquidity_event_type = 'Add' | 'Remove';
+  export namespace every {
+    export type router_liquidity_event_type = ['Add', 'Remove'];
+  }
+  export type stableswap_pool_event_type = 'Add' | 'Remove';
+  export namespace every {
+    export type stableswap_pool_event_type = ['Add', 'Remove'];
+  }
   export type transfer_status = 'CompletedFast' | 'CompletedSlow' | 'Executed' | 'Reconciled' | 'XCalled';
   export namespace every {
     export type transfer_status = ['CompletedFast', 'CompletedSlow', 'Executed', 'Reconciled', 'XCalled'];
@@ -425,6 +433,175 @@ declare module 'zapatos/schema' {
     export type SQL = SQLExpression | SQLExpression[];
   }
 
+  /**
+   * **daily_router_liquidity**
+   * - View in database
+   */
+  export namespace daily_router_liquidity {
+    export type Table = 'daily_router_liquidity';
+    export interface Selectable {
+      /**
+      * **daily_router_liquidity.liquidity_date**
+      * - `date` in database
+      * - Nullable, no default
+      */
+    liquidity_date: Date | null;
+      /**
+      * **daily_router_liquidity.router**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    router: string | null;
+      /**
+      * **daily_router_liquidity.domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    domain: string | null;
+      /**
+      * **daily_router_liquidity.canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    canonical_id: string | null;
+      /**
+      * **daily_router_liquidity.avg_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    avg_liquidity: number | null;
+      /**
+      * **daily_router_liquidity.min_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    min_liquidity: number | null;
+      /**
+      * **daily_router_liquidity.max_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    max_liquidity: number | null;
+      /**
+      * **daily_router_liquidity.snapshot_count**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+    snapshot_count: db.Int8String | null;
+    }
+    export interface JSONSelectable {
+      /**
+      * **daily_router_liquidity.liquidity_date**
+      * - `date` in database
+      * - Nullable, no default
+      */
+    liquidity_date: db.DateString | null;
+      /**
+      * **daily_router_liquidity.router**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    router: string | null;
+      /**
+      * **daily_router_liquidity.domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    domain: string | null;
+      /**
+      * **daily_router_liquidity.canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    canonical_id: string | null;
+      /**
+      * **daily_router_liquidity.avg_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    avg_liquidity: number | null;
+      /**
+      * **daily_router_liquidity.min_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    min_liquidity: number | null;
+      /**
+      * **daily_router_liquidity.max_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    max_liquidity: number | null;
+      /**
+      * **daily_router_liquidity.snapshot_count**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+    snapshot_count: number | null;
+    }
+    export interface Whereable {
+      /**
+      * **daily_router_liquidity.liquidity_date**
+      * - `date` in database
+      * - Nullable, no default
+      */
+    liquidity_date?: (db.DateString | Date) | db.Parameter<(db.DateString | Date)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (db.DateString | Date) | db.Parameter<(db.DateString | Date)> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.router**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    router?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.avg_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    avg_liquidity?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.min_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    min_liquidity?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.max_liquidity**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    max_liquidity?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **daily_router_liquidity.snapshot_count**
+      * - `int8` in database
+      * - Nullable, no default
+      */
+    snapshot_count?: (number | db.Int8String) | db.Parameter<(number | db.Int8String)> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, (number | db.Int8String) | db.Parameter<(number | db.Int8String)> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      [key: string]: never;
+    }
+    export interface Updatable {
+      [key: string]: never;
+    }
+    export type UniqueIndex = never;
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
   /**
    * **daily_router_tvl**
    * - View in database
@@ -1012,52 +1189,172 @@ declare module 'zapatos/schema' {
   }
 
   /**
-   * **routers**
+   * **router_balance_snapshots**
    * - Table in database
    */
-  export namespace routers {
-    export type Table = 'routers';
+  export namespace router_balance_snapshots {
+    export type Table = 'router_balance_snapshots';
     export interface Selectable {
       /**
-      * **routers.address**
+      * **router_balance_snapshots.router_address**
       * - `bpchar` in database
       * - `NOT NULL`, no default
       */
-    address: string;
+    router_address: string;
+      /**
+      * **router_balance_snapshots.asset_canonical_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_canonical_id: string;
+      /**
+      * **router_balance_snapshots.asset_domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_domain: string;
+      /**
+      * **router_balance_snapshots.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, default: `0`
+      */
+    balance: number;
+      /**
+      * **router_balance_snapshots.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
     }
     export interface JSONSelectable {
       /**
-      * **routers.address**
+      * **router_balance_snapshots.router_address**
       * - `bpchar` in database
       * - `NOT NULL`, no default
       */
-    address: string;
+    router_address: string;
+      /**
+      * **router_balance_snapshots.asset_canonical_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_canonical_id: string;
+      /**
+      * **router_balance_snapshots.asset_domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_domain: string;
+      /**
+      * **router_balance_snapshots.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, default: `0`
+      */
+    balance: number;
+      /**
+      * **router_balance_snapshots.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
     }
     export interface Whereable {
       /**
-      * **routers.address**
+      * **router_balance_snapshots.router_address**
       * - `bpchar` in database
       * - `NOT NULL`, no default
       */
-    address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    router_address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_balance_snapshots.asset_canonical_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_balance_snapshots.asset_domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_balance_snapshots.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, default: `0`
+      */
+    balance?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_balance_snapshots.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
     }
     export interface Insertable {
       /**
-      * **routers.address**
+      * **router_balance_snapshots.router_address**
       * - `bpchar` in database
       * - `NOT NULL`, no default
       */
-    address: string | db.Parameter<string> | db.SQLFragment;
+    router_address: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_balance_snapshots.asset_canonical_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_canonical_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_balance_snapshots.asset_domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_domain: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_balance_snapshots.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, default: `0`
+      */
+    balance?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment;
+      /**
+      * **router_balance_snapshots.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number | db.Parameter<number> | db.SQLFragment;
     }
     export interface Updatable {
       /**
-      * **routers.address**
+      * **router_balance_snapshots.router_address**
       * - `bpchar` in database
       * - `NOT NULL`, no default
       */
-    address?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    router_address?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_balance_snapshots.asset_canonical_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_balance_snapshots.asset_domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset_domain?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_balance_snapshots.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, default: `0`
+      */
+    balance?: number | db.Parameter<number> | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.DefaultType | db.SQLFragment>;
+      /**
+      * **router_balance_snapshots.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
     }
-    export type UniqueIndex = 'routers_pkey';
+    export type UniqueIndex = 'router_balance_snapshots_pkey';
     export type Column = keyof Selectable;
     export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
     export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
@@ -1065,257 +1362,1459 @@ declare module 'zapatos/schema' {
   }
 
   /**
-   * **routers_with_balances**
-   * - View in database
+   * **router_liquidity_events**
+   * - Table in database
    */
-  export namespace routers_with_balances {
-    export type Table = 'routers_with_balances';
+  export namespace router_liquidity_events {
+    export type Table = 'router_liquidity_events';
     export interface Selectable {
       /**
-      * **routers_with_balances.address**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **router_liquidity_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
       */
-    address: string | null;
+    id: string;
+      /**
+      * **router_liquidity_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string;
+      /**
+      * **router_liquidity_events.router_address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    router_address: string;
+      /**
+      * **router_liquidity_events.event_type**
+      * - `router_liquidity_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type: router_liquidity_event_type;
+      /**
+      * **router_liquidity_events.asset**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset: string;
+      /**
+      * **router_liquidity_events.amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    amount: number;
+      /**
+      * **router_liquidity_events.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balance: number;
+      /**
+      * **router_liquidity_events.caller**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    caller: string;
+      /**
+      * **router_liquidity_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string;
+      /**
+      * **router_liquidity_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
+      /**
+      * **router_liquidity_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number;
+    }
+    export interface JSONSelectable {
+      /**
+      * **router_liquidity_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id: string;
+      /**
+      * **router_liquidity_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string;
+      /**
+      * **router_liquidity_events.router_address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    router_address: string;
+      /**
+      * **router_liquidity_events.event_type**
+      * - `router_liquidity_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type: router_liquidity_event_type;
+      /**
+      * **router_liquidity_events.asset**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset: string;
+      /**
+      * **router_liquidity_events.amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    amount: number;
+      /**
+      * **router_liquidity_events.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balance: number;
+      /**
+      * **router_liquidity_events.caller**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    caller: string;
+      /**
+      * **router_liquidity_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string;
+      /**
+      * **router_liquidity_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
+      /**
+      * **router_liquidity_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number;
+    }
+    export interface Whereable {
+      /**
+      * **router_liquidity_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.router_address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    router_address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.event_type**
+      * - `router_liquidity_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type?: router_liquidity_event_type | db.Parameter<router_liquidity_event_type> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, router_liquidity_event_type | db.Parameter<router_liquidity_event_type> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.asset**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    amount?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balance?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.caller**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    caller?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **router_liquidity_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **router_liquidity_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.router_address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    router_address: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.event_type**
+      * - `router_liquidity_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type: router_liquidity_event_type | db.Parameter<router_liquidity_event_type> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.asset**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    amount: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balance: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.caller**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    caller: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **router_liquidity_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number | db.Parameter<number> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **router_liquidity_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.router_address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    router_address?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.event_type**
+      * - `router_liquidity_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type?: router_liquidity_event_type | db.Parameter<router_liquidity_event_type> | db.SQLFragment | db.SQLFragment<any, router_liquidity_event_type | db.Parameter<router_liquidity_event_type> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.asset**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    asset?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.amount**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    amount?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.balance**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balance?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.caller**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    caller?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **router_liquidity_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'router_liquidity_events_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **routers**
+   * - Table in database
+   */
+  export namespace routers {
+    export type Table = 'routers';
+    export interface Selectable {
+      /**
+      * **routers.address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    address: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **routers.address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    address: string;
+    }
+    export interface Whereable {
+      /**
+      * **routers.address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **routers.address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    address: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **routers.address**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    address?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'routers_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **routers_with_balances**
+   * - View in database
+   */
+  export namespace routers_with_balances {
+    export type Table = 'routers_with_balances';
+    export interface Selectable {
+      /**
+      * **routers_with_balances.address**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    address: string | null;
+      /**
+      * **routers_with_balances.asset_canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    asset_canonical_id: string | null;
+      /**
+      * **routers_with_balances.asset_domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    asset_domain: string | null;
+      /**
+      * **routers_with_balances.router_address**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    router_address: string | null;
+      /**
+      * **routers_with_balances.balance**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    balance: number | null;
+      /**
+      * **routers_with_balances.local**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    local: string | null;
+      /**
+      * **routers_with_balances.adopted**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    adopted: string | null;
+      /**
+      * **routers_with_balances.canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    canonical_id: string | null;
+      /**
+      * **routers_with_balances.canonical_domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    canonical_domain: string | null;
+      /**
+      * **routers_with_balances.domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    domain: string | null;
+    }
+    export interface JSONSelectable {
+      /**
+      * **routers_with_balances.address**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    address: string | null;
+      /**
+      * **routers_with_balances.asset_canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    asset_canonical_id: string | null;
+      /**
+      * **routers_with_balances.asset_domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    asset_domain: string | null;
+      /**
+      * **routers_with_balances.router_address**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    router_address: string | null;
+      /**
+      * **routers_with_balances.balance**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    balance: number | null;
+      /**
+      * **routers_with_balances.local**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    local: string | null;
+      /**
+      * **routers_with_balances.adopted**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    adopted: string | null;
+      /**
+      * **routers_with_balances.canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    canonical_id: string | null;
+      /**
+      * **routers_with_balances.canonical_domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    canonical_domain: string | null;
+      /**
+      * **routers_with_balances.domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    domain: string | null;
+    }
+    export interface Whereable {
+      /**
+      * **routers_with_balances.address**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
       * **routers_with_balances.asset_canonical_id**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - Nullable, no default
+      */
+    asset_canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.asset_domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    asset_domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.router_address**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    router_address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.balance**
+      * - `numeric` in database
+      * - Nullable, no default
+      */
+    balance?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.local**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    local?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.adopted**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    adopted?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.canonical_id**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.canonical_domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    canonical_domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **routers_with_balances.domain**
+      * - `varchar` in database
+      * - Nullable, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      [key: string]: never;
+    }
+    export interface Updatable {
+      [key: string]: never;
+    }
+    export type UniqueIndex = never;
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **schema_migrations**
+   * - Table in database
+   */
+  export namespace schema_migrations {
+    export type Table = 'schema_migrations';
+    export interface Selectable {
+      /**
+      * **schema_migrations.version**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    version: string;
+    }
+    export interface JSONSelectable {
+      /**
+      * **schema_migrations.version**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    version: string;
+    }
+    export interface Whereable {
+      /**
+      * **schema_migrations.version**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    version?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **schema_migrations.version**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    version: string | db.Parameter<string> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **schema_migrations.version**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    version?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'schema_migrations_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **stableswap_exchanges**
+   * - Table in database
+   */
+  export namespace stableswap_exchanges {
+    export type Table = 'stableswap_exchanges';
+    export interface Selectable {
+      /**
+      * **stableswap_exchanges.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id: string;
+      /**
+      * **stableswap_exchanges.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string;
+      /**
+      * **stableswap_exchanges.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id: string;
+      /**
+      * **stableswap_exchanges.buyer**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    buyer: string;
+      /**
+      * **stableswap_exchanges.bought_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    bought_id: number;
+      /**
+      * **stableswap_exchanges.sold_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    sold_id: number;
+      /**
+      * **stableswap_exchanges.tokens_sold**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_sold: number;
+      /**
+      * **stableswap_exchanges.tokens_bought**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_bought: number;
+      /**
+      * **stableswap_exchanges.fee**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fee: number;
+      /**
+      * **stableswap_exchanges.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances: number[];
+      /**
+      * **stableswap_exchanges.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string;
+      /**
+      * **stableswap_exchanges.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
+      /**
+      * **stableswap_exchanges.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number;
+    }
+    export interface JSONSelectable {
+      /**
+      * **stableswap_exchanges.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id: string;
+      /**
+      * **stableswap_exchanges.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string;
+      /**
+      * **stableswap_exchanges.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id: string;
+      /**
+      * **stableswap_exchanges.buyer**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    buyer: string;
+      /**
+      * **stableswap_exchanges.bought_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    bought_id: number;
+      /**
+      * **stableswap_exchanges.sold_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    sold_id: number;
+      /**
+      * **stableswap_exchanges.tokens_sold**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_sold: number;
+      /**
+      * **stableswap_exchanges.tokens_bought**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_bought: number;
+      /**
+      * **stableswap_exchanges.fee**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fee: number;
+      /**
+      * **stableswap_exchanges.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances: number[];
+      /**
+      * **stableswap_exchanges.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string;
+      /**
+      * **stableswap_exchanges.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
+      /**
+      * **stableswap_exchanges.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number;
+    }
+    export interface Whereable {
+      /**
+      * **stableswap_exchanges.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.buyer**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    buyer?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.bought_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    bought_id?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.sold_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    sold_id?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.tokens_sold**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_sold?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.tokens_bought**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_bought?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.fee**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fee?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances?: number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
       */
-    asset_canonical_id: string | null;
+    transaction_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.asset_domain**
+      * **stableswap_exchanges.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_exchanges.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+    }
+    export interface Insertable {
+      /**
+      * **stableswap_exchanges.id**
       * - `varchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
+      */
+    id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.buyer**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    buyer: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.bought_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    bought_id: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.sold_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    sold_id: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.tokens_sold**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_sold: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.tokens_bought**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_bought: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.fee**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fee: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances: number[] | db.Parameter<number[]> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string | db.Parameter<string> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number | db.Parameter<number> | db.SQLFragment;
+      /**
+      * **stableswap_exchanges.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number | db.Parameter<number> | db.SQLFragment;
+    }
+    export interface Updatable {
+      /**
+      * **stableswap_exchanges.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.buyer**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    buyer?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.bought_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    bought_id?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.sold_id**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    sold_id?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.tokens_sold**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_sold?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.tokens_bought**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    tokens_bought?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.fee**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fee?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances?: number[] | db.Parameter<number[]> | db.SQLFragment | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+      /**
+      * **stableswap_exchanges.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
+    }
+    export type UniqueIndex = 'stableswap_exchanges_pkey';
+    export type Column = keyof Selectable;
+    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
+    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
+    export type SQL = SQLExpression | SQLExpression[];
+  }
+
+  /**
+   * **stableswap_pool_events**
+   * - Table in database
+   */
+  export namespace stableswap_pool_events {
+    export type Table = 'stableswap_pool_events';
+    export interface Selectable {
+      /**
+      * **stableswap_pool_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id: string;
+      /**
+      * **stableswap_pool_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string;
+      /**
+      * **stableswap_pool_events.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id: string;
+      /**
+      * **stableswap_pool_events.event_type**
+      * - `stableswap_pool_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type: stableswap_pool_event_type;
+      /**
+      * **stableswap_pool_events.provider**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    provider: string;
+      /**
+      * **stableswap_pool_events.token_amounts**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    token_amounts: number[];
+      /**
+      * **stableswap_pool_events.fees**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fees: number[];
+      /**
+      * **stableswap_pool_events.lp_token_supply**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    lp_token_supply: number;
+      /**
+      * **stableswap_pool_events.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances: number[];
+      /**
+      * **stableswap_pool_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string;
+      /**
+      * **stableswap_pool_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
+      /**
+      * **stableswap_pool_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number;
+    }
+    export interface JSONSelectable {
+      /**
+      * **stableswap_pool_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id: string;
+      /**
+      * **stableswap_pool_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain: string;
+      /**
+      * **stableswap_pool_events.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id: string;
+      /**
+      * **stableswap_pool_events.event_type**
+      * - `stableswap_pool_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type: stableswap_pool_event_type;
+      /**
+      * **stableswap_pool_events.provider**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    provider: string;
+      /**
+      * **stableswap_pool_events.token_amounts**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    token_amounts: number[];
+      /**
+      * **stableswap_pool_events.fees**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    fees: number[];
+      /**
+      * **stableswap_pool_events.lp_token_supply**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
+      */
+    lp_token_supply: number;
+      /**
+      * **stableswap_pool_events.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
+      */
+    balances: number[];
+      /**
+      * **stableswap_pool_events.transaction_hash**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    transaction_hash: string;
+      /**
+      * **stableswap_pool_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    timestamp: number;
+      /**
+      * **stableswap_pool_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
+      */
+    block_number: number;
+    }
+    export interface Whereable {
+      /**
+      * **stableswap_pool_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_pool_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
+      */
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_pool_events.pool_id**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
+      */
+    pool_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_pool_events.event_type**
+      * - `stableswap_pool_event_type` in database
+      * - `NOT NULL`, no default
+      */
+    event_type?: stableswap_pool_event_type | db.Parameter<stableswap_pool_event_type> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, stableswap_pool_event_type | db.Parameter<stableswap_pool_event_type> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **stableswap_pool_events.provider**
+      * - `bpchar` in database
+      * - `NOT NULL`, no default
       */
-    asset_domain: string | null;
+    provider?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.router_address**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.token_amounts**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    router_address: string | null;
+    token_amounts?: number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.balance**
-      * - `numeric` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.fees**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    balance: number | null;
+    fees?: number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.local**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.lp_token_supply**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
       */
-    local: string | null;
+    lp_token_supply?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.adopted**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    adopted: string | null;
+    balances?: number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.canonical_id**
+      * **stableswap_pool_events.transaction_hash**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    canonical_id: string | null;
+    transaction_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.canonical_domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
       */
-    canonical_domain: string | null;
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
       /**
-      * **routers_with_balances.domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
       */
-    domain: string | null;
+    block_number?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
     }
-    export interface JSONSelectable {
-      /**
-      * **routers_with_balances.address**
-      * - `bpchar` in database
-      * - Nullable, no default
-      */
-    address: string | null;
+    export interface Insertable {
       /**
-      * **routers_with_balances.asset_canonical_id**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
       */
-    asset_canonical_id: string | null;
+    id: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **routers_with_balances.asset_domain**
+      * **stableswap_pool_events.domain**
       * - `varchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    asset_domain: string | null;
+    domain: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **routers_with_balances.router_address**
+      * **stableswap_pool_events.pool_id**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    router_address: string | null;
+    pool_id: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **routers_with_balances.balance**
-      * - `numeric` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.event_type**
+      * - `stableswap_pool_event_type` in database
+      * - `NOT NULL`, no default
       */
-    balance: number | null;
+    event_type: stableswap_pool_event_type | db.Parameter<stableswap_pool_event_type> | db.SQLFragment;
       /**
-      * **routers_with_balances.local**
+      * **stableswap_pool_events.provider**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    local: string | null;
+    provider: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **routers_with_balances.adopted**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.token_amounts**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    adopted: string | null;
+    token_amounts: number[] | db.Parameter<number[]> | db.SQLFragment;
       /**
-      * **routers_with_balances.canonical_id**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.fees**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    canonical_id: string | null;
+    fees: number[] | db.Parameter<number[]> | db.SQLFragment;
       /**
-      * **routers_with_balances.canonical_domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.lp_token_supply**
+      * - `numeric` in database
+      * - `NOT NULL`, no default
       */
-    canonical_domain: string | null;
+    lp_token_supply: number | db.Parameter<number> | db.SQLFragment;
       /**
-      * **routers_with_balances.domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.balances**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    domain: string | null;
-    }
-    export interface Whereable {
+    balances: number[] | db.Parameter<number[]> | db.SQLFragment;
       /**
-      * **routers_with_balances.address**
+      * **stableswap_pool_events.transaction_hash**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    transaction_hash: string | db.Parameter<string> | db.SQLFragment;
       /**
-      * **routers_with_balances.asset_canonical_id**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.timestamp**
+      * - `int4` in database
+      * - `NOT NULL`, no default
       */
-    asset_canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    timestamp: number | db.Parameter<number> | db.SQLFragment;
       /**
-      * **routers_with_balances.asset_domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.block_number**
+      * - `int4` in database
+      * - `NOT NULL`, no default
       */
-    asset_domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    block_number: number | db.Parameter<number> | db.SQLFragment;
+    }
+    export interface Updatable {
       /**
-      * **routers_with_balances.router_address**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.id**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
       */
-    router_address?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **routers_with_balances.balance**
-      * - `numeric` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.domain**
+      * - `varchar` in database
+      * - `NOT NULL`, no default
       */
-    balance?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+    domain?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **routers_with_balances.local**
+      * **stableswap_pool_events.pool_id**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    local?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    pool_id?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **routers_with_balances.adopted**
-      * - `bpchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.event_type**
+      * - `stableswap_pool_event_type` in database
+      * - `NOT NULL`, no default
       */
-    adopted?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    event_type?: stableswap_pool_event_type | db.Parameter<stableswap_pool_event_type> | db.SQLFragment | db.SQLFragment<any, stableswap_pool_event_type | db.Parameter<stableswap_pool_event_type> | db.SQLFragment>;
       /**
-      * **routers_with_balances.canonical_id**
+      * **stableswap_pool_events.provider**
       * - `bpchar` in database
-      * - Nullable, no default
+      * - `NOT NULL`, no default
       */
-    canonical_id?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    provider?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **routers_with_balances.canonical_domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.token_amounts**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    canonical_domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+    token_amounts?: number[] | db.Parameter<number[]> | db.SQLFragment | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment>;
       /**
-      * **routers_with_balances.domain**
-      * - `varchar` in database
-      * - Nullable, no default
+      * **stableswap_pool_events.fees**
+      * - `_numeric` in database
+      * - `NOT NULL`, no default
       */
-    domain?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
-    }
-    export interface Insertable {
-      [key: string]: never;
-    }
-    export interface Updatable {
-      [key: string]: never;
-    }
-    export type UniqueIndex = never;
-    export type Column = keyof Selectable;
-    export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
-    export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
-    export type SQL = SQLExpression | SQLExpression[];
-  }
-
-  /**
-   * **schema_migrations**
-   * - Table in database
-   */
-  export namespace schema_migrations {
-    export type Table = 'schema_migrations';
-    export interface Selectable {
+    fees?: number[] | db.Parameter<number[]> | db.SQLFragment | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment>;
       /**
-      * **schema_migrations.version**
-      * - `varchar` in database
+      * **stableswap_pool_events.lp_token_supply**
+      * - `numeric` in database
       * - `NOT NULL`, no default
       */
-    version: string;
-    }
-    export interface JSONSelectable {
+    lp_token_supply?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
       /**
-      * **schema_migrations.version**
-      * - `varchar` in database
+      * **stableswap_pool_events.balances**
+      * - `_numeric` in database
       * - `NOT NULL`, no default
       */
-    version: string;
-    }
-    export interface Whereable {
+    balances?: number[] | db.Parameter<number[]> | db.SQLFragment | db.SQLFragment<any, number[] | db.Parameter<number[]> | db.SQLFragment>;
       /**
-      * **schema_migrations.version**
-      * - `varchar` in database
+      * **stableswap_pool_events.transaction_hash**
+      * - `bpchar` in database
       * - `NOT NULL`, no default
       */
-    version?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
-    }
-    export interface Insertable {
+    transaction_hash?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
       /**
-      * **schema_migrations.version**
-      * - `varchar` in database
+      * **stableswap_pool_events.timestamp**
+      * - `int4` in database
       * - `NOT NULL`, no default
       */
-    version: string | db.Parameter<string> | db.SQLFragment;
-    }
-    export interface Updatable {
+    timestamp?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
       /**
-      * **schema_migrations.version**
-      * - `varchar` in database
+      * **stableswap_pool_events.block_number**
+      * - `int4` in database
       * - `NOT NULL`, no default
       */
-    version?: string | db.Parameter<string> | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment>;
+    block_number?: number | db.Parameter<number> | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment>;
     }
-    export type UniqueIndex = 'schema_migrations_pkey';
+    export type UniqueIndex = 'stableswap_pool_events_pkey';
     export type Column = keyof Selectable;
     export type OnlyCols<T extends readonly Column[]> = Pick<Selectable, T[number]>;
     export type SQLExpression = Table | db.ColumnNames<Updatable | (keyof Updatable)[]> | db.ColumnValues<Updatable> | Whereable | Column | db.ParentColumn | db.GenericSQLExpression;
@@ -1835,6 +3334,24 @@ declare module 'zapatos/schema' {
       * - Nullable, no default
       */
     slippage_tol: number | null;
+      /**
+      * **transfers.xcall_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    xcall_block_hash: string | null;
+      /**
+      * **transfers.execute_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    execute_block_hash: string | null;
+      /**
+      * **transfers.reconcile_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    reconcile_block_hash: string | null;
     }
     export interface JSONSelectable {
       /**
@@ -2113,6 +3630,24 @@ declare module 'zapatos/schema' {
       * - Nullable, no default
       */
     slippage_tol: number | null;
+      /**
+      * **transfers.xcall_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    xcall_block_hash: string | null;
+      /**
+      * **transfers.execute_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    execute_block_hash: string | null;
+      /**
+      * **transfers.reconcile_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    reconcile_block_hash: string | null;
     }
     export interface Whereable {
       /**
@@ -2391,6 +3926,24 @@ declare module 'zapatos/schema' {
       * - Nullable, no default
       */
     slippage_tol?: number | db.Parameter<number> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, number | db.Parameter<number> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transfers.xcall_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    xcall_block_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transfers.execute_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    execute_block_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
+      /**
+      * **transfers.reconcile_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    reconcile_block_hash?: string | db.Parameter<string> | db.SQLFragment | db.ParentColumn | db.SQLFragment<any, string | db.Parameter<string> | db.SQLFragment | db.ParentColumn>;
     }
     export interface Insertable {
       /**
@@ -2669,6 +4222,24 @@ declare module 'zapatos/schema' {
       * - Nullable, no default
       */
     slippage_tol?: number | db.Parameter<number> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transfers.xcall_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    xcall_block_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transfers.execute_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    execute_block_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
+      /**
+      * **transfers.reconcile_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    reconcile_block_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment;
     }
     export interface Updatable {
       /**
@@ -2947,6 +4518,24 @@ declare module 'zapatos/schema' {
       * - Nullable, no default
       */
     slippage_tol?: number | db.Parameter<number> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, number | db.Parameter<number> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transfers.xcall_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    xcall_block_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transfers.execute_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    execute_block_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
+      /**
+      * **transfers.reconcile_block_hash**
+      * - `bpchar` in database
+      * - Nullable, no default
+      */
+    reconcile_block_hash?: string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment | db.SQLFragment<any, string | db.Parameter<string> | null | db.DefaultType | db.SQLFragment>;
     }
     export type UniqueIndex = 'transfers_pkey';
     export type Column = keyof Selectable;
@@ -2958,20 +4547,20 @@ declare module 'zapatos/schema' {
   /* --- aggregate types --- */
 
   export namespace public {  
-    export type Table = asset_balances.Table | assets.Table | checkpoints.Table | daily_router_tvl.Table | daily_transfer_metrics.Table | daily_transfer_volume.Table | router_tvl.Table | routers.Table | routers_with_balances.Table | schema_migrations.Table | transfer_count.Table | transfer_volume.Table | transfers.Table;
-    export type Selectable = asset_balances.Selectable | assets.Selectable | checkpoints.Selectable | daily_router_tvl.Selectable | daily_transfer_metrics.Selectable | daily_transfer_volume.Selectable | router_tvl.Selectable | routers.Selectable | routers_with_balances.Selectable | schema_migrations.Selectable | transfer_count.Selectable | transfer_volume.Selectable | transfers.Selectable;
-    export type JSONSelectable = asset_balances.JSONSelectable | assets.JSONSelectable | checkpoints.JSONSelectable | daily_router_tvl.JSONSelectable | daily_transfer_metrics.JSONSelectable | daily_transfer_volume.JSONSelectable | router_tvl.JSONSelectable | routers.JSONSelectable | routers_with_balances.JSONSelectable | schema_migrations.JSONSelectable | transfer_count.JSONSelectable | transfer_volume.JSONSelectable | transfers.JSONSelectable;
-    export type Whereable = asset_balances.Whereable | assets.Whereable | checkpoints.Whereable | daily_router_tvl.Whereable | daily_transfer_metrics.Whereable | daily_transfer_volume.Whereable | router_tvl.Whereable | routers.Whereable | routers_with_balances.Whereable | schema_migrations.Whereable | transfer_count.Whereable | transfer_volume.Whereable | transfers.Whereable;
-    export type Insertable = asset_balances.Insertable | assets.Insertable | checkpoints.Insertable | daily_router_tvl.Insertable | daily_transfer_metrics.Insertable | daily_transfer_volume.Insertable | router_tvl.Insertable | routers.Insertable | routers_with_balances.Insertable | schema_migrations.Insertable | transfer_count.Insertable | transfer_volume.Insertable | transfers.Insertable;
-    export type Updatable = asset_balances.Updatable | assets.Updatable | checkpoints.Updatable | daily_router_tvl.Updatable | daily_transfer_metrics.Updatable | daily_transfer_volume.Updatable | router_tvl.Updatable | routers.Updatable | routers_with_balances.Updatable | schema_migrations.Updatable | transfer_count.Updatable | transfer_volume.Updatable | transfers.Updatable;
-    export type UniqueIndex = asset_balances.UniqueIndex | assets.UniqueIndex | checkpoints.UniqueIndex | daily_router_tvl.UniqueIndex | daily_transfer_metrics.UniqueIndex | daily_transfer_volume.UniqueIndex | router_tvl.UniqueIndex | routers.UniqueIndex | routers_with_balances.UniqueIndex | schema_migrations.UniqueIndex | transfer_count.UniqueIndex | transfer_volume.UniqueIndex | transfers.UniqueIndex;
-    export type Column = asset_balances.Column | assets.Column | checkpoints.Column | daily_router_tvl.Column | daily_transfer_metrics.Column | daily_transfer_volume.Column | router_tvl.Column | routers.Column | routers_with_balances.Column | schema_migrations.Column | transfer_count.Column | transfer_volume.Column | transfers.Column;
+    export type Table = asset_balances.Table | assets.Table | checkpoints.Table | daily_router_liquidity.Table | daily_router_tvl.Table | daily_transfer_metrics.Table | daily_transfer_volume.Table | router_balance_snapshots.Table | router_liquidity_events.Table | router_tvl.Table | routers.Table | routers_with_balances.Table | schema_migrations.Table | stableswap_exchanges.Table | stableswap_pool_events.Table | transfer_count.Table | transfer_volume.Table | transfers.Table;
+    export type Selectable = asset_balances.Selectable | assets.Selectable | checkpoints.Selectable | daily_router_liquidity.Selectable | daily_router_tvl.Selectable | daily_transfer_metrics.Selectable | daily_transfer_volume.Selectable | router_balance_snapshots.Selectable | router_liquidity_events.Selectable | router_tvl.Selectable | routers.Selectable | routers_with_balances.Selectable | schema_migrations.Selectable | stableswap_exchanges.Selectable | stableswap_pool_events.Selectable | transfer_count.Selectable | transfer_volume.Selectable | transfers.Selectable;
+    export type JSONSelectable = asset_balances.JSONSelectable | assets.JSONSelectable | checkpoints.JSONSelectable | daily_router_liquidity.JSONSelectable | daily_router_tvl.JSONSelectable | daily_transfer_metrics.JSONSelectable | daily_transfer_volume.JSONSelectable | router_balance_snapshots.JSONSelectable | router_liquidity_events.JSONSelectable | router_tvl.JSONSelectable | routers.JSONSelectable | routers_with_balances.JSONSelectable | schema_migrations.JSONSelectable | stableswap_exchanges.JSONSelectable | stableswap_pool_events.JSONSelectable | transfer_count.JSONSelectable | transfer_volume.JSONSelectable | transfers.JSONSelectable;
+    export type Whereable = asset_balances.Whereable | assets.Whereable | checkpoints.Whereable | daily_router_liquidity.Whereable | daily_router_tvl.Whereable | daily_transfer_metrics.Whereable | daily_transfer_volume.Whereable | router_balance_snapshots.Whereable | router_liquidity_events.Whereable | router_tvl.Whereable | routers.Whereable | routers_with_balances.Whereable | schema_migrations.Whereable | stableswap_exchanges.Whereable | stableswap_pool_events.Whereable | transfer_count.Whereable | transfer_volume.Whereable | transfers.Whereable;
+    export type Insertable = asset_balances.Insertable | assets.Insertable | checkpoints.Insertable | daily_router_liquidity.Insertable | daily_router_tvl.Insertable | daily_transfer_metrics.Insertable | daily_transfer_volume.Insertable | router_balance_snapshots.Insertable | router_liquidity_events.Insertable | router_tvl.Insertable | routers.Insertable | routers_with_balances.Insertable | schema_migrations.Insertable | stableswap_exchanges.Insertable | stableswap_pool_events.Insertable | transfer_count.Insertable | transfer_volume.Insertable | transfers.Insertable;
+    export type Updatable = asset_balances.Updatable | assets.Updatable | checkpoints.Updatable | daily_router_liquidity.Updatable | daily_router_tvl.Updatable | daily_transfer_metrics.Updatable | daily_transfer_volume.Updatable | router_balance_snapshots.Updatable | router_liquidity_events.Updatable | router_tvl.Updatable | routers.Updatable | routers_with_balances.Updatable | schema_migrations.Updatable | stableswap_exchanges.Updatable | stableswap_pool_events.Updatable | transfer_count.Updatable | transfer_volume.Updatable | transfers.Updatable;
+    export type UniqueIndex = asset_balances.UniqueIndex | assets.UniqueIndex | checkpoints.UniqueIndex | daily_router_liquidity.UniqueIndex | daily_router_tvl.UniqueIndex | daily_transfer_metrics.UniqueIndex | daily_transfer_volume.UniqueIndex | router_balance_snapshots.UniqueIndex | router_liquidity_events.UniqueIndex | router_tvl.UniqueIndex | routers.UniqueIndex | routers_with_balances.UniqueIndex | schema_migrations.UniqueIndex | stableswap_exchanges.UniqueIndex | stableswap_pool_events.UniqueIndex | transfer_count.UniqueIndex | transfer_volume.UniqueIndex | transfers.UniqueIndex;
+    export type Column = asset_balances.Column | assets.Column | checkpoints.Column | daily_router_liquidity.Column | daily_router_tvl.Column | daily_transfer_metrics.Column | daily_transfer_volume.Column | router_balance_snapshots.Column | router_liquidity_events.Column | router_tvl.Column | routers.Column | routers_with_balances.Column | schema_migrations.Column | stableswap_exchanges.Column | stableswap_pool_events.Column | transfer_count.Column | transfer_volume.Column | transfers.Column;
   
-    export type AllBaseTables = [asset_balances.Table, assets.Table, checkpoints.Table, routers.Table, schema_migrations.Table, transfers.Table];
+    export type AllBaseTables = [asset_balances.Table, assets.Table, checkpoints.Table, router_balance_snapshots.Table, router_liquidity_events.Table, routers.Table, schema_migrations.Table, stableswap_exchanges.Table, stableswap_pool_events.Table, transfers.Table];
     export type AllForeignTables = [];
-    export type AllViews = [daily_router_tvl.Table, daily_transfer_metrics.Table, daily_transfer_volume.Table, router_tvl.Table, routers_with_balances.Table, transfer_count.Table, transfer_volume.Table];
+    export type AllViews = [daily_router_liquidity.Table, daily_router_tvl.Table, daily_transfer_metrics.Table, daily_transfer_volume.Table, router_tvl.Table, routers_with_balances.Table, transfer_count.Table, transfer_volume.Table];
     export type AllMaterializedViews = [];
-    export type AllTablesAndViews = [asset_balances.Table, assets.Table, checkpoints.Table, daily_router_tvl.Table, daily_transfer_metrics.Table, daily_transfer_volume.Table, router_tvl.Table, routers.Table, routers_with_balances.Table, schema_migrations.Table, transfer_count.Table, transfer_volume.Table, transfers.Table];
+    export type AllTablesAndViews = [asset_balances.Table, assets.Table, checkpoints.Table, daily_router_liquidity.Table, daily_router_tvl.Table, daily_transfer_metrics.Table, daily_transfer_volume.Table, router_balance_snapshots.Table, router_liquidity_events.Table, router_tvl.Table, routers.Table, routers_with_balances.Table, schema_migrations.Table, stableswap_exchanges.Table, stableswap_pool_events.Table, transfer_count.Table, transfer_volume.Table, transfers.Table];
   }
 
 
@@ -3002,13 +4591,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.Selectable;
     "assets": assets.Selectable;
     "checkpoints": checkpoints.Selectable;
+    "daily_router_liquidity": daily_router_liquidity.Selectable;
     "daily_router_tvl": daily_router_tvl.Selectable;
     "daily_transfer_metrics": daily_transfer_metrics.Selectable;
     "daily_transfer_volume": daily_transfer_volume.Selectable;
+    "router_balance_snapshots": router_balance_snapshots.Selectable;
+    "router_liquidity_events": router_liquidity_events.Selectable;
     "router_tvl": router_tvl.Selectable;
     "routers": routers.Selectable;
     "routers_with_balances": routers_with_balances.Selectable;
     "schema_migrations": schema_migrations.Selectable;
+    "stableswap_exchanges": stableswap_exchanges.Selectable;
+    "stableswap_pool_events": stableswap_pool_events.Selectable;
     "transfer_count": transfer_count.Selectable;
     "transfer_volume": transfer_volume.Selectable;
     "transfers": transfers.Selectable;
@@ -3018,13 +4612,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.JSONSelectable;
     "assets": assets.JSONSelectable;
     "checkpoints": checkpoints.JSONSelectable;
+    "daily_router_liquidity": daily_router_liquidity.JSONSelectable;
     "daily_router_tvl": daily_router_tvl.JSONSelectable;
     "daily_transfer_metrics": daily_transfer_metrics.JSONSelectable;
     "daily_transfer_volume": daily_transfer_volume.JSONSelectable;
+    "router_balance_snapshots": router_balance_snapshots.JSONSelectable;
+    "router_liquidity_events": router_liquidity_events.JSONSelectable;
     "router_tvl": router_tvl.JSONSelectable;
     "routers": routers.JSONSelectable;
     "routers_with_balances": routers_with_balances.JSONSelectable;
     "schema_migrations": schema_migrations.JSONSelectable;
+    "stableswap_exchanges": stableswap_exchanges.JSONSelectable;
+    "stableswap_pool_events": stableswap_pool_events.JSONSelectable;
     "transfer_count": transfer_count.JSONSelectable;
     "transfer_volume": transfer_volume.JSONSelectable;
     "transfers": transfers.JSONSelectable;
@@ -3034,13 +4633,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.Whereable;
     "assets": assets.Whereable;
     "checkpoints": checkpoints.Whereable;
+    "daily_router_liquidity": daily_router_liquidity.Whereable;
     "daily_router_tvl": daily_router_tvl.Whereable;
     "daily_transfer_metrics": daily_transfer_metrics.Whereable;
     "daily_transfer_volume": daily_transfer_volume.Whereable;
+    "router_balance_snapshots": router_balance_snapshots.Whereable;
+    "router_liquidity_events": router_liquidity_events.Whereable;
     "router_tvl": router_tvl.Whereable;
     "routers": routers.Whereable;
     "routers_with_balances": routers_with_balances.Whereable;
     "schema_migrations": schema_migrations.Whereable;
+    "stableswap_exchanges": stableswap_exchanges.Whereable;
+    "stableswap_pool_events": stableswap_pool_events.Whereable;
     "transfer_count": transfer_count.Whereable;
     "transfer_volume": transfer_volume.Whereable;
     "transfers": transfers.Whereable;
@@ -3050,13 +4654,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.Insertable;
     "assets": assets.Insertable;
     "checkpoints": checkpoints.Insertable;
+    "daily_router_liquidity": daily_router_liquidity.Insertable;
     "daily_router_tvl": daily_router_tvl.Insertable;
     "daily_transfer_metrics": daily_transfer_metrics.Insertable;
     "daily_transfer_volume": daily_transfer_volume.Insertable;
+    "router_balance_snapshots": router_balance_snapshots.Insertable;
+    "router_liquidity_events": router_liquidity_events.Insertable;
     "router_tvl": router_tvl.Insertable;
     "routers": routers.Insertable;
     "routers_with_balances": routers_with_balances.Insertable;
     "schema_migrations": schema_migrations.Insertable;
+    "stableswap_exchanges": stableswap_exchanges.Insertable;
+    "stableswap_pool_events": stableswap_pool_events.Insertable;
     "transfer_count": transfer_count.Insertable;
     "transfer_volume": transfer_volume.Insertable;
     "transfers": transfers.Insertable;
@@ -3066,13 +4675,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.Updatable;
     "assets": assets.Updatable;
     "checkpoints": checkpoints.Updatable;
+    "daily_router_liquidity": daily_router_liquidity.Updatable;
     "daily_router_tvl": daily_router_tvl.Updatable;
     "daily_transfer_metrics": daily_transfer_metrics.Updatable;
     "daily_transfer_volume": daily_transfer_volume.Updatable;
+    "router_balance_snapshots": router_balance_snapshots.Updatable;
+    "router_liquidity_events": router_liquidity_events.Updatable;
     "router_tvl": router_tvl.Updatable;
     "routers": routers.Updatable;
     "routers_with_balances": routers_with_balances.Updatable;
     "schema_migrations": schema_migrations.Updatable;
+    "stableswap_exchanges": stableswap_exchanges.Updatable;
+    "stableswap_pool_events": stableswap_pool_events.Updatable;
     "transfer_count": transfer_count.Updatable;
     "transfer_volume": transfer_volume.Updatable;
     "transfers": transfers.Updatable;
@@ -3082,13 +4696,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.UniqueIndex;
     "assets": assets.UniqueIndex;
     "checkpoints": checkpoints.UniqueIndex;
+    "daily_router_liquidity": daily_router_liquidity.UniqueIndex;
     "daily_router_tvl": daily_router_tvl.UniqueIndex;
     "daily_transfer_metrics": daily_transfer_metrics.UniqueIndex;
     "daily_transfer_volume": daily_transfer_volume.UniqueIndex;
+    "router_balance_snapshots": router_balance_snapshots.UniqueIndex;
+    "router_liquidity_events": router_liquidity_events.UniqueIndex;
     "router_tvl": router_tvl.UniqueIndex;
     "routers": routers.UniqueIndex;
     "routers_with_balances": routers_with_balances.UniqueIndex;
     "schema_migrations": schema_migrations.UniqueIndex;
+    "stableswap_exchanges": stableswap_exchanges.UniqueIndex;
+    "stableswap_pool_events": stableswap_pool_events.UniqueIndex;
     "transfer_count": transfer_count.UniqueIndex;
     "transfer_volume": transfer_volume.UniqueIndex;
     "transfers": transfers.UniqueIndex;
@@ -3098,13 +4717,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.Column;
     "assets": assets.Column;
     "checkpoints": checkpoints.Column;
+    "daily_router_liquidity": daily_router_liquidity.Column;
     "daily_router_tvl": daily_router_tvl.Column;
     "daily_transfer_metrics": daily_transfer_metrics.Column;
     "daily_transfer_volume": daily_transfer_volume.Column;
+    "router_balance_snapshots": router_balance_snapshots.Column;
+    "router_liquidity_events": router_liquidity_events.Column;
     "router_tvl": router_tvl.Column;
     "routers": routers.Column;
     "routers_with_balances": routers_with_balances.Column;
     "schema_migrations": schema_migrations.Column;
+    "stableswap_exchanges": stableswap_exchanges.Column;
+    "stableswap_pool_events": stableswap_pool_events.Column;
     "transfer_count": transfer_count.Column;
     "transfer_volume": transfer_volume.Column;
     "transfers": transfers.Column;
@@ -3114,13 +4738,18 @@ declare module 'zapatos/schema' {
     "asset_balances": asset_balances.SQL;
     "assets": assets.SQL;
     "checkpoints": checkpoints.SQL;
+    "daily_router_liquidity": daily_router_liquidity.SQL;
     "daily_router_tvl": daily_router_tvl.SQL;
     "daily_transfer_metrics": daily_transfer_metrics.SQL;
     "daily_transfer_volume": daily_transfer_volume.SQL;
+    "router_balance_snapshots": router_balance_snapshots.SQL;
+    "router_liquidity_events": router_liquidity_events.SQL;
     "router_tvl": router_tvl.SQL;
     "routers": routers.SQL;
     "routers_with_balances": routers_with_balances.SQL;
     "schema_migrations": schema_migrations.SQL;
+    "stableswap_exchanges": stableswap_exchanges.SQL;
+    "stableswap_pool_events": stableswap_pool_events.SQL;
     "transfer_count": transfer_count.SQL;
     "transfer_volume": transfer_volume.SQL;
     "transfers": transfers.SQL;
@@ -22,6 +22,18 @@ import {
   getTransfersWithOriginPending,
   getTransfersWithDestinationPending,
   getCheckPoint,
+  getTransferBlocks,
+  rollbackTransfers,
+  saveRouterBalanceSnapshot,
+  saveRouterLiquidityEvents,
+  getRouterLiquidityEventsCursor,
+  saveStableSwapExchanges,
+  getStableSwapExchangesCursor,
+  saveStableSwapPoolEvents,
+  getStableSwapPoolEventsCursor,
+  getTransfers,
+  getRouterBalances,
+  getAssets,
 } from "../../../src/adapters/database/client";
 
 describe("Database client", () => {
@@ -58,6 +70,64 @@ describe("Database client", () => {
       check_point numeric DEFAULT 0 NOT NULL
     );
     CREATE TABLE routers (address character(42) NOT NULL);
+    CREATE TABLE router_balance_snapshots (
+      router_address character(42) NOT NULL,
+      asset_canonical_id character(66) NOT NULL,
+      asset_domain character varying(255) NOT NULL,
+      balance numeric DEFAULT 0 NOT NULL,
+      "timestamp" integer NOT NULL,
+      PRIMARY KEY (router_address, asset_canonical_id, asset_domain, "timestamp")
+    );
+    CREATE TYPE router_liquidity_event_type AS ENUM (
+      'Add',
+      'Remove'
+    );
+    CREATE TABLE router_liquidity_events (
+      id character varying(255) NOT NULL PRIMARY KEY,
+      domain character varying(255) NOT NULL,
+      router_address character(42) NOT NULL,
+      event_type router_liquidity_event_type NOT NULL,
+      asset character(42) NOT NULL,
+      amount numeric NOT NULL,
+      balance numeric NOT NULL,
+      caller character(42) NOT NULL,
+      transaction_hash character(66) NOT NULL,
+      "timestamp" integer NOT NULL,
+      block_number integer NOT NULL
+    );
+    CREATE TABLE stableswap_exchanges (
+      id character varying(255) NOT NULL PRIMARY KEY,
+      domain character varying(255) NOT NULL,
+      pool_id character(42) NOT NULL,
+      buyer character(42) NOT NULL,
+      bought_id integer NOT NULL,
+      sold_id integer NOT NULL,
+      tokens_sold numeric NOT NULL,
+      tokens_bought numeric NOT NULL,
+      fee numeric NOT NULL,
+      balances numeric[] NOT NULL,
+      transaction_hash character(66) NOT NULL,
+      "timestamp" integer NOT NULL,
+      block_number integer NOT NULL
+    );
+    CREATE TYPE stableswap_pool_event_type AS ENUM (
+      'Add',
+      'Remove'
+    );
+    CREATE TABLE stableswap_pool_events (
+      id character varying(255) NOT NULL PRIMARY KEY,
+      domain character varying(255) NOT NULL,
+      pool_id character(42) NOT NULL,
+      event_type stableswap_pool_event_type NOT NULL,
+      provider character(42) NOT NULL,
+      token_amounts numeric[] NOT NULL,
+      fees numeric[] NOT NULL,
+      lp_token_supply numeric NOT NULL,
+      balances numeric[] NOT NULL,
+      transaction_hash character(66) NOT NULL,
+      "timestamp" integer NOT NULL,
+      block_number integer NOT NULL
+    );
     CREATE VIEW routers_with_balances AS
     SELECT routers.address,
       asset_balances.asset_canonical_id,
@@ -133,7 +203,10 @@ describe("Database client", () => {
       reconcile_block_number integer,
       update_time timestamp without time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
       agent character(42),
-      slippage_tol numeric
+      slippage_tol numeric,
+      xcall_block_hash character(66),
+      execute_block_hash character(66),
+      reconcile_block_hash character(66)
     );
     --
     -- Name: asset_balances asset_balances_pkey; Type: CONSTRAINT; Schema: public; Owner: -
@@ -453,6 +526,265 @@ describe("Database client", () => {
     expect(rb).to.deep.eq(routerBalances);
   });
 
+  it("should snapshot router balances", async () => {
+    const routerBalances: RouterBalance[] = [
+      {
+        router: mkAddress("0xa"),
+        assets: [
+          {
+            canonicalId: mkBytes32("0xb"),
+            adoptedAsset: mkAddress("0xaa"),
+            blockNumber: "0",
+            domain: "1234",
+            local: mkAddress("0xbb"),
+            canonicalDomain: "1111",
+            balance: utils.parseEther("100").toString(),
+          },
+        ],
+      },
+    ];
+    await saveRouterBalances(routerBalances, pool);
+    await saveRouterBalanceSnapshot(1000, pool);
+    routerBalances[0].assets[0].balance = utils.parseEther("50").toString();
+    await saveRouterBalances(routerBalances, pool);
+    await saveRouterBalanceSnapshot(2000, pool);
+
+    const res = await pool.query(`SELECT * FROM router_balance_snapshots ORDER BY "timestamp" ASC`);
+    expect(res.rows.map((row) => [row.timestamp, row.balance.toString()])).to.deep.eq([
+      [1000, utils.parseEther("100").toString()],
+      [2000, utils.parseEther("50").toString()],
+    ]);
+  });
+
+  it("should save router liquidity events once", async () => {
+    const event = {
+      id: `${mkBytes32("0xabc")}-1`,
+      domain: "1234",
+      router: mkAddress("0xa"),
+      eventType: "Add" as const,
+      asset: mkAddress("0xbb"),
+      amount: "100",
+      balance: "100",
+      caller: mkAddress("0xa"),
+      transactionHash: mkBytes32("0xabc"),
+      timestamp: 1000,
+      blockNumber: 50000,
+    };
+    await saveRouterLiquidityEvents([event], pool);
+    await saveRouterLiquidityEvents([event, { ...event, id: `${mkBytes32("0xabc")}-2`, eventType: "Remove" }], pool);
+
+    const res = await pool.query(`SELECT * FROM router_liquidity_events ORDER BY id ASC`);
+    expect(res.rows.map((row) => row.event_type)).to.deep.eq(["Add", "Remove"]);
+  });
+
+  it("should get the cursor of the last saved router liquidity event", async () => {
+    const event = {
+      id: `${mkBytes32("0xabc")}-1`,
+      domain: "1234",
+      router: mkAddress("0xa"),
+      eventType: "Add" as const,
+      asset: mkAddress("0xbb"),
+      amount: "100",
+      balance: "100",
+      caller: mkAddress("0xa"),
+      transactionHash: mkBytes32("0xabc"),
+      timestamp: 1000,
+      blockNumber: 50000,
+    };
+    expect(await getRouterLiquidityEventsCursor("1234", pool)).to.be.undefined;
+
+    await saveRouterLiquidityEvents(
+      [
+        event,
+        { ...event, id: `${mkBytes32("0xabc")}-3`, timestamp: 1001 },
+        { ...event, id: `${mkBytes32("0xabc")}-2`, timestamp: 1001 },
+        { ...event, id: `${mkBytes32("0xabc")}-4`, timestamp: 1002, domain: "5678" },
+      ],
+      pool,
+    );
+
+    expect(await getRouterLiquidityEventsCursor("1234", pool)).to.deep.eq({
+      timestamp: 1001,
+      id: `${mkBytes32("0xabc")}-3`,
+    });
+  });
+
+  it("should save StableSwap exchanges and pool events once", async () => {
+    const exchange = {
+      id: `${mkBytes32("0xabc")}-1`,
+      domain: "1234",
+      poolId: mkAddress("0xa"),
+      buyer: mkAddress("0xa"),
+      boughtId: 1,
+      soldId: 0,
+      tokensSold: "100",
+      tokensBought: "99",
+      fee: "1",
+      balances: ["1100", "901"],
+      transactionHash: mkBytes32("0xabc"),
+      timestamp: 1000,
+      blockNumber: 50000,
+    };
+    await saveStableSwapExchanges([exchange], pool);
+    await saveStableSwapExchanges([exchange, { ...exchange, id: `${mkBytes32("0xabc")}-2` }], pool);
+
+    const poolEvent = {
+      id: `${mkBytes32("0xdef")}-1`,
+      domain: "1234",
+      poolId: mkAddress("0xa"),
+      eventType: "Add" as const,
+      provider: mkAddress("0xa"),
+      tokenAmounts: ["100", "100"],
+      fees: ["0", "0"],
+      lpTokenSupply: "2100",
+      balances: ["1200", "1001"],
+      transactionHash: mkBytes32("0xdef"),
+      timestamp: 1200,
+      blockNumber: 50010,
+    };
+    await saveStableSwapPoolEvents([poolEvent], pool);
+    await saveStableSwapPoolEvents(
+      [poolEvent, { ...poolEvent, id: `${mkBytes32("0xdef")}-2`, eventType: "Remove" }],
+      pool,
+    );
+
+    const exchanges = await pool.query(`SELECT * FROM stableswap_exchanges ORDER BY id ASC`);
+    expect(exchanges.rows.map((row) => row.sold_id)).to.deep.eq([0, 0]);
+    const poolEvents = await pool.query(`SELECT * FROM stableswap_pool_events ORDER BY id ASC`);
+    expect(poolEvents.rows.map((row) => row.event_type)).to.deep.eq(["Add", "Remove"]);
+  });
+
+  it("should get the last StableSwap exchange and pool event saved as the cursors", async () => {
+    const exchange = {
+      id: `${mkBytes32("0xabc")}-1`,
+      domain: "1234",
+      poolId: mkAddress("0xa"),
+      buyer: mkAddress("0xa"),
+      boughtId: 1,
+      soldId: 0,
+      tokensSold: "100",
+      tokensBought: "99",
+      fee: "1",
+      balances: ["1100", "901"],
+      transactionHash: mkBytes32("0xabc"),
+      timestamp: 1000,
+      blockNumber: 50000,
+    };
+    const poolEvent = {
+      id: `${mkBytes32("0xdef")}-1`,
+      domain: "1234",
+      poolId: mkAddress("0xa"),
+      eventType: "Add" as const,
+      provider: mkAddress("0xa"),
+      tokenAmounts: ["100", "100"],
+      fees: ["0", "0"],
+      lpTokenSupply: "2100",
+      balances: ["1200", "1001"],
+      transactionHash: mkBytes32("0xdef"),
+      timestamp: 1000,
+      blockNumber: 50000,
+    };
+    expect(await getStableSwapExchangesCursor("1234", pool)).to.be.undefined;
+    expect(await getStableSwapPoolEventsCursor("1234", pool)).to.be.undefined;
+
+    await saveStableSwapExchanges(
+      [
+        exchange,
+        { ...exchange, id: `${mkBytes32("0xabc")}-3`, timestamp: 1001 },
+        { ...exchange, id: `${mkBytes32("0xabc")}-2`, timestamp: 1001 },
+        { ...exchange, id: `${mkBytes32("0xabc")}-4`, timestamp: 1002, domain: "5678" },
+      ],
+      pool,
+    );
+    await saveStableSwapPoolEvents(
+      [
+        poolEvent,
+        { ...poolEvent, id: `${mkBytes32("0xdef")}-2`, timestamp: 1003 },
+        { ...poolEvent, id: `${mkBytes32("0xdef")}-3`, timestamp: 1003 },
+      ],
+      pool,
+    );
+
+    expect(await getStableSwapExchangesCursor("1234", pool)).to.deep.eq({
+      timestamp: 1001,
+      id: `${mkBytes32("0xabc")}-3`,
+    });
+    expect(await getStableSwapPoolEventsCursor("1234", pool)).to.deep.eq({
+      timestamp: 1003,
+      id: `${mkBytes32("0xdef")}-3`,
+    });
+  });
+
+  it("should page through transfers by nonce", async () => {
+    const transfers = Array(5)
+      .fill(0)
+      .map((_a, index) => {
+        const t: XTransfer = mock.entity.xtransfer({ status: XTransferStatus.Executed });
+        t.nonce = index + 1;
+        return t;
+      });
+    await saveTransfers(transfers, pool);
+
+    const page1 = await getTransfers({}, "nonce", 2, undefined, "ASC", pool);
+    expect(page1.map((t) => t.nonce)).to.deep.eq([1, 2]);
+    const page2 = await getTransfers({}, "nonce", 2, { value: 2, transferId: page1[1].transferId }, "ASC", pool);
+    expect(page2.map((t) => t.nonce)).to.deep.eq([3, 4]);
+    const desc = await getTransfers({}, "nonce", 10, { value: 4, transferId: page2[1].transferId }, "DESC", pool);
+    expect(desc.map((t) => t.nonce)).to.deep.eq([3, 2, 1]);
+  });
+
+  it("should filter transfers", async () => {
+    const xTransfer1 = mock.entity.xtransfer({ status: XTransferStatus.Executed, routers: [mkAddress("0xa")] });
+    const xTransfer2 = mock.entity.xtransfer({ status: XTransferStatus.Executed, routers: [mkAddress("0xb")] });
+    await saveTransfers([xTransfer1, xTransfer2], pool);
+
+    const byRouter = await getTransfers({ router: mkAddress("0xb") }, "timestamp", 10, undefined, "ASC", pool);
+    expect(byRouter.map((t) => t.transferId)).to.deep.eq([xTransfer2.transferId]);
+    const byStatus = await getTransfers(
+      { status: XTransferStatus.Reconciled },
+      "timestamp",
+      10,
+      undefined,
+      "ASC",
+      pool,
+    );
+    expect(byStatus.length).to.eq(0);
+  });
+
+  it("should page through router balances and assets", async () => {
+    const routerBalances: RouterBalance[] = [mkAddress("0xa"), mkAddress("0xb")].map((router, index) => ({
+      router,
+      assets: [
+        {
+          canonicalId: mkBytes32(`0x${index + 1}`),
+          adoptedAsset: mkAddress("0xaa"),
+          blockNumber: "0",
+          domain: "1234",
+          local: mkAddress("0xbb"),
+          canonicalDomain: "1111",
+          balance: utils.parseEther("100").toString(),
+        },
+      ],
+    }));
+    await saveRouterBalances(routerBalances, pool);
+
+    const routers = await getRouterBalances(1, mkAddress("0xa"), pool);
+    expect(routers.map((r) => r.router)).to.deep.eq([mkAddress("0xb")]);
+
+    const assets = await getAssets({ domain: "1234" }, 1, undefined, pool);
+    expect(assets).to.deep.eq([
+      {
+        local: mkAddress("0xbb"),
+        adoptedAsset: mkAddress("0xaa"),
+        canonicalId: mkBytes32("0x1"),
+        canonicalDomain: "1111",
+        domain: "1234",
+      },
+    ]);
+    const nextAssets = await getAssets({}, 10, { canonicalId: mkBytes32("0x1"), domain: "1234" }, pool);
+    expect(nextAssets.map((a) => a.canonicalId)).to.deep.eq([mkBytes32("0x2")]);
+  });
+
   it("should set and get checkpoint", async () => {
     const nonce = 8239764;
     const name = "nonce_checkpoint";
@@ -495,6 +827,75 @@ describe("Database client", () => {
     expect(transfers).includes(xTransfer3Id);
   });
 
+  // A transfer on origin domain 1111 and destination domain 2222 that was executed and then reconciled.
+  const mockCompletedTransfer = (nonce?: number): XTransfer => {
+    const xTransfer = mock.entity.xtransfer({
+      originDomain: "1111",
+      destinationDomain: "2222",
+      status: XTransferStatus.CompletedSlow,
+      nonce,
+    });
+    xTransfer.destination!.reconcile = {
+      caller: mock.address.relayer,
+      transactionHash: mkBytes32("0xabc"),
+      timestamp: xTransfer.destination!.execute!.timestamp + 30,
+      gasPrice: utils.parseUnits("5", "gwei").toString(),
+      gasLimit: "100000",
+      blockNumber: xTransfer.destination!.execute!.blockNumber + 10,
+    };
+    return xTransfer;
+  };
+
+  it("should get the blocks of saved transfers from a block onwards", async () => {
+    const xTransfer = mockCompletedTransfer();
+    xTransfer.origin!.xcall = { ...xTransfer.origin!.xcall, blockNumber: 100, blockHash: mkBytes32("0x100") };
+    xTransfer.destination!.execute = {
+      ...xTransfer.destination!.execute!,
+      blockNumber: 200,
+      blockHash: mkBytes32("0x200"),
+    };
+    xTransfer.destination!.reconcile = {
+      ...xTransfer.destination!.reconcile!,
+      blockNumber: 210,
+      blockHash: mkBytes32("0x210"),
+    };
+    await saveTransfers([xTransfer], pool);
+
+    expect(await getTransferBlocks("1111", 100, pool)).to.deep.eq([
+      { blockNumber: 100, blockHash: mkBytes32("0x100") },
+    ]);
+    expect(await getTransferBlocks("1111", 101, pool)).to.deep.eq([]);
+    const destinationBlocks = await getTransferBlocks("2222", 205, pool);
+    expect(destinationBlocks).to.deep.eq([{ blockNumber: 210, blockHash: mkBytes32("0x210") }]);
+  });
+
+  it("should roll back transfers and checkpoints from the fork block onwards", async () => {
+    const xTransfer1 = mockCompletedTransfer(5);
+    xTransfer1.origin!.xcall.blockNumber = 100;
+    xTransfer1.destination!.execute!.blockNumber = 200;
+    xTransfer1.destination!.reconcile!.blockNumber = 210;
+    xTransfer1.destination!.reconcile!.timestamp = 1000;
+    const xTransfer2 = mockCompletedTransfer(6);
+    xTransfer2.origin!.xcall.blockNumber = 150;
+    xTransfer2.destination = undefined;
+    await saveTransfers([xTransfer1, xTransfer2], pool);
+    await saveCheckPoint("origin_nonce_1111", 6, pool);
+    await saveCheckPoint("destination_reconcile_timestamp_2222", 1000, pool);
+
+    expect(await rollbackTransfers("1111", 150, pool)).to.eq(1);
+    const rolledBack = await getTransferByTransferId(xTransfer2.transferId, pool);
+    expect(rolledBack!.origin).to.be.undefined;
+    expect(await getTransfersWithOriginPending("1111", 100, "ASC", pool)).to.deep.eq([xTransfer2.transferId]);
+    expect(await getCheckPoint("origin_nonce_1111", pool)).to.eq(5);
+
+    expect(await rollbackTransfers("2222", 205, pool)).to.eq(1);
+    const reconcileRolledBack = await getTransferByTransferId(xTransfer1.transferId, pool);
+    expect(reconcileRolledBack!.destination!.status).to.eq(XTransferStatus.Executed);
+    expect(reconcileRolledBack!.destination!.execute!.blockNumber).to.eq(200);
+    expect(reconcileRolledBack!.destination!.reconcile!.blockNumber).to.be.null;
+    expect(await getCheckPoint("destination_reconcile_timestamp_2222", pool)).to.eq(999);
+  });
+
   it("should get checkpoint when no data", async () => {
     const timestamp = await getCheckPoint(undefined as any, pool);
     expect(timestamp).equal(0);
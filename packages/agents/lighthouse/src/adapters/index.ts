@@ -1,18 +1,28 @@
-import { RequestContext } from "@connext/nxtp-utils";
+import { createRelayer, Relayer, RelayerConfig, RelayerType } from "@connext/nxtp-adapters-relayer";
 
-import { send } from "./relayer/gelato";
+import { getContext } from "../lighthouse";
 
-export type Relayer = {
-  send: (
-    chainId: number,
-    destinationAddress: string,
-    encodedData: string,
-    _requestContext: RequestContext,
-  ) => Promise<string>;
-};
+export type { Relayer };
 
+/**
+ * Sets up the relayer used to send meta transactions. Each domain uses the relayers configured for it in order,
+ * falling back on the next one if a relayer fails. By default, the Connext relayer at `relayerUrl` is tried first
+ * (if configured), followed by the Gelato network.
+ */
 export const setupRelayer = async (): Promise<Relayer> => {
-  return {
-    send,
-  };
+  const { config, chainData, logger } = getContext();
+  const defaultRelayers: RelayerConfig[] = [
+    ...(config.relayerUrl ? [{ type: RelayerType.Connext, url: config.relayerUrl }] : []),
+    { type: RelayerType.Gelato },
+  ];
+
+  const relayers: Record<number, RelayerConfig[]> = {};
+  for (const [domain, chainConfig] of Object.entries(config.chains)) {
+    const chainId = chainData.get(domain)?.chainId;
+    if (chainId === undefined) {
+      continue;
+    }
+    relayers[chainId] = chainConfig.relayers ?? defaultRelayers;
+  }
+  return createRelayer(relayers, logger.child({ module: "Relayer" }));
 };
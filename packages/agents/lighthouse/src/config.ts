@@ -4,6 +4,7 @@ import { Type, Static } from "@sinclair/typebox";
 import { config as dotenvConfig } from "dotenv";
 import { ajv, ChainData, TAddress, TLogLevel } from "@connext/nxtp-utils";
 import { ConnextContractDeployments, ContractPostfix } from "@connext/nxtp-txservice";
+import { TRelayerConfig } from "@connext/nxtp-adapters-relayer";
 
 import { getHelpers } from "./lib/helpers";
 
@@ -11,6 +12,10 @@ import { getHelpers } from "./lib/helpers";
 const DEFAULT_CONFIRMATIONS = 3;
 const MIN_CARTOGRAPHER_POLL_INTERVAL = 30_000;
 const DEFAULT_CARTOGRAPHER_POLL_INTERVAL = 60_000;
+const DEFAULT_CARTOGRAPHER_PAGE_SIZE = 100;
+// Execution retries.
+const DEFAULT_RETRY_DELAY = 60; // 1 minute
+const DEFAULT_MAX_RETRY_DELAY = 60 * 60; // 1 hour
 
 dotenvConfig();
 
@@ -20,6 +25,8 @@ export const TChainConfig = Type.Object({
   deployments: Type.Object({
     connext: TAddress,
   }),
+  // Relayers used to send meta transactions on this chain, in order of preference.
+  relayers: Type.Optional(Type.Array(TRelayerConfig)),
 });
 
 export type ChainConfig = Static<typeof TChainConfig>;
@@ -31,6 +38,20 @@ export const TModeConfig = Type.Object({
 
 export const TPollingConfig = Type.Object({
   cartographer: Type.Integer({ minimum: MIN_CARTOGRAPHER_POLL_INTERVAL }),
+  // Number of transfers to fetch from the cartographer per request.
+  pageSize: Type.Integer({ minimum: 1, maximum: 1000 }),
+});
+
+export const TRetryConfig = Type.Object({
+  // Time (in seconds) to wait before retrying a failed execution. Doubles with every failed attempt.
+  delay: Type.Integer({ minimum: 1 }),
+  // Maximum time (in seconds) to wait before retrying a failed execution.
+  maxDelay: Type.Integer({ minimum: 1 }),
+});
+
+export const TRedisConfig = Type.Object({
+  port: Type.Optional(Type.Integer({ minimum: 1, maximum: 65535 })),
+  host: Type.Optional(Type.String()),
 });
 
 export const NxtpLighthouseConfigSchema = Type.Object({
@@ -40,6 +61,8 @@ export const NxtpLighthouseConfigSchema = Type.Object({
   cartographerUrl: Type.String(),
   mode: TModeConfig,
   polling: TPollingConfig,
+  retry: TRetryConfig,
+  redis: TRedisConfig,
   environment: Type.Union([Type.Literal("staging"), Type.Literal("production")]),
   relayerUrl: Type.Optional(Type.String()),
 });
@@ -98,6 +121,23 @@ export const getEnvConfig = (
         configJson.polling?.cache ||
         configFile.polling?.cache ||
         DEFAULT_CARTOGRAPHER_POLL_INTERVAL,
+      pageSize:
+        process.env.NXTP_CARTOGRAPHER_PAGE_SIZE ||
+        configJson.polling?.pageSize ||
+        configFile.polling?.pageSize ||
+        DEFAULT_CARTOGRAPHER_PAGE_SIZE,
+    },
+    retry: {
+      delay: process.env.NXTP_RETRY_DELAY || configJson.retry?.delay || configFile.retry?.delay || DEFAULT_RETRY_DELAY,
+      maxDelay:
+        process.env.NXTP_MAX_RETRY_DELAY ||
+        configJson.retry?.maxDelay ||
+        configFile.retry?.maxDelay ||
+        DEFAULT_MAX_RETRY_DELAY,
+    },
+    redis: {
+      host: process.env.NXTP_REDIS_HOST || configJson.redis?.host || configFile.redis?.host,
+      port: process.env.NXTP_REDIS_PORT || configJson.redis?.port || configFile.redis?.port || 6379,
     },
     environment: process.env.NXTP_ENVIRONMENT || configJson.environment || configFile.environment || "production",
     cartographerUrl: process.env.NXTP_CARTOGRAPHER_URL || configJson.cartographerUrl || configFile.cartographerUrl,
@@ -1,5 +1,6 @@
 import { ChainData, Logger } from "@connext/nxtp-utils";
 import { ConnextContractInterfaces, ChainReader } from "@connext/nxtp-txservice";
+import { StoreManager } from "@connext/nxtp-adapters-cache";
 
 import { Relayer } from "../../adapters";
 import { NxtpLighthouseConfig } from "../../config";
@@ -9,6 +10,7 @@ export type AppContext = {
   adapters: {
     // Stateful interfaces for peripherals.
     relayer: Relayer; // Relayer for sending transactions to the blockchain.
+    cache: StoreManager; // Used to keep track of the transfers we've executed.
     chainreader: ChainReader; // For reading and executing txs on blockchain using RPC providers.
     contracts: ConnextContractInterfaces; // Used to read and write to smart contracts.
   };
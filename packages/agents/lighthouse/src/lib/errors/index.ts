@@ -1,2 +1 @@
-export * from "./relayer";
 export * from "./cartographer";
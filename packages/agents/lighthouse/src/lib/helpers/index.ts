@@ -1,13 +1,6 @@
-import { existsSync, readFileSync, gelatoSend, isChainSupportedByGelato, getGelatoRelayerAddress } from "./shared";
-import { connextRelayerSend } from "./relayer";
+import { existsSync, readFileSync } from "./shared";
 export const getHelpers = () => {
   return {
-    relayer: {
-      gelatoSend,
-      isChainSupportedByGelato,
-      getGelatoRelayerAddress,
-      connextRelayerSend,
-    },
     shared: {
       existsSync,
       readFileSync,
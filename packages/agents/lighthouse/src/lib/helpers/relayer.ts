@@ -1,3 +0,0 @@
-import { connextRelayerSend as _connextRelayerSend } from "@connext/nxtp-utils";
-
-export const connextRelayerSend = _connextRelayerSend;
@@ -6,6 +6,10 @@ import {
   formatUrl,
   convertFromDbTransfer,
   transfersCastForUrl,
+  getNtpTimeSeconds,
+  RelayerTaskStatus,
+  RequestContext,
+  XTransferStatus,
 } from "@connext/nxtp-utils";
 import axios from "axios";
 
@@ -15,59 +19,175 @@ import { ApiRequestFailed } from "../errors/cartographer";
 
 export const pollCartographer = async () => {
   const { requestContext, methodContext } = createLoggingContext(pollCartographer.name);
-  const { logger } = getContext();
-  const { execute } = getOperations();
+  const { logger, config } = getContext();
 
   logger.debug(`Method start: ${pollCartographer.name}`, requestContext, methodContext, {});
-  const reconciledTransactions = await getReconciledTransactions();
-  logger.debug("Get reconciled transactions", requestContext, methodContext, { reconciledTransactions });
-
-  await Promise.all(
-    reconciledTransactions.map(async (transaction: any) => {
-      try {
-        const xTransfer = convertFromDbTransfer(transaction);
-
-        const executeParams: ExecuteArgs = {
-          params: {
-            originDomain: xTransfer.xparams?.originDomain ?? "",
-            destinationDomain: xTransfer.xparams?.destinationDomain ?? "",
-            to: xTransfer.xparams!.to,
-            callData: xTransfer.xparams!.callData,
-            callback: xTransfer.xparams!.callback,
-            callbackFee: xTransfer.xparams!.callbackFee,
-            receiveLocal: xTransfer.xparams!.receiveLocal,
-            forceSlow: xTransfer.xparams!.forceSlow,
-            recovery: xTransfer.xparams!.recovery,
-            slippageTol: xTransfer.xparams!.slippageTol,
-            agent: xTransfer.xparams!.agent,
-            relayerFee: xTransfer.xparams!.relayerFee,
-          },
-          local: xTransfer.destination!.assets.local.asset,
-          routers: [],
-          routerSignatures: [],
-          amount: xTransfer.destination!.assets.local.amount.toString(),
-          nonce: xTransfer.nonce!,
-          originSender: xTransfer.origin!.xcall.caller,
-        };
-
-        const transferId = xTransfer.transferId;
-
-        await execute(executeParams, transferId);
-      } catch (error: any) {
-        logger.error("Error Cartographer Binding", requestContext, methodContext, jsonifyError(error as NxtpError), {
-          transaction,
+
+  // Stop tracking transfers that have been executed since the last poll.
+  await removeExecutedTransfers(requestContext);
+
+  // Paged by transfer ID rather than by offset: transfers leave the reconciled set as they're executed, which
+  // would shift any later rows back into pages that have already been read.
+  const { pageSize } = config.polling;
+  let after: string | undefined;
+  let reconciledTransactions: any[];
+  do {
+    reconciledTransactions = await getReconciledTransactions(pageSize, after);
+    logger.debug("Get reconciled transactions", requestContext, methodContext, {
+      after,
+      count: reconciledTransactions.length,
+    });
+    await Promise.all(
+      reconciledTransactions.map(async (transaction: any) => {
+        try {
+          await executeTransfer(transaction, requestContext);
+        } catch (error: any) {
+          logger.error("Error Cartographer Binding", requestContext, methodContext, jsonifyError(error as NxtpError), {
+            transaction,
+          });
+        }
+      }),
+    );
+    after = reconciledTransactions[reconciledTransactions.length - 1]?.transfer_id;
+  } while (reconciledTransactions.length === pageSize);
+};
+
+/**
+ * Gets the time to wait before retrying a transfer after a failed attempt. Doubles with every attempt, up to
+ * the configured maximum.
+ *
+ * @param attempts - Number of attempts made so far.
+ * @returns Time to wait, in seconds.
+ */
+export const getRetryDelay = (attempts: number): number => {
+  const { config } = getContext();
+  return Math.min(config.retry.delay * 2 ** Math.max(attempts - 1, 0), config.retry.maxDelay);
+};
+
+/**
+ * Executes a reconciled transfer through the relayer, unless it has already been sent. Transfers that have been
+ * sent are tracked in the cache along with the relayer task created for them; if the task fails, the transfer is
+ * retried with backoff.
+ *
+ * @param transaction - The reconciled transfer, as returned by the cartographer.
+ */
+export const executeTransfer = async (transaction: any, _requestContext: RequestContext): Promise<void> => {
+  const {
+    logger,
+    adapters: { cache, relayer },
+  } = getContext();
+  const { execute } = getOperations();
+  const { requestContext, methodContext } = createLoggingContext(executeTransfer.name, _requestContext);
+
+  const xTransfer = convertFromDbTransfer(transaction);
+  const transferId = xTransfer.transferId;
+
+  const execution = await cache.executions.getExecution(transferId);
+  if (execution) {
+    if (execution.retryAt === undefined) {
+      // The latest attempt is in flight; check whether the relayer task has failed.
+      const status = execution.taskId ? await relayer.getTaskStatus(execution.taskId) : RelayerTaskStatus.None;
+      const failed =
+        status === RelayerTaskStatus.Cancelled ||
+        (status === RelayerTaskStatus.None && getNtpTimeSeconds() - execution.timestamp >= getRetryDelay(1));
+      if (!failed) {
+        // Pending, or completed and waiting for the cartographer to pick up on it.
+        logger.debug("Transfer execution in progress", requestContext, methodContext, {
+          transferId,
+          execution,
+          status,
         });
+        return;
       }
-    }),
-  );
+      const retryDelay = getRetryDelay(execution.attempts);
+      await cache.executions.setFailed(transferId, `Relayer task status: ${status}`, retryDelay);
+      logger.error("Relayer task failed to execute transfer", requestContext, methodContext, undefined, {
+        transferId,
+        taskId: execution.taskId,
+        status,
+        attempts: execution.attempts,
+        retryDelay,
+      });
+      return;
+    }
+    if (execution.retryAt > getNtpTimeSeconds()) {
+      return;
+    }
+  }
+
+  const executeParams: ExecuteArgs = {
+    params: {
+      originDomain: xTransfer.xparams?.originDomain ?? "",
+      destinationDomain: xTransfer.xparams?.destinationDomain ?? "",
+      to: xTransfer.xparams!.to,
+      callData: xTransfer.xparams!.callData,
+      callback: xTransfer.xparams!.callback,
+      callbackFee: xTransfer.xparams!.callbackFee,
+      receiveLocal: xTransfer.xparams!.receiveLocal,
+      forceSlow: xTransfer.xparams!.forceSlow,
+      recovery: xTransfer.xparams!.recovery,
+      slippageTol: xTransfer.xparams!.slippageTol,
+      agent: xTransfer.xparams!.agent,
+      relayerFee: xTransfer.xparams!.relayerFee,
+    },
+    local: xTransfer.destination!.assets.local.asset,
+    routers: [],
+    routerSignatures: [],
+    amount: xTransfer.destination!.assets.local.amount.toString(),
+    nonce: xTransfer.nonce!,
+    originSender: xTransfer.origin!.xcall.caller,
+  };
+
+  try {
+    const taskId = await execute(executeParams, transferId);
+    const { attempts } = await cache.executions.setAttempt(transferId, taskId);
+    logger.info("Sent transfer for execution", requestContext, methodContext, { transferId, taskId, attempts });
+  } catch (error: unknown) {
+    const { attempts } = await cache.executions.setAttempt(transferId);
+    const retryDelay = getRetryDelay(attempts);
+    await cache.executions.setFailed(transferId, JSON.stringify(jsonifyError(error as Error)), retryDelay);
+    throw error;
+  }
 };
 
-export const getReconciledTransactions = async (): Promise<any> => {
+/**
+ * Stops tracking the transfers that the cartographer shows as executed.
+ */
+export const removeExecutedTransfers = async (_requestContext: RequestContext): Promise<void> => {
+  const {
+    logger,
+    config,
+    adapters: { cache },
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(removeExecutedTransfers.name, _requestContext);
+
+  const transferIds = Object.keys(await cache.executions.getExecutions());
+  const { pageSize } = config.polling;
+  for (let i = 0; i < transferIds.length; i += pageSize) {
+    const statuses = await getTransferStatuses(transferIds.slice(i, i + pageSize));
+    const executed = Object.keys(statuses).filter((transferId) => statuses[transferId] !== XTransferStatus.Reconciled);
+    if (executed.length > 0) {
+      await cache.executions.removeExecutions(executed);
+      logger.info("Transfers executed", requestContext, methodContext, {
+        transfers: executed.map((transferId) => ({ transferId, status: statuses[transferId] })),
+      });
+    }
+  }
+};
+
+/**
+ * Gets a page of reconciled transfers from the cartographer, ordered by transfer ID.
+ *
+ * @param limit - Maximum number of transfers to return.
+ * @param after - If set, only transfers with a greater transfer ID are returned.
+ */
+export const getReconciledTransactions = async (limit: number, after?: string): Promise<any> => {
   const { requestContext, methodContext } = createLoggingContext(getReconciledTransactions.name);
   const { logger, config } = getContext();
 
-  const statusIdentifier = `status=eq.Reconciled&${transfersCastForUrl}`;
-  const uri = formatUrl(config.cartographerUrl, "transfers?", statusIdentifier);
+  const statusIdentifier = `status=eq.Reconciled&${after ? `transfer_id=gt.${after}&` : ""}${transfersCastForUrl}`;
+  const rangeIdentifier = `&order=transfer_id.asc&limit=${limit}`;
+  const uri = formatUrl(config.cartographerUrl, "transfers?", statusIdentifier + rangeIdentifier);
   logger.debug("Getting transactions from URI", requestContext, methodContext, { uri });
   try {
     const response = await axios.get(uri);
@@ -76,3 +196,28 @@ export const getReconciledTransactions = async (): Promise<any> => {
     throw new ApiRequestFailed({ uri, error: jsonifyError(error as NxtpError) });
   }
 };
+
+/**
+ * Gets the current status of the given transfers from the cartographer.
+ *
+ * @param transferIds - The IDs of the transfers.
+ * @returns Status of each transfer found, keyed by transfer ID.
+ */
+export const getTransferStatuses = async (transferIds: string[]): Promise<Record<string, XTransferStatus>> => {
+  const { requestContext, methodContext } = createLoggingContext(getTransferStatuses.name);
+  const { logger, config } = getContext();
+
+  const identifier = `transfer_id=in.(${transferIds.join(",")})&select=transfer_id,status`;
+  const uri = formatUrl(config.cartographerUrl, "transfers?", identifier);
+  logger.debug("Getting transfer statuses from URI", requestContext, methodContext, { uri });
+  try {
+    const response = await axios.get(uri);
+    const statuses: Record<string, XTransferStatus> = {};
+    for (const { transfer_id, status } of response.data as { transfer_id: string; status: XTransferStatus }[]) {
+      statuses[transfer_id] = status;
+    }
+    return statuses;
+  } catch (error: any) {
+    throw new ApiRequestFailed({ uri, error: jsonifyError(error as NxtpError) });
+  }
+};
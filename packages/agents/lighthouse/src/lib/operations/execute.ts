@@ -11,8 +11,9 @@ export const RELAYER_FEE_PERCENTAGE = "1"; //  1%
  * Router creates a new bid and sends it to auctioneer.
  *
  * @param args - The crosschain xcall params.
+ * @returns The ID of the relayer task created to execute the transfer.
  */
-export const execute = async (args: ExecuteArgs, transferId: string): Promise<void> => {
+export const execute = async (args: ExecuteArgs, transferId: string): Promise<string> => {
   const { requestContext, methodContext } = createLoggingContext(execute.name, undefined, transferId);
   const {
     logger,
@@ -38,5 +39,5 @@ export const execute = async (args: ExecuteArgs, transferId: string): Promise<vo
   }
 
   const encodedData = contracts.connext.encodeFunctionData("execute", [args]);
-  await sendToRelayer(args, encodedData, transferId, requestContext);
+  return await sendToRelayer(args, encodedData, transferId, requestContext);
 };
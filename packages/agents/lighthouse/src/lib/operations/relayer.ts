@@ -1,15 +1,21 @@
 import { constants } from "ethers";
-import { RequestContext, createLoggingContext, ExecuteArgs, jsonifyError, NxtpError } from "@connext/nxtp-utils";
+import {
+  RequestContext,
+  createLoggingContext,
+  ExecuteArgs,
+  jsonifyError,
+  NxtpError,
+  RelayerApiFee,
+} from "@connext/nxtp-utils";
 
 import { getContext } from "../../lighthouse";
-import { getHelpers } from "../helpers";
 
 export const sendToRelayer = async (
   args: ExecuteArgs,
   encodedData: string,
   transferId: string,
   _requestContext: RequestContext,
-): Promise<void> => {
+): Promise<string> => {
   const {
     logger,
     chainData,
@@ -17,10 +23,6 @@ export const sendToRelayer = async (
     adapters: { chainreader, relayer },
   } = getContext();
 
-  const {
-    relayer: { getGelatoRelayerAddress, connextRelayerSend },
-  } = getHelpers();
-
   const { requestContext, methodContext } = createLoggingContext(sendToRelayer.name, _requestContext);
   logger.debug(`Method start: ${sendToRelayer.name}`, requestContext, methodContext, { args });
 
@@ -29,42 +31,15 @@ export const sendToRelayer = async (
 
   const destinationConnextAddress = config.chains[args.params.destinationDomain].deployments.connext;
 
-  const relayerFee = {
+  const relayerFee: RelayerApiFee = {
+    chain: originChainId,
     amount: "0",
     // TODO: should handle relayer fee paid in alternative assets once that is implemented.
-    asset: constants.AddressZero,
+    token: constants.AddressZero,
   };
 
-  // TODO: Might want to move this logic inside the `relayer.send` method below.
-  // Try sending the tx to the custom configured relayer, if applicable.
-  // If this fails, we'll resort to using the default relayer network.
-  if (config.relayerUrl) {
-    try {
-      const result = await connextRelayerSend(config.relayerUrl, destinationChainId, {
-        fee: {
-          chain: originChainId,
-          amount: relayerFee.amount,
-          token: relayerFee.asset,
-        },
-        to: destinationConnextAddress,
-        data: encodedData,
-      });
-      const { taskId } = result;
-      logger.info("Sent meta transaction to Connext relayer", requestContext, methodContext, {
-        transferId: transferId,
-        taskId,
-      });
-      return;
-    } catch (error: unknown) {
-      logger.warn("Failed to send meta transaction to Connext relayer", requestContext, methodContext, {
-        transferId: transferId,
-        error,
-      });
-    }
-  }
-
   // Validate the bid's fulfill call will succeed on chain.
-  const relayerAddress = await getGelatoRelayerAddress(destinationChainId);
+  const relayerAddress = await relayer.getRelayerAddress(destinationChainId);
 
   logger.debug("Getting gas estimate", requestContext, methodContext, {
     chainId: destinationChainId,
@@ -100,13 +75,21 @@ export const sendToRelayer = async (
     });
   }
 
-  const result = await relayer.send(destinationChainId, destinationConnextAddress, encodedData, _requestContext);
-  logger.info(`Sent meta tx to the external relayer`, requestContext, methodContext, {
+  // The relayer adapter falls back on the next relayer configured for the domain if one fails.
+  const taskId = await relayer.send(
+    destinationChainId,
+    destinationConnextAddress,
+    encodedData,
+    relayerFee,
+    requestContext,
+  );
+  logger.info(`Sent meta tx to the relayer`, requestContext, methodContext, {
     relayer: relayerAddress,
     connext: destinationConnextAddress,
     domain: args.params.destinationDomain,
     relayerFee,
-    result,
+    taskId,
     transferId: transferId,
   });
+  return taskId;
 };
@@ -1,5 +1,6 @@
-import { createMethodContext, createRequestContext, getChainData, Logger } from "@connext/nxtp-utils";
+import { createMethodContext, createRequestContext, getChainData, Logger, RequestContext } from "@connext/nxtp-utils";
 import { getContractInterfaces, ChainReader, contractDeployments } from "@connext/nxtp-txservice";
+import { StoreManager } from "@connext/nxtp-adapters-cache";
 
 import { setupRelayer } from "./adapters";
 import { getConfig } from "./config";
@@ -45,6 +46,7 @@ export const makeLighthouse = async () => {
 
     context.adapters.contracts = getContractInterfaces();
     context.adapters.relayer = await setupRelayer();
+    context.adapters.cache = await setupCache(context.config.redis, context.logger, requestContext);
 
     // Set up bindings.
     context.logger.info("Bindings initialized.", requestContext, methodContext);
@@ -69,3 +71,25 @@ export const makeLighthouse = async () => {
     process.exit();
   }
 };
+
+export const setupCache = async (
+  redis: { host?: string; port?: number },
+  logger: Logger,
+  requestContext: RequestContext,
+): Promise<StoreManager> => {
+  const methodContext = createMethodContext(setupCache.name);
+
+  logger.info("Cache instance setup in progress...", requestContext, methodContext, {});
+
+  const cacheInstance = StoreManager.getInstance({
+    redis: { host: redis.host, port: redis.port, instance: undefined },
+    mock: !redis.host || !redis.port,
+    logger: logger.child({ module: "StoreManager" }),
+  });
+
+  logger.info("Cache instance setup is done!", requestContext, methodContext, {
+    host: redis.host,
+    port: redis.port,
+  });
+  return cacheInstance;
+};
@@ -0,0 +1,20 @@
+import { expect } from "@connext/nxtp-utils";
+import { FallbackRelayer, RelayerType } from "@connext/nxtp-adapters-relayer";
+
+import { setupRelayer } from "../../src/adapters";
+import { ctxMock } from "../globalTestHook";
+import { mock } from "../mock";
+
+describe("Adapters", () => {
+  describe("#setupRelayer", () => {
+    it("should set up the default relayers", async () => {
+      const relayer = await setupRelayer();
+      expect(relayer).to.be.instanceOf(FallbackRelayer);
+    });
+
+    it("should throw if a configured relayer is invalid", async () => {
+      ctxMock.config.chains[mock.domain.A].relayers = [{ type: RelayerType.Local }];
+      await expect(setupRelayer()).to.be.rejectedWith("Relayer config invalid");
+    });
+  });
+});
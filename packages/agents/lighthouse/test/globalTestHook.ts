@@ -30,6 +30,7 @@ export const mochaHooks = {
         chainreader: chainReaderMock,
         contracts: mock.context().adapters.contracts,
         relayer: mock.context().adapters.relayer,
+        cache: mock.adapters.cache(),
       },
       config: mock.config(),
       chainData: mock.context().chainData,
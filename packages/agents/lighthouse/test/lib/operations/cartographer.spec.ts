@@ -1,29 +1,39 @@
 import axios from "axios";
-import { expect, mkAddress, mkBytes32 } from "@connext/nxtp-utils";
-import { stub, restore, reset, SinonStub } from "sinon";
+import { expect, getNtpTimeSeconds, mkBytes32, RelayerTaskStatus, XTransferStatus } from "@connext/nxtp-utils";
+import { stub, restore, reset, SinonStub, SinonStubbedInstance } from "sinon";
+import { ExecutionsCache } from "@connext/nxtp-adapters-cache";
 import { ctxMock, getOperationsStub } from "../../globalTestHook";
 
-import { requestContext, stubContext, mock } from "../../mock";
-import { getReconciledTransactions, pollCartographer } from "../../../src/lib/operations/cartographer";
+import { requestContext, mock, mockTaskId } from "../../mock";
+import {
+  executeTransfer,
+  getReconciledTransactions,
+  getRetryDelay,
+  getTransferStatuses,
+  pollCartographer,
+  removeExecutedTransfers,
+} from "../../../src/lib/operations/cartographer";
 import { ApiRequestFailed } from "../../../src/lib/errors";
 
 const transferId1 = mkBytes32("0x100");
 const transferId2 = mkBytes32("0x200");
+const transferId3 = mkBytes32("0x300");
 const dbTransfer1 = mock.entity.dbTransfer({ transfer_id: transferId1 });
 const dbTransfer2 = mock.entity.dbTransfer({ transfer_id: transferId2 });
+const dbTransfer3 = mock.entity.dbTransfer({ transfer_id: transferId3 });
 
 describe("Operations:Cartographer", () => {
-  let mockContext: any;
   let axiosGetStub: SinonStub;
   let executeStub: SinonStub;
+  let executionsMock: SinonStubbedInstance<ExecutionsCache>;
   beforeEach(() => {
     axiosGetStub = stub(axios, "get");
-    executeStub = stub().resolves();
+    executeStub = stub().resolves(mockTaskId);
 
     getOperationsStub.returns({
       execute: executeStub,
     });
-    mockContext = stubContext();
+    executionsMock = ctxMock.adapters.cache.executions as SinonStubbedInstance<ExecutionsCache>;
   });
   afterEach(() => {
     restore();
@@ -36,7 +46,7 @@ describe("Operations:Cartographer", () => {
         data: [dbTransfer1, dbTransfer2],
       });
 
-      executeStub.onFirstCall().resolves();
+      executeStub.onFirstCall().resolves(mockTaskId);
       executeStub.onSecondCall().throws();
 
       await pollCartographer();
@@ -45,19 +55,162 @@ describe("Operations:Cartographer", () => {
       expect(executeStub.getCall(0).args[1]).to.be.eq(transferId1);
       expect(executeStub.getCall(1).args[1]).to.be.eq(transferId2);
     });
+
+    it("should page through reconciled transfers", async () => {
+      ctxMock.config.polling.pageSize = 2;
+      axiosGetStub.onFirstCall().resolves({ status: 200, data: [dbTransfer1, dbTransfer2] });
+      axiosGetStub.onSecondCall().resolves({ status: 200, data: [dbTransfer3] });
+
+      await pollCartographer();
+      expect(axiosGetStub.callCount).to.be.eq(2);
+      expect(axiosGetStub.getCall(0).args[0]).to.not.include("transfer_id=gt.");
+      expect(axiosGetStub.getCall(0).args[0]).to.include("limit=2");
+      expect(axiosGetStub.getCall(1).args[0]).to.include(`transfer_id=gt.${transferId2}`);
+      expect(axiosGetStub.getCall(1).args[0]).to.include("limit=2");
+      expect(executeStub.callCount).to.be.eq(3);
+      expect(executeStub.getCall(2).args[1]).to.be.eq(transferId3);
+    });
+
+    it("should remove executed transfers before polling", async () => {
+      executionsMock.getExecutions.resolves({
+        [transferId1]: { taskId: mockTaskId, attempts: 1, timestamp: getNtpTimeSeconds() },
+      });
+      axiosGetStub.onFirstCall().resolves({
+        status: 200,
+        data: [{ transfer_id: transferId1, status: XTransferStatus.Executed }],
+      });
+      axiosGetStub.onSecondCall().resolves({ status: 200, data: [] });
+
+      await pollCartographer();
+      expect(executionsMock.removeExecutions).to.be.calledOnceWithExactly([transferId1]);
+      expect(executeStub.callCount).to.be.eq(0);
+    });
+  });
+
+  describe("#executeTransfer", () => {
+    it("happy: should execute and record the attempt", async () => {
+      await executeTransfer(dbTransfer1, requestContext);
+      expect(executeStub).to.be.calledOnce;
+      expect(executionsMock.setAttempt).to.be.calledOnceWithExactly(transferId1, mockTaskId);
+    });
+
+    it("should not execute if the relayer task is pending", async () => {
+      executionsMock.getExecution.resolves({
+        taskId: mockTaskId,
+        attempts: 1,
+        timestamp: getNtpTimeSeconds(),
+      });
+
+      await executeTransfer(dbTransfer1, requestContext);
+      expect(ctxMock.adapters.relayer.getTaskStatus as SinonStub).to.be.calledOnceWithExactly(mockTaskId);
+      expect(executeStub).to.not.be.called;
+      expect(executionsMock.setFailed).to.not.be.called;
+    });
+
+    it("should mark the execution as failed if the relayer task was cancelled", async () => {
+      executionsMock.getExecution.resolves({
+        taskId: mockTaskId,
+        attempts: 2,
+        timestamp: getNtpTimeSeconds(),
+      });
+      (ctxMock.adapters.relayer.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.Cancelled);
+
+      await executeTransfer(dbTransfer1, requestContext);
+      expect(executeStub).to.not.be.called;
+      expect(executionsMock.setFailed).to.be.calledOnceWith(transferId1);
+      expect(executionsMock.setFailed.getCall(0).args[2]).to.be.eq(120);
+    });
+
+    it("should not retry before the backoff has elapsed", async () => {
+      executionsMock.getExecution.resolves({
+        attempts: 1,
+        timestamp: getNtpTimeSeconds(),
+        retryAt: getNtpTimeSeconds() + 60,
+      });
+
+      await executeTransfer(dbTransfer1, requestContext);
+      expect(executeStub).to.not.be.called;
+    });
+
+    it("should retry once the backoff has elapsed", async () => {
+      executionsMock.getExecution.resolves({
+        attempts: 1,
+        timestamp: getNtpTimeSeconds() - 120,
+        retryAt: getNtpTimeSeconds() - 60,
+      });
+
+      await executeTransfer(dbTransfer1, requestContext);
+      expect(executeStub).to.be.calledOnce;
+    });
+
+    it("should record the failure and rethrow if execute fails", async () => {
+      executeStub.rejects(new Error("Execute failed"));
+      executionsMock.setAttempt.resolves({ attempts: 3, timestamp: getNtpTimeSeconds() });
+
+      await expect(executeTransfer(dbTransfer1, requestContext)).to.be.rejectedWith("Execute failed");
+      expect(executionsMock.setAttempt).to.be.calledOnceWithExactly(transferId1);
+      expect(executionsMock.setFailed.getCall(0).args[2]).to.be.eq(240);
+    });
+  });
+
+  describe("#getRetryDelay", () => {
+    it("should double with every attempt up to the max delay", () => {
+      expect(getRetryDelay(1)).to.be.eq(60);
+      expect(getRetryDelay(2)).to.be.eq(120);
+      expect(getRetryDelay(7)).to.be.eq(3600);
+    });
+  });
+
+  describe("#removeExecutedTransfers", () => {
+    it("should not query the cartographer if no transfers are tracked", async () => {
+      await removeExecutedTransfers(requestContext);
+      expect(axiosGetStub).to.not.be.called;
+    });
+
+    it("should only remove transfers that are no longer reconciled", async () => {
+      executionsMock.getExecutions.resolves({
+        [transferId1]: { attempts: 1, timestamp: getNtpTimeSeconds() },
+        [transferId2]: { attempts: 1, timestamp: getNtpTimeSeconds() },
+      });
+      axiosGetStub.resolves({
+        status: 200,
+        data: [
+          { transfer_id: transferId1, status: XTransferStatus.Reconciled },
+          { transfer_id: transferId2, status: XTransferStatus.CompletedSlow },
+        ],
+      });
+
+      await removeExecutedTransfers(requestContext);
+      expect(executionsMock.removeExecutions).to.be.calledOnceWithExactly([transferId2]);
+    });
   });
+
   describe("#getReconciledTransactions", () => {
     it("should throw if axios request fails", async () => {
       axiosGetStub.throws(new Error("Axios request failed!"));
-      await expect(getReconciledTransactions()).to.be.rejectedWith(ApiRequestFailed);
+      await expect(getReconciledTransactions(100)).to.be.rejectedWith(ApiRequestFailed);
     });
     it("happy: should return reconciled transfers", async () => {
       axiosGetStub.resolves({
         status: 200,
         data: [dbTransfer1, dbTransfer2],
       });
-      const result = await getReconciledTransactions();
+      const result = await getReconciledTransactions(100);
       expect(result).to.be.deep.eq([dbTransfer1, dbTransfer2]);
     });
   });
+
+  describe("#getTransferStatuses", () => {
+    it("should throw if axios request fails", async () => {
+      axiosGetStub.throws(new Error("Axios request failed!"));
+      await expect(getTransferStatuses([transferId1])).to.be.rejectedWith(ApiRequestFailed);
+    });
+    it("happy: should return statuses by transfer ID", async () => {
+      axiosGetStub.resolves({
+        status: 200,
+        data: [{ transfer_id: transferId1, status: XTransferStatus.Executed }],
+      });
+      expect(await getTransferStatuses([transferId1])).to.be.deep.eq({ [transferId1]: XTransferStatus.Executed });
+    });
+  });
 });
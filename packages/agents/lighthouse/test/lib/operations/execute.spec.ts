@@ -3,13 +3,13 @@ import { stub, restore, reset, SinonStub } from "sinon";
 import { execute } from "../../../src/lib/operations/execute";
 
 import { getOperationsStub } from "../../globalTestHook";
-import { mock, stubContext, encodedDataMock, requestContext } from "../../mock";
+import { mock, stubContext, encodedDataMock, requestContext, mockTaskId } from "../../mock";
 
 describe("Operations:Execute", () => {
   let sendToRelayerStub: SinonStub;
   let mockContext: any;
   beforeEach(() => {
-    sendToRelayerStub = stub().resolves();
+    sendToRelayerStub = stub().resolves(mockTaskId);
     getOperationsStub.returns({
       sendToRelayer: sendToRelayerStub,
     });
@@ -30,7 +30,8 @@ describe("Operations:Execute", () => {
     it("should send the payload to the relayer successfully!", async () => {
       const executeArgs = mock.entity.executeArgs();
       const transferId = mkBytes32();
-      await execute(executeArgs, transferId, requestContext);
+      const taskId = await execute(executeArgs, transferId, requestContext);
+      expect(taskId).to.be.eq(mockTaskId);
       expect(sendToRelayerStub.getCall(0).args[0]).to.be.deep.eq(executeArgs);
       expect(sendToRelayerStub.getCall(0).args[1]).to.be.deep.eq(encodedDataMock);
       expect(sendToRelayerStub.getCall(0).args[2]).to.be.deep.eq(transferId);
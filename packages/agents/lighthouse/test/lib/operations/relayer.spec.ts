@@ -1,81 +1,50 @@
-import { expect, mkAddress, mkBytes32 } from "@connext/nxtp-utils";
-import { stub, restore, reset, SinonStub } from "sinon";
+import { expect, mkBytes32 } from "@connext/nxtp-utils";
+import { restore, reset, SinonStub } from "sinon";
+import { constants } from "ethers";
 
 import { sendToRelayer } from "../../../src/lib/operations/relayer";
-import { ctxMock, getHelpersStub } from "../../globalTestHook";
-import { mock, stubContext, encodedDataMock, requestContext } from "../../mock";
+import { ctxMock } from "../../globalTestHook";
+import { mock, encodedDataMock, requestContext, mockRelayerAddress, mockTaskId } from "../../mock";
 
 describe("Operations:Relayer", () => {
-  let mockContext: any;
-  let connextRelayerSendStub: SinonStub;
-  let getGelatoRelayerAddressStub: SinonStub;
-  beforeEach(() => {
-    mockContext = stubContext();
-    connextRelayerSendStub = stub().resolves();
-    getGelatoRelayerAddressStub = stub().resolves(mkAddress("0x111"));
-    getHelpersStub.returns({
-      relayer: {
-        connextRelayerSend: connextRelayerSendStub,
-        getGelatoRelayerAddress: getGelatoRelayerAddressStub,
-      },
-    });
-  });
   afterEach(() => {
     restore();
     reset();
   });
   describe("#sendToRelayer", () => {
-    it("should not try to send the payload to the connext relayer if relayerUrl is undefined", async () => {
-      ctxMock.config.relayerUrl = undefined;
-
-      connextRelayerSendStub.resolves();
+    it("should send the payload to the relayer successfully!", async () => {
       const executeArgs = mock.entity.executeArgs();
       const transferId = mkBytes32();
-      await sendToRelayer(executeArgs, encodedDataMock, transferId, requestContext);
-      expect(connextRelayerSendStub.callCount).to.be.eq(0);
-      expect(getGelatoRelayerAddressStub.callCount).to.be.eq(1);
+      const taskId = await sendToRelayer(executeArgs, encodedDataMock, transferId, requestContext);
+      expect(taskId).to.be.eq(mockTaskId);
+      expect(ctxMock.adapters.relayer.getRelayerAddress).to.be.calledOnceWith(Number(mock.chain.B));
       expect(ctxMock.adapters.chainreader.getGasEstimateWithRevertCode).to.be.calledOnceWith(
         Number(executeArgs.params.destinationDomain),
       );
+      expect((ctxMock.adapters.chainreader.getGasEstimateWithRevertCode as SinonStub).getCall(0).args[1].from).to.be.eq(
+        mockRelayerAddress,
+      );
       expect(ctxMock.adapters.relayer.send).to.be.calledOnceWith(
         Number(mock.chain.B),
         ctxMock.config.chains[mock.domain.B].deployments.connext,
         "0xabcde",
-        requestContext,
-      );
-    });
-    it("should not send the payload if gas estimation fails", async () => {
-      const executeArgs = mock.entity.executeArgs();
-      const transferId = mkBytes32();
-      await sendToRelayer(executeArgs, encodedDataMock, transferId, requestContext);
-      expect(connextRelayerSendStub.callCount).to.be.eq(1);
-      expect(ctxMock.adapters.chainreader.getGasEstimateWithRevertCode).to.be.calledOnceWith(
-        Number(executeArgs.params.destinationDomain),
+        { chain: Number(mock.chain.A), amount: "0", token: constants.AddressZero },
       );
     });
-    it("should send the payload to the backup relayer successfully", async () => {
-      connextRelayerSendStub.resolves({ taskId: mkBytes32("0x12345") });
+
+    it("should still send the payload if gas estimation fails", async () => {
+      (ctxMock.adapters.chainreader.getGasEstimateWithRevertCode as SinonStub).rejects(new Error("Reverted"));
       const executeArgs = mock.entity.executeArgs();
       const transferId = mkBytes32();
       await sendToRelayer(executeArgs, encodedDataMock, transferId, requestContext);
-      expect(connextRelayerSendStub.callCount).to.be.eq(1);
-      expect(getGelatoRelayerAddressStub.callCount).to.be.eq(0);
+      expect(ctxMock.adapters.relayer.send).to.be.calledOnce;
     });
-    it("should send the payload to the gelato relayer successfully!", async () => {
-      connextRelayerSendStub.throws();
+
+    it("should throw if the relayer fails", async () => {
+      (ctxMock.adapters.relayer.send as SinonStub).rejects(new Error("All relayers failed"));
       const executeArgs = mock.entity.executeArgs();
-      const transferId = mkBytes32();
-      await sendToRelayer(executeArgs, encodedDataMock, transferId, requestContext);
-      expect(connextRelayerSendStub.callCount).to.be.eq(1);
-      expect(getGelatoRelayerAddressStub.callCount).to.be.eq(1);
-      expect(ctxMock.adapters.chainreader.getGasEstimateWithRevertCode).to.be.calledOnceWith(
-        Number(executeArgs.params.destinationDomain),
-      );
-      expect(ctxMock.adapters.relayer.send).to.be.calledOnceWith(
-        Number(mock.chain.B),
-        ctxMock.config.chains[mock.domain.B].deployments.connext,
-        "0xabcde",
-        requestContext,
+      await expect(sendToRelayer(executeArgs, encodedDataMock, mkBytes32(), requestContext)).to.be.rejectedWith(
+        "All relayers failed",
       );
     });
   });
@@ -1,7 +1,15 @@
 import { utils, BigNumber, Wallet, constants } from "ethers";
 import { createStubInstance, SinonStub, SinonStubbedInstance, stub } from "sinon";
 import { ConnextContractDeployments, ConnextContractInterfaces, ChainReader } from "@connext/nxtp-txservice";
-import { mkAddress, Logger, mock as _mock, mkBytes32, createLoggingContext } from "@connext/nxtp-utils";
+import { ExecutionsCache } from "@connext/nxtp-adapters-cache";
+import {
+  mkAddress,
+  Logger,
+  mock as _mock,
+  mkBytes32,
+  createLoggingContext,
+  RelayerTaskStatus,
+} from "@connext/nxtp-utils";
 
 import { NxtpLighthouseConfig } from "../src/config";
 import { AppContext } from "../src/lib/entities/context";
@@ -24,6 +32,7 @@ export const mock = {
         chainreader: mock.adapters.chainreader(),
         contracts: mock.adapters.contracts(),
         relayer: mock.adapters.relayer(),
+        cache: mock.adapters.cache(),
       },
       config: mock.config(),
       chainData: mock.chainData(),
@@ -55,7 +64,13 @@ export const mock = {
     },
     polling: {
       cartographer: 10_000,
+      pageSize: 100,
     },
+    retry: {
+      delay: 60,
+      maxDelay: 3600,
+    },
+    redis: {},
     environment: "staging",
     relayerUrl: "http://www.example.com",
   }),
@@ -107,6 +122,15 @@ export const mock = {
       return {
         getRelayerAddress: stub().resolves(mockRelayerAddress),
         send: stub().resolves(mockTaskId),
+        getTaskStatus: stub().resolves(RelayerTaskStatus.Pending),
+      };
+    },
+    cache: (): any => {
+      const executions = createStubInstance(ExecutionsCache);
+      executions.getExecutions.resolves({});
+      executions.setAttempt.resolves({ attempts: 1, timestamp: Math.floor(Date.now() / 1000) });
+      return {
+        executions,
       };
     },
   },
@@ -152,11 +176,6 @@ export const mock = {
     },
   },
   helpers: {
-    relayer: {
-      gelatoSend: stub(),
-      isChainSupportedByGelato: stub(),
-      getGelatoRelayerAddress: stub(),
-    },
     shared: {
       existsSync: stub(),
       readFileSync: stub(),
@@ -1,5 +1,6 @@
-import { providers } from "ethers";
-import { createLoggingContext, jsonifyError, RelayerTaskStatus } from "@connext/nxtp-utils";
+import { constants, providers } from "ethers";
+import { createLoggingContext, jsonifyError, RequestContext, RelayerTaskStatus } from "@connext/nxtp-utils";
+import { NxtpTxServiceEvent, NxtpTxServiceEvents } from "@connext/nxtp-txservice";
 import interval from "interval-promise";
 import { CachedTaskData } from "@connext/nxtp-adapters-cache/dist/lib/caches/tasks";
 
@@ -7,9 +8,49 @@ import { getContext } from "../../relayer";
 
 export const DEFAULT_POLL_INTERVAL = 1_000;
 
+/**
+ * Tasks currently being handled by the TransactionService, keyed by `$chain:$to:$data`. Used to tie the
+ * transactions reported in TransactionService events back to the tasks they were sent for.
+ */
+const inflightTasks: Map<string, string> = new Map();
+/**
+ * Task IDs by the hash of each transaction submitted for them (there may be several, as the TransactionService
+ * will replace a transaction if it needs to bump gas).
+ */
+const taskIdsByHash: Map<string, string> = new Map();
+
+/**
+ * Chains whose pending tasks are currently being sent. A chain's tasks are picked up again only once its
+ * previous batch is done, so a chain that is slow to confirm doesn't hold up polling for the other chains.
+ */
+const activeChains: Set<number> = new Set();
+
+const getInflightKey = (chain: number, to: string, data: string): string => `${chain}:${to.toLowerCase()}:${data}`;
+
 export const bindRelays = async (_pollInterval?: number) => {
-  const { config } = getContext();
+  const {
+    config,
+    adapters: { txservice },
+    logger,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(bindRelays.name);
   const pollInterval = _pollInterval ?? DEFAULT_POLL_INTERVAL;
+
+  // Task status is updated as the TransactionService reports progress: Pending -> Sent -> Completed/Cancelled.
+  // The TransactionService doesn't await its event handlers, so failures to update the cache are logged here.
+  const onError = (event: NxtpTxServiceEvent) => (error: unknown) => {
+    logger.error("Error updating task status", requestContext, methodContext, jsonifyError(error as Error), { event });
+  };
+  txservice.attach(NxtpTxServiceEvents.TransactionSubmitted, ({ responses }) => {
+    onSubmitted(responses).catch(onError(NxtpTxServiceEvents.TransactionSubmitted));
+  });
+  txservice.attach(NxtpTxServiceEvents.TransactionConfirmed, ({ receipt }) => {
+    onConfirmed(receipt.transactionHash).catch(onError(NxtpTxServiceEvents.TransactionConfirmed));
+  });
+  txservice.attach(NxtpTxServiceEvents.TransactionFailed, ({ error, receipt }) => {
+    onFailed(error, receipt?.transactionHash).catch(onError(NxtpTxServiceEvents.TransactionFailed));
+  });
+
   interval(async (_, stop) => {
     if (config.mode.cleanup) {
       stop();
@@ -19,12 +60,73 @@ export const bindRelays = async (_pollInterval?: number) => {
   }, pollInterval);
 };
 
+/**
+ * Marks the tasks that the given transactions were submitted for as sent.
+ * @param responses - Transactions submitted by the TransactionService.
+ */
+export const onSubmitted = async (responses: providers.TransactionResponse[]) => {
+  const {
+    adapters: { cache },
+    logger,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(onSubmitted.name);
+
+  for (const { hash, chainId, to, data } of responses) {
+    const taskId = inflightTasks.get(getInflightKey(chainId, to ?? constants.AddressZero, data));
+    if (!taskId || taskIdsByHash.has(hash)) {
+      continue;
+    }
+    taskIdsByHash.set(hash, taskId);
+    await cache.tasks.setSent(taskId, hash);
+    logger.debug("Sent transaction to network. Awaiting confirmations...", requestContext, methodContext, {
+      chain: chainId,
+      taskId,
+      hash,
+    });
+  }
+};
+
+/**
+ * Marks the task that the given transaction was submitted for as completed.
+ * @param hash - Hash of the confirmed transaction.
+ */
+export const onConfirmed = async (hash: string) => {
+  const {
+    adapters: { cache },
+    logger,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(onConfirmed.name);
+
+  const taskId = taskIdsByHash.get(hash);
+  if (!taskId) {
+    return;
+  }
+  await cache.tasks.setHash(taskId, hash);
+  logger.info("Transaction confirmed.", requestContext, methodContext, { taskId, hash });
+};
+
+/**
+ * Marks the task that the given transaction was submitted for as cancelled, saving the error to the cache.
+ * @param error - The error the transaction failed with.
+ * @param hash - Hash of the failed transaction, if it was mined.
+ */
+export const onFailed = async (error: Error, hash?: string) => {
+  const {
+    adapters: { cache },
+  } = getContext();
+
+  const taskId = hash ? taskIdsByHash.get(hash) : undefined;
+  if (!taskId) {
+    // The transaction was never mined; the error will be handled where the task was sent.
+    return;
+  }
+  await cache.tasks.setError(taskId, JSON.stringify(jsonifyError(error)));
+};
+
 export const pollCache = async () => {
   const {
-    config,
-    adapters: { cache, wallet },
+    adapters: { cache },
     logger,
-    chainToDomainMap,
   } = getContext();
   const { requestContext, methodContext } = createLoggingContext(pollCache.name);
 
@@ -54,68 +156,97 @@ export const pollCache = async () => {
     });
   }
 
-  // TODO: Promise.all with map for each chain.
+  // Chains are handled independently of each other and of the polling loop; tasks for each chain are sent in
+  // order, with the TransactionService handling nonce assignment.
   for (const chainIdKey of Object.keys(tasksByChain)) {
-    // Set up context for this chain: get domain, provider, and connect a signer.
     const chain = Number(chainIdKey);
-    const domain = chainToDomainMap.get(chain)!;
-    const provider = new providers.JsonRpcProvider(config.chains[domain].providers[0]);
-    const signer = wallet.connect(provider);
-
-    for (const task of tasksByChain[chain]) {
-      const taskId = task.id;
-      const status = await cache.tasks.getStatus(taskId);
-      if (status !== RelayerTaskStatus.Pending) {
-        // Sanity: task should be pending.
-        // Possible in the event of a race while updating the cache.
-        logger.debug("Task status was not pending task ID", requestContext, methodContext, { taskId });
-        continue;
-      }
+    if (activeChains.has(chain)) {
+      logger.debug("Still sending previous tasks for chain", requestContext, methodContext, { chain });
+      continue;
+    }
+    activeChains.add(chain);
+    sendTasks(chain, tasksByChain[chain], requestContext)
+      .catch((error: unknown) => {
+        logger.error("Error sending tasks", requestContext, methodContext, jsonifyError(error as Error), { chain });
+      })
+      .finally(() => activeChains.delete(chain));
+  }
+};
 
-      const { data, to } = task;
+/**
+ * Sends the given tasks for a chain through the TransactionService, one after another.
+ *
+ * @param chain - Chain ID the tasks are to be executed on.
+ * @param tasks - Pending tasks for the chain.
+ */
+export const sendTasks = async (
+  chain: number,
+  tasks: (CachedTaskData & { id: string })[],
+  _requestContext: RequestContext,
+) => {
+  const {
+    adapters: { cache, wallet, txservice },
+    logger,
+    chainToDomainMap,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(sendTasks.name, _requestContext);
+
+  const domain = chainToDomainMap.get(chain);
+  if (!domain) {
+    logger.warn("No domain configured for chain", requestContext, methodContext, {
+      chain,
+      tasks: tasks.map((task) => task.id),
+    });
+    return;
+  }
 
-      // TODO: Queue up fee claiming for this transfer after this (assuming transaction is successful)!
-      try {
-        // Execute the calldata.
-        // TODO: Debugging, remove and use txservice.
-        const tx = await signer.sendTransaction({
+  for (const task of tasks) {
+    const taskId = task.id;
+    const status = await cache.tasks.getStatus(taskId);
+    if (status !== RelayerTaskStatus.Pending) {
+      // Sanity: task should be pending.
+      // Possible in the event of a race while updating the cache.
+      logger.debug("Task status was not pending task ID", requestContext, methodContext, { taskId });
+      continue;
+    }
+
+    const { data, to } = task;
+    const inflightKey = getInflightKey(chain, to, data);
+    inflightTasks.set(inflightKey, taskId);
+
+    // TODO: Queue up fee claiming for this transfer after this (assuming transaction is successful)!
+    try {
+      // Execute the calldata. Status updates are handled by the TransactionService event handlers.
+      const receipt = await txservice.sendTx(
+        {
           chainId: chain,
           to,
           data,
           from: await wallet.getAddress(),
-        });
-        logger.debug("Sent transaction to network. Awaiting confirmations...", requestContext, methodContext, {
-          chain,
-          taskId,
-          hash: tx.hash,
-          confirmations: config.chains[domain].confirmations,
-        });
-        const receipt = await tx.wait(config.chains[domain].confirmations);
-        // const receipt = await txservice.sendTx(
-        //   {
-        //     chainId: chain,
-        //     to,
-        //     data,
-        //     from: await wallet.getAddress(),
-        //     value: BigNumber.from("0"),
-        //   },
-        //   requestContext,
-        //   chainToDomainMap.get(chain),
-        // );
-        await cache.tasks.setHash(taskId, receipt.transactionHash);
-        logger.info("Transaction confirmed.", requestContext, methodContext, {
-          chain,
-          taskId,
-          hash: receipt.transactionHash,
-        });
-      } catch (error: any) {
-        // Save the error to the cache for this transfer. If the error was not previously recorded, log it.
-        await cache.tasks.setError(taskId, JSON.stringify(error));
-        logger.error("Error executing task", requestContext, methodContext, jsonifyError(error as Error), {
-          chain,
-          taskId,
-          data,
-        });
+          value: constants.Zero,
+        },
+        requestContext,
+        domain,
+      );
+      logger.debug("Task executed", requestContext, methodContext, {
+        chain,
+        taskId,
+        hash: receipt.transactionHash,
+      });
+    } catch (error: any) {
+      // Save the error to the cache for this transfer, unless it was already recorded on failure of a mined tx.
+      if ((await cache.tasks.getStatus(taskId)) !== RelayerTaskStatus.Cancelled) {
+        await cache.tasks.setError(taskId, JSON.stringify(jsonifyError(error as Error)));
+      }
+      logger.error("Error executing task", requestContext, methodContext, jsonifyError(error as Error), {
+        chain,
+        taskId,
+        data,
+      });
+    } finally {
+      inflightTasks.delete(inflightKey);
+      for (const [hash, _taskId] of taskIdsByHash.entries()) {
+        if (_taskId === taskId) taskIdsByHash.delete(hash);
       }
     }
   }
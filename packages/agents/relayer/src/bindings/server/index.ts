@@ -10,10 +10,26 @@ import {
   RelayerApiPostTaskResponseSchema,
   RelayerApiErrorResponseSchema,
   RelayerApiErrorResponse,
+  RelayerApiStatusResponse,
+  RelayerApiStatusResponseSchema,
+  RelayerApiGetTasksRequest,
+  RelayerApiGetTasksRequestSchema,
+  RelayerApiGetTasksResponse,
+  RelayerApiGetTasksResponseSchema,
+  RelayerApiCancelTaskRequest,
+  RelayerApiCancelTaskRequestSchema,
+  RelayerApiCancelTaskResponse,
+  RelayerApiCancelTaskResponseSchema,
+  RelayerApiAddressResponse,
+  RelayerApiAddressResponseSchema,
 } from "@connext/nxtp-utils";
 
 import { getContext } from "../../relayer";
 import { getOperations } from "../../lib/operations";
+import { TaskNotFound } from "../../lib/errors/tasks";
+
+// Default number of tasks returned by the tasks endpoint.
+export const DEFAULT_TASKS_LIMIT = 100;
 
 export const bindServer = () =>
   new Promise<FastifyInstance>((res) => {
@@ -24,6 +40,17 @@ export const bindServer = () =>
       return res.code(200).send("pong\n");
     });
 
+    server.get<{ Reply: RelayerApiAddressResponse }>(
+      "/address",
+      { schema: { response: { 200: RelayerApiAddressResponseSchema } } },
+      async (_req, res) => {
+        const {
+          adapters: { wallet },
+        } = getContext();
+        return res.status(200).send({ address: await wallet.getAddress() });
+      },
+    );
+
     server.post<{
       Params: { chainId: string };
       Body: RelayerApiPostTaskRequestParams;
@@ -61,6 +88,106 @@ export const bindServer = () =>
       },
     );
 
+    server.get<{
+      Params: { taskId: string };
+      Reply: RelayerApiStatusResponse | RelayerApiErrorResponse;
+    }>(
+      "/tasks/:taskId",
+      {
+        schema: {
+          response: {
+            200: RelayerApiStatusResponseSchema,
+            404: RelayerApiErrorResponseSchema,
+            500: RelayerApiErrorResponseSchema,
+          },
+        },
+      },
+      async (request, response) => {
+        const { requestContext, methodContext } = createLoggingContext("GET /tasks/:taskId endpoint");
+        const {
+          tasks: { getTaskStatus },
+        } = getOperations();
+        try {
+          const task = await getTaskStatus(request.params.taskId);
+          return response.status(200).send(task);
+        } catch (error: unknown) {
+          const type = (error as NxtpError).type;
+          logger.debug("Task Status Get Error", requestContext, methodContext, jsonifyError(error as Error));
+          return response
+            .code(type === TaskNotFound.name ? 404 : 500)
+            .send({ message: type, error: jsonifyError(error as Error) });
+        }
+      },
+    );
+
+    server.get<{
+      Querystring: RelayerApiGetTasksRequest;
+      Reply: RelayerApiGetTasksResponse | RelayerApiErrorResponse;
+    }>(
+      "/tasks",
+      {
+        schema: {
+          querystring: RelayerApiGetTasksRequestSchema,
+          response: {
+            200: RelayerApiGetTasksResponseSchema,
+            500: RelayerApiErrorResponseSchema,
+          },
+        },
+      },
+      async (request, response) => {
+        const { requestContext, methodContext } = createLoggingContext("GET /tasks endpoint");
+        const {
+          tasks: { getTasks },
+        } = getOperations();
+        try {
+          const { status, chain, limit = DEFAULT_TASKS_LIMIT, cursor } = request.query;
+          const tasks = await getTasks(status, chain, limit, cursor);
+          // A full page may be followed by more tasks.
+          const nextCursor = tasks.length === limit ? tasks[tasks.length - 1].taskId : undefined;
+          return response.status(200).send({ tasks, nextCursor });
+        } catch (error: unknown) {
+          const type = (error as NxtpError).type;
+          logger.error("Tasks Get Error", requestContext, methodContext, jsonifyError(error as Error));
+          return response.code(500).send({ message: type, error: jsonifyError(error as Error) });
+        }
+      },
+    );
+
+    server.post<{
+      Params: { taskId: string };
+      Body: RelayerApiCancelTaskRequest;
+      Reply: RelayerApiCancelTaskResponse | RelayerApiErrorResponse | string;
+    }>(
+      "/tasks/:taskId/cancel",
+      {
+        schema: {
+          body: RelayerApiCancelTaskRequestSchema,
+          response: {
+            200: RelayerApiCancelTaskResponseSchema,
+            500: RelayerApiErrorResponseSchema,
+          },
+        },
+      },
+      async (request, response) => {
+        const { requestContext, methodContext } = createLoggingContext("POST /tasks/:taskId/cancel endpoint");
+        const {
+          tasks: { cancelTask },
+        } = getOperations();
+        if (request.body.adminToken !== config.server.adminToken) {
+          return response.status(401).send("Unauthorized to perform this operation");
+        }
+        try {
+          const { taskId } = request.params;
+          await cancelTask(taskId, requestContext);
+          return response.status(200).send({ message: "Task cancelled", taskId });
+        } catch (error: unknown) {
+          const type = (error as NxtpError).type;
+          logger.error("Cancel Task Post Error", requestContext, methodContext, jsonifyError(error as Error));
+          return response.code(500).send({ message: type, error: jsonifyError(error as Error) });
+        }
+      },
+    );
+
     server.listen(config.server.port, config.server.host, (err, address) => {
       if (err) {
         console.error(err);
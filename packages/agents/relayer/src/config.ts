@@ -5,6 +5,9 @@ import { ConnextContractDeployments, ContractPostfix } from "@connext/nxtp-txser
 
 import { RelayerConfig, RelayerConfigSchema } from "./lib/entities";
 
+// Default percentage by which the offered fee may fall short of the estimated execution cost.
+export const DEFAULT_FEE_TOLERANCE = 10;
+
 export const getEnvConfig = (
   chainData: Map<string, ChainData>,
   deployments: ConnextContractDeployments,
@@ -93,6 +96,12 @@ export const getEnvConfig = (
     mode: {
       cleanup: process.env.NXTP_CLEAN_UP_MODE || configJson.mode?.cleanup || configFile.mode?.cleanup || false,
     },
+    validateFees: process.env.RELAYER_VALIDATE_FEES
+      ? process.env.RELAYER_VALIDATE_FEES === "true"
+      : configJson.validateFees ?? configFile.validateFees ?? false,
+    feeTolerance: process.env.RELAYER_FEE_TOLERANCE
+      ? Number(process.env.RELAYER_FEE_TOLERANCE)
+      : configJson.feeTolerance ?? configFile.feeTolerance ?? DEFAULT_FEE_TOLERANCE,
     environment: process.env.NXTP_ENVIRONMENT || configJson.environment || configFile.environment || "production",
   };
 
@@ -124,6 +133,9 @@ export const getEnvConfig = (
           }
           return res.address;
         })(),
+      priceOracle:
+        chainConfig.deployments?.priceOracle ??
+        (chainDataForChain ? deployments.priceOracle(chainDataForChain.chainId, contractPostfix)?.address : undefined),
     };
 
     if (!chainConfig.confirmations) {
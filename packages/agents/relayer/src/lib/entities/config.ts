@@ -6,7 +6,10 @@ export const TChainConfig = Type.Object({
   confirmations: Type.Integer({ minimum: 1 }), // What we consider the "safe confirmations" number for this chain.
   deployments: Type.Object({
     connext: TAddress,
+    priceOracle: Type.Optional(TAddress), // Used to value fees paid in tokens other than this chain's native token.
   }),
+  // ERC20 tokens accepted as payment for relayer fees on this chain, in addition to the native token.
+  feeTokens: Type.Optional(Type.Array(TAddress)),
 });
 
 export type ChainConfig = Static<typeof TChainConfig>;
@@ -43,6 +46,10 @@ export const RelayerConfigSchema = Type.Object({
   redis: TRedisConfig,
   server: TServerConfig,
   mode: TModeConfig,
+  // Whether to reject tasks whose offered fee doesn't cover the cost of execution.
+  validateFees: Type.Boolean(),
+  // Percentage by which the offered fee may fall short of the estimated execution cost.
+  feeTolerance: Type.Integer({ minimum: 0, maximum: 100 }),
   environment: Type.Union([Type.Literal("staging"), Type.Literal("production")]),
 });
 
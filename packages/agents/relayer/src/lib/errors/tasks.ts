@@ -1,4 +1,4 @@
-import { NxtpError, Values } from "@connext/nxtp-utils";
+import { NxtpError, RelayerTaskStatus, Values } from "@connext/nxtp-utils";
 
 export class DecodeExecuteError extends NxtpError {
   constructor(context: any = {}) {
@@ -25,6 +25,7 @@ export class ParamsInvalid extends NxtpError {
 export class ContractDeploymentMissing extends NxtpError {
   public static contracts = {
     connext: "ConnextHandler",
+    priceOracle: "ConnextPriceOracle",
   };
 
   constructor(contract: Values<typeof ContractDeploymentMissing.contracts>, chain: number, context: any = {}) {
@@ -35,3 +36,51 @@ export class ContractDeploymentMissing extends NxtpError {
     );
   }
 }
+
+export class FeeTokenNotSupported extends NxtpError {
+  constructor(token: string, chain: number, context: any = {}) {
+    super(
+      "Relayer does not accept this token as payment for fees.",
+      { ...context, token, chain },
+      FeeTokenNotSupported.name,
+    );
+  }
+}
+
+export class ExecuteSimulationFailed extends NxtpError {
+  constructor(context: any = {}) {
+    super("Simulation of the `execute` call failed.", context, ExecuteSimulationFailed.name);
+  }
+}
+
+export class FeePriceUnavailable extends NxtpError {
+  constructor(context: any = {}) {
+    super("Could not get prices needed to value the offered fee.", context, FeePriceUnavailable.name);
+  }
+}
+
+export class InsufficientFee extends NxtpError {
+  constructor(offered: string, required: string, context: any = {}) {
+    super(
+      "Offered fee does not cover the estimated cost of execution.",
+      { ...context, offered, required },
+      InsufficientFee.name,
+    );
+  }
+}
+
+export class TaskNotFound extends NxtpError {
+  constructor(taskId: string, context: any = {}) {
+    super("Task not found.", { ...context, taskId }, TaskNotFound.name);
+  }
+}
+
+export class TaskNotCancellable extends NxtpError {
+  constructor(taskId: string, status: RelayerTaskStatus, context: any = {}) {
+    super(
+      "Task cannot be cancelled, as it is no longer pending.",
+      { ...context, taskId, status },
+      TaskNotCancellable.name,
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { BigNumber, constants, utils } from "ethers";
+import { RequestContext, createLoggingContext, RelayerApiFee, jsonifyError } from "@connext/nxtp-utils";
+
+import { getContext } from "../../relayer";
+import {
+  ChainNotSupported,
+  ContractDeploymentMissing,
+  ExecuteSimulationFailed,
+  FeePriceUnavailable,
+  InsufficientFee,
+} from "../errors/tasks";
+
+/**
+ * Checks whether the relayer accepts the given token as payment for fees on the given chain. The native
+ * token is always accepted; ERC20 tokens must be in the chain's configured `feeTokens` allow-list.
+ *
+ * @param chain - Chain ID the fee is paid on.
+ * @param token - Address of the fee token.
+ */
+export const isFeeTokenAllowed = (chain: number, token: string): boolean => {
+  const { config, chainToDomainMap } = getContext();
+  if (token === constants.AddressZero) {
+    return true;
+  }
+  const domain = chainToDomainMap.get(chain);
+  const feeTokens = domain ? config.chains[domain.toString()]?.feeTokens ?? [] : [];
+  return feeTokens.some((feeToken) => feeToken.toLowerCase() === token.toLowerCase());
+};
+
+/**
+ * Gets the USD price of a token (18 decimals) from the price oracle deployed on the given chain.
+ *
+ * @param chain - Chain ID to read the price on.
+ * @param domain - Domain of the chain, which the txservice's providers are keyed by.
+ * @param token - Address of the token. The zero address is the chain's native token.
+ */
+const getTokenPrice = async (
+  chain: number,
+  domain: number,
+  token: string,
+  requestContext: RequestContext,
+): Promise<BigNumber> => {
+  const {
+    config,
+    adapters: { txservice, contracts },
+  } = getContext();
+  const priceOracle = config.chains[domain.toString()]?.deployments.priceOracle;
+  if (!priceOracle) {
+    throw new ContractDeploymentMissing(ContractDeploymentMissing.contracts.priceOracle, chain, { requestContext });
+  }
+  const encoded = contracts.priceOracle.encodeFunctionData("getTokenPrice", [token]);
+  return BigNumber.from(await txservice.readTx({ chainId: domain, to: priceOracle, data: encoded }));
+};
+
+/**
+ * Validates that the offered fee covers the cost of executing the task. The `execute` call is simulated
+ * to estimate gas, which is priced using the chain's current gas price. Both the cost and the offered fee
+ * are converted to USD using the on-chain price oracle before being compared.
+ *
+ * @param chain - Chain ID the task will be executed on.
+ * @param to - Target address of the task.
+ * @param data - Calldata of the task.
+ * @param fee - The fee offered for the task.
+ *
+ * @throws ExecuteSimulationFailed if the `execute` call would revert.
+ * @throws InsufficientFee if the offered fee doesn't cover the estimated cost, less the configured tolerance.
+ */
+export const validateFee = async (
+  chain: number,
+  to: string,
+  data: string,
+  fee: RelayerApiFee,
+  _requestContext: RequestContext,
+): Promise<void> => {
+  const {
+    logger,
+    config,
+    adapters: { txservice, wallet },
+    chainToDomainMap,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(validateFee.name, _requestContext);
+
+  const domain = chainToDomainMap.get(chain);
+  if (!domain) {
+    throw new ChainNotSupported(chain);
+  }
+  const feeDomain = chainToDomainMap.get(fee.chain);
+  if (!feeDomain) {
+    throw new ChainNotSupported(fee.chain, { fee });
+  }
+
+  // Estimate the cost of execution in native token.
+  let gasLimit: BigNumber;
+  try {
+    gasLimit = await txservice.getGasEstimateWithRevertCode(domain, {
+      chainId: chain,
+      to,
+      data,
+      from: await wallet.getAddress(),
+    });
+  } catch (error: unknown) {
+    throw new ExecuteSimulationFailed({ chain, to, error: jsonifyError(error as Error) });
+  }
+  const gasPrice = await txservice.getGasPrice(domain, requestContext);
+  const cost = gasLimit.mul(gasPrice);
+
+  const offered = BigNumber.from(fee.amount);
+  let offeredValue: BigNumber;
+  let costValue: BigNumber;
+  if (fee.chain === chain && fee.token === constants.AddressZero) {
+    // Fee is paid in the native token of the chain we execute on; no need for conversion.
+    offeredValue = offered;
+    costValue = cost;
+  } else {
+    // Convert both to USD (18 decimals) using the price oracle.
+    const [nativePrice, feeTokenPrice, feeTokenDecimals] = await Promise.all([
+      getTokenPrice(chain, domain, constants.AddressZero, requestContext),
+      getTokenPrice(fee.chain, feeDomain, fee.token, requestContext),
+      txservice.getDecimalsForAsset(feeDomain, fee.token),
+    ]);
+    if (nativePrice.isZero() || feeTokenPrice.isZero()) {
+      throw new FeePriceUnavailable({
+        chain,
+        fee,
+        nativePrice: nativePrice.toString(),
+        feeTokenPrice: feeTokenPrice.toString(),
+      });
+    }
+    costValue = cost.mul(nativePrice).div(constants.WeiPerEther);
+    offeredValue = offered.mul(feeTokenPrice).div(utils.parseUnits("1", feeTokenDecimals));
+  }
+
+  const required = costValue.mul(100 - config.feeTolerance).div(100);
+  logger.debug("Validated fee", requestContext, methodContext, {
+    chain,
+    fee,
+    gasLimit: gasLimit.toString(),
+    gasPrice: gasPrice.toString(),
+    offered: offeredValue.toString(),
+    cost: costValue.toString(),
+    required: required.toString(),
+  });
+  if (offeredValue.lt(required)) {
+    throw new InsufficientFee(offeredValue.toString(), required.toString(), {
+      chain,
+      fee,
+      gasLimit: gasLimit.toString(),
+      gasPrice: gasPrice.toString(),
+      tolerance: config.feeTolerance,
+    });
+  }
+};
@@ -1,9 +1,17 @@
-import { createTask } from "./tasks";
+import { cancelTask, createTask, getTasks, getTaskStatus } from "./tasks";
+import { isFeeTokenAllowed, validateFee } from "./fees";
 
 export const getOperations = () => {
   return {
     tasks: {
       createTask,
+      getTaskStatus,
+      getTasks,
+      cancelTask,
+    },
+    fees: {
+      isFeeTokenAllowed,
+      validateFee,
     },
   };
 };
@@ -1,4 +1,4 @@
-import { constants, BigNumber } from "ethers";
+import { BigNumber } from "ethers";
 import {
   RequestContext,
   createLoggingContext,
@@ -6,11 +6,23 @@ import {
   ExecuteArgs,
   ajv,
   ExecuteArgsSchema,
+  RelayerApiStatusResponse,
+  RelayerTaskStatus,
 } from "@connext/nxtp-utils";
 import { getDeployedConnextContract } from "@connext/nxtp-txservice";
 
 import { getContext } from "../../relayer";
-import { ChainNotSupported, ContractDeploymentMissing, DecodeExecuteError, ParamsInvalid } from "../errors/tasks";
+import {
+  ChainNotSupported,
+  ContractDeploymentMissing,
+  DecodeExecuteError,
+  FeeTokenNotSupported,
+  ParamsInvalid,
+  TaskNotCancellable,
+  TaskNotFound,
+} from "../errors/tasks";
+
+import { isFeeTokenAllowed, validateFee } from "./fees";
 
 /**
  * Creates a task based on passed-in params (assuming task doesn't already exist), and returns the taskId.
@@ -37,11 +49,6 @@ export const createTask = async (
 
   const { to, data, fee } = params;
 
-  // TODO: Allow alternative shitcoins.
-  if (fee.token !== constants.AddressZero) {
-    throw new Error("Only ETH is supported for now.");
-  }
-
   let args: ExecuteArgs;
   let decoded: any;
   try {
@@ -90,8 +97,13 @@ export const createTask = async (
     });
   }
 
+  const domain = chainToDomainMap.get(chain);
+  if (!domain) {
+    throw new ChainNotSupported(chain);
+  }
+
   const connextAddress =
-    config.chains[chain].deployments.connext ??
+    config.chains[domain.toString()].deployments.connext ??
     getDeployedConnextContract(chain, config.environment === "staging" ? "Staging" : "")?.address;
   if (!connextAddress) {
     throw new ContractDeploymentMissing(ContractDeploymentMissing.contracts.connext, chain);
@@ -103,8 +115,14 @@ export const createTask = async (
     });
   }
 
-  if (!chainToDomainMap.has(chain)) {
-    throw new ChainNotSupported(chain);
+  if (!isFeeTokenAllowed(fee.chain, fee.token)) {
+    throw new FeeTokenNotSupported(fee.token, fee.chain);
+  }
+
+  // Make sure the fee offered covers the cost of execution, if enabled. Our own agents don't yet quote a fee
+  // for the tasks they submit, so this stays off by default.
+  if (config.validateFees) {
+    await validateFee(chain, to, data, fee, requestContext);
   }
 
   // TODO: Sanity check: should have enough balance to pay for gas on the specified chain.
@@ -118,3 +136,75 @@ export const createTask = async (
   logger.info("Created a new task.", requestContext, methodContext, { taskId });
   return taskId;
 };
+
+/**
+ * Gets the status of a task, along with the transaction hash or error recorded for it, if any.
+ * @param taskId - The ID of the task.
+ * @returns The task's status.
+ * @throws TaskNotFound if the task doesn't exist.
+ */
+export const getTaskStatus = async (taskId: string): Promise<RelayerApiStatusResponse> => {
+  const {
+    adapters: { cache },
+  } = getContext();
+
+  const task = await cache.tasks.getTask(taskId);
+  if (!task) {
+    throw new TaskNotFound(taskId);
+  }
+  const status = await cache.tasks.getStatus(taskId);
+  return {
+    chain: task.chain.toString(),
+    taskId,
+    status,
+    hash: await cache.tasks.getHash(taskId),
+    error: await cache.tasks.getError(taskId),
+  };
+};
+
+/**
+ * Gets the status of tasks in the order they were created, optionally filtered by status and chain, a page at a time.
+ * @param status - (optional) Only include tasks with this status.
+ * @param chain - (optional) Only include tasks for this chain.
+ * @param limit - Maximum number of tasks to include.
+ * @param cursor - (optional) Only include tasks created after this task, i.e. the last task of the previous page.
+ * @returns The status of each matching task.
+ */
+export const getTasks = async (
+  status: RelayerTaskStatus | undefined,
+  chain: number | undefined,
+  limit: number,
+  cursor?: string,
+): Promise<RelayerApiStatusResponse[]> => {
+  const {
+    adapters: { cache },
+  } = getContext();
+
+  const taskIds = await cache.tasks.getTaskIds(status, chain, limit, cursor);
+  return await Promise.all(taskIds.map((taskId) => getTaskStatus(taskId)));
+};
+
+/**
+ * Cancels a task, so long as it hasn't been sent yet.
+ * @param taskId - The ID of the task.
+ * @throws TaskNotFound if the task doesn't exist.
+ * @throws TaskNotCancellable if the task is no longer pending.
+ */
+export const cancelTask = async (taskId: string, _requestContext: RequestContext): Promise<void> => {
+  const {
+    logger,
+    adapters: { cache },
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(cancelTask.name, _requestContext);
+
+  const task = await cache.tasks.getTask(taskId);
+  if (!task) {
+    throw new TaskNotFound(taskId);
+  }
+  const status = await cache.tasks.getStatus(taskId);
+  if (status !== RelayerTaskStatus.Pending) {
+    throw new TaskNotCancellable(taskId, status);
+  }
+  await cache.tasks.setError(taskId, "Cancelled by admin.");
+  logger.info("Cancelled task.", requestContext, methodContext, { taskId, chain: task.chain });
+};
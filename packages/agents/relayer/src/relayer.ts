@@ -37,6 +37,11 @@ export const makeRelayer = async (_configOverride?: RelayerConfig) => {
     /// MARK - Adapters
     // Set up adapters.
     context.adapters.cache = await setupCache(context.config.redis, context.logger, requestContext);
+    // Tasks are listed through indexes; index any tasks created before they were kept.
+    const reindexed = await context.adapters.cache.tasks.reindex();
+    if (reindexed > 0) {
+      context.logger.info("Indexed existing tasks.", requestContext, methodContext, { reindexed });
+    }
     context.adapters.wallet = context.config.mnemonic
       ? Wallet.fromMnemonic(context.config.mnemonic)
       : new Web3Signer(context.config.web3SignerUrl!);
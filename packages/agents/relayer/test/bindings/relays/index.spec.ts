@@ -0,0 +1,111 @@
+import { constants, providers } from "ethers";
+import { delay, expect, mkAddress, RelayerTaskStatus } from "@connext/nxtp-utils";
+import { NxtpTxServiceEvents } from "@connext/nxtp-txservice";
+import { stub } from "sinon";
+
+import { bindRelays, pollCache } from "../../../src/bindings/relays";
+import { ctxMock, txServiceMock } from "../../globalTestHook";
+import { mock } from "../../mock";
+
+describe("Bindings:Relays", () => {
+  const to = mkAddress("0xabcdef123");
+  const createTask = (chain: number, data: string): Promise<string> =>
+    ctxMock.adapters.cache.tasks.createTask({
+      chain,
+      to,
+      data,
+      fee: { chain, amount: "0", token: constants.AddressZero },
+    });
+  const sentChains = (): number[] => txServiceMock.sendTx.getCalls().map((call) => call.args[0].chainId);
+
+  describe("#bindRelays", () => {
+    it("should log errors updating the task status instead of throwing", async () => {
+      ctxMock.config.mode.cleanup = true;
+      const errorStub = stub(ctxMock.logger, "error");
+      stub(ctxMock.adapters.cache.tasks, "setSent").rejects(new Error("cache down"));
+      await bindRelays();
+      const onSubmitted = txServiceMock.attach
+        .getCalls()
+        .find((call) => call.args[0] === NxtpTxServiceEvents.TransactionSubmitted)!.args[1];
+      // Report the submission the way the TransactionService does, without awaiting the handler.
+      txServiceMock.sendTx.callsFake(async (tx) => {
+        const receipt = mock.ethers.receipt();
+        onSubmitted({ responses: [{ ...tx, hash: receipt.transactionHash }] } as any);
+        return receipt;
+      });
+
+      await createTask(Number(mock.chain.A), "0x01");
+      await pollCache();
+      await delay(10);
+
+      expect(errorStub).to.have.been.calledWith("Error updating task status");
+      expect(errorStub.firstCall.args[4]).to.be.deep.eq({ event: NxtpTxServiceEvents.TransactionSubmitted });
+    });
+  });
+
+  describe("#pollCache", () => {
+    it("should do nothing if there are no pending tasks", async () => {
+      await pollCache();
+      await delay(10);
+      expect(txServiceMock.sendTx).to.not.have.been.called;
+    });
+
+    it("should send the pending tasks of each chain", async () => {
+      await createTask(Number(mock.chain.A), "0x01");
+      await createTask(Number(mock.chain.B), "0x02");
+
+      await pollCache();
+      await delay(10);
+
+      expect(sentChains().sort()).to.be.deep.eq([Number(mock.chain.A), Number(mock.chain.B)]);
+      expect(txServiceMock.sendTx.getCall(0).args[2]).to.be.oneOf([Number(mock.domain.A), Number(mock.domain.B)]);
+    });
+
+    it("should save the error if sending a task fails", async () => {
+      const taskId = await createTask(Number(mock.chain.A), "0x01");
+      txServiceMock.sendTx.rejects(new Error("fail"));
+
+      await pollCache();
+      await delay(10);
+
+      expect(await ctxMock.adapters.cache.tasks.getStatus(taskId)).to.be.eq(RelayerTaskStatus.Cancelled);
+      expect(await ctxMock.adapters.cache.tasks.getError(taskId)).to.include("fail");
+    });
+
+    it("should not hold up other chains while a chain's tasks are awaiting confirmation", async () => {
+      let confirm: (receipt: providers.TransactionReceipt) => void = () => undefined;
+      const taskIds: Record<string, string> = {};
+      txServiceMock.sendTx.callsFake(async (tx) => {
+        if (tx.chainId === Number(mock.chain.A)) {
+          return new Promise<providers.TransactionReceipt>((res) => (confirm = res));
+        }
+        // Mark the task as completed, as the TransactionService event handlers would.
+        const receipt = mock.ethers.receipt();
+        await ctxMock.adapters.cache.tasks.setHash(taskIds[tx.data], receipt.transactionHash);
+        return receipt;
+      });
+      taskIds["0x01"] = await createTask(Number(mock.chain.A), "0x01");
+      taskIds["0x02"] = await createTask(Number(mock.chain.B), "0x02");
+
+      // The poll returns without waiting on chain A's confirmation, and chain B's tasks are sent.
+      await pollCache();
+      await delay(10);
+      expect(sentChains().sort()).to.be.deep.eq([Number(mock.chain.A), Number(mock.chain.B)]);
+
+      // Chain B's new tasks keep being sent, while chain A's pending task isn't sent again.
+      taskIds["0x03"] = await createTask(Number(mock.chain.B), "0x03");
+      await pollCache();
+      await delay(10);
+      expect(sentChains().sort()).to.be.deep.eq([Number(mock.chain.A), Number(mock.chain.B), Number(mock.chain.B)]);
+
+      // Once chain A's task is confirmed, its tasks are picked up again.
+      await ctxMock.adapters.cache.tasks.setHash(taskIds["0x01"], mock.ethers.receipt().transactionHash);
+      confirm(mock.ethers.receipt());
+      await delay(10);
+      await createTask(Number(mock.chain.A), "0x04");
+      await pollCache();
+      await delay(10);
+      expect(txServiceMock.sendTx.lastCall.args[0]).to.include({ chainId: Number(mock.chain.A), data: "0x04" });
+    });
+  });
+});
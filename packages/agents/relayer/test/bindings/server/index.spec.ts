@@ -0,0 +1,95 @@
+import { expect, getRandomBytes32, NxtpError, RelayerTaskStatus } from "@connext/nxtp-utils";
+import { FastifyInstance } from "fastify";
+import { stub, SinonStub } from "sinon";
+
+import { bindServer, DEFAULT_TASKS_LIMIT } from "../../../src/bindings/server";
+import * as operations from "../../../src/lib/operations";
+import { TaskNotFound } from "../../../src/lib/errors/tasks";
+import { mock } from "../../mock";
+
+describe("Bindings:Server", () => {
+  let server: FastifyInstance;
+  let getTaskStatusStub: SinonStub;
+  let getTasksStub: SinonStub;
+
+  beforeEach(async () => {
+    getTaskStatusStub = stub();
+    getTasksStub = stub();
+    stub(operations, "getOperations").returns({
+      tasks: { getTaskStatus: getTaskStatusStub, getTasks: getTasksStub },
+    } as any);
+    server = await bindServer();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe("GET /tasks/:taskId", () => {
+    it("happy: should respond with the task status", async () => {
+      const taskId = getRandomBytes32();
+      const task = { chain: mock.chain.A, taskId, status: RelayerTaskStatus.Pending };
+      getTaskStatusStub.resolves(task);
+
+      const response = await server.inject({ method: "GET", url: `/tasks/${taskId}` });
+      expect(response.statusCode).to.be.eq(200);
+      expect(JSON.parse(response.payload)).to.be.deep.eq(task);
+    });
+
+    it("should respond with 404 if the task doesn't exist", async () => {
+      const taskId = getRandomBytes32();
+      getTaskStatusStub.rejects(new TaskNotFound(taskId));
+
+      const response = await server.inject({ method: "GET", url: `/tasks/${taskId}` });
+      expect(response.statusCode).to.be.eq(404);
+      expect(JSON.parse(response.payload).message).to.be.eq(TaskNotFound.name);
+    });
+
+    it("should respond with 500 if getting the task status fails", async () => {
+      getTaskStatusStub.rejects(new NxtpError("fail"));
+
+      const response = await server.inject({ method: "GET", url: `/tasks/${getRandomBytes32()}` });
+      expect(response.statusCode).to.be.eq(500);
+      expect(JSON.parse(response.payload).message).to.be.eq(NxtpError.name);
+    });
+  });
+
+  describe("GET /tasks", () => {
+    const mkTask = () => ({ chain: mock.chain.A, taskId: getRandomBytes32(), status: RelayerTaskStatus.Pending });
+
+    it("happy: should respond with the first page of tasks", async () => {
+      const tasks = [mkTask(), mkTask()];
+      getTasksStub.resolves(tasks);
+
+      const response = await server.inject({ method: "GET", url: "/tasks?status=Pending" });
+      expect(response.statusCode).to.be.eq(200);
+      expect(JSON.parse(response.payload)).to.be.deep.eq({ tasks });
+      expect(getTasksStub).to.be.calledOnceWithExactly(
+        RelayerTaskStatus.Pending,
+        undefined,
+        DEFAULT_TASKS_LIMIT,
+        undefined,
+      );
+    });
+
+    it("should respond with the cursor for the next page if the page is full", async () => {
+      const tasks = [mkTask(), mkTask()];
+      getTasksStub.resolves(tasks);
+      const cursor = getRandomBytes32();
+
+      const response = await server.inject({
+        method: "GET",
+        url: `/tasks?chain=${mock.chain.A}&limit=2&cursor=${cursor}`,
+      });
+      expect(response.statusCode).to.be.eq(200);
+      expect(JSON.parse(response.payload)).to.be.deep.eq({ tasks, nextCursor: tasks[1].taskId });
+      expect(getTasksStub).to.be.calledOnceWithExactly(undefined, Number(mock.chain.A), 2, cursor);
+    });
+
+    it("should respond with 400 if the limit is out of range", async () => {
+      const response = await server.inject({ method: "GET", url: "/tasks?limit=1001" });
+      expect(response.statusCode).to.be.eq(400);
+      expect(getTasksStub).to.not.be.called;
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { Wallet } from "ethers";
+import { stub } from "sinon";
+import { expect } from "@connext/nxtp-utils";
+
+import { DEFAULT_FEE_TOLERANCE, getEnvConfig } from "../src/config";
+import { mock } from "./mock";
+
+const mockDeployments = mock.contracts.deployments();
+describe("Config", () => {
+  describe("#getEnvConfig", () => {
+    const stubEnv = (config: Record<string, any>, env: Record<string, string> = {}) =>
+      stub(process, "env").value({
+        ...process.env,
+        RELAYER_CONFIG: JSON.stringify({ ...config, mnemonic: Wallet.createRandom().mnemonic.phrase }),
+        ...env,
+      });
+
+    it("happy: should read the config", () => {
+      const config = mock.config();
+      stubEnv(config);
+      const res = getEnvConfig(mock.chainData(), mockDeployments);
+      expect(res.validateFees).to.be.eq(config.validateFees);
+      expect(res.feeTolerance).to.be.eq(config.feeTolerance);
+    });
+
+    it("should default to not validating fees with the default tolerance", () => {
+      const { validateFees: _validateFees, feeTolerance: _feeTolerance, ...config } = mock.config();
+      stubEnv(config);
+      const res = getEnvConfig(mock.chainData(), mockDeployments);
+      expect(res.validateFees).to.be.false;
+      expect(res.feeTolerance).to.be.eq(DEFAULT_FEE_TOLERANCE);
+    });
+
+    it("should allow a fee tolerance of 0", () => {
+      stubEnv({ ...mock.config(), feeTolerance: 0 });
+      expect(getEnvConfig(mock.chainData(), mockDeployments).feeTolerance).to.be.eq(0);
+    });
+
+    it("should read fee settings from env vars", () => {
+      stubEnv({ ...mock.config(), validateFees: false }, { RELAYER_VALIDATE_FEES: "true", RELAYER_FEE_TOLERANCE: "0" });
+      const res = getEnvConfig(mock.chainData(), mockDeployments);
+      expect(res.validateFees).to.be.true;
+      expect(res.feeTolerance).to.be.eq(0);
+    });
+
+    it("should error if the fee tolerance is invalid", () => {
+      stubEnv({ ...mock.config(), feeTolerance: 101 });
+      expect(() => getEnvConfig(mock.chainData(), mockDeployments)).to.throw();
+    });
+  });
+});
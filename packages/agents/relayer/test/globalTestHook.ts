@@ -0,0 +1,42 @@
+import { StoreManager } from "@connext/nxtp-adapters-cache";
+import { TransactionService } from "@connext/nxtp-txservice";
+import { Logger } from "@connext/nxtp-utils";
+import { Wallet } from "ethers";
+import { reset, restore, SinonStubbedInstance, stub } from "sinon";
+
+import { AppContext } from "../src/lib/entities";
+import * as RelayerFns from "../src/relayer";
+import { mock } from "./mock";
+
+export let ctxMock: AppContext;
+export let txServiceMock: SinonStubbedInstance<TransactionService>;
+export let walletMock: SinonStubbedInstance<Wallet>;
+
+export const mochaHooks = {
+  async beforeEach() {
+    const logger = new Logger({ name: "test", level: process.env.LOG_LEVEL || "silent" });
+    const cache = StoreManager.getInstance({ redis: { host: undefined, port: undefined }, mock: true, logger });
+    await cache.tasks.clear();
+
+    txServiceMock = mock.adapters.txservice();
+    walletMock = mock.adapters.wallet();
+    ctxMock = {
+      logger,
+      adapters: {
+        wallet: walletMock,
+        cache,
+        txservice: txServiceMock,
+        contracts: mock.contracts.interfaces(),
+      },
+      config: mock.config(),
+      chainData: mock.chainData(),
+      chainToDomainMap: mock.chainToDomainMap(),
+    };
+    stub(RelayerFns, "getContext").returns(ctxMock);
+  },
+
+  afterEach() {
+    restore();
+    reset();
+  },
+};
@@ -0,0 +1,124 @@
+import { BigNumber, constants, utils } from "ethers";
+import { createRequestContext, expect, mkAddress, RelayerApiFee } from "@connext/nxtp-utils";
+
+import { isFeeTokenAllowed, validateFee } from "../../../src/lib/operations/fees";
+import {
+  ChainNotSupported,
+  ContractDeploymentMissing,
+  ExecuteSimulationFailed,
+  FeePriceUnavailable,
+  InsufficientFee,
+} from "../../../src/lib/errors/tasks";
+import { ctxMock, txServiceMock } from "../../globalTestHook";
+import { mock } from "../../mock";
+
+describe("Operations:Fees", () => {
+  const chain = Number(mock.chain.A);
+  const to = mkAddress("0xabcdef123");
+  const data = "0x01";
+  const feeToken = mkAddress("0xfee");
+  const requestContext = createRequestContext("test");
+  // 100,000 gas at 1 gwei.
+  const cost = utils.parseUnits("100000", "gwei");
+
+  const nativeFee = (amount: BigNumber): RelayerApiFee => ({
+    chain,
+    amount: amount.toString(),
+    token: constants.AddressZero,
+  });
+
+  beforeEach(() => {
+    ctxMock.config.chains[mock.domain.B].feeTokens = [feeToken];
+  });
+
+  describe("#isFeeTokenAllowed", () => {
+    it("should always allow the native token", () => {
+      expect(isFeeTokenAllowed(chain, constants.AddressZero)).to.be.true;
+    });
+
+    it("should allow configured fee tokens, regardless of case", () => {
+      expect(isFeeTokenAllowed(Number(mock.chain.B), feeToken.toUpperCase().replace("0X", "0x"))).to.be.true;
+    });
+
+    it("should not allow tokens that aren't configured for the chain", () => {
+      expect(isFeeTokenAllowed(chain, feeToken)).to.be.false;
+      expect(isFeeTokenAllowed(12345, feeToken)).to.be.false;
+    });
+  });
+
+  describe("#validateFee", () => {
+    it("happy: should accept a native fee that covers the cost", async () => {
+      await expect(validateFee(chain, to, data, nativeFee(cost), requestContext)).to.be.fulfilled;
+      expect(txServiceMock.getGasEstimateWithRevertCode).to.have.been.calledOnceWith(Number(mock.domain.A));
+      expect(txServiceMock.readTx).to.not.have.been.called;
+    });
+
+    it("happy: should accept a native fee within the tolerance", async () => {
+      await expect(validateFee(chain, to, data, nativeFee(cost.mul(90).div(100)), requestContext)).to.be.fulfilled;
+    });
+
+    it("should reject a native fee below the tolerance", async () => {
+      await expect(
+        validateFee(chain, to, data, nativeFee(cost.mul(90).div(100).sub(1)), requestContext),
+      ).to.be.rejectedWith(InsufficientFee);
+    });
+
+    it("should require the full cost if the tolerance is 0", async () => {
+      ctxMock.config.feeTolerance = 0;
+      await expect(validateFee(chain, to, data, nativeFee(cost.sub(1)), requestContext)).to.be.rejectedWith(
+        InsufficientFee,
+      );
+      await expect(validateFee(chain, to, data, nativeFee(cost), requestContext)).to.be.fulfilled;
+    });
+
+    it("happy: should value a fee paid in a token on another chain using the price oracle", async () => {
+      // Native token at $2, fee token at $1 with 6 decimals: the cost is worth 2 * 0.0001 = 0.0002 fee tokens.
+      txServiceMock.readTx.callsFake(async ({ data }) => {
+        const [token] = ctxMock.adapters.contracts.priceOracle.decodeFunctionData("getTokenPrice", data);
+        return utils.parseEther(token === constants.AddressZero ? "2" : "1").toHexString();
+      });
+      txServiceMock.getDecimalsForAsset.resolves(6);
+      const fee = { chain: Number(mock.chain.B), token: feeToken, amount: "200" };
+
+      await expect(validateFee(chain, to, data, fee, requestContext)).to.be.fulfilled;
+      // Prices are read from the oracle configured for each domain, using the txservice's providers for that domain.
+      expect(txServiceMock.readTx).to.have.been.calledWithMatch({
+        chainId: Number(mock.domain.A),
+        to: ctxMock.config.chains[mock.domain.A].deployments.priceOracle,
+      });
+      expect(txServiceMock.readTx).to.have.been.calledWithMatch({
+        chainId: Number(mock.domain.B),
+        to: ctxMock.config.chains[mock.domain.B].deployments.priceOracle,
+      });
+      await expect(validateFee(chain, to, data, { ...fee, amount: "179" }, requestContext)).to.be.rejectedWith(
+        InsufficientFee,
+      );
+    });
+
+    it("should throw if the chain isn't supported", async () => {
+      await expect(validateFee(12345, to, data, nativeFee(cost), requestContext)).to.be.rejectedWith(ChainNotSupported);
+      await expect(
+        validateFee(chain, to, data, { ...nativeFee(cost), chain: 12345 }, requestContext),
+      ).to.be.rejectedWith(ChainNotSupported);
+    });
+
+    it("should throw if the execute simulation fails", async () => {
+      txServiceMock.getGasEstimateWithRevertCode.rejects(new Error("reverted"));
+      await expect(validateFee(chain, to, data, nativeFee(cost), requestContext)).to.be.rejectedWith(
+        ExecuteSimulationFailed,
+      );
+    });
+
+    it("should throw if the fee chain has no price oracle", async () => {
+      ctxMock.config.chains[mock.domain.B].deployments.priceOracle = undefined;
+      const fee = { chain: Number(mock.chain.B), token: feeToken, amount: cost.toString() };
+      await expect(validateFee(chain, to, data, fee, requestContext)).to.be.rejectedWith(ContractDeploymentMissing);
+    });
+
+    it("should throw if a price is unavailable", async () => {
+      txServiceMock.readTx.resolves(constants.Zero.toHexString());
+      const fee = { chain: Number(mock.chain.B), token: feeToken, amount: cost.toString() };
+      await expect(validateFee(chain, to, data, fee, requestContext)).to.be.rejectedWith(FeePriceUnavailable);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { BigNumber, constants } from "ethers";
+import { createRequestContext, expect, mkAddress, RelayerApiFee, RelayerTaskStatus } from "@connext/nxtp-utils";
+import { stub, SinonStub } from "sinon";
+
+import { createTask, getTasks } from "../../../src/lib/operations/tasks";
+import * as FeeFns from "../../../src/lib/operations/fees";
+import { FeeTokenNotSupported } from "../../../src/lib/errors/tasks";
+import { ctxMock } from "../../globalTestHook";
+import { mock } from "../../mock";
+
+describe("Operations:Tasks", () => {
+  const chain = Number(mock.chain.A);
+  const to = mkAddress("0xabcdef123");
+  const data = "0x01";
+  const feeToken = mkAddress("0xfee");
+  const requestContext = createRequestContext("test");
+
+  describe("#createTask", () => {
+    let validateFeeStub: SinonStub;
+
+    const fee = (token: string): RelayerApiFee => ({ chain, amount: "1", token });
+
+    beforeEach(() => {
+      // The execute args as decoded by ethers, with numbers as BigNumbers.
+      const args = mock.entity.executeArgs();
+      const decoded = {
+        ...args,
+        params: {
+          ...args.params,
+          callbackFee: BigNumber.from(args.params.callbackFee),
+          relayerFee: BigNumber.from(args.params.relayerFee),
+          slippageTol: BigNumber.from(args.params.slippageTol),
+        },
+        amount: BigNumber.from(args.amount),
+        nonce: BigNumber.from(args.nonce),
+      };
+      ctxMock.adapters.contracts = { connext: { decodeFunctionData: stub().returns([decoded]) } } as any;
+      validateFeeStub = stub(FeeFns, "validateFee").resolves();
+    });
+
+    it("happy: should create a task paying the fee in the native token", async () => {
+      const taskId = await createTask(chain, { to, data, fee: fee(constants.AddressZero) }, requestContext);
+      expect(await ctxMock.adapters.cache.tasks.getTask(taskId)).to.be.deep.eq({
+        chain,
+        to,
+        data,
+        fee: fee(constants.AddressZero),
+      });
+    });
+
+    it("should reject fee tokens that aren't configured, even if fees aren't validated", async () => {
+      ctxMock.config.validateFees = false;
+      await expect(createTask(chain, { to, data, fee: fee(feeToken) }, requestContext)).to.be.rejectedWith(
+        FeeTokenNotSupported,
+      );
+    });
+
+    it("should only validate the fee amount if enabled", async () => {
+      ctxMock.config.chains[mock.domain.A].feeTokens = [feeToken];
+
+      ctxMock.config.validateFees = false;
+      await createTask(chain, { to, data, fee: fee(feeToken) }, requestContext);
+      expect(validateFeeStub).to.not.have.been.called;
+
+      ctxMock.config.validateFees = true;
+      await createTask(chain, { to, data, fee: fee(feeToken) }, requestContext);
+      expect(validateFeeStub).to.have.been.calledOnce;
+    });
+  });
+
+  describe("#getTasks", () => {
+    it("happy: should page through the matching tasks' statuses", async () => {
+      const { tasks } = ctxMock.adapters.cache;
+      const taskIds: string[] = [];
+      for (let i = 0; i < 3; i++) {
+        taskIds.push(await tasks.createTask({ chain, to, data, fee: { chain, amount: "1", token: feeToken } }));
+      }
+      const cancelled = await tasks.createTask({ chain, to, data, fee: { chain, amount: "1", token: feeToken } });
+      await tasks.setError(cancelled, "error");
+      const page = await tasks.getTaskIds(RelayerTaskStatus.Pending, chain, 2);
+
+      expect(await getTasks(RelayerTaskStatus.Pending, chain, 2)).to.be.deep.eq(
+        page.map((taskId) => ({
+          chain: chain.toString(),
+          taskId,
+          status: RelayerTaskStatus.Pending,
+          hash: undefined,
+          error: undefined,
+        })),
+      );
+      const next = await getTasks(RelayerTaskStatus.Pending, chain, 2, page[1]);
+      expect(next.map(({ taskId }) => taskId)).to.have.members(taskIds.filter((taskId) => !page.includes(taskId)));
+    });
+  });
+});
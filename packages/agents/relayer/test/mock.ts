@@ -0,0 +1,84 @@
+import { BigNumber, utils, Wallet } from "ethers";
+import { createStubInstance, SinonStubbedInstance } from "sinon";
+import { ConnextContractDeployments, ConnextContractInterfaces, TransactionService } from "@connext/nxtp-txservice";
+import { mkAddress, mock as _mock } from "@connext/nxtp-utils";
+
+import { RelayerConfig } from "../src/lib/entities";
+
+export const mockRelayerAddress = mkAddress("0xabcdef123");
+
+export const mock = {
+  ..._mock,
+  config: (): RelayerConfig => ({
+    chains: {
+      [mock.domain.A]: {
+        confirmations: 1,
+        providers: ["http://example.com"],
+        deployments: {
+          connext: mkAddress("0xabcdef123"),
+          priceOracle: mkAddress("0xbaddad"),
+        },
+      },
+      [mock.domain.B]: {
+        confirmations: 1,
+        providers: ["http://example.com"],
+        deployments: {
+          connext: mkAddress("0xabcdef123"),
+          priceOracle: mkAddress("0xbaddad"),
+        },
+      },
+    },
+    logLevel: "info",
+    network: "testnet",
+    redis: { host: "localhost", port: 6379 },
+    server: {
+      port: 8081,
+      host: "0.0.0.0",
+      adminToken: "foo",
+    },
+    mode: {
+      cleanup: false,
+    },
+    validateFees: true,
+    feeTolerance: 10,
+    environment: "staging",
+  }),
+  chainToDomainMap: (): Map<number, number> =>
+    new Map([
+      [Number(mock.chain.A), Number(mock.domain.A)],
+      [Number(mock.chain.B), Number(mock.domain.B)],
+    ]),
+  adapters: {
+    wallet: (): SinonStubbedInstance<Wallet> => {
+      const wallet = createStubInstance(Wallet);
+      wallet.getAddress.resolves(mockRelayerAddress);
+      return wallet;
+    },
+    txservice: (): SinonStubbedInstance<TransactionService> => {
+      const txservice = createStubInstance(TransactionService);
+      txservice.getGasEstimateWithRevertCode.resolves(BigNumber.from(100_000));
+      txservice.getGasPrice.resolves(utils.parseUnits("1", "gwei"));
+      txservice.readTx.resolves(utils.parseEther("1").toHexString());
+      txservice.getDecimalsForAsset.resolves(18);
+      txservice.sendTx.resolves(mock.ethers.receipt());
+      return txservice;
+    },
+  },
+  contracts: {
+    interfaces: (): ConnextContractInterfaces =>
+      ({
+        priceOracle: new utils.Interface(["function getTokenPrice(address _tokenAddress) view returns (uint256)"]),
+      } as any),
+    deployments: (): ConnextContractDeployments => {
+      return {
+        connext: (_: number) => ({
+          address: mkAddress("0xabcdef123"),
+          abi: {},
+        }),
+        priceOracle: (_: number) => ({ address: mkAddress("0xbaddad"), abi: {} }),
+        tokenRegistry: (_: number) => ({ address: mkAddress("0xbbbddd"), abi: {} }),
+        stableSwap: (_: number) => ({ address: mkAddress("0xbbbddd"), abi: {} }),
+      };
+    },
+  },
+};
@@ -1 +1 @@
-export { bindMetrics } from "./metrics";
+export { bindMetrics, recordBidRejected, recordBidSent, recordLiquidity, recordXCallReceived } from "./metrics";
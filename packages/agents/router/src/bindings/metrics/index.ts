@@ -1,7 +1,97 @@
-import { collectDefaultMetrics } from "prom-client";
+import { getNtpTimeSeconds, NxtpError, OriginTransfer } from "@connext/nxtp-utils";
+import { BigNumber } from "ethers";
+import { collectDefaultMetrics, Counter, Gauge, Histogram } from "prom-client";
+
+// Transfer-level metrics are labelled with the asset bridged on the origin domain, so they can be joined with each
+// other regardless of whether we got as far as resolving the local asset on the destination domain.
+const TRANSFER_LABELS = ["origin_domain", "destination_domain", "asset"] as const;
+
+export const xcallsReceived = new Counter({
+  name: "router_xcalls_received_total",
+  help: "Number of xcalls received from the message queue.",
+  labelNames: TRANSFER_LABELS,
+});
+
+export const bidsSent = new Counter({
+  name: "router_bids_sent_total",
+  help: "Number of bids sent to the sequencer.",
+  labelNames: TRANSFER_LABELS,
+});
+
+export const bidsRejected = new Counter({
+  name: "router_bids_rejected_total",
+  help: "Number of xcalls we did not bid on, by the error that stopped us.",
+  labelNames: [...TRANSFER_LABELS, "reason"] as const,
+});
+
+export const signaturesProduced = new Counter({
+  name: "router_signatures_total",
+  help: "Number of auction round signatures produced for bids.",
+  labelNames: ["destination_domain", "round"] as const,
+});
+
+export const liquidity = new Gauge({
+  name: "router_liquidity",
+  help: "Liquidity of the router on the destination domain, in the asset's smallest unit.",
+  labelNames: ["domain", "asset", "type"] as const,
+});
+
+export const bidLatency = new Histogram({
+  name: "router_xcall_to_bid_seconds",
+  help: "Time between the xcall on the origin domain and the bid being sent.",
+  labelNames: TRANSFER_LABELS,
+  buckets: [5, 10, 30, 60, 120, 300, 600, 1800, 3600],
+});
+
+const getTransferLabels = (transfer: OriginTransfer) => ({
+  origin_domain: transfer.xparams.originDomain,
+  destination_domain: transfer.xparams.destinationDomain,
+  asset: transfer.origin.assets.bridged.asset.toLowerCase(),
+});
+
+/**
+ * Records an xcall received from the message queue.
+ */
+export const recordXCallReceived = (transfer: OriginTransfer): void => {
+  xcallsReceived.inc(getTransferLabels(transfer));
+};
+
+/**
+ * Records a bid sent to the sequencer for the given transfer, along with the signature for each round bid on.
+ *
+ * @param transfer - The transfer we bid on.
+ * @param rounds - The auction rounds signed for in the bid.
+ */
+export const recordBidSent = (transfer: OriginTransfer, rounds: number[]): void => {
+  const labels = getTransferLabels(transfer);
+  bidsSent.inc(labels);
+  for (const round of rounds) {
+    signaturesProduced.inc({ destination_domain: labels.destination_domain, round: round.toString() });
+  }
+  bidLatency.observe(labels, Math.max(getNtpTimeSeconds() - transfer.origin.xcall.timestamp, 0));
+};
+
+/**
+ * Records an xcall we didn't bid on, labelled with the type of the error that stopped us (e.g. `NotEnoughAmount`).
+ */
+export const recordBidRejected = (transfer: OriginTransfer, error: unknown): void => {
+  bidsRejected.inc({ ...getTransferLabels(transfer), reason: (error as NxtpError).type ?? (error as Error).name });
+};
+
+/**
+ * Records the router's current liquidity for an asset on a domain.
+ *
+ * @param domain - The destination domain.
+ * @param asset - The local asset on the destination domain.
+ * @param values - Liquidity by type (e.g. balance, available).
+ */
+export const recordLiquidity = (domain: string, asset: string, values: Record<string, BigNumber>): void => {
+  for (const [type, value] of Object.entries(values)) {
+    liquidity.set({ domain, asset: asset.toLowerCase(), type }, Number(value.toString()));
+  }
+};
 
 export const bindMetrics = async (identifier?: string) => {
   // TODO: need to keep last block height? contractReader has done it already.
-  // TODO: export transactions with timestamps to Prometheus
   collectDefaultMetrics({ prefix: `router_${identifier ? identifier + "_" : ""}` });
 };
@@ -5,11 +5,13 @@ import {
   ajv,
   ChainData,
   TChainConfig,
+  TIntegerString,
   TOptionalPeripheralConfig,
   TRequiredPeripheralConfig,
   TServerConfig,
 } from "@connext/nxtp-utils";
 import { ConnextContractDeployments, ContractPostfix } from "@connext/nxtp-txservice";
+import { SubgraphHealthConfigSchema } from "@connext/nxtp-adapters-subgraph";
 
 import { existsSync, readFileSync } from "./mockable";
 
@@ -22,6 +24,12 @@ const DEFAULT_CONFIRMATIONS = 3;
 const MIN_CACHE_POLL_INTERVAL = 2_000;
 const DEFAULT_CACHE_POLL_INTERVAL = 20_000;
 const DEFAULT_AUCTION_ROUND_DEPTH = 3;
+const DEFAULT_BIDDING_STRATEGY = "all";
+const DEFAULT_THIN_LIQUIDITY_PERCENT = 50;
+const DEFAULT_INFLIGHT_BID_EXPIRY = 5 * 60; // 5 minutes
+const DEFAULT_RETRY_LIMIT = 5;
+const DEFAULT_RETRY_DELAY = 10; // 10 seconds
+const DEFAULT_MAX_RETRY_DELAY = 10 * 60; // 10 minutes
 
 dotenvConfig();
 
@@ -36,6 +44,50 @@ export const TPollingConfig = Type.Object({
   cache: Type.Integer({ minimum: MIN_CACHE_POLL_INTERVAL }),
 });
 
+export const TBiddingConfig = Type.Object({
+  // Strategy used to decide which auction rounds to sign for each transfer:
+  // - "all": sign every round we have the available liquidity for.
+  // - "preferHigherRounds": when liquidity is thin, only sign the rounds that split the transfer into smaller shares.
+  strategy: Type.Union([Type.Literal("all"), Type.Literal("preferHigherRounds")]),
+  // % of our liquidity for each asset that is held in reserve and never bid with.
+  reservePercent: Type.Integer({ minimum: 0, maximum: 100 }),
+  // Maximum % of our liquidity for each asset that can be committed to in-flight bids at once, per destination domain.
+  // Domains that are not specified are not capped.
+  maxExposurePercent: Type.Record(Type.String(), Type.Integer({ minimum: 0, maximum: 100 })),
+  // Maximum amount (in the asset's smallest unit) that can be committed to in-flight bids at once, per destination
+  // domain and local asset address. Assets that are not specified are not capped.
+  maxExposure: Type.Record(Type.String(), Type.Record(Type.String(), TIntegerString)),
+  // For the "preferHigherRounds" strategy: a round is considered too large (and skipped, unless no other round is
+  // affordable) if its amount exceeds this % of our available liquidity.
+  thinLiquidityPercent: Type.Integer({ minimum: 1, maximum: 100 }),
+  // Time (secs) after which liquidity committed to a bid that has not been executed is considered released.
+  inflightBidExpiry: Type.Integer({ minimum: 1 }),
+  // Cost (in bps of the amount supplied) of committing liquidity to a transfer until it's reconciled, e.g. the yield
+  // the liquidity could be earning elsewhere. Transfers whose LP fee doesn't cover it are skipped.
+  capitalCostBps: Type.Integer({ minimum: 0, maximum: 10_000 }),
+  // Minimum LP fee (in the asset's smallest unit) a transfer has to earn to be bid on, per destination domain and
+  // local asset address. Assets that are not specified have no minimum.
+  minFee: Type.Record(Type.String(), Type.Record(Type.String(), TIntegerString)),
+  // Minimum and maximum transfer amounts (in the asset's smallest unit) to bid on, per destination domain and local
+  // asset address. Assets that are not specified are not limited.
+  minAmount: Type.Record(Type.String(), Type.Record(Type.String(), TIntegerString)),
+  maxAmount: Type.Record(Type.String(), Type.Record(Type.String(), TIntegerString)),
+});
+
+export type BiddingConfig = Static<typeof TBiddingConfig>;
+
+export const TRetryConfig = Type.Object({
+  // Number of times handling an xcall message is attempted before it's dead-lettered.
+  limit: Type.Integer({ minimum: 1 }),
+  // Time (in seconds) to wait before redelivering a message that failed with a retryable error. Doubles with every
+  // failed attempt.
+  delay: Type.Integer({ minimum: 1 }),
+  // Maximum time (in seconds) to wait before redelivering a message.
+  maxDelay: Type.Integer({ minimum: 1 }),
+});
+
+export type RetryConfig = Static<typeof TRetryConfig>;
+
 export const NxtpRouterConfigSchema = Type.Object({
   chains: Type.Record(Type.String(), TChainConfig),
   logLevel: Type.Union([
@@ -49,15 +101,25 @@ export const NxtpRouterConfigSchema = Type.Object({
   ]),
   mnemonic: Type.Optional(Type.String()),
   web3SignerUrl: Type.Optional(Type.String()),
+  // Public key or address of the web3signer key to sign with, if more than one is loaded.
+  web3SignerKey: Type.Optional(Type.String()),
+  // Key the publisher and subscriber switch to once it's approved as a router on every domain, checked from the `from`
+  // timestamp.
+  web3SignerRotation: Type.Optional(Type.Object({ key: Type.String(), from: Type.Optional(Type.Integer()) })),
   redis: TOptionalPeripheralConfig,
   sequencerUrl: Type.String({ format: "uri" }),
   server: TServerConfig,
+  // Maximum swap slippage (in percent) a transfer may tolerate on the destination domain for us to bid on it.
   maxSlippage: Type.Integer({ minimum: 0, maximum: 100 }),
   mode: TModeConfig,
   network: Type.Union([Type.Literal("testnet"), Type.Literal("mainnet"), Type.Literal("local")]),
   polling: TPollingConfig,
   auctionRoundDepth: Type.Integer(),
+  bidding: TBiddingConfig,
+  retry: TRetryConfig,
   subgraphPrefix: Type.Optional(Type.String()),
+  // Checks subgraph endpoints against the chain head, failing over to fresher ones. Disabled if not set.
+  subgraphHealth: Type.Optional(SubgraphHealthConfigSchema),
   environment: Type.Union([Type.Literal("staging"), Type.Literal("production")]),
   nomadEnvironment: Type.Union([Type.Literal("staging"), Type.Literal("production"), Type.Literal("none")]),
   messageQueue: TRequiredPeripheralConfig,
@@ -99,6 +161,10 @@ export const getEnvConfig = (
   const nxtpConfig: NxtpRouterConfig = {
     mnemonic: process.env.NXTP_MNEMONIC || configJson.mnemonic || configFile.mnemonic,
     web3SignerUrl: process.env.NXTP_WEB3_SIGNER_URL || configJson.web3SignerUrl || configFile.web3SignerUrl,
+    web3SignerKey: process.env.NXTP_WEB3_SIGNER_KEY || configJson.web3SignerKey || configFile.web3SignerKey,
+    web3SignerRotation: process.env.NXTP_WEB3_SIGNER_ROTATION
+      ? JSON.parse(process.env.NXTP_WEB3_SIGNER_ROTATION)
+      : configJson.web3SignerRotation || configFile.web3SignerRotation,
     redis: {
       host: process.env.NXTP_REDIS_HOST || configJson.redis?.host || configFile.redis?.host,
       port: process.env.NXTP_REDIS_PORT || configJson.redis?.port || configFile.redis?.port || 6379,
@@ -161,7 +227,49 @@ export const getEnvConfig = (
       configJson.auctionRoundDepth ||
       configFile.auctionRoundDepth ||
       DEFAULT_AUCTION_ROUND_DEPTH,
+    bidding: {
+      strategy:
+        process.env.NXTP_BIDDING_STRATEGY ||
+        configJson.bidding?.strategy ||
+        configFile.bidding?.strategy ||
+        DEFAULT_BIDDING_STRATEGY,
+      reservePercent:
+        process.env.NXTP_BIDDING_RESERVE_PERCENT ||
+        configJson.bidding?.reservePercent ||
+        configFile.bidding?.reservePercent ||
+        0,
+      maxExposurePercent: configJson.bidding?.maxExposurePercent || configFile.bidding?.maxExposurePercent || {},
+      maxExposure: configJson.bidding?.maxExposure || configFile.bidding?.maxExposure || {},
+      thinLiquidityPercent:
+        process.env.NXTP_BIDDING_THIN_LIQUIDITY_PERCENT ||
+        configJson.bidding?.thinLiquidityPercent ||
+        configFile.bidding?.thinLiquidityPercent ||
+        DEFAULT_THIN_LIQUIDITY_PERCENT,
+      inflightBidExpiry:
+        process.env.NXTP_BIDDING_INFLIGHT_BID_EXPIRY ||
+        configJson.bidding?.inflightBidExpiry ||
+        configFile.bidding?.inflightBidExpiry ||
+        DEFAULT_INFLIGHT_BID_EXPIRY,
+      capitalCostBps:
+        process.env.NXTP_BIDDING_CAPITAL_COST_BPS ||
+        configJson.bidding?.capitalCostBps ||
+        configFile.bidding?.capitalCostBps ||
+        0,
+      minFee: configJson.bidding?.minFee || configFile.bidding?.minFee || {},
+      minAmount: configJson.bidding?.minAmount || configFile.bidding?.minAmount || {},
+      maxAmount: configJson.bidding?.maxAmount || configFile.bidding?.maxAmount || {},
+    },
+    retry: {
+      limit: process.env.NXTP_RETRY_LIMIT || configJson.retry?.limit || configFile.retry?.limit || DEFAULT_RETRY_LIMIT,
+      delay: process.env.NXTP_RETRY_DELAY || configJson.retry?.delay || configFile.retry?.delay || DEFAULT_RETRY_DELAY,
+      maxDelay:
+        process.env.NXTP_MAX_RETRY_DELAY ||
+        configJson.retry?.maxDelay ||
+        configFile.retry?.maxDelay ||
+        DEFAULT_MAX_RETRY_DELAY,
+    },
     subgraphPrefix: process.env.NXTP_SUBGRAPH_PREFIX || configJson.subgraphPrefix || configFile.subgraphPrefix,
+    subgraphHealth: configJson.subgraphHealth || configFile.subgraphHealth,
     environment: process.env.NXTP_ENVIRONMENT || configJson.environment || configFile.environment || "production",
     nomadEnvironment:
       process.env.NXTP_NOMAD_ENVIRONMENT || configJson.nomadEnvironment || configFile.nomadEnvironment || "staging",
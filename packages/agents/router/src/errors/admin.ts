@@ -0,0 +1,7 @@
+import { NxtpError } from "@connext/nxtp-utils";
+
+export class DomainNotSupported extends NxtpError {
+  constructor(context: any = {}) {
+    super("Domain is not configured for this router", context, DomainNotSupported.name);
+  }
+}
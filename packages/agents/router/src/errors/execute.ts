@@ -118,6 +118,36 @@ export class UnableToGetAsset extends ExecuteError {
   }
 }
 
+export class BiddingPaused extends ExecuteError {
+  constructor(context: any = {}) {
+    super("Bidding is paused for this domain or asset", context, BiddingPaused.name, "info", false);
+  }
+}
+
+export class SlippageTooHigh extends ExecuteError {
+  constructor(context: any = {}) {
+    super("Transfer tolerates more slippage than allowed", context, SlippageTooHigh.name, "info", false);
+  }
+}
+
+export class AmountBelowMinimum extends ExecuteError {
+  constructor(context: any = {}) {
+    super("Transfer amount is below the minimum", context, AmountBelowMinimum.name, "info", false);
+  }
+}
+
+export class AmountAboveMaximum extends ExecuteError {
+  constructor(context: any = {}) {
+    super("Transfer amount is above the maximum", context, AmountAboveMaximum.name, "info", false);
+  }
+}
+
+export class TransferUnprofitable extends ExecuteError {
+  constructor(context: any = {}) {
+    super("Transfer fee doesn't cover our costs", context, TransferUnprofitable.name, "info", false);
+  }
+}
+
 export class RetryableBidPostError extends ExecuteError {
   constructor(context: any = {}) {
     super("Could not send bid, retryable", context, RetryableBidPostError.name, undefined, true);
@@ -129,3 +159,9 @@ export class NonRetryableBidPostError extends ExecuteError {
     super("Could not send bid, nonretryable", context, NonRetryableBidPostError.name, undefined, false);
   }
 }
+
+export class SubgraphNotSynced extends ExecuteError {
+  constructor(context: any = {}) {
+    super("Subgraph is behind the chain head, retryable", context, SubgraphNotSynced.name, "warn", true);
+  }
+}
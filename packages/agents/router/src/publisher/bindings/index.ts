@@ -1,2 +1,3 @@
+export { bindMessageQueue } from "./messageQueue";
 export { bindServer } from "./server";
 export { bindSubgraph } from "./subgraph";
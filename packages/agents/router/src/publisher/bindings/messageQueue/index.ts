@@ -0,0 +1,42 @@
+import { createLoggingContext, getNtpTimeSeconds, jsonifyError, OriginTransfer } from "@connext/nxtp-utils";
+
+import { ERROR_HEADER, getAttempts, XCALL_DEAD_LETTER_QUEUE, XCALL_MESSAGE_TYPE } from "../../../setup";
+import { getContext } from "../../publisher";
+
+/**
+ * Consumes the xcall dead-letter queue, storing each dead-lettered xcall in the cache so it can be listed and
+ * replayed through the admin API.
+ */
+export const bindMessageQueue = async (): Promise<void> => {
+  const {
+    logger,
+    adapters: { cache, mqClient },
+  } = getContext();
+
+  mqClient.handle<OriginTransfer>({ queue: XCALL_DEAD_LETTER_QUEUE, type: XCALL_MESSAGE_TYPE }, async (message) => {
+    const { requestContext, methodContext } = createLoggingContext(
+      bindMessageQueue.name,
+      undefined,
+      message.body.transferId,
+    );
+    const headers: Record<string, unknown> = message.properties.headers ?? {};
+    const error = headers[ERROR_HEADER] as string | undefined;
+    const attempts = Math.max(getAttempts(headers), 1);
+
+    try {
+      await cache.deadLetters.addDeadLetter(XCALL_DEAD_LETTER_QUEUE, {
+        transfer: message.body,
+        attempts,
+        error,
+        timestamp: getNtpTimeSeconds(),
+      });
+      logger.warn("Stored dead-lettered xcall", requestContext, methodContext, { error, attempts });
+      message.ack();
+    } catch (err: unknown) {
+      logger.error("Error storing dead-lettered xcall", requestContext, methodContext, jsonifyError(err as Error));
+      message.nack();
+    }
+  });
+
+  mqClient.startSubscription(XCALL_DEAD_LETTER_QUEUE);
+};
@@ -1,8 +1,42 @@
-import { jsonifyError, NxtpError, ClearCacheRequestSchema, ClearCacheRequest, AdminRequest } from "@connext/nxtp-utils";
+import {
+  jsonifyError,
+  NxtpError,
+  ClearCacheRequestSchema,
+  ClearCacheRequest,
+  AdminRequest,
+  AdminSchema,
+  PauseBiddingRequest,
+  PauseBiddingRequestSchema,
+  ResumeBiddingRequest,
+  ResumeBiddingRequestSchema,
+  PausedBiddingResponseSchema,
+  RouterBalancesResponseSchema,
+  AddLiquidityForRequest,
+  AddLiquidityForRequestSchema,
+  AddLiquidityForResponseSchema,
+  RemoveLiquidityRequest,
+  RemoveLiquidityRequestSchema,
+  RemoveLiquidityResponseSchema,
+  DeadLettersResponseSchema,
+  ReplayDeadLettersRequest,
+  ReplayDeadLettersRequestSchema,
+  ReplayDeadLettersResponseSchema,
+  createLoggingContext,
+} from "@connext/nxtp-utils";
 import fastify, { FastifyInstance, FastifyReply } from "fastify";
 import { register } from "prom-client";
 
 import { getContext } from "../../publisher";
+import {
+  addLiquidityForRouter,
+  getBalances,
+  getDeadLetters,
+  getPausedBidding,
+  pauseBidding,
+  removeRouterLiquidity,
+  replayDeadLetters,
+  resumeBidding,
+} from "../../operations";
 
 export const bindServer = async (): Promise<FastifyInstance> => {
   const { config, logger } = getContext();
@@ -19,6 +53,54 @@ export const bindServer = async (): Promise<FastifyInstance> => {
     async (req, res) => api.auth.admin(req.body, res, api.post.clearCache),
   );
 
+  server.post<{ Body: PauseBiddingRequest }>(
+    "/pause",
+    { schema: { body: PauseBiddingRequestSchema, response: { 200: PausedBiddingResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, (res) => api.post.pause(req.body, res)),
+  );
+
+  server.post<{ Body: ResumeBiddingRequest }>(
+    "/resume",
+    { schema: { body: ResumeBiddingRequestSchema, response: { 200: PausedBiddingResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, (res) => api.post.resume(req.body, res)),
+  );
+
+  server.post<{ Body: AdminRequest }>(
+    "/paused",
+    { schema: { body: AdminSchema, response: { 200: PausedBiddingResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, api.post.paused),
+  );
+
+  server.post<{ Body: AdminRequest }>(
+    "/balances",
+    { schema: { body: AdminSchema, response: { 200: RouterBalancesResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, api.post.balances),
+  );
+
+  server.post<{ Body: AddLiquidityForRequest }>(
+    "/add-liquidity-for",
+    { schema: { body: AddLiquidityForRequestSchema, response: { 200: AddLiquidityForResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, (res) => api.post.addLiquidityFor(req.body, res)),
+  );
+
+  server.post<{ Body: RemoveLiquidityRequest }>(
+    "/remove-liquidity",
+    { schema: { body: RemoveLiquidityRequestSchema, response: { 200: RemoveLiquidityResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, (res) => api.post.removeLiquidity(req.body, res)),
+  );
+
+  server.post<{ Body: AdminRequest }>(
+    "/dead-letters",
+    { schema: { body: AdminSchema, response: { 200: DeadLettersResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, api.post.deadLetters),
+  );
+
+  server.post<{ Body: ReplayDeadLettersRequest }>(
+    "/dead-letters/replay",
+    { schema: { body: ReplayDeadLettersRequestSchema, response: { 200: ReplayDeadLettersResponseSchema } } },
+    async (req, res) => api.auth.admin(req.body, res, (res) => api.post.replayDeadLetters(req.body, res)),
+  );
+
   const address = await server.listen({ port: config.server.pub.port, host: config.server.pub.host });
   logger.info(`Server listening at ${address}`);
   return server;
@@ -59,5 +141,71 @@ export const api = {
       await cache.transfers.clear();
       return res.status(200).send();
     },
+    pause: async (body: PauseBiddingRequest, res: FastifyReply) => {
+      return res.status(200).send(await pauseBidding(body.domain, body.assetId));
+    },
+    resume: async (body: ResumeBiddingRequest, res: FastifyReply) => {
+      return res.status(200).send(await resumeBidding(body.domain, body.assetId));
+    },
+    paused: async (res: FastifyReply) => {
+      return res.status(200).send(await getPausedBidding());
+    },
+    balances: async (res: FastifyReply) => {
+      const { logger } = getContext();
+      try {
+        return res.status(200).send(await getBalances());
+      } catch (e: unknown) {
+        const json = jsonifyError(e as NxtpError);
+        logger.error("Failed to get balances", undefined, undefined, json);
+        return res.status(500).send(json);
+      }
+    },
+    addLiquidityFor: async (body: AddLiquidityForRequest, res: FastifyReply) => {
+      const { logger } = getContext();
+      const { requestContext, methodContext } = createLoggingContext("POST /add-liquidity-for endpoint");
+      try {
+        const transactionHash = await addLiquidityForRouter(
+          body.chainId,
+          body.assetId,
+          body.amount,
+          body.routerAddress,
+          requestContext,
+        );
+        return res.status(200).send({ transactionHash });
+      } catch (e: unknown) {
+        const json = jsonifyError(e as NxtpError);
+        logger.error("Failed to add liquidity", requestContext, methodContext, json, {
+          body: { ...body, adminToken: "*" },
+        });
+        return res.status(500).send(json);
+      }
+    },
+    removeLiquidity: async (body: RemoveLiquidityRequest, res: FastifyReply) => {
+      const { logger } = getContext();
+      const { requestContext, methodContext } = createLoggingContext("POST /remove-liquidity endpoint");
+      try {
+        const transactionHash = await removeRouterLiquidity(
+          body.chainId,
+          body.assetId,
+          body.amount,
+          body.recipientAddress,
+          requestContext,
+        );
+        return res.status(200).send({ transactionHash });
+      } catch (e: unknown) {
+        const json = jsonifyError(e as NxtpError);
+        logger.error("Failed to remove liquidity", requestContext, methodContext, json, {
+          body: { ...body, adminToken: "*" },
+        });
+        return res.status(500).send(json);
+      }
+    },
+    deadLetters: async (res: FastifyReply) => {
+      return res.status(200).send(await getDeadLetters());
+    },
+    replayDeadLetters: async (body: ReplayDeadLettersRequest, res: FastifyReply) => {
+      const { requestContext } = createLoggingContext("POST /dead-letters/replay endpoint");
+      return res.status(200).send(await replayDeadLetters(body.transferIds, requestContext));
+    },
   },
 };
@@ -1,7 +1,7 @@
 import { createLoggingContext, jsonifyError } from "@connext/nxtp-utils";
 import interval from "interval-promise";
 
-import { getXCalls } from "../../operations/getXCalls";
+import { getXCalls, releaseReservations } from "../../operations";
 import { getContext } from "../../publisher";
 
 export const bindSubgraph = async (_pollInterval?: number) => {
@@ -22,6 +22,16 @@ export const bindSubgraph = async (_pollInterval?: number) => {
           jsonifyError(e as Error),
         );
       }
+      try {
+        await releaseReservations();
+      } catch (e: unknown) {
+        logger.error(
+          "Error releasing reservations, waiting for next loop",
+          requestContext,
+          methodContext,
+          jsonifyError(e as Error),
+        );
+      }
     }
   }, pollInterval);
 };
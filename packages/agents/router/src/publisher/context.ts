@@ -2,6 +2,9 @@ import { ChainData, Logger } from "@connext/nxtp-utils";
 import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
 import { StoreManager } from "@connext/nxtp-adapters-cache";
 import Rabbit from "foo-foo-mq";
+import { Wallet } from "ethers";
+import { Web3Signer } from "@connext/nxtp-adapters-web3signer";
+import { ConnextContractInterfaces, TransactionService } from "@connext/nxtp-txservice";
 
 import { NxtpRouterConfig } from "../config";
 
@@ -9,11 +12,15 @@ export type AppContext = {
   logger: Logger;
   adapters: {
     // Stateful interfaces for peripherals.
+    wallet: Wallet | Web3Signer; // Used for signing liquidity management txs triggered through the admin API.
     cache: StoreManager; // Used to cache important data locally.
     subgraph: SubgraphReader; // Aggregates subgraphs in a FallbackSubgraph for each chain.
+    // For reading and executing txs on blockchain using RPC providers. The publisher is the only router process that
+    // sends txs, so the signer's nonces are tracked in one place; run a single publisher per signer.
+    txservice: TransactionService;
+    contracts: ConnextContractInterfaces; // Used to read and write to smart contracts.
     mqClient: typeof Rabbit;
   };
   config: NxtpRouterConfig;
   chainData: Map<string, ChainData>;
-  routerAddress: string;
 };
@@ -0,0 +1,219 @@
+import { BigNumber, constants } from "ethers";
+import {
+  createLoggingContext,
+  getDomainFromChainId,
+  PausedBiddingResponse,
+  RequestContext,
+  RouterBalancesResponse,
+} from "@connext/nxtp-utils";
+
+import { DomainNotSupported } from "../../errors";
+import { getContext } from "../publisher";
+
+/**
+ * Pauses bidding on the given destination domain, or only for the given asset on that domain. The paused state
+ * is kept in the cache, so it's shared with the subscriber and survives restarts.
+ *
+ * @param domain - The destination domain.
+ * @param asset - (optional) The local asset on the destination domain.
+ * @returns Everything bidding is currently paused for.
+ */
+export const pauseBidding = async (domain: string, asset?: string): Promise<PausedBiddingResponse> => {
+  const {
+    adapters: { cache, wallet },
+    logger,
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+  const { requestContext, methodContext } = createLoggingContext(pauseBidding.name);
+
+  await cache.liquidity.pause(routerAddress, domain, asset);
+  logger.info("Paused bidding", requestContext, methodContext, { domain, asset });
+  return await getPausedBidding();
+};
+
+/**
+ * Resumes bidding on the given destination domain, or for the given asset on that domain.
+ *
+ * @param domain - The destination domain.
+ * @param asset - (optional) The local asset on the destination domain.
+ * @returns Everything bidding is still paused for.
+ */
+export const resumeBidding = async (domain: string, asset?: string): Promise<PausedBiddingResponse> => {
+  const {
+    adapters: { cache, wallet },
+    logger,
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+  const { requestContext, methodContext } = createLoggingContext(resumeBidding.name);
+
+  await cache.liquidity.resume(routerAddress, domain, asset);
+  logger.info("Resumed bidding", requestContext, methodContext, { domain, asset });
+  return await getPausedBidding();
+};
+
+export const getPausedBidding = async (): Promise<PausedBiddingResponse> => {
+  const {
+    adapters: { cache, wallet },
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+  return { paused: await cache.liquidity.getPaused(routerAddress) };
+};
+
+/**
+ * Gets the router's native (gas) balance and liquidity in each asset on every configured domain.
+ */
+export const getBalances = async (): Promise<RouterBalancesResponse> => {
+  const {
+    adapters: { subgraph, txservice, wallet },
+    config,
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+
+  const balances: RouterBalancesResponse = {};
+  await Promise.all(
+    Object.keys(config.chains).map(async (domain) => {
+      const [native, liquidity] = await Promise.all([
+        txservice.getBalance(+domain, routerAddress),
+        subgraph.getAssetBalances(domain, routerAddress),
+      ]);
+      balances[domain] = {
+        native: native.toString(),
+        liquidity: Object.fromEntries(
+          Object.entries(liquidity).map(([asset, amount]) => [asset.toLowerCase(), amount.toString()]),
+        ),
+      };
+    }),
+  );
+  return balances;
+};
+
+/**
+ * Adds liquidity for a router through the Connext contract, approving the contract to spend the asset first
+ * if needed. Like every tx the router sends, it's sent by the publisher's TransactionService, which tracks the
+ * signer's nonces; don't send txs from the router's signer anywhere else while it runs.
+ *
+ * @param chainId - The chain to add liquidity on.
+ * @param asset - The local asset.
+ * @param amount - The amount to add, in the asset's smallest unit.
+ * @param router - (optional) The router to add liquidity for. Defaults to this router.
+ * @returns The hash of the transaction that added liquidity.
+ */
+export const addLiquidityForRouter = async (
+  chainId: number,
+  asset: string,
+  amount: string,
+  router: string | undefined,
+  _requestContext: RequestContext,
+): Promise<string> => {
+  const {
+    adapters: { txservice, contracts, wallet },
+    logger,
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+  const { requestContext, methodContext } = createLoggingContext(addLiquidityForRouter.name, _requestContext);
+
+  const { domain, connext } = await getConnextForChain(chainId);
+  const value = BigNumber.from(amount);
+  const isNative = asset === constants.AddressZero;
+
+  if (!isNative) {
+    const encodedAllowance = await txservice.readTx({
+      chainId: +domain,
+      to: asset,
+      data: contracts.erc20.encodeFunctionData("allowance", [routerAddress, connext]),
+    });
+    const [allowance] = contracts.erc20.decodeFunctionResult("allowance", encodedAllowance);
+    if (BigNumber.from(allowance).lt(value)) {
+      logger.info("Approving Connext to spend asset", requestContext, methodContext, { domain, asset, amount });
+      await txservice.sendTx(
+        {
+          chainId: +domain,
+          to: asset,
+          data: contracts.erc20.encodeFunctionData("approve", [connext, value]),
+          value: constants.Zero,
+        },
+        requestContext,
+      );
+    }
+  }
+
+  const receipt = await txservice.sendTx(
+    {
+      chainId: +domain,
+      to: connext,
+      data: contracts.connext.encodeFunctionData("addRouterLiquidityFor", [value, asset, router ?? routerAddress]),
+      value: isNative ? value : constants.Zero,
+    },
+    requestContext,
+  );
+  logger.info("Added liquidity", requestContext, methodContext, {
+    domain,
+    asset,
+    amount,
+    router: router ?? routerAddress,
+    transactionHash: receipt.transactionHash,
+  });
+  return receipt.transactionHash;
+};
+
+/**
+ * Removes this router's liquidity through the Connext contract.
+ *
+ * @param chainId - The chain to remove liquidity on.
+ * @param asset - The local asset.
+ * @param amount - The amount to remove, in the asset's smallest unit.
+ * @param recipient - (optional) The address to send the liquidity to. Defaults to this router.
+ * @returns The hash of the transaction that removed liquidity.
+ */
+export const removeRouterLiquidity = async (
+  chainId: number,
+  asset: string,
+  amount: string,
+  recipient: string | undefined,
+  _requestContext: RequestContext,
+): Promise<string> => {
+  const {
+    adapters: { txservice, contracts, wallet },
+    logger,
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+  const { requestContext, methodContext } = createLoggingContext(removeRouterLiquidity.name, _requestContext);
+
+  const { domain, connext } = await getConnextForChain(chainId);
+  const receipt = await txservice.sendTx(
+    {
+      chainId: +domain,
+      to: connext,
+      data: contracts.connext.encodeFunctionData("removeRouterLiquidity", [
+        BigNumber.from(amount),
+        asset,
+        recipient ?? routerAddress,
+      ]),
+      value: constants.Zero,
+    },
+    requestContext,
+  );
+  logger.info("Removed liquidity", requestContext, methodContext, {
+    domain,
+    asset,
+    amount,
+    recipient: recipient ?? routerAddress,
+    transactionHash: receipt.transactionHash,
+  });
+  return receipt.transactionHash;
+};
+
+/**
+ * Gets the domain and Connext contract address for the given chain.
+ *
+ * @throws DomainNotSupported if the chain isn't configured.
+ */
+const getConnextForChain = async (chainId: number): Promise<{ domain: string; connext: string }> => {
+  const { config, chainData } = getContext();
+  const domain = await getDomainFromChainId(chainId, chainData);
+  const connext = config.chains[domain]?.deployments.connext;
+  if (!connext) {
+    throw new DomainNotSupported({ chainId, domain });
+  }
+  return { domain, connext };
+};
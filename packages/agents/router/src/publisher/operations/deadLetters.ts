@@ -0,0 +1,79 @@
+import {
+  createLoggingContext,
+  DeadLettersResponse,
+  jsonifyError,
+  OriginTransfer,
+  ReplayDeadLettersResponse,
+  RequestContext,
+} from "@connext/nxtp-utils";
+
+import { MQ_EXCHANGE, XCALL_DEAD_LETTER_QUEUE, XCALL_MESSAGE_TYPE, XCALL_QUEUE } from "../../setup";
+import { getContext } from "../publisher";
+
+/**
+ * Gets the xcalls that were dead-lettered, oldest first.
+ */
+export const getDeadLetters = async (): Promise<DeadLettersResponse> => {
+  const {
+    adapters: { cache },
+  } = getContext();
+
+  const deadLetters = await cache.deadLetters.getDeadLetters(XCALL_DEAD_LETTER_QUEUE);
+  return {
+    deadLetters: Object.entries(deadLetters)
+      .map(([transferId, { transfer, attempts, timestamp, error }]) => ({
+        transferId,
+        originDomain: transfer.xparams.originDomain,
+        destinationDomain: transfer.xparams.destinationDomain,
+        attempts,
+        timestamp,
+        error,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp),
+  };
+};
+
+/**
+ * Republishes dead-lettered xcalls to the xcall queue, so the subscriber attempts to bid on them again from scratch
+ * (e.g. once the config problem that got them rejected has been fixed).
+ *
+ * @param transferIds - The IDs of the transfers to replay.
+ * @returns The transfers that were replayed, and those that had no dead-lettered xcall.
+ */
+export const replayDeadLetters = async (
+  transferIds: string[],
+  _requestContext: RequestContext,
+): Promise<ReplayDeadLettersResponse> => {
+  const {
+    adapters: { cache, mqClient },
+    logger,
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(replayDeadLetters.name, _requestContext);
+
+  const replayed: string[] = [];
+  const missing: string[] = [];
+  for (const transferId of transferIds) {
+    const deadLetter = await cache.deadLetters.getDeadLetter(XCALL_DEAD_LETTER_QUEUE, transferId);
+    if (!deadLetter) {
+      missing.push(transferId);
+      continue;
+    }
+    try {
+      await mqClient.publish<OriginTransfer>(MQ_EXCHANGE, {
+        body: deadLetter.transfer as OriginTransfer,
+        type: XCALL_MESSAGE_TYPE,
+        routingKey: XCALL_QUEUE,
+      });
+      await cache.deadLetters.removeDeadLetters(XCALL_DEAD_LETTER_QUEUE, [transferId]);
+      replayed.push(transferId);
+    } catch (err: unknown) {
+      // Leave the dead letter in place so the replay can be retried.
+      logger.error("Error replaying dead-lettered xcall", requestContext, methodContext, jsonifyError(err as Error), {
+        transferId,
+      });
+    }
+  }
+
+  logger.info("Replayed dead-lettered xcalls", requestContext, methodContext, { replayed, missing });
+  return { replayed, missing };
+};
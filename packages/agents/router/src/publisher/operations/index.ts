@@ -1 +1,11 @@
 export { getXCalls } from "./getXCalls";
+export { releaseReservations } from "./releaseReservations";
+export {
+  addLiquidityForRouter,
+  getBalances,
+  getPausedBidding,
+  pauseBidding,
+  removeRouterLiquidity,
+  resumeBidding,
+} from "./admin";
+export { getDeadLetters, replayDeadLetters } from "./deadLetters";
@@ -0,0 +1,43 @@
+import { createLoggingContext, SubgraphQueryByTransferIDsMetaParams } from "@connext/nxtp-utils";
+
+import { getContext } from "../publisher";
+
+/**
+ * Releases liquidity reserved for in-flight bids once the transfers they were made for have been
+ * executed on the destination domain (whether or not our bid was the one selected). Reservations for
+ * transfers that are never executed are released by the cache once they expire.
+ */
+export const releaseReservations = async () => {
+  const {
+    adapters: { cache, subgraph, wallet },
+    logger,
+  } = getContext();
+  const routerAddress = await wallet.getAddress();
+  const { requestContext, methodContext } = createLoggingContext(releaseReservations.name);
+
+  const reservations = await cache.liquidity.getReservations(routerAddress);
+  const transferIdsByDomain: Map<string, string[]> = new Map();
+  for (const [transferId, { domain }] of Object.entries(reservations)) {
+    transferIdsByDomain.set(domain, [...(transferIdsByDomain.get(domain) ?? []), transferId]);
+  }
+  if (transferIdsByDomain.size === 0) {
+    return;
+  }
+
+  const latestBlockNumbers = await subgraph.getLatestBlockNumber([...transferIdsByDomain.keys()]);
+  const subgraphQueryMetaParams: Map<string, SubgraphQueryByTransferIDsMetaParams> = new Map();
+  for (const [domain, transferIDs] of transferIdsByDomain.entries()) {
+    subgraphQueryMetaParams.set(domain, {
+      maxBlockNumber: latestBlockNumbers.get(domain) ?? 0,
+      transferIDs,
+    });
+  }
+
+  const executed = await subgraph.getDestinationTransfersById(subgraphQueryMetaParams);
+  await Promise.all(executed.map((transfer) => cache.liquidity.releaseLiquidity(routerAddress, transfer.transferId)));
+
+  logger.debug("Released reservations for executed transfers", requestContext, methodContext, {
+    reserved: Object.keys(reservations).length,
+    released: executed.map((transfer) => transfer.transferId),
+  });
+};
@@ -1,12 +1,13 @@
+import { Wallet } from "ethers";
 import { createMethodContext, createRequestContext, getChainData, Logger } from "@connext/nxtp-utils";
-import { contractDeployments } from "@connext/nxtp-txservice";
+import { contractDeployments, getContractInterfaces, TransactionService } from "@connext/nxtp-txservice";
 
 import { getConfig, NxtpRouterConfig } from "../config";
 import { bindMetrics } from "../bindings";
-import { setupCache, setupMq, setupSubgraphReader } from "../setup";
+import { setupCache, setupMq, setupRotation, setupSubgraphReader, setupWallet } from "../setup";
 
 import { AppContext } from "./context";
-import { bindSubgraph, bindServer } from "./bindings";
+import { bindMessageQueue, bindSubgraph, bindServer } from "./bindings";
 
 // AppContext instance used for interacting with adapters, config, etc.
 const context: AppContext = {} as any;
@@ -24,10 +25,14 @@ export const makePublisher = async (_configOverride?: NxtpRouterConfig) => {
     context.chainData = await getChainData();
     context.config = _configOverride ?? (await getConfig(context.chainData, contractDeployments));
 
+    /// MARK - Signer
+    context.adapters.wallet = setupWallet(context.config);
+    const routerAddress = await context.adapters.wallet.getAddress();
+
     /// MARK - Logger
     context.logger = new Logger({
       level: context.config.logLevel,
-      name: context.routerAddress,
+      name: routerAddress,
       formatters: {
         level: (label) => {
           return { level: label.toUpperCase() };
@@ -39,6 +44,18 @@ export const makePublisher = async (_configOverride?: NxtpRouterConfig) => {
     });
 
     /// MARK - Adapters
+    context.adapters.cache = await setupCache(
+      context.config.redis.host,
+      context.config.redis.port,
+      context.logger,
+      requestContext,
+    );
+    context.adapters.txservice = new TransactionService(
+      context.logger.child({ module: "TransactionService", level: context.config.logLevel }),
+      context.config.chains,
+      context.adapters.wallet as Wallet,
+    );
+    // The subgraph endpoints are checked against the chain head as read by the txservice.
     context.adapters.subgraph = await setupSubgraphReader(
       context.logger,
       context.chainData,
@@ -46,15 +63,22 @@ export const makePublisher = async (_configOverride?: NxtpRouterConfig) => {
       context.config.environment,
       context.config.subgraphPrefix,
       requestContext,
+      context.config.subgraphHealth
+        ? { config: context.config.subgraphHealth, chainReader: context.adapters.txservice }
+        : undefined,
     );
-    context.adapters.cache = await setupCache(
-      context.config.redis.host,
-      context.config.redis.port,
+    setupRotation(
+      context.adapters.wallet,
+      context.config,
+      context.adapters.subgraph,
+      context.adapters.cache,
       context.logger,
       requestContext,
     );
+    context.adapters.contracts = getContractInterfaces();
     context.adapters.mqClient = await setupMq(
       context.config.messageQueue.uri as string,
+      context.config.retry,
       context.logger,
       requestContext,
     );
@@ -62,6 +86,7 @@ export const makePublisher = async (_configOverride?: NxtpRouterConfig) => {
     /// MARK - Bindings
     await bindMetrics("publisher");
     await bindSubgraph();
+    await bindMessageQueue();
     await bindServer();
 
     context.logger.info("Bindings initialized.", requestContext, methodContext);
@@ -1,11 +1,48 @@
 import { StoreManager } from "@connext/nxtp-adapters-cache";
-import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
-import { ChainData, createMethodContext, Logger, RequestContext } from "@connext/nxtp-utils";
+import { SubgraphChainReader, SubgraphHealthConfig, SubgraphReader } from "@connext/nxtp-adapters-subgraph";
+import { Web3Signer } from "@connext/nxtp-adapters-web3signer";
+import { ChainData, createMethodContext, jsonifyError, Logger, RequestContext } from "@connext/nxtp-utils";
+import { Wallet } from "ethers";
 import rabbit from "foo-foo-mq";
 
+import { NxtpRouterConfig, RetryConfig } from "./config";
+
 export const XCALL_QUEUE = "xcalls";
 export const MQ_EXCHANGE = "router";
 export const XCALL_MESSAGE_TYPE = "xcall";
+// Messages that failed with a retryable error wait out their retry delay in a retry queue (which has no consumers),
+// after which they expire and are dead-lettered back to the router exchange. Each retry delay gets its own queue, as
+// RabbitMQ only expires messages from the head of a queue.
+export const RETRY_EXCHANGE = "router.retry";
+export const XCALL_RETRY_QUEUE = "xcalls.retry";
+// Messages that can't be handled (non-retryable error, or out of retries) end up in the dead-letter queue, from
+// which they can be inspected and replayed through the admin API.
+export const DEAD_LETTER_EXCHANGE = "router.dead-letter";
+export const XCALL_DEAD_LETTER_QUEUE = "xcalls.dead-letter";
+// Headers carrying the number of attempts made to handle a message, and the reason the last attempt failed.
+export const ATTEMPTS_HEADER = "x-attempts";
+export const ERROR_HEADER = "x-error";
+
+/**
+ * Gets the number of attempts already made to handle a message, from its headers.
+ */
+export const getAttempts = (headers: Record<string, unknown> | undefined): number => {
+  const attempts = parseInt(String(headers?.[ATTEMPTS_HEADER] ?? "0"));
+  return isNaN(attempts) ? 0 : attempts;
+};
+
+/**
+ * Gets the time (in seconds) to wait before redelivering a message after the given number of failed attempts.
+ */
+export const getRetryDelay = (attempts: number, retry: RetryConfig): number => {
+  return Math.min(retry.delay * 2 ** (attempts - 1), retry.maxDelay);
+};
+
+/**
+ * Gets the name of the retry queue holding messages for the given retry delay (in seconds), which is also the key
+ * it's bound to on the retry exchange.
+ */
+export const getRetryQueue = (delay: number): string => `${XCALL_RETRY_QUEUE}.${delay}`;
 
 export const setupCache = async (
   host: string | undefined,
@@ -28,17 +65,49 @@ export const setupCache = async (
   return cacheInstance;
 };
 
-export const setupMq = async (uri: string, logger: Logger, requestContext: RequestContext): Promise<typeof rabbit> => {
+export const setupMq = async (
+  uri: string,
+  retry: RetryConfig,
+  logger: Logger,
+  requestContext: RequestContext,
+): Promise<typeof rabbit> => {
   const methodContext = createMethodContext("setupMq");
   logger.info("Message queue setup in progress...", requestContext, methodContext, { uri });
+  // A message is retried after each of its first `limit - 1` failed attempts.
+  const retryDelays = [...new Set(Array.from({ length: retry.limit - 1 }, (_, i) => getRetryDelay(i + 1, retry)))];
   await rabbit.configure({
     connection: { uri },
-    queues: [{ name: XCALL_QUEUE }],
-    exchanges: [{ name: MQ_EXCHANGE, type: "direct" }],
-    bindings: [{ exchange: MQ_EXCHANGE, target: XCALL_QUEUE, keys: [XCALL_QUEUE] }],
+    // NOTE: The xcall queue is declared as it always has been, as RabbitMQ won't redeclare an existing queue with
+    // different arguments. Messages that can't be republished to the retry or dead-letter exchanges are nacked, rather
+    // than dead-lettered through the queue itself.
+    queues: [
+      { name: XCALL_QUEUE },
+      ...retryDelays.map((delay) => ({
+        name: getRetryQueue(delay),
+        messageTtl: delay * 1_000,
+        deadLetter: MQ_EXCHANGE,
+        deadLetterRoutingKey: XCALL_QUEUE,
+      })),
+      { name: XCALL_DEAD_LETTER_QUEUE },
+    ],
+    exchanges: [
+      { name: MQ_EXCHANGE, type: "direct" },
+      { name: RETRY_EXCHANGE, type: "direct" },
+      { name: DEAD_LETTER_EXCHANGE, type: "direct" },
+    ],
+    bindings: [
+      { exchange: MQ_EXCHANGE, target: XCALL_QUEUE, keys: [XCALL_QUEUE] },
+      ...retryDelays.map((delay) => ({
+        exchange: RETRY_EXCHANGE,
+        target: getRetryQueue(delay),
+        keys: [getRetryQueue(delay)],
+      })),
+      { exchange: DEAD_LETTER_EXCHANGE, target: XCALL_DEAD_LETTER_QUEUE, keys: [XCALL_QUEUE] },
+    ],
   });
   logger.info("Message queue setup is done!", requestContext, methodContext, {
     uri,
+    retryDelays,
   });
   return rabbit;
 };
@@ -50,6 +119,7 @@ export const setupSubgraphReader = async (
   environment: "staging" | "production" | undefined,
   subgraphPrefix: string | undefined,
   requestContext: RequestContext,
+  health?: { config: SubgraphHealthConfig; chainReader: SubgraphChainReader },
 ): Promise<SubgraphReader> => {
   const methodContext = createMethodContext(setupSubgraphReader.name);
 
@@ -59,8 +129,18 @@ export const setupSubgraphReader = async (
       allowedChainData.set(allowedDomain, chainData.get(allowedDomain)!);
     }
   }
-  logger.info("Subgraph reader setup in progress...", requestContext, methodContext, { allowedChainData });
-  const subgraphReader = await SubgraphReader.create(allowedChainData, environment, subgraphPrefix);
+  logger.info("Subgraph reader setup in progress...", requestContext, methodContext, {
+    allowedChainData,
+    health: health?.config,
+  });
+  // Every bid looks up the transfer's assets and our liquidity, so cache those queries.
+  const subgraphReader = await SubgraphReader.create(
+    allowedChainData,
+    environment,
+    subgraphPrefix,
+    { enabled: true },
+    health,
+  );
 
   // Pull support for domains that don't have a subgraph.
   const supported: Record<string, boolean> = subgraphReader.supported;
@@ -75,3 +155,62 @@ export const setupSubgraphReader = async (
 
   return subgraphReader;
 };
+
+export const setupWallet = (config: NxtpRouterConfig): Wallet | Web3Signer => {
+  return config.mnemonic
+    ? Wallet.fromMnemonic(config.mnemonic)
+    : new Web3Signer(config.web3SignerUrl!, undefined, { identifier: config.web3SignerKey });
+};
+
+/**
+ * Starts the configured web3signer key rotation, once the subgraph and cache it relies on are set up. The publisher
+ * and subscriber each run the rotation on their own signer, and read the router address from the signer for every
+ * operation. Whichever switches first moves the router's reservations and paused bidding over to the new address;
+ * the other moves anything added under the previous address in the meantime once it switches too.
+ */
+export const setupRotation = (
+  wallet: Wallet | Web3Signer,
+  config: NxtpRouterConfig,
+  subgraph: SubgraphReader,
+  cache: StoreManager,
+  logger: Logger,
+  requestContext: RequestContext,
+) => {
+  const methodContext = createMethodContext(setupRotation.name);
+  if (!(wallet instanceof Web3Signer) || !config.web3SignerRotation) {
+    return;
+  }
+
+  wallet.rotate({
+    identifier: config.web3SignerRotation.key,
+    from: config.web3SignerRotation.from,
+    // Bids are only valid once the new key's address is an approved router everywhere we bid.
+    isRegistered: async (address: string) =>
+      (await Promise.all(Object.keys(config.chains).map((domain) => subgraph.isRouterApproved(domain, address)))).every(
+        (approved) => approved,
+      ),
+    onRotated: (address: string, previous: string) => {
+      logger.info("Rotated web3signer key", requestContext, methodContext, { previous, address });
+      cache.liquidity
+        .moveRouter(previous, address)
+        .then((moved) => {
+          if (!moved) {
+            logger.warn("Timed out moving liquidity state to the new key", requestContext, methodContext, {
+              previous,
+              address,
+            });
+          }
+        })
+        .catch((error: unknown) => {
+          logger.error(
+            "Error moving liquidity state to the new key",
+            requestContext,
+            methodContext,
+            jsonifyError(error as Error),
+            { previous, address },
+          );
+        });
+    },
+  });
+  logger.info("Web3signer key rotation set up", requestContext, methodContext, { ...config.web3SignerRotation });
+};
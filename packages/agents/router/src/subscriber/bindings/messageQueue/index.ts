@@ -1,17 +1,46 @@
 import { createLoggingContext, jsonifyError, OriginTransfer } from "@connext/nxtp-utils";
 
-import { ExecuteError } from "../../../errors";
-import { XCALL_MESSAGE_TYPE, XCALL_QUEUE } from "../../../setup";
+import { recordBidRejected, recordXCallReceived } from "../../../bindings";
+import {
+  AmountAboveMaximum,
+  AmountBelowMinimum,
+  BiddingPaused,
+  ExecuteError,
+  SlippageTooHigh,
+  TransferUnprofitable,
+} from "../../../errors";
+import {
+  ATTEMPTS_HEADER,
+  DEAD_LETTER_EXCHANGE,
+  ERROR_HEADER,
+  getAttempts,
+  getRetryDelay,
+  getRetryQueue,
+  RETRY_EXCHANGE,
+  XCALL_MESSAGE_TYPE,
+  XCALL_QUEUE,
+} from "../../../setup";
 import { execute } from "../../operations";
 import { getContext } from "../../subscriber";
 
 // Ought to be configured properly for each network; we consult the chain config below.
 export const DEFAULT_SAFE_CONFIRMATIONS = 5;
 
+// Errors thrown when we choose not to bid on a transfer. These are expected, so the message is acked rather than
+// dead-lettered.
+export const SKIPPED_ERRORS = [
+  BiddingPaused.name,
+  SlippageTooHigh.name,
+  AmountBelowMinimum.name,
+  AmountAboveMaximum.name,
+  TransferUnprofitable.name,
+];
+
 export const bindMessageQueue = async (): Promise<void> => {
   const {
     logger,
     adapters: { mqClient },
+    config,
   } = getContext();
 
   mqClient.handle<OriginTransfer>({ queue: XCALL_QUEUE, type: XCALL_MESSAGE_TYPE }, async (message) => {
@@ -21,22 +50,57 @@ export const bindMessageQueue = async (): Promise<void> => {
       message.body.transferId,
     );
     logger.info("Handling message", requestContext, methodContext, { message });
+    recordXCallReceived(message.body);
 
     try {
       await execute(message.body, requestContext);
       message.ack();
     } catch (err: unknown) {
-      if ((err as ExecuteError).retryable) {
-        logger.error("Error handling message, retryable", requestContext, methodContext, jsonifyError(err as Error));
+      recordBidRejected(message.body, err);
+      if (SKIPPED_ERRORS.includes((err as ExecuteError).type)) {
+        logger.info("Skipped transfer", requestContext, methodContext, { reason: (err as ExecuteError).type });
+        message.ack();
+        return;
+      }
+      const attempts = getAttempts(message.properties.headers as Record<string, unknown> | undefined) + 1;
+      const retryable = (err as ExecuteError).retryable && attempts < config.retry.limit;
+      try {
+        if (retryable) {
+          const delay = getRetryDelay(attempts, config.retry);
+          logger.error("Error handling message, retrying", requestContext, methodContext, jsonifyError(err as Error), {
+            attempts,
+            delay,
+          });
+          // The message expires from the retry queue after the delay, at which point it's redelivered.
+          await mqClient.publish<OriginTransfer>(RETRY_EXCHANGE, {
+            body: message.body,
+            type: XCALL_MESSAGE_TYPE,
+            routingKey: getRetryQueue(delay),
+            headers: { [ATTEMPTS_HEADER]: attempts.toString() },
+          });
+        } else {
+          logger.error(
+            "Error handling message, dead-lettering",
+            requestContext,
+            methodContext,
+            jsonifyError(err as Error),
+            { attempts },
+          );
+          await mqClient.publish<OriginTransfer>(DEAD_LETTER_EXCHANGE, {
+            body: message.body,
+            type: XCALL_MESSAGE_TYPE,
+            routingKey: XCALL_QUEUE,
+            headers: {
+              [ATTEMPTS_HEADER]: attempts.toString(),
+              [ERROR_HEADER]: `${(err as ExecuteError).type ?? (err as Error).name}: ${(err as Error).message}`,
+            },
+          });
+        }
+        message.ack();
+      } catch (_err: unknown) {
+        // Requeue the message, so it's handled again (counting as the same attempt).
+        logger.error("Error republishing message, nacking", requestContext, methodContext, jsonifyError(_err as Error));
         message.nack();
-      } else {
-        logger.error(
-          "Error handling message, not retryable",
-          requestContext,
-          methodContext,
-          jsonifyError(err as Error),
-        );
-        message.reject();
       }
     }
   });
@@ -1,4 +1,5 @@
 import { jsonifyError, NxtpError, AdminRequest } from "@connext/nxtp-utils";
+import { Web3Signer } from "@connext/nxtp-adapters-web3signer";
 import fastify, { FastifyInstance, FastifyReply } from "fastify";
 import { register } from "prom-client";
 
@@ -11,6 +12,8 @@ export const bindServer = async (): Promise<FastifyInstance> => {
 
   server.get("/ping", (_, res) => api.get.ping(res));
 
+  server.get("/health", (_, res) => api.get.health(res));
+
   server.get("/config", (_, res) => api.get.config(res));
 
   server.get("/metrics", (_, res) => api.get.metrics(res));
@@ -35,6 +38,14 @@ export const api = {
     ping: async (res: FastifyReply) => {
       return res.status(200).send("pong\n");
     },
+    health: async (res: FastifyReply) => {
+      const {
+        adapters: { wallet },
+      } = getContext();
+      // Only web3signer is remote; a mnemonic wallet is always available.
+      const signer = wallet instanceof Web3Signer ? await wallet.getHealth() : { healthy: true };
+      return res.status(signer.healthy ? 200 : 503).send({ signer });
+    },
     config: async (res: FastifyReply) => {
       const {
         adapters: { wallet },
@@ -1,10 +1,11 @@
 import { ChainData, Logger } from "@connext/nxtp-utils";
 import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
+import { StoreManager } from "@connext/nxtp-adapters-cache";
 import Rabbit from "foo-foo-mq";
 import { BridgeContext } from "@nomad-xyz/sdk-bridge";
 import { Wallet } from "ethers";
 import { Web3Signer } from "@connext/nxtp-adapters-web3signer";
-import { ConnextContractInterfaces, TransactionService } from "@connext/nxtp-txservice";
+import { ChainReader, ConnextContractInterfaces } from "@connext/nxtp-txservice";
 
 import { NxtpRouterConfig } from "../config";
 
@@ -14,12 +15,14 @@ export type AppContext = {
   adapters: {
     // Stateful interfaces for peripherals.
     wallet: Wallet | Web3Signer; // Used for signing metatxs for bids.
+    cache: StoreManager; // Used to track liquidity reserved for in-flight bids.
     subgraph: SubgraphReader; // Aggregates subgraphs in a FallbackSubgraph for each chain.
-    txservice: TransactionService; // For reading and executing txs on blockchain using RPC providers.
+    // For reading blockchain using RPC providers. Transactions are only ever sent by the publisher, which tracks the
+    // signer's nonces.
+    chainreader: ChainReader;
     contracts: ConnextContractInterfaces; // Used to read and write to smart contracts.
     mqClient: typeof Rabbit;
   };
   config: NxtpRouterConfig;
   chainData: Map<string, ChainData>;
-  routerAddress: string;
 };
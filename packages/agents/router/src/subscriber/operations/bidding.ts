@@ -0,0 +1,247 @@
+import { createLoggingContext, DEFAULT_ROUTER_FEE, RequestContext } from "@connext/nxtp-utils";
+import { BigNumber, constants } from "ethers";
+
+import { BiddingConfig } from "../../config";
+import { AmountAboveMaximum, AmountBelowMinimum, SlippageTooHigh, TransferUnprofitable } from "../../errors";
+import { getContext } from "../subscriber";
+
+// Denominator of the transfer's `slippageTol`, and of fee rates expressed in bps.
+const BPS_DENOMINATOR = 10_000;
+// LP fee routers earn on the amount they supply for fast liquidity, in bps.
+export const LIQUIDITY_FEE_BPS = Math.round(parseFloat(DEFAULT_ROUTER_FEE) * 100);
+
+export type AvailableLiquidity = {
+  // Liquidity that can be bid with for this transfer.
+  available: BigNumber;
+  // Liquidity reserved for in-flight bids for this domain and asset.
+  committed: BigNumber;
+  // Liquidity held in reserve according to config.
+  reserved: BigNumber;
+};
+
+export type RoundAmount = {
+  round: number;
+  amount: BigNumber;
+};
+
+/**
+ * A bidding strategy picks the auction rounds to sign, given the amount the router would have to supply
+ * for each round and the liquidity available for this transfer.
+ */
+export type BiddingStrategy = (rounds: RoundAmount[], available: BigNumber, config: BiddingConfig) => number[];
+
+/**
+ * Bid on every round we can afford.
+ */
+const all: BiddingStrategy = (rounds, available) =>
+  rounds.filter(({ amount }) => amount.lte(available)).map(({ round }) => round);
+
+/**
+ * Bid on every round we can afford, unless the round would consume more than `thinLiquidityPercent` of
+ * our available liquidity; in that case, leave the round to routers with deeper liquidity and only
+ * sign the higher rounds, where the transfer is split across more routers.
+ *
+ * If every affordable round is above the threshold, fall back to the cheapest affordable round.
+ */
+const preferHigherRounds: BiddingStrategy = (rounds, available, config) => {
+  const affordable = rounds.filter(({ amount }) => amount.lte(available));
+  if (affordable.length === 0) {
+    return [];
+  }
+  const threshold = available.mul(config.thinLiquidityPercent).div(100);
+  const preferred = affordable.filter(({ amount }) => amount.lte(threshold));
+  if (preferred.length > 0) {
+    return preferred.map(({ round }) => round);
+  }
+  const cheapest = affordable.reduce((min, r) => (r.amount.lt(min.amount) ? r : min));
+  return [cheapest.round];
+};
+
+export const BIDDING_STRATEGIES: Record<BiddingConfig["strategy"], BiddingStrategy> = {
+  all,
+  preferHigherRounds,
+};
+
+/**
+ * Reserves liquidity for a bid on the given transfer, so it won't be bid with again until the
+ * transfer is executed on the destination domain or the reservation expires. The reservation is
+ * only made if the liquidity is still available, i.e. no concurrent bid reserved it since `liquidity`
+ * was calculated; checking and reserving is a single atomic cache operation.
+ *
+ * @param router - The router address we bid with.
+ * @param transferId - The transfer we bid on.
+ * @param domain - The destination domain.
+ * @param asset - The local asset on the destination domain.
+ * @param amount - The maximum amount we could be asked to supply for this transfer.
+ * @param liquidity - The liquidity available for this transfer.
+ * @returns true if reserved, false if the liquidity is no longer available.
+ */
+export const reserveLiquidity = async (
+  router: string,
+  transferId: string,
+  domain: string,
+  asset: string,
+  amount: BigNumber,
+  liquidity: AvailableLiquidity,
+): Promise<boolean> => {
+  const {
+    adapters: { cache },
+    config: { bidding },
+  } = getContext();
+  // The most we may have reserved in total for this domain and asset, given the reserve floor and exposure caps.
+  const cap = liquidity.available.add(liquidity.committed);
+  return await cache.liquidity.reserveLiquidityWithinCap(
+    domain,
+    router,
+    asset,
+    transferId,
+    amount,
+    cap,
+    bidding.inflightBidExpiry,
+  );
+};
+
+/**
+ * Releases liquidity reserved for a bid on the given transfer, if any.
+ *
+ * @param router - The router address we bid with.
+ * @param transferId - The transfer we bid on.
+ */
+export const releaseLiquidity = async (router: string, transferId: string): Promise<void> => {
+  const {
+    adapters: { cache },
+  } = getContext();
+  await cache.liquidity.releaseLiquidity(router, transferId);
+};
+
+/**
+ * Calculates the liquidity the router can bid with for the given domain and asset, after taking
+ * the reserve floor, exposure caps and liquidity reserved for in-flight bids into account.
+ *
+ * @param router - The router address we bid with.
+ * @param domain - The destination domain.
+ * @param asset - The local asset on the destination domain.
+ * @param balance - The router's current balance of the asset on the destination domain.
+ */
+export const getAvailableLiquidity = async (
+  router: string,
+  domain: string,
+  asset: string,
+  balance: BigNumber,
+): Promise<AvailableLiquidity> => {
+  const {
+    adapters: { cache },
+    config: { bidding },
+  } = getContext();
+
+  const committed = await cache.liquidity.getReservedLiquidity(domain, router, asset);
+  const reserved = balance.mul(bidding.reservePercent).div(100);
+
+  // Start with everything that isn't reserved, then apply any exposure caps configured for this domain.
+  let cap = balance.sub(reserved);
+  const maxExposurePercent = bidding.maxExposurePercent[domain];
+  if (maxExposurePercent !== undefined) {
+    const percentCap = balance.mul(maxExposurePercent).div(100);
+    cap = percentCap.lt(cap) ? percentCap : cap;
+  }
+  const maxExposure = getAssetValue(bidding.maxExposure, domain, asset);
+  if (maxExposure !== undefined) {
+    const absoluteCap = BigNumber.from(maxExposure);
+    cap = absoluteCap.lt(cap) ? absoluteCap : cap;
+  }
+
+  const available = cap.gt(committed) ? cap.sub(committed) : constants.Zero;
+  return { available, committed, reserved };
+};
+
+/**
+ * Decides which auction rounds to sign for a transfer, using the configured bidding strategy.
+ *
+ * @param rounds - The amount the router would have to supply for each auction round.
+ * @param liquidity - The liquidity available for this transfer.
+ * @returns The rounds to sign, in ascending order.
+ */
+export const getBidRounds = (
+  rounds: RoundAmount[],
+  liquidity: AvailableLiquidity,
+  _requestContext: RequestContext,
+): number[] => {
+  const {
+    logger,
+    config: { bidding },
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(getBidRounds.name, _requestContext);
+
+  const strategy = BIDDING_STRATEGIES[bidding.strategy];
+  const selected = strategy(rounds, liquidity.available, bidding).sort((a, b) => a - b);
+
+  logger.debug("Selected auction rounds", requestContext, methodContext, {
+    strategy: bidding.strategy,
+    selected,
+    available: liquidity.available.toString(),
+    committed: liquidity.committed.toString(),
+    reserved: liquidity.reserved.toString(),
+    rounds: rounds.map(({ round, amount }) => ({ round, amount: amount.toString() })),
+  });
+  return selected;
+};
+
+/**
+ * Decides whether a transfer is worth bidding on: the amount has to be within the limits configured for the asset,
+ * the slippage it tolerates on the destination domain can't exceed `maxSlippage`, and the LP fee it would earn has
+ * to cover our capital cost and the minimum fee configured for the asset.
+ *
+ * @param domain - The destination domain.
+ * @param asset - The local asset on the destination domain.
+ * @param amount - The transfer amount.
+ * @param slippageTol - The slippage the transfer tolerates, in bps of the amount that *must* be received.
+ * @throws SlippageTooHigh, AmountBelowMinimum, AmountAboveMaximum or TransferUnprofitable if we should skip the
+ * transfer.
+ */
+export const evaluateTransfer = (
+  domain: string,
+  asset: string,
+  amount: BigNumber,
+  slippageTol: string,
+  _requestContext: RequestContext,
+): void => {
+  const {
+    logger,
+    config: { bidding, maxSlippage },
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(evaluateTransfer.name, _requestContext);
+  const context = { domain, asset, amount: amount.toString(), requestContext, methodContext };
+
+  const slippage = Math.max(BPS_DENOMINATOR - parseInt(slippageTol), 0);
+  if (slippage > maxSlippage * 100) {
+    throw new SlippageTooHigh({ ...context, slippageTol, maxSlippage });
+  }
+
+  const minAmount = getAssetValue(bidding.minAmount, domain, asset);
+  if (minAmount !== undefined && amount.lt(minAmount)) {
+    throw new AmountBelowMinimum({ ...context, minAmount });
+  }
+  const maxAmount = getAssetValue(bidding.maxAmount, domain, asset);
+  if (maxAmount !== undefined && amount.gt(maxAmount)) {
+    throw new AmountAboveMaximum({ ...context, maxAmount });
+  }
+
+  const fee = amount.mul(LIQUIDITY_FEE_BPS).div(BPS_DENOMINATOR);
+  const capitalCost = amount.mul(bidding.capitalCostBps).div(BPS_DENOMINATOR);
+  const minFee = getAssetValue(bidding.minFee, domain, asset);
+  if (fee.lt(capitalCost) || (minFee !== undefined && fee.lt(minFee))) {
+    throw new TransferUnprofitable({ ...context, fee: fee.toString(), capitalCost: capitalCost.toString(), minFee });
+  }
+
+  logger.debug("Transfer is worth bidding on", requestContext, methodContext, {
+    slippage,
+    fee: fee.toString(),
+    capitalCost: capitalCost.toString(),
+  });
+};
+
+/**
+ * Looks up a per-domain, per-asset config value. Asset addresses are matched case-insensitively.
+ */
+const getAssetValue = <T>(values: Record<string, Record<string, T>>, domain: string, asset: string): T | undefined =>
+  Object.entries(values[domain] ?? {}).find(([_asset]) => _asset.toLowerCase() === asset.toLowerCase())?.[1];
@@ -8,7 +8,10 @@ import {
   formatUrl,
   AuctionsApiPostBidReq,
   getMinimumBidsCountForRound as _getMinimumBidsCountForRound,
+  jsonifyError,
+  NxtpError,
 } from "@connext/nxtp-utils";
+import { SubgraphStale } from "@connext/nxtp-adapters-subgraph";
 import { BigNumber } from "ethers";
 import axios, { AxiosResponse } from "axios";
 
@@ -24,11 +27,23 @@ import {
   SequencerResponseInvalid,
   UnableToGetAsset,
   NomadHomeBlacklisted,
+  BiddingPaused,
+  SubgraphNotSynced,
 } from "../../errors";
 // @ts-ignore
 import { version } from "../../../package.json";
 import { getContext } from "../subscriber";
 import { signRouterPathPayload } from "../../mockable";
+import { recordBidSent, recordLiquidity } from "../../bindings";
+
+import {
+  evaluateTransfer,
+  getAvailableLiquidity,
+  getBidRounds,
+  releaseLiquidity,
+  reserveLiquidity,
+  RoundAmount,
+} from "./bidding";
 
 //helper function to match our config environments with nomads
 export const getBlacklist = async (
@@ -53,6 +68,21 @@ export const getBlacklist = async (
   return { originBlacklisted, destinationBlacklisted };
 };
 
+/**
+ * Subgraph reads throw SubgraphStale while every endpoint for the domain lags too far behind the chain head. That's
+ * usually brief, so it's rethrown as a retryable error, and the transfer is handled again once the subgraph catches up.
+ */
+const readSubgraph = async <T>(read: () => Promise<T>): Promise<T> => {
+  try {
+    return await read();
+  } catch (error: unknown) {
+    if ((error as NxtpError).type === SubgraphStale.name) {
+      throw new SubgraphNotSynced({ error: jsonifyError(error as NxtpError) });
+    }
+    throw error;
+  }
+};
+
 /**
  * Returns local asset address on destination domain corresponding to local asset on origin domain
  *
@@ -71,7 +101,7 @@ export const getDestinationLocalAsset = async (
   } = getContext();
 
   // get canonical asset from orgin domain.
-  const sendingDomainAsset = await subgraph.getAssetByLocal(_originDomain, _originLocalAsset);
+  const sendingDomainAsset = await readSubgraph(() => subgraph.getAssetByLocal(_originDomain, _originLocalAsset));
 
   const canonicalId = sendingDomainAsset?.canonicalId;
 
@@ -79,7 +109,9 @@ export const getDestinationLocalAsset = async (
     return undefined;
   }
 
-  const destinationDomainAsset = await subgraph.getAssetByCanonicalId(_destinationDomain, canonicalId);
+  const destinationDomainAsset = await readSubgraph(() =>
+    subgraph.getAssetByCanonicalId(_destinationDomain, canonicalId),
+  );
 
   const localAddress = destinationDomainAsset?.local;
 
@@ -179,8 +211,7 @@ export const execute = async (params: OriginTransfer, _requestContext: RequestCo
   const {
     config,
     logger,
-    adapters: { wallet, subgraph, txservice },
-    routerAddress,
+    adapters: { wallet, subgraph, chainreader, cache },
   } = getContext();
 
   logger.debug("Method start", requestContext, methodContext, { params });
@@ -199,7 +230,7 @@ export const execute = async (params: OriginTransfer, _requestContext: RequestCo
   const {
     origin,
     transferId,
-    xparams: { callData, to, forceSlow, originDomain, destinationDomain },
+    xparams: { callData, to, forceSlow, originDomain, destinationDomain, slippageTol },
   } = params;
 
   if (forceSlow) {
@@ -207,13 +238,17 @@ export const execute = async (params: OriginTransfer, _requestContext: RequestCo
     return;
   }
 
-  const dest = await subgraph.getDestinationTransferById(destinationDomain, transferId);
+  // Resolve the address we bid with once, as the signer may switch to a rotated key. The signer only switches keys
+  // when its address is read, so the signatures below are made with the key for this address.
+  const routerAddress = await wallet.getAddress();
+
+  const dest = await readSubgraph(() => subgraph.getDestinationTransferById(destinationDomain, transferId));
   if (dest) {
     logger.info("Destination transfer already exists", requestContext, methodContext, {});
     return;
   }
 
-  const _origin = await subgraph.getOriginTransferById(originDomain, transferId);
+  const _origin = await readSubgraph(() => subgraph.getOriginTransferById(originDomain, transferId));
   if (!_origin) {
     throw new MissingXCall({ requestContext, methodContext });
   }
@@ -227,6 +262,9 @@ export const execute = async (params: OriginTransfer, _requestContext: RequestCo
   try {
     executeLocalAsset = await getDestinationLocalAsset(originDomain, origin.assets.bridged.asset, destinationDomain);
   } catch (err: unknown) {
+    if (err instanceof SubgraphNotSynced) {
+      throw err;
+    }
     throw new UnableToGetAsset({
       requestContext,
       methodContext,
@@ -248,32 +286,50 @@ export const execute = async (params: OriginTransfer, _requestContext: RequestCo
 
   logger.debug("Got local asset", requestContext, methodContext, { executeLocalAsset });
 
-  const receivingAmount = origin.assets.bridged.amount;
+  // Bidding may have been paused for the destination domain or asset through the admin API.
+  if (await cache.liquidity.isPaused(routerAddress, destinationDomain, executeLocalAsset)) {
+    throw new BiddingPaused({ transferId, destinationDomain, executeLocalAsset, requestContext, methodContext });
+  }
 
-  // TODO: We should make a list of signatures that reflect which auction rounds we want to bid on,
-  // based on a calculation of which rounds we can afford to bid on. For now, this is hardcoded to bid
-  // only on the first auction round.
-  // Produce the router path signatures for each auction round we want to bid on.
+  const receivingAmount = origin.assets.bridged.amount;
 
-  // Make a list of signatures that reflect which auction rounds we want to bid on.
-  const balance = await subgraph.getAssetBalance(destinationDomain, routerAddress, executeLocalAsset);
-  const signatures: Record<string, string> = {};
+  // Skip transfers that are outside our configured limits, or not worth the liquidity.
+  evaluateTransfer(destinationDomain, executeLocalAsset, BigNumber.from(receivingAmount), slippageTol, requestContext);
+
+  // Make a list of signatures that reflect which auction rounds we want to bid on, according to the
+  // configured bidding strategy and the liquidity we have available (i.e. not held in reserve or
+  // reserved for in-flight bids).
+  const balance = BigNumber.from(
+    await readSubgraph(() => subgraph.getAssetBalance(destinationDomain, routerAddress, executeLocalAsset)),
+  );
+  const liquidity = await getAvailableLiquidity(routerAddress, destinationDomain, executeLocalAsset, balance);
+  recordLiquidity(destinationDomain, executeLocalAsset, { balance, ...liquidity });
+  const rounds: RoundAmount[] = [];
   for (let roundIdx = 1; roundIdx <= config.auctionRoundDepth; roundIdx++) {
-    const amountForRound = getAuctionAmount(roundIdx, BigNumber.from(receivingAmount));
-    if (amountForRound.lte(balance)) {
-      const pathLen = Math.pow(2, roundIdx - 1);
-      signatures[roundIdx.toString()] = await signRouterPathPayload(transferId, pathLen.toString(), wallet);
-    } else {
-      logger.debug(`Not enough balance for this round: ${roundIdx}. Skipping!`, requestContext, methodContext, {
-        balance: balance.toString(),
-        amountForRound: amountForRound.toString(),
-      });
-    }
+    rounds.push({ round: roundIdx, amount: getAuctionAmount(roundIdx, BigNumber.from(receivingAmount)) });
   }
-
-  if ([...Object.keys(signatures)].length == 0) {
+  const selectedRounds = getBidRounds(rounds, liquidity, requestContext);
+
+  // Reserve the largest amount we could be asked to supply (i.e. our share in the lowest round we selected)
+  // right away, so concurrent transfers can't bid with the same liquidity. If a concurrent bid reserved the
+  // liquidity since we checked, the reservation fails and we don't bid. The reservation is released if we
+  // don't end up bidding, once the transfer is executed on the destination domain, or when it expires.
+  const reserved =
+    selectedRounds.length > 0 &&
+    (await reserveLiquidity(
+      routerAddress,
+      transferId,
+      destinationDomain,
+      executeLocalAsset,
+      getAuctionAmount(selectedRounds[0], BigNumber.from(receivingAmount)),
+      liquidity,
+    ));
+  if (!reserved) {
     throw new NotEnoughAmount({
       balance: balance.toString(),
+      available: liquidity.available.toString(),
+      committed: liquidity.committed.toString(),
+      reserved: liquidity.reserved.toString(),
       receivingAmount: receivingAmount.toString(),
       executeLocalAsset,
       routerAddress,
@@ -284,37 +340,59 @@ export const execute = async (params: OriginTransfer, _requestContext: RequestCo
     });
   }
 
-  logger.debug("Signed payloads", requestContext, methodContext, {
-    rounds: Object.keys(signatures),
-    // Sanitized with ellipsis.
-    sigs: Object.values(signatures).map((s) => s.slice(0, 6) + ".."),
-  });
+  try {
+    const signatures: Record<string, string> = {};
+    for (const roundIdx of selectedRounds) {
+      const pathLen = Math.pow(2, roundIdx - 1);
+      signatures[roundIdx.toString()] = await signRouterPathPayload(transferId, pathLen.toString(), wallet);
+    }
 
-  const { originBlacklisted, destinationBlacklisted } = await getBlacklist(originDomain, destinationDomain);
-  if (originBlacklisted || destinationBlacklisted) {
-    throw new NomadHomeBlacklisted({
-      originDomainBlacklisted: originBlacklisted,
-      destinationBlacklisted: destinationBlacklisted,
+    logger.debug("Signed payloads", requestContext, methodContext, {
+      rounds: Object.keys(signatures),
+      // Sanitized with ellipsis.
+      sigs: Object.values(signatures).map((s) => s.slice(0, 6) + ".."),
     });
-  }
 
-  if (callData !== "0x") {
-    const code = await txservice.getCode(+destinationDomain, to);
-    if (code === "0x") {
-      throw new CallDataForNonContract({ transferId, destinationDomain, to, callData, requestContext, methodContext });
+    const { originBlacklisted, destinationBlacklisted } = await getBlacklist(originDomain, destinationDomain);
+    if (originBlacklisted || destinationBlacklisted) {
+      throw new NomadHomeBlacklisted({
+        originDomainBlacklisted: originBlacklisted,
+        destinationBlacklisted: destinationBlacklisted,
+      });
     }
-  }
 
-  logger.debug("Sanity checks passed", requestContext, methodContext, { liquidity: balance.toString() });
+    if (callData !== "0x") {
+      const code = await chainreader.getCode(+destinationDomain, to);
+      if (code === "0x") {
+        throw new CallDataForNonContract({
+          transferId,
+          destinationDomain,
+          to,
+          callData,
+          requestContext,
+          methodContext,
+        });
+      }
+    }
 
-  const bid: Bid = {
-    routerVersion: version,
-    transferId,
-    origin: originDomain,
-    router: routerAddress.toLowerCase(),
-    signatures,
-  };
+    logger.debug("Sanity checks passed", requestContext, methodContext, {
+      liquidity: balance.toString(),
+      available: liquidity.available.toString(),
+    });
 
-  await sendBid(bid, requestContext);
+    const bid: Bid = {
+      routerVersion: version,
+      transferId,
+      origin: originDomain,
+      router: routerAddress.toLowerCase(),
+      signatures,
+    };
+
+    await sendBid(bid, requestContext);
+  } catch (error: unknown) {
+    await releaseLiquidity(routerAddress, transferId);
+    throw error;
+  }
+  recordBidSent(params, selectedRounds);
   logger.info("Executed transfer", requestContext, methodContext, { params });
 };
@@ -1,4 +1,3 @@
-import { Wallet } from "ethers";
 import {
   createMethodContext,
   createRequestContext,
@@ -7,8 +6,7 @@ import {
   Logger,
   RequestContext,
 } from "@connext/nxtp-utils";
-import { Web3Signer } from "@connext/nxtp-adapters-web3signer";
-import { getContractInterfaces, TransactionService, contractDeployments } from "@connext/nxtp-txservice";
+import { ChainReader, getContractInterfaces, contractDeployments } from "@connext/nxtp-txservice";
 import axios from "axios";
 import { BridgeContext } from "@nomad-xyz/sdk-bridge";
 import fetch, { Headers, Request, Response } from "node-fetch";
@@ -22,7 +20,7 @@ if (!(globalThis as any).fetch) {
 
 import { getConfig, NxtpRouterConfig } from "../config";
 import { bindMetrics } from "../bindings";
-import { setupMq, setupSubgraphReader } from "../setup";
+import { setupCache, setupMq, setupRotation, setupSubgraphReader, setupWallet } from "../setup";
 
 import { AppContext } from "./context";
 import { bindMessageQueue, bindServer } from "./bindings";
@@ -44,16 +42,13 @@ export const makeSubscriber = async (_configOverride?: NxtpRouterConfig) => {
     context.config = _configOverride ?? (await getConfig(context.chainData, contractDeployments));
 
     /// MARK - Signer
-    context.adapters.wallet = context.config.mnemonic
-      ? Wallet.fromMnemonic(context.config.mnemonic)
-      : new Web3Signer(context.config.web3SignerUrl!);
-
-    context.routerAddress = await context.adapters.wallet.getAddress();
+    context.adapters.wallet = setupWallet(context.config);
+    const routerAddress = await context.adapters.wallet.getAddress();
 
     /// MARK - Logger
     context.logger = new Logger({
       level: context.config.logLevel,
-      name: context.routerAddress,
+      name: routerAddress,
       formatters: {
         level: (label) => {
           return { level: label.toUpperCase() };
@@ -69,6 +64,17 @@ export const makeSubscriber = async (_configOverride?: NxtpRouterConfig) => {
       context.config.nomadEnvironment !== "none" ? await setupBridgeContext(requestContext) : undefined;
 
     /// MARK - Adapters
+    context.adapters.cache = await setupCache(
+      context.config.redis.host,
+      context.config.redis.port,
+      context.logger,
+      requestContext,
+    );
+    context.adapters.chainreader = new ChainReader(
+      context.logger.child({ module: "ChainReader", level: context.config.logLevel }),
+      context.config.chains,
+    );
+    // The subgraph endpoints are checked against the chain head as read by the chain reader.
     context.adapters.subgraph = await setupSubgraphReader(
       context.logger,
       context.chainData,
@@ -76,15 +82,22 @@ export const makeSubscriber = async (_configOverride?: NxtpRouterConfig) => {
       context.config.environment,
       context.config.subgraphPrefix,
       requestContext,
+      context.config.subgraphHealth
+        ? { config: context.config.subgraphHealth, chainReader: context.adapters.chainreader }
+        : undefined,
     );
-    context.adapters.txservice = new TransactionService(
-      context.logger.child({ module: "TransactionService", level: context.config.logLevel }),
-      context.config.chains,
-      context.adapters.wallet as Wallet,
+    setupRotation(
+      context.adapters.wallet,
+      context.config,
+      context.adapters.subgraph,
+      context.adapters.cache,
+      context.logger,
+      requestContext,
     );
     context.adapters.contracts = getContractInterfaces();
     context.adapters.mqClient = await setupMq(
       context.config.messageQueue.uri as string,
+      context.config.retry,
       context.logger,
       requestContext,
     );
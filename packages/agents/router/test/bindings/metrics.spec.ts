@@ -0,0 +1,63 @@
+import { BigNumber } from "ethers";
+import { expect, OriginTransfer } from "@connext/nxtp-utils";
+import { register } from "prom-client";
+
+import { recordBidRejected, recordBidSent, recordLiquidity, recordXCallReceived } from "../../src/bindings/metrics";
+import { NotEnoughAmount } from "../../src/errors";
+import { mock } from "../mock";
+
+describe("Bindings:Metrics", () => {
+  const transfer = mock.entity.xtransfer({
+    originDomain: mock.domain.A,
+    destinationDomain: mock.domain.B,
+  }) as OriginTransfer;
+  const asset = transfer.origin.assets.bridged.asset.toLowerCase();
+  const labels = `origin_domain="${mock.domain.A}",destination_domain="${mock.domain.B}",asset="${asset}"`;
+
+  beforeEach(() => {
+    register.resetMetrics();
+  });
+
+  describe("#recordXCallReceived", () => {
+    it("should count xcalls by domain and asset", async () => {
+      recordXCallReceived(transfer);
+      recordXCallReceived(transfer);
+      expect(await register.getSingleMetricAsString("router_xcalls_received_total")).to.include(
+        `router_xcalls_received_total{${labels}} 2`,
+      );
+    });
+  });
+
+  describe("#recordBidSent", () => {
+    it("should count the bid, the signatures produced for each round and the latency", async () => {
+      recordBidSent(transfer, [1, 2]);
+      expect(await register.getSingleMetricAsString("router_bids_sent_total")).to.include(
+        `router_bids_sent_total{${labels}} 1`,
+      );
+      const signatures = await register.getSingleMetricAsString("router_signatures_total");
+      expect(signatures).to.include(`router_signatures_total{destination_domain="${mock.domain.B}",round="1"} 1`);
+      expect(signatures).to.include(`router_signatures_total{destination_domain="${mock.domain.B}",round="2"} 1`);
+      expect(await register.getSingleMetricAsString("router_xcall_to_bid_seconds")).to.include(
+        `router_xcall_to_bid_seconds_count{${labels}} 1`,
+      );
+    });
+  });
+
+  describe("#recordBidRejected", () => {
+    it("should count rejections by error type", async () => {
+      recordBidRejected(transfer, new NotEnoughAmount());
+      expect(await register.getSingleMetricAsString("router_bids_rejected_total")).to.include(
+        `router_bids_rejected_total{${labels},reason="NotEnoughAmount"} 1`,
+      );
+    });
+  });
+
+  describe("#recordLiquidity", () => {
+    it("should set liquidity by type", async () => {
+      recordLiquidity(mock.domain.B, mock.asset.A.address, { balance: BigNumber.from(100) });
+      expect(await register.getSingleMetricAsString("router_liquidity")).to.include(
+        `router_liquidity{domain="${mock.domain.B}",asset="${mock.asset.A.address.toLowerCase()}",type="balance"} 100`,
+      );
+    });
+  });
+});
@@ -75,6 +75,26 @@ describe("Config", () => {
       );
     });
 
+    it("should read the web3signer key and rotation", () => {
+      const rotation = { key: mock.address.relayer, from: 1660000000 };
+      stub(process, "env").value({
+        ...process.env,
+        NXTP_MNEMONIC: null,
+        NXTP_NETWORK: "local",
+        NXTP_WEB3_SIGNER_KEY: mock.address.router,
+        NXTP_WEB3_SIGNER_ROTATION: JSON.stringify(rotation),
+        NXTP_CONFIG: JSON.stringify({
+          ...mockConfig,
+          mnemonic: null,
+          web3SignerUrl: "http://localhost:9000",
+        }),
+      });
+
+      const config = getEnvConfig(mockChainData, mockDeployments);
+      expect(config.web3SignerKey).to.eq(mock.address.router);
+      expect(config.web3SignerRotation).to.deep.eq(rotation);
+    });
+
     it("should error if the wallet is missing", () => {
       stub(process, "env").value({
         ...process.env,
@@ -1,8 +1,13 @@
 import { utils, BigNumber, Wallet, constants } from "ethers";
 import { createStubInstance, SinonStubbedInstance, stub } from "sinon";
-import { AuctionsCache, TransfersCache } from "@connext/nxtp-adapters-cache";
+import { AuctionsCache, DeadLettersCache, LiquidityCache, TransfersCache } from "@connext/nxtp-adapters-cache";
 import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
-import { ConnextContractDeployments, ConnextContractInterfaces, TransactionService } from "@connext/nxtp-txservice";
+import {
+  ChainReader,
+  ConnextContractDeployments,
+  ConnextContractInterfaces,
+  TransactionService,
+} from "@connext/nxtp-txservice";
 import { mkAddress, Logger, mock as _mock, OriginTransfer, DestinationTransfer } from "@connext/nxtp-utils";
 
 import { AppContext as PublisherAppContext } from "../src/publisher/context";
@@ -14,13 +19,15 @@ export const mock = {
   publisherContext: (): PublisherAppContext => {
     return {
       adapters: {
+        wallet: mock.adapters.wallet(),
         subgraph: mock.adapters.subgraph(),
         cache: mock.adapters.cache(),
+        txservice: mock.adapters.txservice(),
+        contracts: mock.contracts.interfaces(),
         mqClient: mock.adapters.mqClient() as any,
       },
       config: mock.config(),
       chainData: mock.chainData(),
-      routerAddress: mock.address.router,
       logger: new Logger({ name: "mock", level: process.env.LOG_LEVEL || "silent" }),
     };
   },
@@ -28,14 +35,14 @@ export const mock = {
     return {
       adapters: {
         wallet: mock.adapters.wallet(),
+        cache: mock.adapters.cache(),
         subgraph: mock.adapters.subgraph(),
-        txservice: mock.adapters.txservice(),
+        chainreader: mock.adapters.chainreader(),
         contracts: mock.contracts.interfaces(),
         mqClient: mock.adapters.mqClient() as any,
       },
       config: mock.config(),
       chainData: mock.chainData(),
-      routerAddress: mock.address.router,
       logger: new Logger({ name: "mock", level: process.env.LOG_LEVEL || "silent" }),
       bridgeContext: mock.bridgeContext(),
     };
@@ -78,7 +85,7 @@ export const mock = {
       adminToken: "blahblahblah",
     },
     network: "testnet",
-    maxSlippage: 0,
+    maxSlippage: 100,
     mode: {
       diagnostic: false,
       cleanup: false,
@@ -89,6 +96,23 @@ export const mock = {
       cache: 10_000,
     },
     auctionRoundDepth: 4,
+    bidding: {
+      strategy: "all",
+      reservePercent: 0,
+      maxExposurePercent: {},
+      maxExposure: {},
+      thinLiquidityPercent: 50,
+      inflightBidExpiry: 300,
+      capitalCostBps: 0,
+      minFee: {},
+      minAmount: {},
+      maxAmount: {},
+    },
+    retry: {
+      limit: 3,
+      delay: 10,
+      maxDelay: 600,
+    },
     environment: "staging",
     nomadEnvironment: "staging",
     messageQueue: {},
@@ -111,10 +135,21 @@ export const mock = {
     cache: (): any => {
       const transfers = createStubInstance(TransfersCache);
       const auctions = createStubInstance(AuctionsCache);
+      const liquidity = createStubInstance(LiquidityCache);
+      const deadLetters = createStubInstance(DeadLettersCache);
       transfers.getLatestNonce.resolves(0);
+      liquidity.getReservedLiquidity.resolves(constants.Zero);
+      liquidity.reserveLiquidityWithinCap.resolves(true);
+      liquidity.getReservations.resolves({});
+      liquidity.isPaused.resolves(false);
+      liquidity.getPaused.resolves([]);
+      deadLetters.getDeadLetters.resolves({});
+      deadLetters.getDeadLetter.resolves(undefined);
       return {
         transfers,
         auctions,
+        liquidity,
+        deadLetters,
       };
     },
     subgraph: (): SinonStubbedInstance<SubgraphReader> => {
@@ -141,6 +176,13 @@ export const mock = {
       txservice.getTransactionReceipt.resolves(mockReceipt);
       return txservice;
     },
+    chainreader: (): SinonStubbedInstance<ChainReader> => {
+      const chainreader = createStubInstance(ChainReader);
+      chainreader.getBalance.resolves(utils.parseEther("1"));
+      chainreader.getCode.resolves("0x");
+      chainreader.getBlockTime.resolves(Math.floor(Date.now() / 1000));
+      return chainreader;
+    },
     mqClient: () => {
       return {
         publish: stub(),
@@ -0,0 +1,59 @@
+import { expect } from "@connext/nxtp-utils";
+import { SinonStub, stub } from "sinon";
+
+import { bindMessageQueue } from "../../../../src/publisher/bindings/messageQueue";
+import { mock } from "../../../mock";
+import { mockPubContext } from "../../../globalTestHook";
+import { ATTEMPTS_HEADER, ERROR_HEADER, XCALL_DEAD_LETTER_QUEUE, XCALL_MESSAGE_TYPE } from "../../../../src/setup";
+
+describe("Bindings:MessageQueue", () => {
+  describe("#bindMessageQueue", () => {
+    let handler: (message: any) => Promise<void>;
+    const mockMessage = (headers?: Record<string, any>) => ({
+      body: mock.entity.xtransfer(),
+      properties: { headers },
+      ack: stub(),
+      nack: stub(),
+    });
+
+    beforeEach(async () => {
+      await bindMessageQueue();
+      handler = (mockPubContext.adapters.mqClient.handle as SinonStub).getCall(0).args[1];
+    });
+
+    it("binds the dead-letter queue", async () => {
+      expect(mockPubContext.adapters.mqClient.handle).to.be.calledOnceWith({
+        queue: XCALL_DEAD_LETTER_QUEUE,
+        type: XCALL_MESSAGE_TYPE,
+      });
+      expect(mockPubContext.adapters.mqClient.startSubscription).to.be.calledOnceWithExactly(XCALL_DEAD_LETTER_QUEUE);
+    });
+
+    it("happy: should store the dead-lettered xcall and ack", async () => {
+      const message = mockMessage({ [ATTEMPTS_HEADER]: "3", [ERROR_HEADER]: "ExecuteError: Params invalid" });
+
+      await handler(message);
+
+      const [queue, deadLetter] = (mockPubContext.adapters.cache.deadLetters.addDeadLetter as SinonStub).getCall(
+        0,
+      ).args;
+      expect(queue).to.be.eq(XCALL_DEAD_LETTER_QUEUE);
+      expect(deadLetter).to.deep.include({
+        transfer: message.body,
+        attempts: 3,
+        error: "ExecuteError: Params invalid",
+      });
+      expect(message.ack).to.be.calledOnce;
+    });
+
+    it("should nack if storing the dead-lettered xcall fails", async () => {
+      (mockPubContext.adapters.cache.deadLetters.addDeadLetter as SinonStub).rejects(new Error("fail"));
+      const message = mockMessage();
+
+      await handler(message);
+
+      expect(message.nack).to.be.calledOnce;
+      expect(message.ack).to.not.be.called;
+    });
+  });
+});
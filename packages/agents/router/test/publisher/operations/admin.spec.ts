@@ -0,0 +1,122 @@
+import { BigNumber, constants } from "ethers";
+import { expect, mkAddress } from "@connext/nxtp-utils";
+import { SinonStub } from "sinon";
+
+import { mock } from "../../mock";
+import { mockPubContext } from "../../globalTestHook";
+import {
+  addLiquidityForRouter,
+  getBalances,
+  pauseBidding,
+  removeRouterLiquidity,
+  resumeBidding,
+} from "../../../src/publisher/operations/admin";
+import { DomainNotSupported } from "../../../src/errors";
+
+const { requestContext } = mock.loggingContext("Operations:Admin");
+
+describe("Operations:Admin", () => {
+  const asset = mock.asset.A.address;
+  const connext = mkAddress("0xabcdef123");
+
+  describe("#pauseBidding", () => {
+    it("happy: should pause bidding in the cache and return the paused state", async () => {
+      (mockPubContext.adapters.cache.liquidity.getPaused as SinonStub).resolves([{ domain: mock.domain.B, asset }]);
+
+      const res = await pauseBidding(mock.domain.B, asset);
+
+      expect(mockPubContext.adapters.cache.liquidity.pause).to.be.calledOnceWithExactly(
+        mock.address.router,
+        mock.domain.B,
+        asset,
+      );
+      expect(res).to.be.deep.eq({ paused: [{ domain: mock.domain.B, asset }] });
+    });
+  });
+
+  describe("#resumeBidding", () => {
+    it("happy: should resume bidding in the cache and return the paused state", async () => {
+      const res = await resumeBidding(mock.domain.B);
+
+      expect(mockPubContext.adapters.cache.liquidity.resume).to.be.calledOnceWithExactly(
+        mock.address.router,
+        mock.domain.B,
+        undefined,
+      );
+      expect(res).to.be.deep.eq({ paused: [] });
+    });
+  });
+
+  describe("#getBalances", () => {
+    it("happy: should return native balance and liquidity for each configured domain", async () => {
+      (mockPubContext.adapters.txservice.getBalance as SinonStub).resolves(BigNumber.from(10));
+      (mockPubContext.adapters.subgraph.getAssetBalances as SinonStub).resolves({ [asset]: BigNumber.from(100) });
+
+      const res = await getBalances();
+
+      expect(res).to.be.deep.eq({
+        [mock.domain.A]: { native: "10", liquidity: { [asset.toLowerCase()]: "100" } },
+        [mock.domain.B]: { native: "10", liquidity: { [asset.toLowerCase()]: "100" } },
+      });
+    });
+  });
+
+  describe("#addLiquidityForRouter", () => {
+    it("happy: should add liquidity without approving if the allowance is sufficient", async () => {
+      const txHash = await addLiquidityForRouter(+mock.chain.A, asset, "100", undefined, requestContext);
+
+      expect(txHash).to.be.eq(mock.ethers.receipt().transactionHash);
+      expect(mockPubContext.adapters.txservice.sendTx).to.be.calledOnce;
+      expect(mockPubContext.adapters.contracts.connext.encodeFunctionData).to.be.calledOnceWithExactly(
+        "addRouterLiquidityFor",
+        [BigNumber.from(100), asset, mock.address.router],
+      );
+      const tx = (mockPubContext.adapters.txservice.sendTx as SinonStub).getCall(0).args[0];
+      expect(tx.to).to.be.eq(connext);
+      expect(tx.chainId).to.be.eq(+mock.domain.A);
+      expect(tx.value).to.be.eq(constants.Zero);
+    });
+
+    it("should approve the Connext contract first if the allowance is insufficient", async () => {
+      (mockPubContext.adapters.contracts.erc20.decodeFunctionResult as SinonStub).returns([BigNumber.from(10)]);
+
+      await addLiquidityForRouter(+mock.chain.A, asset, "100", undefined, requestContext);
+
+      expect(mockPubContext.adapters.txservice.sendTx).to.be.calledTwice;
+      expect(mockPubContext.adapters.contracts.erc20.encodeFunctionData).to.be.calledWith("approve", [
+        connext,
+        BigNumber.from(100),
+      ]);
+      expect((mockPubContext.adapters.txservice.sendTx as SinonStub).getCall(0).args[0].to).to.be.eq(asset);
+    });
+
+    it("should send value when adding native liquidity", async () => {
+      await addLiquidityForRouter(+mock.chain.A, constants.AddressZero, "100", undefined, requestContext);
+
+      expect(mockPubContext.adapters.txservice.readTx).to.not.be.called;
+      expect((mockPubContext.adapters.txservice.sendTx as SinonStub).getCall(0).args[0].value).to.be.deep.eq(
+        BigNumber.from(100),
+      );
+    });
+
+    it("should throw DomainNotSupported if the chain isn't configured", async () => {
+      mockPubContext.config.chains = {};
+      await expect(addLiquidityForRouter(+mock.chain.A, asset, "100", undefined, requestContext)).to.be.rejectedWith(
+        DomainNotSupported,
+      );
+    });
+  });
+
+  describe("#removeRouterLiquidity", () => {
+    it("happy: should remove liquidity to the given recipient", async () => {
+      const recipient = mkAddress("0x123");
+      const txHash = await removeRouterLiquidity(+mock.chain.A, asset, "100", recipient, requestContext);
+
+      expect(txHash).to.be.eq(mock.ethers.receipt().transactionHash);
+      expect(mockPubContext.adapters.contracts.connext.encodeFunctionData).to.be.calledOnceWithExactly(
+        "removeRouterLiquidity",
+        [BigNumber.from(100), asset, recipient],
+      );
+    });
+  });
+});
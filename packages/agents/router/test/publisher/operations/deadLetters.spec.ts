@@ -0,0 +1,82 @@
+import { expect } from "@connext/nxtp-utils";
+import { SinonStub } from "sinon";
+
+import { mock } from "../../mock";
+import { mockPubContext } from "../../globalTestHook";
+import { getDeadLetters, replayDeadLetters } from "../../../src/publisher/operations/deadLetters";
+import { MQ_EXCHANGE, XCALL_DEAD_LETTER_QUEUE, XCALL_MESSAGE_TYPE, XCALL_QUEUE } from "../../../src/setup";
+
+const { requestContext } = mock.loggingContext("Operations:DeadLetters");
+
+describe("Operations:DeadLetters", () => {
+  const transfer1 = mock.entity.xtransfer({ originDomain: mock.domain.A, destinationDomain: mock.domain.B });
+  const transfer2 = mock.entity.xtransfer({ originDomain: mock.domain.B, destinationDomain: mock.domain.A });
+  const deadLetter1 = { transfer: transfer1, attempts: 3, timestamp: 200, error: "ExecuteError: Params invalid" };
+  const deadLetter2 = { transfer: transfer2, attempts: 1, timestamp: 100 };
+
+  describe("#getDeadLetters", () => {
+    it("happy: should list dead-lettered xcalls, oldest first", async () => {
+      (mockPubContext.adapters.cache.deadLetters.getDeadLetters as SinonStub).resolves({
+        [transfer1.transferId]: deadLetter1,
+        [transfer2.transferId]: deadLetter2,
+      });
+
+      const res = await getDeadLetters();
+
+      expect(mockPubContext.adapters.cache.deadLetters.getDeadLetters).to.be.calledOnceWithExactly(
+        XCALL_DEAD_LETTER_QUEUE,
+      );
+      expect(res).to.be.deep.eq({
+        deadLetters: [
+          {
+            transferId: transfer2.transferId,
+            originDomain: mock.domain.B,
+            destinationDomain: mock.domain.A,
+            attempts: 1,
+            timestamp: 100,
+            error: undefined,
+          },
+          {
+            transferId: transfer1.transferId,
+            originDomain: mock.domain.A,
+            destinationDomain: mock.domain.B,
+            attempts: 3,
+            timestamp: 200,
+            error: "ExecuteError: Params invalid",
+          },
+        ],
+      });
+    });
+  });
+
+  describe("#replayDeadLetters", () => {
+    it("happy: should republish dead-lettered xcalls and remove them", async () => {
+      (mockPubContext.adapters.cache.deadLetters.getDeadLetter as SinonStub)
+        .withArgs(XCALL_DEAD_LETTER_QUEUE, transfer1.transferId)
+        .resolves(deadLetter1);
+
+      const res = await replayDeadLetters([transfer1.transferId, transfer2.transferId], requestContext);
+
+      expect(res).to.be.deep.eq({ replayed: [transfer1.transferId], missing: [transfer2.transferId] });
+      expect(mockPubContext.adapters.mqClient.publish).to.be.calledOnceWithExactly(MQ_EXCHANGE, {
+        body: transfer1,
+        type: XCALL_MESSAGE_TYPE,
+        routingKey: XCALL_QUEUE,
+      });
+      expect(mockPubContext.adapters.cache.deadLetters.removeDeadLetters).to.be.calledOnceWithExactly(
+        XCALL_DEAD_LETTER_QUEUE,
+        [transfer1.transferId],
+      );
+    });
+
+    it("should keep the dead letter if republishing fails", async () => {
+      (mockPubContext.adapters.cache.deadLetters.getDeadLetter as SinonStub).resolves(deadLetter1);
+      (mockPubContext.adapters.mqClient.publish as SinonStub).rejects(new Error("fail"));
+
+      const res = await replayDeadLetters([transfer1.transferId], requestContext);
+
+      expect(res).to.be.deep.eq({ replayed: [], missing: [] });
+      expect(mockPubContext.adapters.cache.deadLetters.removeDeadLetters).to.not.be.called;
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { expect, mkBytes32, XTransfer } from "@connext/nxtp-utils";
+import { SinonStub } from "sinon";
+
+import { mock } from "../../mock";
+import { mockPubContext } from "../../globalTestHook";
+import { releaseReservations } from "../../../src/publisher/operations/releaseReservations";
+
+describe("Operations:ReleaseReservations", () => {
+  describe("#releaseReservations", () => {
+    const mockReservation = (domain: string) => ({
+      domain,
+      asset: mock.asset.A.address,
+      amount: "100",
+      timestamp: Math.floor(Date.now() / 1000),
+      expiry: 300,
+    });
+
+    beforeEach(() => {
+      (mockPubContext.adapters.cache.liquidity.getReservations as SinonStub).resolves({
+        [mkBytes32("0x1")]: mockReservation(mock.domain.A),
+        [mkBytes32("0x2")]: mockReservation(mock.domain.B),
+        [mkBytes32("0x3")]: mockReservation(mock.domain.B),
+      });
+      (mockPubContext.adapters.subgraph.getLatestBlockNumber as SinonStub).resolves(
+        new Map([
+          [mock.domain.A, 1234],
+          [mock.domain.B, 5678],
+        ]),
+      );
+      (mockPubContext.adapters.subgraph.getDestinationTransfersById as SinonStub).resolves([
+        mock.entity.xtransfer({ transferId: mkBytes32("0x2") }) as XTransfer,
+      ]);
+    });
+
+    it("happy: should release reservations for transfers executed on the destination domain", async () => {
+      await releaseReservations();
+
+      expect(mockPubContext.adapters.subgraph.getDestinationTransfersById).to.be.calledOnceWithExactly(
+        new Map([
+          [mock.domain.A, { maxBlockNumber: 1234, transferIDs: [mkBytes32("0x1")] }],
+          [mock.domain.B, { maxBlockNumber: 5678, transferIDs: [mkBytes32("0x2"), mkBytes32("0x3")] }],
+        ]),
+      );
+      expect(mockPubContext.adapters.cache.liquidity.releaseLiquidity).to.be.calledOnceWithExactly(
+        mock.address.router,
+        mkBytes32("0x2"),
+      );
+    });
+
+    it("should not query the subgraph if there are no reservations", async () => {
+      (mockPubContext.adapters.cache.liquidity.getReservations as SinonStub).resolves({});
+
+      await releaseReservations();
+
+      expect(mockPubContext.adapters.subgraph.getDestinationTransfersById).to.not.be.called;
+      expect(mockPubContext.adapters.cache.liquidity.releaseLiquidity).to.not.be.called;
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { expect, Logger, createRequestContext, mkAddress } from "@connext/nxtp-utils";
+import { Web3Signer } from "@connext/nxtp-adapters-web3signer";
+import rabbit from "foo-foo-mq";
+import { createStubInstance, stub } from "sinon";
+
+import {
+  ATTEMPTS_HEADER,
+  getAttempts,
+  getRetryDelay,
+  getRetryQueue,
+  MQ_EXCHANGE,
+  RETRY_EXCHANGE,
+  setupMq,
+  setupRotation,
+  XCALL_QUEUE,
+} from "../src/setup";
+import { mock } from "./mock";
+
+describe("Setup", () => {
+  const retry = mock.config().retry;
+
+  describe("#getAttempts", () => {
+    it("should parse the attempts header", () => {
+      expect(getAttempts({ [ATTEMPTS_HEADER]: "2" })).to.be.eq(2);
+      expect(getAttempts({ [ATTEMPTS_HEADER]: 3 })).to.be.eq(3);
+    });
+
+    it("should return 0 if the header is missing or invalid", () => {
+      expect(getAttempts(undefined)).to.be.eq(0);
+      expect(getAttempts({})).to.be.eq(0);
+      expect(getAttempts({ [ATTEMPTS_HEADER]: "foo" })).to.be.eq(0);
+    });
+  });
+
+  describe("#getRetryDelay", () => {
+    it("should double the delay with every attempt, up to the max delay", () => {
+      expect(getRetryDelay(1, retry)).to.be.eq(10);
+      expect(getRetryDelay(2, retry)).to.be.eq(20);
+      expect(getRetryDelay(3, retry)).to.be.eq(40);
+      expect(getRetryDelay(10, retry)).to.be.eq(600);
+    });
+  });
+
+  describe("#setupMq", () => {
+    it("should declare a retry queue for each retry delay", async () => {
+      const configure = stub(rabbit, "configure").resolves();
+
+      await setupMq(
+        "amqp://localhost",
+        { ...retry, limit: 10 },
+        new Logger({ level: "silent" }),
+        createRequestContext("test"),
+      );
+
+      const { queues, bindings } = configure.getCall(0).args[0];
+      const delays = [10, 20, 40, 80, 160, 320, 600];
+      expect(queues.filter((queue: any) => queue.name.startsWith(`${XCALL_QUEUE}.retry`))).to.be.deep.eq(
+        delays.map((delay) => ({
+          name: getRetryQueue(delay),
+          messageTtl: delay * 1_000,
+          deadLetter: MQ_EXCHANGE,
+          deadLetterRoutingKey: XCALL_QUEUE,
+        })),
+      );
+      expect(bindings.filter((binding: any) => binding.exchange === RETRY_EXCHANGE)).to.be.deep.eq(
+        delays.map((delay) => ({
+          exchange: RETRY_EXCHANGE,
+          target: getRetryQueue(delay),
+          keys: [getRetryQueue(delay)],
+        })),
+      );
+      // The xcall queue is declared without arguments, so it stays compatible with existing deployments.
+      expect(queues).to.deep.include({ name: XCALL_QUEUE });
+    });
+  });
+
+  describe("#setupRotation", () => {
+    const next = mkAddress("0xdef");
+    const logger = new Logger({ level: "silent" });
+    const config = { ...mock.config(), web3SignerRotation: { key: next, from: 123 } };
+
+    it("should rotate once the new key is approved on every domain, moving liquidity state over", async () => {
+      const wallet = createStubInstance(Web3Signer);
+      const subgraph = mock.adapters.subgraph();
+      const cache = mock.adapters.cache();
+      cache.liquidity.moveRouter.resolves(true);
+
+      setupRotation(wallet, config, subgraph, cache, logger, createRequestContext("test"));
+
+      expect(wallet.rotate).to.be.calledOnce;
+      const { identifier, from, isRegistered, onRotated } = wallet.rotate.getCall(0).args[0];
+      expect(identifier).to.be.eq(next);
+      expect(from).to.be.eq(123);
+
+      subgraph.isRouterApproved.withArgs(mock.domain.A, next).resolves(true);
+      subgraph.isRouterApproved.withArgs(mock.domain.B, next).resolves(false);
+      expect(await isRegistered(next)).to.be.false;
+      subgraph.isRouterApproved.withArgs(mock.domain.B, next).resolves(true);
+      expect(await isRegistered(next)).to.be.true;
+
+      onRotated!(next, mock.address.router);
+      expect(cache.liquidity.moveRouter).to.be.calledOnceWithExactly(mock.address.router, next);
+    });
+
+    it("should do nothing without a web3signer or a configured rotation", () => {
+      const wallet = createStubInstance(Web3Signer);
+      setupRotation(
+        wallet,
+        mock.config(),
+        mock.adapters.subgraph(),
+        mock.adapters.cache(),
+        logger,
+        createRequestContext("test"),
+      );
+      expect(wallet.rotate).to.not.be.called;
+      expect(() =>
+        setupRotation(
+          mock.adapters.wallet(),
+          config,
+          mock.adapters.subgraph(),
+          mock.adapters.cache(),
+          logger,
+          createRequestContext("test"),
+        ),
+      ).to.not.throw();
+    });
+  });
+});
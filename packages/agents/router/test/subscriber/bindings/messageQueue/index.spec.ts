@@ -1,8 +1,20 @@
 import { expect } from "@connext/nxtp-utils";
+import { SinonStub, stub } from "sinon";
 
 import { bindMessageQueue } from "../../../../src/subscriber/bindings/messageQueue";
+import * as ExecuteFns from "../../../../src/subscriber/operations/execute";
+import { mock } from "../../../mock";
 import { mockSubContext } from "../../../globalTestHook";
-import { XCALL_MESSAGE_TYPE, XCALL_QUEUE } from "../../../../src/setup";
+import {
+  ATTEMPTS_HEADER,
+  DEAD_LETTER_EXCHANGE,
+  ERROR_HEADER,
+  getRetryQueue,
+  RETRY_EXCHANGE,
+  XCALL_MESSAGE_TYPE,
+  XCALL_QUEUE,
+} from "../../../../src/setup";
+import { BiddingPaused, ExecuteError, UnableToGetAsset } from "../../../../src/errors";
 
 describe("Bindings:MessageQueue", () => {
   describe("#bindMessageQueue", async () => {
@@ -15,5 +27,93 @@ describe("Bindings:MessageQueue", () => {
 
       expect(mockSubContext.adapters.mqClient.startSubscription).to.be.calledOnceWithExactly(XCALL_QUEUE);
     });
+
+    describe("handler", () => {
+      let mockExecute: SinonStub;
+      let handler: (message: any) => Promise<void>;
+      const mockMessage = (headers?: Record<string, string>) => ({
+        body: mock.entity.xtransfer(),
+        properties: { headers },
+        ack: stub(),
+        nack: stub(),
+      });
+
+      beforeEach(async () => {
+        mockExecute = stub(ExecuteFns, "execute").resolves();
+        await bindMessageQueue();
+        handler = (mockSubContext.adapters.mqClient.handle as SinonStub).getCall(0).args[1];
+      });
+
+      it("happy: should ack the message once handled", async () => {
+        const message = mockMessage();
+        await handler(message);
+        expect(mockExecute).to.be.calledOnceWith(message.body);
+        expect(message.ack).to.be.calledOnce;
+        expect(mockSubContext.adapters.mqClient.publish).to.not.be.called;
+      });
+
+      it("should republish to the retry exchange with a delay on retryable errors", async () => {
+        mockExecute.rejects(new ExecuteError("Params invalid"));
+        const message = mockMessage({ [ATTEMPTS_HEADER]: "1" });
+
+        await handler(message);
+
+        expect(mockSubContext.adapters.mqClient.publish).to.be.calledOnceWithExactly(RETRY_EXCHANGE, {
+          body: message.body,
+          type: XCALL_MESSAGE_TYPE,
+          routingKey: getRetryQueue(20),
+          headers: { [ATTEMPTS_HEADER]: "2" },
+        });
+        expect(message.ack).to.be.calledOnce;
+        expect(message.nack).to.not.be.called;
+      });
+
+      it("should dead-letter the message once out of retries", async () => {
+        mockExecute.rejects(new ExecuteError("Params invalid"));
+        const message = mockMessage({ [ATTEMPTS_HEADER]: "2" });
+
+        await handler(message);
+
+        const [exchange, { headers }] = (mockSubContext.adapters.mqClient.publish as SinonStub).getCall(0).args;
+        expect(exchange).to.be.eq(DEAD_LETTER_EXCHANGE);
+        expect(headers[ATTEMPTS_HEADER]).to.be.eq("3");
+        expect(headers[ERROR_HEADER]).to.be.eq("ExecuteError: Params invalid");
+        expect(message.ack).to.be.calledOnce;
+      });
+
+      it("should dead-letter the message on non-retryable errors", async () => {
+        mockExecute.rejects(new UnableToGetAsset());
+        const message = mockMessage();
+
+        await handler(message);
+
+        const [exchange, { headers }] = (mockSubContext.adapters.mqClient.publish as SinonStub).getCall(0).args;
+        expect(exchange).to.be.eq(DEAD_LETTER_EXCHANGE);
+        expect(headers[ATTEMPTS_HEADER]).to.be.eq("1");
+        expect(headers[ERROR_HEADER]).to.include(UnableToGetAsset.name);
+        expect(message.ack).to.be.calledOnce;
+      });
+
+      it("should ack the message without dead-lettering if the transfer was skipped", async () => {
+        mockExecute.rejects(new BiddingPaused());
+        const message = mockMessage();
+
+        await handler(message);
+
+        expect(mockSubContext.adapters.mqClient.publish).to.not.be.called;
+        expect(message.ack).to.be.calledOnce;
+      });
+
+      it("should nack the message if republishing fails", async () => {
+        mockExecute.rejects(new ExecuteError("Params invalid"));
+        (mockSubContext.adapters.mqClient.publish as SinonStub).rejects(new Error("fail"));
+        const message = mockMessage();
+
+        await handler(message);
+
+        expect(message.nack).to.be.calledOnce;
+        expect(message.ack).to.not.be.called;
+      });
+    });
   });
 });
@@ -0,0 +1,231 @@
+import { BigNumber, constants } from "ethers";
+import { expect, mkBytes32 } from "@connext/nxtp-utils";
+import { SinonStub } from "sinon";
+
+import {
+  BIDDING_STRATEGIES,
+  evaluateTransfer,
+  getAvailableLiquidity,
+  getBidRounds,
+  releaseLiquidity,
+  reserveLiquidity,
+  RoundAmount,
+} from "../../../src/subscriber/operations/bidding";
+import { mock } from "../../mock";
+import { mockSubContext } from "../../globalTestHook";
+import { AmountAboveMaximum, AmountBelowMinimum, SlippageTooHigh, TransferUnprofitable } from "../../../src/errors";
+
+const { requestContext } = mock.loggingContext("Operations:Bidding");
+
+const mockRounds = (amount: number): RoundAmount[] =>
+  [1, 2, 3, 4].map((round) => ({ round, amount: BigNumber.from(amount).div(2 ** (round - 1)) }));
+
+describe("Operations:Bidding", () => {
+  const asset = mock.asset.A.address;
+
+  describe("#reserveLiquidity", () => {
+    it("should reserve liquidity within the available liquidity, with the configured expiry", async () => {
+      const liquidity = { available: BigNumber.from(60), committed: BigNumber.from(30), reserved: BigNumber.from(10) };
+      const reserved = await reserveLiquidity(
+        mock.address.router,
+        mkBytes32("0x1"),
+        mock.domain.B,
+        asset,
+        BigNumber.from(10),
+        liquidity,
+      );
+      expect(reserved).to.be.true;
+      expect(mockSubContext.adapters.cache.liquidity.reserveLiquidityWithinCap).to.be.calledOnceWithExactly(
+        mock.domain.B,
+        mock.address.router,
+        asset,
+        mkBytes32("0x1"),
+        BigNumber.from(10),
+        BigNumber.from(90),
+        mockSubContext.config.bidding.inflightBidExpiry,
+      );
+    });
+
+    it("should return false if the liquidity is no longer available", async () => {
+      (mockSubContext.adapters.cache.liquidity.reserveLiquidityWithinCap as SinonStub).resolves(false);
+      const liquidity = { available: BigNumber.from(60), committed: BigNumber.from(30), reserved: BigNumber.from(10) };
+      expect(
+        await reserveLiquidity(
+          mock.address.router,
+          mkBytes32("0x1"),
+          mock.domain.B,
+          asset,
+          BigNumber.from(10),
+          liquidity,
+        ),
+      ).to.be.false;
+    });
+  });
+
+  describe("#releaseLiquidity", () => {
+    it("should release liquidity in the cache", async () => {
+      await releaseLiquidity(mock.address.router, mkBytes32("0x1"));
+      expect(mockSubContext.adapters.cache.liquidity.releaseLiquidity).to.be.calledOnceWithExactly(
+        mock.address.router,
+        mkBytes32("0x1"),
+      );
+    });
+  });
+
+  describe("#getAvailableLiquidity", () => {
+    let reservedLiquidity: SinonStub;
+    beforeEach(() => {
+      reservedLiquidity = mockSubContext.adapters.cache.liquidity.getReservedLiquidity as SinonStub;
+    });
+
+    it("should return the full balance by default", async () => {
+      const { available, committed, reserved } = await getAvailableLiquidity(
+        mock.address.router,
+        mock.domain.B,
+        asset,
+        BigNumber.from(100),
+      );
+      expect(available.toString()).to.be.eq("100");
+      expect(committed.toString()).to.be.eq("0");
+      expect(reserved.toString()).to.be.eq("0");
+    });
+
+    it("should subtract reserve and committed liquidity", async () => {
+      mockSubContext.config.bidding.reservePercent = 10;
+      reservedLiquidity.resolves(BigNumber.from(30));
+      const { available, committed, reserved } = await getAvailableLiquidity(
+        mock.address.router,
+        mock.domain.B,
+        asset,
+        BigNumber.from(100),
+      );
+      expect(available.toString()).to.be.eq("60");
+      expect(committed.toString()).to.be.eq("30");
+      expect(reserved.toString()).to.be.eq("10");
+    });
+
+    it("should apply the per-domain exposure cap", async () => {
+      mockSubContext.config.bidding.maxExposurePercent = { [mock.domain.B]: 50 };
+      reservedLiquidity.resolves(BigNumber.from(30));
+      expect(
+        (
+          await getAvailableLiquidity(mock.address.router, mock.domain.B, asset, BigNumber.from(100))
+        ).available.toString(),
+      ).to.be.eq("20");
+      expect(
+        (
+          await getAvailableLiquidity(mock.address.router, mock.domain.A, asset, BigNumber.from(100))
+        ).available.toString(),
+      ).to.be.eq("70");
+    });
+
+    it("should apply the per-asset exposure cap", async () => {
+      mockSubContext.config.bidding.maxExposure = { [mock.domain.B]: { [asset.toUpperCase()]: "40" } };
+      expect(
+        (
+          await getAvailableLiquidity(mock.address.router, mock.domain.B, asset, BigNumber.from(100))
+        ).available.toString(),
+      ).to.be.eq("40");
+    });
+
+    it("should return zero if committed liquidity exceeds the cap", async () => {
+      mockSubContext.config.bidding.maxExposure = { [mock.domain.B]: { [asset]: "40" } };
+      reservedLiquidity.resolves(BigNumber.from(50));
+      expect(
+        (
+          await getAvailableLiquidity(mock.address.router, mock.domain.B, asset, BigNumber.from(100))
+        ).available.toString(),
+      ).to.be.eq("0");
+    });
+  });
+
+  describe("#BIDDING_STRATEGIES", () => {
+    it("all: should select every affordable round", () => {
+      expect(BIDDING_STRATEGIES.all(mockRounds(200), BigNumber.from(100), mockSubContext.config.bidding)).to.be.deep.eq(
+        [2, 3, 4],
+      );
+    });
+
+    it("preferHigherRounds: should skip rounds above the thin liquidity threshold", () => {
+      expect(
+        BIDDING_STRATEGIES.preferHigherRounds(mockRounds(200), BigNumber.from(100), mockSubContext.config.bidding),
+      ).to.be.deep.eq([3, 4]);
+    });
+
+    it("preferHigherRounds: should select every affordable round if liquidity is deep", () => {
+      expect(
+        BIDDING_STRATEGIES.preferHigherRounds(mockRounds(200), BigNumber.from(1000), mockSubContext.config.bidding),
+      ).to.be.deep.eq([1, 2, 3, 4]);
+    });
+
+    it("preferHigherRounds: should fall back to the cheapest affordable round", () => {
+      expect(
+        BIDDING_STRATEGIES.preferHigherRounds(mockRounds(200), BigNumber.from(30), mockSubContext.config.bidding),
+      ).to.be.deep.eq([4]);
+    });
+
+    it("preferHigherRounds: should select nothing if no round is affordable", () => {
+      expect(
+        BIDDING_STRATEGIES.preferHigherRounds(mockRounds(200), BigNumber.from(10), mockSubContext.config.bidding),
+      ).to.be.deep.eq([]);
+    });
+  });
+
+  describe("#getBidRounds", () => {
+    it("should use the configured strategy", () => {
+      const liquidity = { available: BigNumber.from(100), committed: constants.Zero, reserved: constants.Zero };
+      expect(getBidRounds(mockRounds(200), liquidity, requestContext)).to.be.deep.eq([2, 3, 4]);
+
+      mockSubContext.config.bidding.strategy = "preferHigherRounds";
+      expect(getBidRounds(mockRounds(200), liquidity, requestContext)).to.be.deep.eq([3, 4]);
+    });
+  });
+
+  describe("#evaluateTransfer", () => {
+    const amount = BigNumber.from(1_000_000);
+
+    it("happy: should pass a transfer within limits that covers our costs", () => {
+      mockSubContext.config.maxSlippage = 1;
+      mockSubContext.config.bidding.capitalCostBps = 5;
+      mockSubContext.config.bidding.minFee = { [mock.domain.B]: { [asset]: "500" } };
+      mockSubContext.config.bidding.minAmount = { [mock.domain.B]: { [asset]: "1000000" } };
+      mockSubContext.config.bidding.maxAmount = { [mock.domain.B]: { [asset]: "1000000" } };
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "9900", requestContext)).to.not.throw();
+    });
+
+    it("should throw SlippageTooHigh if the transfer tolerates more slippage than maxSlippage", () => {
+      mockSubContext.config.maxSlippage = 1;
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "9899", requestContext)).to.throw(SlippageTooHigh);
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "0", requestContext)).to.throw(SlippageTooHigh);
+    });
+
+    it("should throw AmountBelowMinimum if the amount is below the asset's minimum", () => {
+      mockSubContext.config.bidding.minAmount = { [mock.domain.B]: { [asset.toUpperCase()]: "1000001" } };
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "10000", requestContext)).to.throw(
+        AmountBelowMinimum,
+      );
+      expect(() => evaluateTransfer(mock.domain.A, asset, amount, "10000", requestContext)).to.not.throw();
+    });
+
+    it("should throw AmountAboveMaximum if the amount is above the asset's maximum", () => {
+      mockSubContext.config.bidding.maxAmount = { [mock.domain.B]: { [asset]: "999999" } };
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "10000", requestContext)).to.throw(
+        AmountAboveMaximum,
+      );
+    });
+
+    it("should throw TransferUnprofitable if the fee doesn't cover our capital cost", () => {
+      mockSubContext.config.bidding.capitalCostBps = 6;
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "10000", requestContext)).to.throw(
+        TransferUnprofitable,
+      );
+    });
+
+    it("should throw TransferUnprofitable if the fee is below the asset's minimum fee", () => {
+      mockSubContext.config.bidding.minFee = { [mock.domain.B]: { [asset]: "501" } };
+      expect(() => evaluateTransfer(mock.domain.B, asset, amount, "10000", requestContext)).to.throw(
+        TransferUnprofitable,
+      );
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { constants, utils, BigNumber, Signer, Wallet } from "ethers";
 import { reset, restore, SinonStub, stub } from "sinon";
 import { BaseRequestContext, Bid, expect, formatUrl, OriginTransfer } from "@connext/nxtp-utils";
+import { SubgraphStale } from "@connext/nxtp-adapters-subgraph";
 import axios from "axios";
 
 import * as ExecuteFns from "../../../src/subscriber/operations/execute";
@@ -15,6 +16,9 @@ import {
   InvalidAuctionRound,
   UnableToGetAsset,
   NonRetryableBidPostError,
+  BiddingPaused,
+  AmountAboveMaximum,
+  SubgraphNotSynced,
 } from "../../../src/errors";
 import { mock } from "../../mock";
 import { version } from "../../../package.json";
@@ -49,6 +53,13 @@ describe("Operations:Execute", () => {
       const localAsset = await getDestinationLocalAsset(mock.chain.A, mock.asset.A.address, mock.chain.B);
       expect(localAsset).to.be.eq(mockLocalAsset);
     });
+
+    it("should throw a retryable error if the subgraph is stale", async () => {
+      (mockSubContext.adapters.subgraph.getAssetByLocal as SinonStub).rejects(new SubgraphStale(mock.chain.A));
+      await expect(getDestinationLocalAsset(mock.chain.A, mock.asset.A.address, mock.chain.B)).to.be.rejectedWith(
+        SubgraphNotSynced,
+      );
+    });
   });
 
   describe("#sendBid", () => {
@@ -162,7 +173,7 @@ describe("Operations:Execute", () => {
 
       expect(mockSubContext.adapters.subgraph.getAssetBalance).to.be.calledOnceWithExactly(
         mock.domain.B,
-        mockSubContext.routerAddress,
+        mock.address.router,
         mockFulfillLocalAsset,
       );
       expect(mockGetDestinationLocalAsset).to.be.calledOnceWithExactly(
@@ -172,6 +183,8 @@ describe("Operations:Execute", () => {
       );
       expect(mockSignRouterPathPayload).to.be.callCount(4);
       expect(mockSendBid).to.have.been.calledOnceWithExactly(expectedBid, requestContext);
+      // The address is resolved once for the whole bid, as the signer may rotate keys when it's read.
+      expect(mockSubContext.adapters.wallet.getAddress).to.be.calledOnce;
     });
 
     it("should choose rounds properly", async () => {
@@ -196,9 +209,72 @@ describe("Operations:Execute", () => {
       expect(mockSendBid).to.be.calledOnceWithExactly(_expectedBid, requestContext);
     });
 
+    it("should not bid with liquidity reserved for in-flight bids", async () => {
+      const _mockXTransfer = mock.entity.xtransfer({
+        amount: "200",
+      });
+      (mockSubContext.adapters.cache.liquidity.getReservedLiquidity as SinonStub).resolves(BigNumber.from(50));
+      (mockSubContext.adapters.subgraph.getAssetBalance as SinonStub).resolves("100");
+
+      await execute(_mockXTransfer as OriginTransfer, requestContext);
+      expect(Object.keys(mockSendBid.getCall(0).args[0].signatures)).to.be.deep.eq(["3", "4"]);
+    });
+
+    it("should reserve liquidity for the lowest signed round", async () => {
+      const _mockXTransfer = mock.entity.xtransfer({
+        amount: "200",
+      });
+      (mockSubContext.adapters.subgraph.getAssetBalance as SinonStub).resolves("100");
+
+      await execute(_mockXTransfer as OriginTransfer, requestContext);
+      expect(mockSubContext.adapters.cache.liquidity.reserveLiquidityWithinCap).to.be.calledOnceWithExactly(
+        _mockXTransfer.xparams.destinationDomain,
+        mock.address.router,
+        mockFulfillLocalAsset,
+        _mockXTransfer.transferId,
+        BigNumber.from(100),
+        BigNumber.from(100),
+        mockSubContext.config.bidding.inflightBidExpiry,
+      );
+      expect(mockSubContext.adapters.cache.liquidity.reserveLiquidityWithinCap).to.be.calledBefore(
+        mockSignRouterPathPayload,
+      );
+    });
+
+    it("should throw NotEnoughAmount without bidding if the liquidity was reserved concurrently", async () => {
+      (mockSubContext.adapters.cache.liquidity.reserveLiquidityWithinCap as SinonStub).resolves(false);
+
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(NotEnoughAmount);
+      expect(mockSignRouterPathPayload).to.not.be.called;
+      expect(mockSendBid).to.not.be.called;
+      expect(mockSubContext.adapters.cache.liquidity.releaseLiquidity).to.not.be.called;
+    });
+
+    it("should release reserved liquidity if a sanity check fails", async () => {
+      mockXTransfer.xparams.callData = "0xbeef";
+      (mockSubContext.adapters.chainreader.getCode as SinonStub).resolves("0x");
+
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(CallDataForNonContract);
+      expect(mockSendBid).to.not.be.called;
+      expect(mockSubContext.adapters.cache.liquidity.releaseLiquidity).to.be.calledOnceWithExactly(
+        mock.address.router,
+        mockXTransfer.transferId,
+      );
+    });
+
+    it("should release reserved liquidity if sending the bid fails", async () => {
+      mockSendBid.rejects(new AuctionExpired());
+
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(AuctionExpired);
+      expect(mockSubContext.adapters.cache.liquidity.releaseLiquidity).to.be.calledOnceWithExactly(
+        mock.address.router,
+        mockXTransfer.transferId,
+      );
+    });
+
     it("happy with calldata", async () => {
       mockXTransfer.xparams.callData = "0xbeef";
-      (mockSubContext.adapters.txservice.getCode as SinonStub).resolves("0xbeef");
+      (mockSubContext.adapters.chainreader.getCode as SinonStub).resolves("0xbeef");
 
       await expect(execute(mockXTransfer, requestContext)).to.be.fulfilled;
     });
@@ -221,11 +297,42 @@ describe("Operations:Execute", () => {
       await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(UnableToGetAsset);
     });
 
+    it("should throw a retryable error if the subgraph is stale", async () => {
+      (mockSubContext.adapters.subgraph.getOriginTransferById as SinonStub).rejects(
+        new SubgraphStale(mockXTransfer.xparams.originDomain),
+      );
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(SubgraphNotSynced);
+    });
+
+    it("should keep the subgraph error retryable when getting the local asset", async () => {
+      mockGetDestinationLocalAsset.rejects(new SubgraphNotSynced());
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(SubgraphNotSynced);
+    });
+
     it("should throw UnableToGetAsset if getAsset returns undefined", async () => {
       mockGetDestinationLocalAsset.resolves(undefined);
       await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(UnableToGetAsset);
     });
 
+    it("should throw BiddingPaused if bidding is paused for the destination domain or asset", async () => {
+      (mockSubContext.adapters.cache.liquidity.isPaused as SinonStub).resolves(true);
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(BiddingPaused);
+      expect(mockSubContext.adapters.cache.liquidity.isPaused).to.be.calledOnceWithExactly(
+        mockRouter,
+        mockXTransfer.xparams.destinationDomain,
+        mockFulfillLocalAsset,
+      );
+      expect(mockSendBid).to.not.be.called;
+    });
+
+    it("should throw if the transfer isn't worth bidding on", async () => {
+      mockSubContext.config.bidding.maxAmount = {
+        [mockXTransfer.xparams.destinationDomain]: { [mockFulfillLocalAsset]: "1" },
+      };
+      await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(AmountAboveMaximum);
+      expect(mockSendBid).to.not.be.called;
+    });
+
     it("should throw NotEnoughAmount if router doesn't have enough tokens", async () => {
       (mockSubContext.adapters.subgraph.getAssetBalance as SinonStub).resolves(BigNumber.from("0"));
       await expect(execute(mockXTransfer, requestContext)).to.be.rejectedWith(NotEnoughAmount);
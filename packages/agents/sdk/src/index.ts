@@ -2,6 +2,8 @@ export { NxtpSdkBase } from "./sdkBase";
 export { NxtpSdkRouter } from "./sdkRouter";
 export { NxtpSdkStableSwap } from "./sdkStableSwap";
 export { NxtpSdkPool } from "./sdkPool";
-export { NxtpSdkUtils } from "./sdkUtils";
+export { NxtpSdkUtils, TrackTransferParams } from "./sdkUtils";
+export { TransferTracker } from "./lib/helpers";
+export { ITransferStatusEvent } from "./interfaces";
 export { NxtpSdkConfig, NxtpSdkConfigSchema } from "./config";
 export { create } from "./sdk";
@@ -1,3 +1,5 @@
+import { XTransferStatus } from "@connext/nxtp-utils";
+
 export interface IPoolStats {
   liquidity: string;
   volume: string;
@@ -19,3 +21,10 @@ export interface IPoolData {
   lpTokenAddress: string;
   address?: string;
 }
+
+export interface ITransferStatusEvent {
+  transferId: string;
+  status: XTransferStatus;
+  source: "receipt" | "cartographer" | "subgraph"; // Where the status was read from.
+  transfer?: any; // The transfer record, as returned by the source.
+}
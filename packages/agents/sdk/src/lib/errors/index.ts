@@ -41,3 +41,27 @@ export class ParseConnextLogFailed extends NxtpError {
     super("Parsing logs failed", context, ParseConnextLogFailed.name);
   }
 }
+
+export class TransferIdNotFound extends NxtpError {
+  constructor(context: any = {}) {
+    super("No XCalled event found in the receipt", context, TransferIdNotFound.name);
+  }
+}
+
+export class TransferTrackingTimeout extends NxtpError {
+  constructor(context: any = {}) {
+    super("Timed out tracking transfer", context, TransferTrackingTimeout.name);
+  }
+}
+
+export class TransferTrackingCancelled extends NxtpError {
+  constructor(context: any = {}) {
+    super("Transfer tracking cancelled", context, TransferTrackingCancelled.name);
+  }
+}
+
+export class PoolNotFound extends NxtpError {
+  constructor(context: any = {}) {
+    super("No pool found for token", context, PoolNotFound.name);
+  }
+}
@@ -45,6 +45,15 @@ export const axiosGetRequest = async (uri: string): Promise<any> => {
   }
 };
 
+export const axiosPostRequest = async (uri: string, data: any): Promise<any> => {
+  try {
+    const response = await axios.post(uri, data);
+    return response.data;
+  } catch (err: any) {
+    throw new ApiRequestFailed({ error: jsonifyError(err as Error) });
+  }
+};
+
 export const parseConnextLog = (log: providers.Log): any => {
   const contracts = getContractInterfaces();
   try {
@@ -0,0 +1,174 @@
+import { XTransferStatus } from "@connext/nxtp-utils";
+import { Evt } from "evt";
+
+import { ITransferStatusEvent } from "../../interfaces";
+import { TransferTrackingCancelled, TransferTrackingTimeout } from "../errors";
+
+// Statuses a transfer can move on to from each status. A transfer is first either executed (fast path) or reconciled
+// (slow path), and completes once both have happened.
+export const NEXT_TRANSFER_STATUSES: Record<XTransferStatus, XTransferStatus[]> = {
+  [XTransferStatus.XCalled]: [
+    XTransferStatus.Executed,
+    XTransferStatus.Reconciled,
+    XTransferStatus.CompletedFast,
+    XTransferStatus.CompletedSlow,
+  ],
+  [XTransferStatus.Executed]: [XTransferStatus.CompletedFast, XTransferStatus.CompletedSlow],
+  [XTransferStatus.Reconciled]: [XTransferStatus.CompletedFast, XTransferStatus.CompletedSlow],
+  [XTransferStatus.CompletedFast]: [],
+  [XTransferStatus.CompletedSlow]: [],
+};
+
+/**
+ * Whether a transfer with the given status has reached the target status, i.e. is at it or has moved on from it.
+ */
+export const hasReachedStatus = (status: XTransferStatus, target: XTransferStatus): boolean =>
+  status === target || NEXT_TRANSFER_STATUSES[target].includes(status);
+
+export const isTransferCompleted = (status: XTransferStatus): boolean =>
+  status === XTransferStatus.CompletedFast || status === XTransferStatus.CompletedSlow;
+
+/**
+ * @classdesc Polls a transfer's status until it completes, emitting an event each time the transfer progresses.
+ * Status events can be listened to with `attach`, or iterated over with `for await`; iterating always starts from
+ * the first status seen.
+ */
+export class TransferTracker implements AsyncIterable<ITransferStatusEvent> {
+  private readonly evts = {
+    status: Evt.create<ITransferStatusEvent>(),
+    // Posted whenever there's something new for iterators to read, i.e. a status or the end of tracking.
+    updated: Evt.create(),
+  };
+  private readonly events: ITransferStatusEvent[] = [];
+  private error?: Error;
+  private finished = false;
+  private pollTimeout?: ReturnType<typeof setTimeout>;
+  private deadline?: ReturnType<typeof setTimeout>;
+  private resolveDone!: (event: ITransferStatusEvent) => void;
+  private rejectDone!: (error: Error) => void;
+
+  /// Resolves with the completed status, or rejects if tracking times out or is cancelled.
+  public readonly done: Promise<ITransferStatusEvent>;
+
+  /**
+   * @param transferId - The transfer being tracked.
+   * @param getStatus - Reads the transfer's current status, or undefined if it isn't known yet. Shouldn't reject.
+   * @param pollInterval - The ms between status reads.
+   * @param timeout - (optional) The ms to track the transfer for before giving up.
+   */
+  constructor(
+    public readonly transferId: string,
+    private readonly getStatus: () => Promise<ITransferStatusEvent | undefined>,
+    private readonly pollInterval: number,
+    timeout?: number,
+  ) {
+    this.done = new Promise((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+    // Rejections are surfaced through `done` and iterators; don't let them go unhandled if no one is listening.
+    this.done.catch(() => undefined);
+
+    if (timeout !== undefined) {
+      this.deadline = setTimeout(() => this.finish(new TransferTrackingTimeout({ transferId, timeout })), timeout);
+    }
+  }
+
+  /**
+   * Gets the latest status seen, if any.
+   */
+  public get status(): XTransferStatus | undefined {
+    return this.events[this.events.length - 1]?.status;
+  }
+
+  /**
+   * Starts polling, after posting the given status if we already know it (e.g. from the xcall receipt).
+   */
+  public start(initial?: ITransferStatusEvent): TransferTracker {
+    if (initial) {
+      this.update(initial);
+    }
+    void this.poll();
+    return this;
+  }
+
+  /**
+   * Attaches a callback to status events.
+   *
+   * @param callback - The callback to invoke on each status event
+   * @param filter - (optional) A filter where callbacks are only invoked if the filter returns true
+   */
+  public attach(
+    callback: (event: ITransferStatusEvent) => void,
+    filter: (event: ITransferStatusEvent) => boolean = (_event: ITransferStatusEvent) => true,
+  ): void {
+    this.evts.status.pipe(filter).attach(callback);
+  }
+
+  /**
+   * Removes all attached callbacks.
+   */
+  public detach(): void {
+    this.evts.status.detach();
+  }
+
+  /**
+   * Stops tracking the transfer. `done` and any iterators reject with `TransferTrackingCancelled`.
+   */
+  public cancel(): void {
+    this.finish(new TransferTrackingCancelled({ transferId: this.transferId }));
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<ITransferStatusEvent> {
+    let index = 0;
+    while (true) {
+      if (index < this.events.length) {
+        yield this.events[index++];
+      } else if (this.finished) {
+        if (this.error) throw this.error;
+        return;
+      } else {
+        await this.evts.updated.waitFor();
+      }
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.finished) return;
+    const event = await this.getStatus();
+    if (event) {
+      this.update(event);
+    }
+    if (!this.finished) {
+      this.pollTimeout = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  private update(event: ITransferStatusEvent): void {
+    // Sources can lag each other, so only post statuses the transfer can move on to from the latest one.
+    if (this.finished || (this.status && !NEXT_TRANSFER_STATUSES[this.status].includes(event.status))) {
+      return;
+    }
+    this.events.push(event);
+    this.evts.status.post(event);
+    if (isTransferCompleted(event.status)) {
+      this.finish();
+    } else {
+      this.evts.updated.post();
+    }
+  }
+
+  private finish(error?: Error): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.error = error;
+    clearTimeout(this.pollTimeout);
+    clearTimeout(this.deadline);
+    if (error) {
+      this.rejectDone(error);
+    } else {
+      this.resolveDone(this.events[this.events.length - 1]);
+    }
+    this.evts.updated.post();
+  }
+}
@@ -1,11 +1,93 @@
-import { providers, BigNumber } from "ethers";
-import { getChainData, Logger, createLoggingContext, ChainData } from "@connext/nxtp-utils";
+import { providers, BigNumber, constants, utils } from "ethers";
+import {
+  getChainData,
+  Logger,
+  createLoggingContext,
+  ChainData,
+  formatUrl,
+  jsonifyError,
+  STABLESWAP_FEE_DENOMINATOR,
+} from "@connext/nxtp-utils";
 import { getContractInterfaces, contractDeployments, ChainReader } from "@connext/nxtp-txservice";
-import { ConnextHandler as TConnext, TokenRegistry as TTokenRegistry, IERC20Extended } from "@connext/nxtp-contracts";
+import {
+  ConnextHandler as TConnext,
+  TokenRegistry as TTokenRegistry,
+  IERC20Extended,
+  StableSwap as TStableSwap,
+} from "@connext/nxtp-contracts";
 
 import { NxtpSdkConfig, getConfig } from "./config";
-import { SignerAddressMissing, ContractAddressMissing, ChainDataUndefined } from "./lib/errors";
+import { SignerAddressMissing, ContractAddressMissing, ChainDataUndefined, PoolNotFound } from "./lib/errors";
 import { IPoolStats, IPoolData } from "./interfaces";
+import { axiosGetRequest, validateUri } from "./lib/helpers";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Pool tokens are pegged to each other, so amounts are compared at 18 decimals.
+const normalizeAmount = (amount: BigNumber, decimals: number): BigNumber =>
+  amount.mul(BigNumber.from(10).pow(18 - decimals));
+
+// Days since the epoch, for either a unix timestamp or a "YYYY-MM-DD" date.
+const toDay = (time: number | string): number =>
+  Math.floor((typeof time === "string" ? Date.parse(time) / 1000 : time) / SECONDS_PER_DAY);
+
+// Numeric arrays are cast to text for cartographer, which returns them as postgres array literals, e.g. "{1,2}".
+const parseNumericArray = (value: string): BigNumber[] =>
+  value
+    .replace(/[{}]/g, "")
+    .split(",")
+    .map((item) => BigNumber.from(item));
+
+type DailyVolume = { day: number; volume: BigNumber; fees: BigNumber };
+
+/**
+ * Computes a pool's stats from its balances and its volume and fees per day.
+ * @param balances The pool's balances, in the same order as decimals.
+ * @param decimals The decimals of the pool's tokens.
+ * @param dailyVolume The pool's volume and fees per day, normalized to 18 decimals.
+ * @param adminFee The share of fees kept by the admin, in STABLESWAP_FEE_DENOMINATOR.
+ * @param days The number of days, including today, to sum volume and fees over.
+ */
+const computePoolStats = (
+  balances: BigNumber[],
+  decimals: number[],
+  dailyVolume: DailyVolume[],
+  adminFee: BigNumber,
+  days: number,
+): IPoolStats => {
+  const tvl = balances.reduce(
+    (sum, balance, index) => sum.add(normalizeAmount(balance, decimals[index])),
+    BigNumber.from(0),
+  );
+  const today = toDay(Date.now() / 1000);
+  const sumSince = (fromDay: number, key: "volume" | "fees"): BigNumber =>
+    dailyVolume.filter((d) => d.day >= fromDay).reduce((sum, d) => sum.add(d[key]), BigNumber.from(0));
+
+  // Fees paid to LPs over the period as a share of the current TVL, compounded daily over a year.
+  const apy = (period: number): string => {
+    if (tvl.isZero() || period <= 0) {
+      return "0";
+    }
+    const lpFees = sumSince(today - period + 1, "fees")
+      .mul(STABLESWAP_FEE_DENOMINATOR.sub(adminFee))
+      .div(STABLESWAP_FEE_DENOMINATOR);
+    const rate = Number(utils.formatEther(lpFees)) / Number(utils.formatEther(tvl));
+    return ((1 + rate / period) ** 365 - 1).toString();
+  };
+  const firstDay = dailyVolume.length ? Math.min(...dailyVolume.map((d) => d.day)) : today + 1;
+
+  return {
+    liquidity: utils.formatEther(tvl),
+    volume: utils.formatEther(sumSince(today - days + 1, "volume")),
+    fees: utils.formatEther(sumSince(today - days + 1, "fees")),
+    apy: {
+      week: apy(7),
+      month: apy(30),
+      year: apy(365),
+      total: apy(today - firstDay + 1),
+    },
+  };
+};
 
 export class Pool implements IPoolData {
   domainId: string;
@@ -17,6 +99,9 @@ export class Pool implements IPoolData {
   lpTokenAddress: string;
   address?: string; // no address if internal pool
 
+  // Reads the pool's stats, for pools read through NxtpSdkPool.
+  private readonly readStats?: (days: number) => Promise<IPoolStats>;
+
   constructor(
     domainId: string,
     name: string,
@@ -26,6 +111,7 @@ export class Pool implements IPoolData {
     balances: BigNumber[],
     lpTokenAddress: string,
     address?: string,
+    readStats?: (days: number) => Promise<IPoolStats>,
   ) {
     this.domainId = domainId;
     this.name = name;
@@ -35,31 +121,30 @@ export class Pool implements IPoolData {
     this.balances = balances;
     this.lpTokenAddress = lpTokenAddress;
     this.address = address;
+    this.readStats = readStats;
   }
 
   async getLiquidity(): Promise<string> {
-    // TODO: get this from cartographer
-    return "100";
+    return (await this.getStats()).liquidity;
   }
 
-  async getVolume(): Promise<string> {
-    // TODO: get this from cartographer
-    return "100";
+  async getVolume(days = 1): Promise<string> {
+    return (await this.getStats(days)).volume;
   }
 
-  async getFees(): Promise<string> {
-    // TODO: get this from cartographer
-    return "100";
+  async getFees(days = 1): Promise<string> {
+    return (await this.getStats(days)).fees;
   }
 
   async getApy(): Promise<{ week: string; month: string; year: string; total: string }> {
-    // TODO: get this from cartographer
-    return {
-      week: "100",
-      month: "100",
-      year: "100",
-      total: "100",
-    };
+    return (await this.getStats()).apy;
+  }
+
+  private async getStats(days = 1): Promise<IPoolStats> {
+    // Without a reader, only the balances the pool was created with are known.
+    return this.readStats
+      ? await this.readStats(days)
+      : computePoolStats(this.balances, this.decimals, [], BigNumber.from(0), days);
   }
 }
 
@@ -67,7 +152,7 @@ export class Pool implements IPoolData {
  * @classdesc Lightweight class to facilitate interaction with StableSwap Pools.
  * @dev This class will either interact with internal StableSwapFacet pools or external StableSwap pools
  *      depending on which type of pool is being used for each asset.
- *      Note: SDK currently only supports internal StableSwapFacet pools.
+ *      Note: pool operations currently only support internal StableSwapFacet pools.
  *
  */
 export class NxtpSdkPool {
@@ -76,6 +161,7 @@ export class NxtpSdkPool {
   public readonly connext: TConnext["interface"];
   public readonly tokenRegistry: TTokenRegistry["interface"];
   public readonly erc20: IERC20Extended["interface"];
+  public readonly stableSwap: TStableSwap["interface"];
 
   private readonly logger: Logger;
   private readonly chainReader: ChainReader;
@@ -91,6 +177,7 @@ export class NxtpSdkPool {
     this.connext = getContractInterfaces().connext;
     this.tokenRegistry = getContractInterfaces().tokenRegistry;
     this.erc20 = getContractInterfaces().erc20Extended;
+    this.stableSwap = getContractInterfaces().stableSwap;
   }
 
   static async create(
@@ -528,7 +615,18 @@ export class NxtpSdkPool {
           to: connextContract,
           data: encoded,
         });
-        const lpTokenAddress = this.connext.decodeFunctionResult("getSwapLPToken", result)[0] as string;
+        let lpTokenAddress = this.connext.decodeFunctionResult("getSwapLPToken", result)[0] as string;
+
+        // Connext swaps through its internal pool for the asset if there is one, and otherwise through the external
+        // pool registered for it.
+        let address: string | undefined;
+        if (lpTokenAddress === constants.AddressZero) {
+          address = await this.getExternalPoolAddress(domainId, canonicalId);
+          if (address === constants.AddressZero) {
+            return;
+          }
+          ({ lpToken: lpTokenAddress } = await this.getExternalPoolStorage(domainId, address));
+        }
 
         encoded = this.erc20.encodeFunctionData("decimals");
         result = await this.chainReader.readTx({
@@ -553,17 +651,26 @@ export class NxtpSdkPool {
         });
         const tokenSymbol = this.erc20.decodeFunctionResult("symbol", result)[0] as string;
 
-        const adoptedBalance = await this.getPoolTokenBalance(domainId, canonicalId, adopted);
-        const localBalance = await this.getPoolTokenBalance(domainId, canonicalId, tokenAddress);
-
-        const pool = new Pool(
+        const balances = address
+          ? [
+              await this.getExternalPoolTokenBalance(domainId, address, adopted),
+              await this.getExternalPoolTokenBalance(domainId, address, tokenAddress),
+            ]
+          : [
+              await this.getPoolTokenBalance(domainId, canonicalId, adopted),
+              await this.getPoolTokenBalance(domainId, canonicalId, tokenAddress),
+            ];
+
+        const pool: Pool = new Pool(
           domainId,
           `${tokenSymbol}-Pool`,
           `${tokenSymbol}-mad${tokenSymbol}`,
           [adopted, tokenAddress],
           [adoptedDecimals, localDecimals],
-          [adoptedBalance, localBalance],
+          balances,
           lpTokenAddress,
+          address,
+          (days: number) => this.readPoolStats(pool, days),
         );
 
         return pool;
@@ -604,16 +711,180 @@ export class NxtpSdkPool {
     return result;
   }
 
-  async getPoolStats(domainId: string, tokenAddress: string): Promise<IPoolStats> {
+  /**
+   * Returns the pool's TVL, its volume and fees over the trailing `days` days, and the APY its fees paid to LPs over
+   * the last week, month and year, and since its first swap. Amounts are in units of the pool's tokens.
+   * @dev Volume and fees are indexed by cartographer, by pool address. Internal pools emit their events from the
+   *      Connext contract so can't be told apart; for those, or without cartographer, the TVL is read from the
+   *      pool's on-chain balances and volume, fees and APY are 0.
+   * @param domainId The domain id of the pool.
+   * @param tokenAddress The address of the local token of the pool.
+   * @param days The number of days, including today, to sum volume and fees over.
+   */
+  async getPoolStats(domainId: string, tokenAddress: string, days = 1): Promise<IPoolStats> {
+    const { requestContext, methodContext } = createLoggingContext(this.getPoolStats.name);
+    this.logger.info("Method start", requestContext, methodContext, { domainId, tokenAddress, days });
+
     const pool = await this.getPool(domainId, tokenAddress);
+    if (!pool) {
+      throw new PoolNotFound({ domainId, tokenAddress });
+    }
+    return await this.readPoolStats(pool, days);
+  }
 
-    const stats: IPoolStats = {
-      liquidity: await pool!.getLiquidity(),
-      volume: await pool!.getVolume(),
-      fees: await pool!.getFees(),
-      apy: await pool!.getApy(),
-    };
+  private async readPoolStats(pool: Pool, days: number): Promise<IPoolStats> {
+    const { requestContext, methodContext } = createLoggingContext(this.readPoolStats.name);
+
+    let balances = pool.balances;
+    let dailyVolume: DailyVolume[] = [];
+    let adminFee = BigNumber.from(0);
+    if (this.config.cartographerUrl && pool.address) {
+      try {
+        // Cartographer has amounts by the index of each token in the pool, which may not match their order in the
+        // Pool.
+        const indexes = await Promise.all(
+          pool.tokens.map((token) => this.getExternalPoolTokenIndex(pool.domainId, pool.address!, token)),
+        );
+        const decimals: number[] = [];
+        indexes.forEach((index, i) => (decimals[index] = pool.decimals[i]));
+
+        ({ adminFee } = await this.getExternalPoolStorage(pool.domainId, pool.address));
+        const poolBalances = await this.getCartographerPoolBalances(pool.domainId, pool.address);
+        balances = poolBalances ? indexes.map((index) => poolBalances[index]) : balances;
+        dailyVolume = await this.getCartographerDailyVolume(pool.domainId, pool.address, decimals);
+      } catch (err: unknown) {
+        this.logger.warn(
+          "Failed to read pool from cartographer, using on-chain balances",
+          requestContext,
+          methodContext,
+          {
+            error: jsonifyError(err as Error),
+          },
+        );
+        balances = pool.balances;
+        dailyVolume = [];
+      }
+    }
+
+    return computePoolStats(balances, pool.decimals, dailyVolume, adminFee, days);
+  }
+
+  /**
+   * Returns the address of the external pool registered for the asset, or the zero address if there is none.
+   */
+  private async getExternalPoolAddress(domainId: string, canonicalId: string): Promise<string> {
+    const connextContract = this.config.chains[domainId]?.deployments?.connext;
+    if (!connextContract) {
+      throw new ContractAddressMissing();
+    }
+
+    const data = this.connext.encodeFunctionData("adoptedToLocalPools", [canonicalId]);
+    const encoded = await this.chainReader.readTx({
+      chainId: Number(domainId),
+      to: connextContract,
+      data: data,
+    });
+    const [poolAddress] = this.connext.decodeFunctionResult("adoptedToLocalPools", encoded);
+
+    return poolAddress;
+  }
+
+  private async getExternalPoolStorage(
+    domainId: string,
+    poolAddress: string,
+  ): Promise<{ adminFee: BigNumber; lpToken: string }> {
+    const data = this.stableSwap.encodeFunctionData("swapStorage");
+    const encoded = await this.chainReader.readTx({
+      chainId: Number(domainId),
+      to: poolAddress,
+      data: data,
+    });
+    const { adminFee, lpToken } = this.stableSwap.decodeFunctionResult("swapStorage", encoded);
+
+    return { adminFee, lpToken };
+  }
+
+  private async getExternalPoolTokenIndex(
+    domainId: string,
+    poolAddress: string,
+    tokenAddress: string,
+  ): Promise<number> {
+    const data = this.stableSwap.encodeFunctionData("getTokenIndex", [tokenAddress]);
+    const encoded = await this.chainReader.readTx({
+      chainId: Number(domainId),
+      to: poolAddress,
+      data: data,
+    });
+    const [index] = this.stableSwap.decodeFunctionResult("getTokenIndex", encoded);
+
+    return index;
+  }
+
+  private async getExternalPoolTokenBalance(
+    domainId: string,
+    poolAddress: string,
+    tokenAddress: string,
+  ): Promise<BigNumber> {
+    const index = await this.getExternalPoolTokenIndex(domainId, poolAddress, tokenAddress);
+
+    const data = this.stableSwap.encodeFunctionData("getTokenBalance", [index]);
+    const encoded = await this.chainReader.readTx({
+      chainId: Number(domainId),
+      to: poolAddress,
+      data: data,
+    });
+    const [balance] = this.stableSwap.decodeFunctionResult("getTokenBalance", encoded);
 
-    return stats;
+    return balance;
+  }
+
+  /**
+   * Returns the pool's balances as of the last swap or liquidity change indexed by cartographer, or undefined if it has
+   * none.
+   */
+  private async getCartographerPoolBalances(domainId: string, poolAddress: string): Promise<BigNumber[] | undefined> {
+    const uri = formatUrl(
+      this.config.cartographerUrl!,
+      "stableswap_pools?",
+      `domain=eq.${domainId}&pool_id=eq.${poolAddress.toLowerCase()}&select=balances::text`,
+    );
+    validateUri(uri);
+
+    const [row] = (await axiosGetRequest(uri)) as { balances: string }[];
+    return row ? parseNumericArray(row.balances) : undefined;
+  }
+
+  /**
+   * Returns the pool's volume and fees per day, normalized and summed over its tokens.
+   * @param decimals The decimals of the pool's tokens, by their index in the pool.
+   */
+  private async getCartographerDailyVolume(
+    domainId: string,
+    poolAddress: string,
+    decimals: number[],
+  ): Promise<DailyVolume[]> {
+    const uri = formatUrl(
+      this.config.cartographerUrl!,
+      "daily_swap_volume?",
+      `domain=eq.${domainId}&pool_id=eq.${poolAddress.toLowerCase()}` +
+        "&select=swap_day,token_index,volume::text,fees::text&order=swap_day.asc",
+    );
+    validateUri(uri);
+
+    const rows = (await axiosGetRequest(uri)) as {
+      swap_day: string;
+      token_index: number;
+      volume: string;
+      fees: string;
+    }[];
+    const days = new Map<number, DailyVolume>();
+    for (const row of rows) {
+      const day = toDay(row.swap_day);
+      const entry = days.get(day) ?? { day, volume: BigNumber.from(0), fees: BigNumber.from(0) };
+      entry.volume = entry.volume.add(normalizeAmount(BigNumber.from(row.volume), decimals[row.token_index]));
+      entry.fees = entry.fees.add(normalizeAmount(BigNumber.from(row.fees), decimals[row.token_index]));
+      days.set(day, entry);
+    }
+    return [...days.values()];
   }
 }
@@ -1,10 +1,37 @@
-import { Logger, ChainData, formatUrl, XTransferStatus, transfersCastForUrl } from "@connext/nxtp-utils";
+import {
+  Logger,
+  ChainData,
+  formatUrl,
+  XTransferStatus,
+  transfersCastForUrl,
+  createLoggingContext,
+  jsonifyError,
+} from "@connext/nxtp-utils";
 import { contractDeployments } from "@connext/nxtp-txservice";
 import { providers } from "ethers";
 
-import { getChainData, validateUri, axiosGetRequest, parseConnextLog } from "./lib/helpers";
-import { ChainDataUndefined } from "./lib/errors";
+import {
+  getChainData,
+  validateUri,
+  axiosGetRequest,
+  axiosPostRequest,
+  parseConnextLog,
+  TransferTracker,
+  hasReachedStatus,
+} from "./lib/helpers";
+import { ChainDataUndefined, ParamsInvalid, TransferIdNotFound } from "./lib/errors";
 import { NxtpSdkConfig, getConfig } from "./config";
+import { ITransferStatusEvent } from "./interfaces";
+
+export const DEFAULT_TRANSFER_POLL_INTERVAL = 10_000;
+
+export type TrackTransferParams = {
+  receipt?: providers.TransactionReceipt; // The xcall receipt, from which the transfer ID is read.
+  transferId?: string; // Used if there's no receipt.
+  destinationDomain?: string; // Needed to fall back to the subgraph when tracking by transfer ID.
+  pollInterval?: number; // ms between status checks.
+  timeout?: number; // ms to track the transfer for before giving up.
+};
 
 /**
  * @classdesc Lightweight class to facilitate interaction with the Connext contract on configured chains.
@@ -188,6 +215,117 @@ export class NxtpSdkUtils {
     return await axiosGetRequest(uri);
   }
 
+  /**
+   * Tracks a transfer until it completes, emitting an event each time its status changes. Statuses are read from the
+   * cartographer, falling back to the destination domain's subgraph if the cartographer is down or hasn't indexed
+   * the transfer yet.
+   *
+   * @param params - The xcall receipt or the transfer ID to track, and polling options.
+   * @returns A tracker that can be listened to, iterated over with `for await`, or cancelled.
+   */
+  trackTransfer(params: TrackTransferParams): TransferTracker {
+    const { requestContext, methodContext } = createLoggingContext(this.trackTransfer.name);
+    this.logger.info("Method start", requestContext, methodContext, {
+      transactionHash: params.receipt?.transactionHash,
+      transferId: params.transferId,
+    });
+
+    let { transferId, destinationDomain } = params;
+    let initial: ITransferStatusEvent | undefined;
+    if (params.receipt) {
+      // Receipts include logs from other contracts, e.g. token transfers, which the Connext interface can't parse.
+      const connext = Object.values(this.config.chains).map((chain) => chain.deployments?.connext.toLowerCase());
+      const logs = params.receipt.logs.filter((log) => connext.includes(log.address.toLowerCase()));
+      const xcalled = this.parseConnextTransactionReceipt({ ...params.receipt, logs }).find(
+        (log: any) => log.name === "XCalled",
+      );
+      if (!xcalled) {
+        throw new TransferIdNotFound({ transactionHash: params.receipt.transactionHash });
+      }
+      transferId = xcalled.args.transferId as string;
+      destinationDomain = xcalled.args.xcallArgs.params.destinationDomain.toString() as string;
+      initial = { transferId, status: XTransferStatus.XCalled, source: "receipt" };
+    }
+    if (!transferId) {
+      throw new ParamsInvalid({ paramsError: "Either a receipt or a transfer ID is required", params });
+    }
+
+    this.logger.info("Tracking transfer", requestContext, methodContext, { transferId, destinationDomain });
+    const id = transferId;
+    return new TransferTracker(
+      id,
+      () => this.getTransferStatus(id, destinationDomain),
+      params.pollInterval ?? DEFAULT_TRANSFER_POLL_INTERVAL,
+      params.timeout,
+    ).start(initial);
+  }
+
+  /**
+   * Waits for a transfer to reach the given status, or to complete.
+   *
+   * @param params - The xcall receipt or the transfer ID to wait for, polling options, and optionally the status to
+   * wait for. Executed and Reconciled are each reached once the transfer completes.
+   * @returns The first status event at or past the given status.
+   * @throws TransferTrackingTimeout if the timeout passes first.
+   */
+  async waitForTransfer(params: TrackTransferParams & { status?: XTransferStatus }): Promise<ITransferStatusEvent> {
+    const tracker = this.trackTransfer(params);
+    try {
+      for await (const event of tracker) {
+        if (params.status && hasReachedStatus(event.status, params.status)) {
+          return event;
+        }
+      }
+      return await tracker.done;
+    } finally {
+      tracker.cancel();
+    }
+  }
+
+  /**
+   * Gets the transfer's status from the cartographer, or from the destination subgraph if the cartographer fails.
+   *
+   * @returns The status, or undefined if neither knows of the transfer yet.
+   */
+  private async getTransferStatus(
+    transferId: string,
+    destinationDomain?: string,
+  ): Promise<ITransferStatusEvent | undefined> {
+    const { requestContext, methodContext } = createLoggingContext(this.getTransferStatus.name);
+    try {
+      const [transfer] = await this.getTransferById(transferId);
+      if (transfer) {
+        return { transferId, status: transfer.status as XTransferStatus, source: "cartographer", transfer };
+      }
+    } catch (error: unknown) {
+      this.logger.debug("Failed to get transfer from cartographer", requestContext, methodContext, {
+        transferId,
+        error: jsonifyError(error as Error),
+      });
+    }
+
+    // The destination subgraph only knows of the transfer once it's been executed or reconciled.
+    const subgraphs = destinationDomain ? this.chainData.get(destinationDomain)?.subgraphs?.runtime ?? [] : [];
+    for (const subgraph of subgraphs) {
+      try {
+        const response = await axiosPostRequest(subgraph.query, {
+          query: `{ destinationTransfers(where: { transferId: "${transferId.toLowerCase()}" }) { status } }`,
+        });
+        const [transfer] = response.data?.destinationTransfers ?? [];
+        return transfer
+          ? { transferId, status: transfer.status as XTransferStatus, source: "subgraph", transfer }
+          : undefined;
+      } catch (error: unknown) {
+        this.logger.debug("Failed to get transfer from subgraph", requestContext, methodContext, {
+          transferId,
+          subgraph: subgraph.query,
+          error: jsonifyError(error as Error),
+        });
+      }
+    }
+    return undefined;
+  }
+
   async changeSignerAddress(signerAddress: string) {
     this.config.signerAddress = signerAddress;
   }
@@ -1,9 +1,11 @@
-import { createStubInstance, reset, restore, stub, spy } from "sinon";
-import { expect } from "@connext/nxtp-utils";
+import { createStubInstance, reset, restore, stub } from "sinon";
+import { expect, mkAddress } from "@connext/nxtp-utils";
 import { ChainReader, getConnextInterface, getTokenRegistryInterface } from "@connext/nxtp-txservice";
-import { providers, utils, BigNumber } from "ethers";
+import { providers, utils, BigNumber, constants } from "ethers";
 import { mock } from "./mock";
 import { NxtpSdkPool, Pool } from "../src/sdkPool";
+import { ApiRequestFailed, PoolNotFound } from "../src/lib/errors";
+import { IPoolStats } from "../src/interfaces";
 import { getEnvConfig, NxtpSdkConfig } from "../src/config";
 
 import * as ConfigFns from "../src/config";
@@ -227,6 +229,7 @@ describe("NxtpSdkPool", () => {
       expect(res!.decimals).to.deep.equal(mockParams.poolDecimals);
       expect(res!.balances).to.deep.equal(mockParams.poolBalances);
       expect(res!.lpTokenAddress).to.equal(mockParams.lpTokenAddress);
+      expect(res!.address).to.be.undefined;
     });
 
     it("happy: should return undefined if local domain is canonical", async () => {
@@ -296,36 +299,246 @@ describe("NxtpSdkPool", () => {
       tokenAddress: mock.asset.A.address,
       poolName: `${mock.asset.A.symbol}-Pool`,
       poolSymbol: `${mock.asset.A.symbol}-mad${mock.asset.A.symbol}`,
-      poolTokens: [utils.formatBytes32String("1"), mock.asset.A.address],
-      poolDecimals: [18, 18],
-      amounts: [BigNumber.from(100), BigNumber.from(200)],
-      lpTokenAddress: utils.formatBytes32String("2"),
+      poolTokens: [mkAddress("0x1"), mock.asset.A.address],
+      poolDecimals: [18, 6],
+      amounts: [utils.parseEther("100"), utils.parseUnits("200", 6)],
+      lpTokenAddress: mkAddress("0x2"),
+      canonicalId: utils.formatBytes32String("0"),
+      poolAddress: utils.getAddress(mkAddress("0xabc")),
+      // Half of the fees are kept by the admin.
+      adminFee: BigNumber.from(5_000_000_000),
+    };
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    // Cartographer rows, by the index of each token in the pool: the local token (6 decimals) is at 0, the adopted
+    // token (18 decimals) at 1.
+    const poolBalancesRow = { balances: `{${utils.parseUnits("1000", 6)},${utils.parseEther("1000")}}` };
+    const dailyVolumeRows = [
+      { swap_day: daysAgo(40), token_index: 1, volume: utils.parseEther("1000").toString(), fees: "0" },
+      { swap_day: daysAgo(40), token_index: 0, volume: "0", fees: utils.parseUnits("2", 6).toString() },
+      { swap_day: daysAgo(3), token_index: 0, volume: utils.parseUnits("500", 6).toString(), fees: "0" },
+      { swap_day: daysAgo(3), token_index: 1, volume: "0", fees: utils.parseEther("0.5").toString() },
+      { swap_day: daysAgo(0), token_index: 1, volume: utils.parseEther("100").toString(), fees: "0" },
+      { swap_day: daysAgo(0), token_index: 0, volume: "0", fees: utils.parseUnits("0.1", 6).toString() },
+    ];
+
+    const expectCartographerStats = (res: IPoolStats) => {
+      expect(res.liquidity).to.eq("2000.0");
+      expect(res.volume).to.eq("100.0");
+      expect(res.fees).to.eq("0.1");
+      // LPs get half of the fees.
+      expect(Number(res.apy.week)).to.be.closeTo((1 + 0.3 / 2000 / 7) ** 365 - 1, 1e-9);
+      expect(Number(res.apy.month)).to.be.closeTo((1 + 0.3 / 2000 / 30) ** 365 - 1, 1e-9);
+      expect(Number(res.apy.year)).to.be.closeTo((1 + 1.3 / 2000 / 365) ** 365 - 1, 1e-9);
+      expect(Number(res.apy.total)).to.be.closeTo((1 + 1.3 / 2000 / 41) ** 365 - 1, 1e-9);
     };
 
-    it("happy: should work", async () => {
-      const mockPool: Pool = new Pool(
-        mockParams.domainId,
-        mockParams.poolName,
-        mockParams.poolSymbol,
-        mockParams.poolTokens,
-        mockParams.poolDecimals,
-        mockParams.amounts,
-        mockParams.lpTokenAddress,
-      );
-
-      stub(nxtpPool, "getPool").resolves(mockPool);
-
-      const getLiquiditySpy = spy(mockPool, "getLiquidity");
-      const getVolumeSpy = spy(mockPool, "getVolume");
-      const getFeesSpy = spy(mockPool, "getFees");
-      const getApySpy = spy(mockPool, "getApy");
-
-      const res = await nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress);
+    describe("with the pool read from chain", () => {
+      const poolIndexes: Record<string, number> = {
+        [mockParams.poolTokens[0].toLowerCase()]: 1,
+        [mockParams.poolTokens[1].toLowerCase()]: 0,
+      };
+      const poolBalances = [mockParams.amounts[1], mockParams.amounts[0]];
+      let calls: {
+        to: string;
+        iface: utils.Interface;
+        name: string;
+        result: (args: utils.Result) => any[];
+      }[];
+
+      beforeEach(() => {
+        const { deployments } = nxtpPool.config.chains[mock.domain.A];
+        calls = [
+          {
+            to: deployments!.tokenRegistry!,
+            iface: nxtpPool.tokenRegistry,
+            name: "getTokenId",
+            result: () => [Number(mock.domain.B), mockParams.canonicalId],
+          },
+          {
+            to: deployments!.connext,
+            iface: nxtpPool.connext,
+            name: "canonicalToAdopted",
+            result: () => [mockParams.poolTokens[0]],
+          },
+          {
+            to: deployments!.connext,
+            iface: nxtpPool.connext,
+            name: "getSwapLPToken",
+            result: () => [constants.AddressZero],
+          },
+          {
+            to: deployments!.connext,
+            iface: nxtpPool.connext,
+            name: "adoptedToLocalPools",
+            result: () => [mockParams.poolAddress],
+          },
+          {
+            to: mockParams.poolAddress,
+            iface: nxtpPool.stableSwap,
+            name: "swapStorage",
+            result: () => [0, 0, 0, 0, 4_000_000, mockParams.adminFee, mockParams.lpTokenAddress],
+          },
+          {
+            to: mockParams.poolAddress,
+            iface: nxtpPool.stableSwap,
+            name: "getTokenIndex",
+            result: ([token]) => [poolIndexes[token.toLowerCase()]],
+          },
+          {
+            to: mockParams.poolAddress,
+            iface: nxtpPool.stableSwap,
+            name: "getTokenBalance",
+            result: ([index]) => [poolBalances[index]],
+          },
+          {
+            to: mockParams.poolTokens[0],
+            iface: nxtpPool.erc20,
+            name: "decimals",
+            result: () => [mockParams.poolDecimals[0]],
+          },
+          {
+            to: mockParams.poolTokens[0],
+            iface: nxtpPool.erc20,
+            name: "symbol",
+            result: () => [mock.asset.A.symbol],
+          },
+          {
+            to: mockParams.poolTokens[1],
+            iface: nxtpPool.erc20,
+            name: "decimals",
+            result: () => [mockParams.poolDecimals[1]],
+          },
+        ];
+        stub(chainReader, "readTx").callsFake(async ({ to, data }) => {
+          const call = calls.find(
+            (call) =>
+              call.to.toLowerCase() === to!.toLowerCase() &&
+              data!.toString().startsWith(call.iface.getSighash(call.name)),
+          );
+          if (!call) {
+            throw new Error(`Unexpected call to ${to}: ${data}`);
+          }
+          return call.iface.encodeFunctionResult(
+            call.name,
+            call.result(call.iface.decodeFunctionData(call.name, data!)),
+          );
+        });
+      });
+
+      it("happy: should read the external pool registered for the asset", async () => {
+        const pool = await nxtpPool.getPool(mockParams.domainId, mockParams.tokenAddress);
+
+        expect(pool!.address).to.eq(mockParams.poolAddress);
+        expect(pool!.lpTokenAddress).to.eq(mockParams.lpTokenAddress);
+        expect(pool!.tokens).to.deep.eq(mockParams.poolTokens);
+        expect(pool!.decimals).to.deep.eq(mockParams.poolDecimals);
+        expect(pool!.balances).to.deep.eq(mockParams.amounts);
+      });
+
+      it("happy: should compute stats from cartographer", async () => {
+        const axiosGetRequestStub = stub(SharedFns, "axiosGetRequest").callsFake(async (uri: string) =>
+          uri.includes("stableswap_pools") ? [poolBalancesRow] : dailyVolumeRows,
+        );
+
+        const res = await nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress);
+
+        expect(axiosGetRequestStub.getCall(0).args[0]).to.include(
+          `stableswap_pools?domain=eq.${mockParams.domainId}&pool_id=eq.${mockParams.poolAddress.toLowerCase()}`,
+        );
+        expectCartographerStats(res);
+      });
+
+      it("should compute the same stats through the pool", async () => {
+        stub(SharedFns, "axiosGetRequest").callsFake(async (uri: string) =>
+          uri.includes("stableswap_pools") ? [poolBalancesRow] : dailyVolumeRows,
+        );
+
+        const pool = await nxtpPool.getPool(mockParams.domainId, mockParams.tokenAddress);
+
+        expect(await pool!.getLiquidity()).to.eq("2000.0");
+        expect(await pool!.getVolume(7)).to.eq("600.0");
+        expect(await pool!.getFees()).to.eq("0.1");
+        expect(await pool!.getApy()).to.deep.eq(
+          (await nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress)).apy,
+        );
+      });
+
+      it("should not find a pool if the asset has none", async () => {
+        calls.find((call) => call.name === "adoptedToLocalPools")!.result = () => [constants.AddressZero];
+        expect(await nxtpPool.getPool(mockParams.domainId, mockParams.tokenAddress)).to.be.undefined;
+        await expect(nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress)).to.be.rejectedWith(
+          PoolNotFound,
+        );
+      });
+    });
 
-      expect(getLiquiditySpy).called;
-      expect(getVolumeSpy).called;
-      expect(getFeesSpy).called;
-      expect(getApySpy).called;
+    describe("with a given pool", () => {
+      let mockPool: Pool;
+
+      beforeEach(() => {
+        mockPool = new Pool(
+          mockParams.domainId,
+          mockParams.poolName,
+          mockParams.poolSymbol,
+          mockParams.poolTokens,
+          mockParams.poolDecimals,
+          mockParams.amounts,
+          mockParams.lpTokenAddress,
+          mockParams.poolAddress,
+        );
+        stub(nxtpPool, "getPool").resolves(mockPool);
+        stub(nxtpPool as any, "getExternalPoolTokenIndex").callsFake(async (_domainId, _pool, token) =>
+          token === mockParams.poolTokens[0] ? 1 : 0,
+        );
+        stub(nxtpPool as any, "getExternalPoolStorage").resolves({
+          adminFee: mockParams.adminFee,
+          lpToken: mockParams.lpTokenAddress,
+        });
+      });
+
+      it("should sum volume and fees over the given number of days", async () => {
+        stub(SharedFns, "axiosGetRequest").callsFake(async (uri: string) =>
+          uri.includes("stableswap_pools") ? [] : dailyVolumeRows,
+        );
+
+        const res = await nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress, 7);
+
+        // No pool row yet, so the TVL comes from the on-chain balances.
+        expect(res.liquidity).to.eq("300.0");
+        expect(res.volume).to.eq("600.0");
+      });
+
+      it("should fall back to on-chain balances if cartographer fails", async () => {
+        stub(SharedFns, "axiosGetRequest").rejects(new ApiRequestFailed());
+
+        const res = await nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress);
+
+        expect(res).to.deep.eq({
+          liquidity: "300.0",
+          volume: "0.0",
+          fees: "0.0",
+          apy: { week: "0", month: "0", year: "0", total: "0" },
+        });
+      });
+
+      it("should use on-chain balances for internal pools", async () => {
+        const axiosGetRequestStub = stub(SharedFns, "axiosGetRequest");
+        mockPool.address = undefined;
+
+        const res = await nxtpPool.getPoolStats(mockParams.domainId, mockParams.tokenAddress);
+
+        expect(axiosGetRequestStub).to.not.have.been.called;
+        expect(res.liquidity).to.eq("300.0");
+        expect(res.volume).to.eq("0.0");
+      });
+
+      it("should compute stats from the pool's balances if it wasn't read through the SDK", async () => {
+        expect(await mockPool.getLiquidity()).to.eq("300.0");
+        expect(await mockPool.getVolume()).to.eq("0.0");
+        expect(await mockPool.getFees()).to.eq("0.0");
+        expect(await mockPool.getApy()).to.deep.eq({ week: "0", month: "0", year: "0", total: "0" });
+      });
     });
   });
 });
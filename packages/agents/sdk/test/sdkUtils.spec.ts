@@ -1,10 +1,18 @@
-import { createStubInstance, reset, restore, SinonStubbedInstance, stub } from "sinon";
+import { createStubInstance, reset, restore, SinonStub, SinonStubbedInstance, stub } from "sinon";
 import { expect, mkAddress, XTransferStatus, getRandomBytes32 } from "@connext/nxtp-utils";
 import { ChainReader } from "@connext/nxtp-txservice";
 import { mock } from "./mock";
 import { NxtpSdkUtils } from "../src/sdkUtils";
+import { ITransferStatusEvent } from "../src/interfaces";
 import { getEnvConfig } from "../src/config";
-import { ChainDataUndefined, UriInvalid } from "../src/lib/errors";
+import {
+  ChainDataUndefined,
+  ParamsInvalid,
+  TransferIdNotFound,
+  TransferTrackingCancelled,
+  TransferTrackingTimeout,
+  UriInvalid,
+} from "../src/lib/errors";
 
 import * as ConfigFns from "../src/config";
 import * as SharedFns from "../src/lib/helpers/shared";
@@ -222,6 +230,120 @@ describe("SdkUtils", () => {
     });
   });
 
+  describe("#trackTransfer", () => {
+    const transferId = getRandomBytes32();
+    const receipt = () =>
+      mock.ethers.receipt({
+        logs: [{ address: mockConfig.chains[mock.domain.A].deployments!.connext } as any],
+      });
+    let getTransferByIdStub: SinonStub;
+    let axiosPostRequestStub: SinonStub;
+
+    beforeEach(() => {
+      stub(SharedFns, "parseConnextLog").returns({
+        name: "XCalled",
+        args: { transferId, xcallArgs: { params: { destinationDomain: Number(mock.domain.B) } } },
+      });
+      getTransferByIdStub = stub(nxtpUtils, "getTransferById").resolves([]);
+      axiosPostRequestStub = stub(SharedFns, "axiosPostRequest").resolves({ data: { destinationTransfers: [] } });
+    });
+
+    it("should error if neither a receipt nor a transfer ID is given", () => {
+      expect(() => nxtpUtils.trackTransfer({})).to.throw(ParamsInvalid);
+    });
+
+    it("should error if the receipt has no XCalled event", () => {
+      expect(() => nxtpUtils.trackTransfer({ receipt: mock.ethers.receipt({ logs: [] }) })).to.throw(
+        TransferIdNotFound,
+      );
+    });
+
+    it("happy: should emit each status until the transfer completes", async () => {
+      getTransferByIdStub.onCall(1).resolves([{ transfer_id: transferId, status: XTransferStatus.Executed }]);
+      getTransferByIdStub.onCall(2).resolves([{ transfer_id: transferId, status: XTransferStatus.XCalled }]);
+      getTransferByIdStub.onCall(3).resolves([{ transfer_id: transferId, status: XTransferStatus.CompletedFast }]);
+
+      const tracker = nxtpUtils.trackTransfer({ receipt: receipt(), pollInterval: 1 });
+      const events: ITransferStatusEvent[] = [];
+      for await (const event of tracker) {
+        events.push(event);
+      }
+
+      expect(events.map((e) => [e.status, e.source])).to.be.deep.eq([
+        [XTransferStatus.XCalled, "receipt"],
+        [XTransferStatus.Executed, "cartographer"],
+        [XTransferStatus.CompletedFast, "cartographer"],
+      ]);
+      expect((await tracker.done).status).to.be.eq(XTransferStatus.CompletedFast);
+      expect(getTransferByIdStub).to.be.calledWith(transferId);
+    });
+
+    it("should fall back to the destination subgraph if the cartographer fails", async () => {
+      getTransferByIdStub.rejects(new Error("cartographer down"));
+      axiosPostRequestStub.resolves({
+        data: { destinationTransfers: [{ status: XTransferStatus.CompletedSlow }] },
+      });
+
+      const event = await nxtpUtils.waitForTransfer({ receipt: receipt(), pollInterval: 1 });
+
+      expect(event).to.deep.include({ transferId, status: XTransferStatus.CompletedSlow, source: "subgraph" });
+      expect(axiosPostRequestStub.getCall(0).args[0]).to.be.eq(
+        mockChainData.get(mock.domain.B)!.subgraphs.runtime[0].query,
+      );
+      expect(axiosPostRequestStub.getCall(0).args[1].query).to.include(transferId);
+    });
+
+    it("should resolve waitForTransfer once the given status is reached", async () => {
+      getTransferByIdStub.resolves([{ transfer_id: transferId, status: XTransferStatus.Executed }]);
+
+      const event = await nxtpUtils.waitForTransfer({ transferId, status: XTransferStatus.Executed, pollInterval: 1 });
+
+      expect(event.status).to.be.eq(XTransferStatus.Executed);
+    });
+
+    it("should not resolve waitForTransfer on the other path's status", async () => {
+      getTransferByIdStub.resolves([{ transfer_id: transferId, status: XTransferStatus.Reconciled }]);
+      getTransferByIdStub.onCall(2).resolves([{ transfer_id: transferId, status: XTransferStatus.CompletedSlow }]);
+
+      const event = await nxtpUtils.waitForTransfer({ transferId, status: XTransferStatus.Executed, pollInterval: 1 });
+
+      expect(event.status).to.be.eq(XTransferStatus.CompletedSlow);
+    });
+
+    it("should only emit statuses the transfer can move on to", async () => {
+      getTransferByIdStub.onCall(0).resolves([{ transfer_id: transferId, status: XTransferStatus.Executed }]);
+      getTransferByIdStub.onCall(1).resolves([{ transfer_id: transferId, status: XTransferStatus.Reconciled }]);
+      getTransferByIdStub.onCall(2).resolves([{ transfer_id: transferId, status: XTransferStatus.CompletedFast }]);
+
+      const tracker = nxtpUtils.trackTransfer({ transferId, pollInterval: 1 });
+      const statuses: string[] = [];
+      for await (const event of tracker) {
+        statuses.push(event.status);
+      }
+
+      expect(statuses).to.be.deep.eq([XTransferStatus.Executed, XTransferStatus.CompletedFast]);
+    });
+
+    it("should reject once the timeout passes", async () => {
+      await expect(nxtpUtils.waitForTransfer({ transferId, pollInterval: 1, timeout: 20 })).to.be.rejectedWith(
+        TransferTrackingTimeout,
+      );
+    });
+
+    it("should stop polling when cancelled", async () => {
+      const tracker = nxtpUtils.trackTransfer({ transferId, pollInterval: 1 });
+      const statuses: string[] = [];
+      tracker.attach((event) => statuses.push(event.status));
+
+      tracker.cancel();
+      await expect(tracker.done).to.be.rejectedWith(TransferTrackingCancelled);
+      const calls = getTransferByIdStub.callCount;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(getTransferByIdStub.callCount).to.be.eq(calls);
+      expect(statuses).to.be.deep.eq([]);
+    });
+  });
+
   describe("#changeSignerAddress", () => {
     it("happy: should work", async () => {
       const mockSignerAddress = mkAddress("0xabcdef456");
@@ -1 +1,2 @@
 export { bindServer } from "./server";
+export { bindTasks } from "./tasks";
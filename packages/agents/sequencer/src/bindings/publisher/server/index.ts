@@ -14,6 +14,12 @@ import {
   AuctionsApiGetAuctionsStatusResponseSchema,
   AuctionsApiGetQueuedResponseSchema,
   AuctionsApiGetQueuedResponse,
+  AuctionsApiGetTimelineResponse,
+  AuctionsApiGetTimelineResponseSchema,
+  AuctionsApiGetHistoryRequest,
+  AuctionsApiGetHistoryRequestSchema,
+  AuctionsApiGetHistoryResponse,
+  AuctionsApiGetHistoryResponseSchema,
   ClearCacheRequest,
   ClearCacheRequestSchema,
   AdminRequest,
@@ -22,7 +28,10 @@ import {
 
 import { getContext } from "../../../sequencer";
 import { getOperations } from "../../../lib/operations";
-import { AuctionExpired } from "../../../lib/errors";
+import { AuctionExpired, AuctionNotFound } from "../../../lib/errors";
+
+// Default number of auctions returned by the history endpoint.
+export const DEFAULT_HISTORY_LIMIT = 100;
 
 export const bindServer = async (): Promise<FastifyInstance> => {
   const {
@@ -55,7 +64,7 @@ export const bindServer = async (): Promise<FastifyInstance> => {
         const { transferId } = request.params;
         const status = await cache.auctions.getStatus(transferId);
         if (status === AuctionStatus.None) {
-          throw new Error("No auction found for transferId");
+          throw new AuctionNotFound(transferId);
         }
         const auction = await cache.auctions.getAuction(transferId);
         if (!auction) {
@@ -83,6 +92,85 @@ export const bindServer = async (): Promise<FastifyInstance> => {
     },
   );
 
+  server.get<{
+    Querystring: AuctionsApiGetHistoryRequest;
+    Reply: AuctionsApiGetHistoryResponse | AuctionsApiErrorResponse;
+  }>(
+    "/auctions/history",
+    {
+      schema: {
+        querystring: AuctionsApiGetHistoryRequestSchema,
+        response: {
+          200: AuctionsApiGetHistoryResponseSchema,
+          500: AuctionsApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /auctions/history endpoint");
+      try {
+        const { limit = DEFAULT_HISTORY_LIMIT, offset = 0 } = request.query;
+        const history = await cache.auctions.getHistory(limit, offset);
+        const auctions = await Promise.all(
+          history.map(async ({ transferId, updated }) => {
+            const events = await cache.auctions.getEvents(transferId);
+            return {
+              transferId,
+              status: await cache.auctions.getStatus(transferId),
+              updated,
+              lastEvent: events[events.length - 1],
+            };
+          }),
+        );
+        return response.status(200).send({ auctions });
+      } catch (error: unknown) {
+        logger.debug(`Auction History Get Error`, requestContext, methodContext, jsonifyError(error as Error));
+        return response.code(500).send({ message: `Auction History Get Error`, error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
+  server.get<{
+    Params: { transferId: string };
+    Reply: AuctionsApiGetTimelineResponse | AuctionsApiErrorResponse;
+  }>(
+    "/auctions/:transferId/timeline",
+    {
+      schema: {
+        response: {
+          200: AuctionsApiGetTimelineResponseSchema,
+          404: AuctionsApiErrorResponseSchema,
+          500: AuctionsApiErrorResponseSchema,
+        },
+      },
+    },
+    async (request, response) => {
+      const { requestContext, methodContext } = createLoggingContext("GET /auctions/:transferId/timeline endpoint");
+      try {
+        const { transferId } = request.params;
+        const status = await cache.auctions.getStatus(transferId);
+        const events = await cache.auctions.getEvents(transferId);
+        if (status === AuctionStatus.None && events.length === 0) {
+          throw new AuctionNotFound(transferId);
+        }
+        const task = await cache.auctions.getTask(transferId);
+
+        return response.status(200).send({
+          transferId,
+          status,
+          taskId: task?.taskId,
+          attempts: task?.attempts,
+          events,
+        });
+      } catch (error: unknown) {
+        logger.debug(`Auction Timeline Get Error`, requestContext, methodContext, jsonifyError(error as Error));
+        return response
+          .code((error as NxtpError).type === AuctionNotFound.name ? 404 : 500)
+          .send({ message: `Auction Timeline Get Error`, error: jsonifyError(error as Error) });
+      }
+    },
+  );
+
   server.post<{ Body: AuctionsApiPostBidReq; Reply: AuctionsApiBidResponse | AuctionsApiErrorResponse }>(
     "/auctions",
     {
@@ -0,0 +1,30 @@
+import { createLoggingContext, jsonifyError } from "@connext/nxtp-utils";
+import interval from "interval-promise";
+
+import { getContext } from "../../../sequencer";
+import { getOperations } from "../../../lib/operations";
+
+export const bindTasks = async (_pollInterval?: number) => {
+  const { config, logger } = getContext();
+  const {
+    auctions: { checkSentAuctions },
+  } = getOperations();
+  const { requestContext, methodContext } = createLoggingContext(bindTasks.name);
+  const pollInterval = _pollInterval ?? config.relayerMonitor.interval;
+  interval(async (_, stop) => {
+    if (config.mode.cleanup) {
+      stop();
+    } else {
+      try {
+        await checkSentAuctions(requestContext);
+      } catch (e: unknown) {
+        logger.error(
+          "Error checking relayer tasks, waiting for next loop",
+          requestContext,
+          methodContext,
+          jsonifyError(e as Error),
+        );
+      }
+    }
+  }, pollInterval);
+};
@@ -1,14 +1,31 @@
-import { spawn } from "child_process";
+import { join } from "path";
 
 import { AuctionStatus, createLoggingContext, jsonifyError } from "@connext/nxtp-utils";
 
 import { getContext } from "../../../sequencer";
 import { Message } from "../../../lib/entities";
 
+import { DEFAULT_EXECUTER_CONCURRENCY, ExecuterPool } from "./pool";
+
+// Shared by every queue we subscribe to, so the per-domain concurrency holds across queues.
+let executerPool: ExecuterPool | undefined;
+export const getExecuterPool = (): ExecuterPool => {
+  if (!executerPool) {
+    const { logger, config } = getContext();
+    const { executers, executerTimeout } = config.messageQueue;
+    executerPool = new ExecuterPool(
+      join(__dirname, "../../../executer.js"),
+      { default: executers?.concurrency ?? DEFAULT_EXECUTER_CONCURRENCY, domains: executers?.domains },
+      executerTimeout,
+      logger.child({ module: "ExecuterPool" }),
+    );
+  }
+  return executerPool;
+};
+
 export const bindSubscriber = async (queueName: string) => {
   const {
     logger,
-    config,
     adapters: { cache, mqClient },
   } = getContext();
   const { requestContext, methodContext } = createLoggingContext(bindSubscriber.name, undefined, "");
@@ -17,7 +34,6 @@ export const bindSubscriber = async (queueName: string) => {
     // Spawn job handler
     mqClient.handle(queueName, async function (msg) {
       try {
-        const termSignals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
         const message: Message = msg.body as Message;
 
         // No ack and requeue if message has no trasfer id
@@ -31,52 +47,41 @@ export const bindSubscriber = async (queueName: string) => {
 
         requestContext.transferId = message.transferId;
 
-        logger.debug("Spawning executer for transfer", requestContext, methodContext, msg.body);
-
-        const child = spawn(process.argv[0], ["dist/executer.js", message.transferId], {
-          timeout: config.messageQueue.executerTimeout,
-        });
-
-        child.stdout.on("data", (data) => {
-          console.log(`${data}`);
-        });
-
-        child.stderr.on("data", (data) => {
-          console.log(`${data}`);
-        });
+        logger.debug("Executing auction for transfer", requestContext, methodContext, msg.body);
+        try {
+          await getExecuterPool().execute(message.originDomain, message.transferId);
+        } catch (error: unknown) {
+          // No ack and requeue if the executer fails
+          msg.nack();
+          logger.info("Error executing transfer. NACKed", requestContext, methodContext, {
+            transferId: message.transferId,
+            error: jsonifyError(error as Error),
+          });
+          return;
+        }
 
-        child.on("exit", async (code, signal) => {
-          logger.debug("Executer exited", requestContext, methodContext, {
+        // ACK on success
+        // Validate transfer is sent to relayer before ACK. Auctions that failed for good are ACKed as well,
+        // as there's nothing left to execute.
+        const status = await cache.auctions.getStatus(message.transferId);
+        const task = await cache.auctions.getTask(message.transferId);
+        if (
+          (task?.taskId && status == AuctionStatus.Sent) ||
+          status == AuctionStatus.Executed ||
+          status == AuctionStatus.Failed
+        ) {
+          msg.ack();
+          logger.info("Transfer ACKed", requestContext, methodContext, {
             transferId: message.transferId,
-            code: code,
-            signal: signal,
+            auctionStatus: status,
           });
-          if ((code == null || code == 0) && (signal == null || termSignals.includes(signal))) {
-            // ACK on success
-            // Validate transfer is sent to relayer before ACK
-            const status = await cache.auctions.getStatus(message.transferId);
-            const task = await cache.auctions.getTask(message.transferId);
-            if ((task?.taskId && status == AuctionStatus.Sent) || status == AuctionStatus.Executed) {
-              msg.ack();
-              logger.info("Transfer ACKed", requestContext, methodContext, {
-                transferId: message.transferId,
-                auctionStatus: status,
-              });
-            } else {
-              msg.nack();
-              logger.info("Transfer NACKed", requestContext, methodContext, {
-                transferId: message.transferId,
-                auctionStatus: status,
-              });
-            }
-          } else {
-            // No ack and requeue if child exits with error
-            msg.nack();
-            logger.info("Error executing transfer. NACKed", requestContext, methodContext, {
-              transferId: message.transferId,
-            });
-          }
-        });
+        } else {
+          msg.nack();
+          logger.info("Transfer NACKed", requestContext, methodContext, {
+            transferId: message.transferId,
+            auctionStatus: status,
+          });
+        }
       } catch (error: any) {
         logger.error("Error for message !", requestContext, methodContext, jsonifyError(error as Error), {
           queue: queueName,
@@ -0,0 +1,178 @@
+import { ChildProcess, fork } from "child_process";
+
+import { createLoggingContext, jsonifyError, Logger } from "@connext/nxtp-utils";
+
+import { ExecuterRequest, ExecuterResponse } from "../../../lib/entities";
+import { ExecuterExited, ExecuterFailed } from "../../../lib/errors";
+
+export const DEFAULT_EXECUTER_CONCURRENCY = 4;
+
+type Job = {
+  transferId: string;
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
+
+type Executer = {
+  process: ChildProcess;
+  job?: Job;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * @classdesc Keeps long-lived executer processes for each origin domain, so auctions don't pay for a process startup
+ * and adapter setup each. Executers are spawned as needed, up to the domain's concurrency; auctions beyond that
+ * wait for one to free up.
+ */
+export class ExecuterPool {
+  private readonly executers: Map<string, Executer[]> = new Map();
+  private readonly queues: Map<string, Job[]> = new Map();
+
+  /**
+   * @param script - The executer entrypoint.
+   * @param concurrency - The max executers per origin domain, keyed by domain, with a default for the rest.
+   * @param timeout - The ms an executer gets to execute an auction before it's killed.
+   * @param logger - Logger.
+   */
+  constructor(
+    private readonly script: string,
+    private readonly concurrency: { default: number; domains?: Record<string, number> },
+    private readonly timeout: number,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Executes the auction for a transfer in one of the origin domain's executers.
+   *
+   * @returns Resolves once the executer is done or has timed out, as the auction may still have been sent to the
+   * relayer before then. Rejects if the executer failed or exited.
+   */
+  public execute(originDomain: string, transferId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const queue = this.queues.get(originDomain) ?? [];
+      queue.push({ transferId, resolve, reject });
+      this.queues.set(originDomain, queue);
+      this.dispatch(originDomain);
+    });
+  }
+
+  /**
+   * Gets the number of busy executers and queued auctions for each origin domain.
+   */
+  public getStats(): Record<string, { executers: number; busy: number; queued: number }> {
+    const stats: Record<string, { executers: number; busy: number; queued: number }> = {};
+    for (const domain of new Set([...this.executers.keys(), ...this.queues.keys()])) {
+      const executers = this.executers.get(domain) ?? [];
+      stats[domain] = {
+        executers: executers.length,
+        busy: executers.filter((executer) => executer.job).length,
+        queued: this.queues.get(domain)?.length ?? 0,
+      };
+    }
+    return stats;
+  }
+
+  /**
+   * Kills every executer. Pending auctions are rejected.
+   */
+  public close(): void {
+    for (const domain of this.executers.keys()) {
+      for (const executer of [...this.executers.get(domain)!]) {
+        clearTimeout(executer.timer);
+        this.remove(domain, executer);
+        executer.process.kill();
+        executer.job?.reject(new ExecuterExited(executer.job.transferId, { reason: "Pool closed" }));
+      }
+    }
+    for (const queue of this.queues.values()) {
+      queue.splice(0).forEach((job) => job.reject(new ExecuterExited(job.transferId, { reason: "Pool closed" })));
+    }
+  }
+
+  private dispatch(domain: string): void {
+    const queue = this.queues.get(domain) ?? [];
+    const executers = this.getExecuters(domain);
+    const limit = this.concurrency.domains?.[domain] ?? this.concurrency.default;
+    while (queue.length > 0) {
+      const executer = executers.find((e) => !e.job) ?? (executers.length < limit ? this.spawn(domain) : undefined);
+      if (!executer) return;
+      this.assign(domain, executer, queue.shift()!);
+    }
+  }
+
+  private assign(domain: string, executer: Executer, job: Job): void {
+    const { requestContext, methodContext } = createLoggingContext("ExecuterPool.assign", undefined, job.transferId);
+    executer.job = job;
+    executer.timer = setTimeout(() => {
+      // The executer may be stuck, so replace it rather than wait on it.
+      this.logger.warn("Executer timed out, killing it", requestContext, methodContext, {
+        domain,
+        timeout: this.timeout,
+      });
+      this.remove(domain, executer);
+      executer.process.kill();
+      this.finish(domain, executer);
+    }, this.timeout);
+    const request: ExecuterRequest = { transferId: job.transferId };
+    executer.process.send(request);
+  }
+
+  private finish(domain: string, executer: Executer, error?: Error): void {
+    const job = executer.job;
+    clearTimeout(executer.timer);
+    executer.job = undefined;
+    executer.timer = undefined;
+    if (error) {
+      job?.reject(error);
+    } else {
+      job?.resolve();
+    }
+    this.dispatch(domain);
+  }
+
+  private spawn(domain: string): Executer {
+    const { requestContext, methodContext } = createLoggingContext("ExecuterPool.spawn");
+    const executer: Executer = { process: fork(this.script) };
+    const executers = this.getExecuters(domain);
+    executers.push(executer);
+    this.logger.info("Spawned executer", requestContext, methodContext, { domain, executers: executers.length });
+
+    executer.process.on("message", (response: ExecuterResponse) => {
+      if (response.transferId !== executer.job?.transferId) return;
+      this.finish(domain, executer, response.error ? new ExecuterFailed(response.transferId, response) : undefined);
+    });
+    executer.process.on("exit", (code, signal) => {
+      // Executers only exit when killed, or if they fail to set up.
+      if (!this.remove(domain, executer)) return;
+      this.logger.warn("Executer exited", requestContext, methodContext, { domain, code, signal });
+      if (executer.job) {
+        this.finish(domain, executer, new ExecuterExited(executer.job.transferId, { code, signal }));
+      }
+    });
+    executer.process.on("error", (error) => {
+      // e.g. failing to send to an executer that's exiting; its exit is handled above.
+      this.logger.error("Executer error", requestContext, methodContext, jsonifyError(error), { domain });
+    });
+    return executer;
+  }
+
+  private getExecuters(domain: string): Executer[] {
+    if (!this.executers.has(domain)) {
+      this.executers.set(domain, []);
+    }
+    return this.executers.get(domain)!;
+  }
+
+  /**
+   * Removes the executer from the pool, so it won't be given more auctions.
+   *
+   * @returns Whether the executer was still in the pool.
+   */
+  private remove(domain: string, executer: Executer): boolean {
+    const executers = this.getExecuters(domain);
+    const index = executers.indexOf(executer);
+    if (index === -1) return false;
+    executers.splice(index, 1);
+    return true;
+  }
+}
@@ -10,6 +10,10 @@ import { SequencerConfig, SequencerConfigSchema } from "./lib/entities";
 
 const DEFAULT_AUCTION_WAIT_TIME = 30_000;
 const DEFAULT_AUCTION_ROUND_DEPTH = 3;
+const DEFAULT_AUCTION_MAX_COMBINATIONS = 100;
+const DEFAULT_AUCTION_FAIRNESS_WINDOW = 10 * 60; // 10 minutes
+const DEFAULT_RELAYER_MONITOR_INTERVAL = 60_000;
+const DEFAULT_RELAYER_MAX_ATTEMPTS = 3;
 
 export const getEnvConfig = (
   chainData: Map<string, ChainData>,
@@ -77,11 +81,43 @@ export const getEnvConfig = (
       configFile.supportedBidVersion ||
       version,
     subgraphPrefix: process.env.SEQ_SUBGRAPH_PREFIX || configJson.subgraphPrefix || configFile.subgraphPrefix,
+    subgraphHealth: configJson.subgraphHealth || configFile.subgraphHealth,
     auctionRoundDepth:
       process.env.AUCTION_ROUND_DEPTH ||
       configJson.auctionRoundDepth ||
       configFile.auctionRoundDepth ||
       DEFAULT_AUCTION_ROUND_DEPTH,
+    auctionSelection: {
+      maxCombinations:
+        process.env.SEQ_AUCTION_MAX_COMBINATIONS ||
+        configJson.auctionSelection?.maxCombinations ||
+        configFile.auctionSelection?.maxCombinations ||
+        DEFAULT_AUCTION_MAX_COMBINATIONS,
+      weights: {
+        liquidity:
+          configJson.auctionSelection?.weights?.liquidity ?? configFile.auctionSelection?.weights?.liquidity ?? 1,
+        successRate:
+          configJson.auctionSelection?.weights?.successRate ?? configFile.auctionSelection?.weights?.successRate ?? 1,
+        fairness: configJson.auctionSelection?.weights?.fairness ?? configFile.auctionSelection?.weights?.fairness ?? 1,
+      },
+      fairnessWindow:
+        process.env.SEQ_AUCTION_FAIRNESS_WINDOW ||
+        configJson.auctionSelection?.fairnessWindow ||
+        configFile.auctionSelection?.fairnessWindow ||
+        DEFAULT_AUCTION_FAIRNESS_WINDOW,
+    },
+    relayerMonitor: {
+      interval:
+        process.env.SEQ_RELAYER_MONITOR_INTERVAL ||
+        configJson.relayerMonitor?.interval ||
+        configFile.relayerMonitor?.interval ||
+        DEFAULT_RELAYER_MONITOR_INTERVAL,
+      maxAttempts:
+        process.env.SEQ_RELAYER_MAX_ATTEMPTS ||
+        configJson.relayerMonitor?.maxAttempts ||
+        configFile.relayerMonitor?.maxAttempts ||
+        DEFAULT_RELAYER_MAX_ATTEMPTS,
+    },
     environment: process.env.SEQ_ENVIRONMENT || configJson.environment || configFile.environment || "production",
     messageQueue: process.env.SEQ_MESSAGE_QUEUE_CONFIG
       ? JSON.parse(process.env.SEQ_MESSAGE_QUEUE_CONFIG)
@@ -1,9 +1,9 @@
 import tracer from "dd-trace";
 
-import { execute } from "./sequencer";
+import { makeExecuter } from "./sequencer";
 
 export { SequencerConfig, ChainConfig } from "./lib/entities";
-export { execute };
+export { makeExecuter };
 
 tracer.init({ profiling: true, runtimeMetrics: true });
-execute();
+makeExecuter();
@@ -1,5 +1,7 @@
 import { Type, Static } from "@sinclair/typebox";
 import { TAddress } from "@connext/nxtp-utils";
+import { TRelayerConfig } from "@connext/nxtp-adapters-relayer";
+import { SubgraphHealthConfigSchema } from "@connext/nxtp-adapters-subgraph";
 
 export const TChainConfig = Type.Object({
   providers: Type.Array(Type.String()),
@@ -7,6 +9,8 @@ export const TChainConfig = Type.Object({
   deployments: Type.Object({
     connext: TAddress,
   }),
+  // Relayers used to send meta transactions on this chain, in order of preference.
+  relayers: Type.Optional(Type.Array(TRelayerConfig)),
 });
 
 export const TMQConnectionConfig = Type.Object({
@@ -59,6 +63,13 @@ export const TMessageQueueConfig = Type.Object({
   queues: Type.Array(TMQQueueConfig),
   bindings: Type.Array(TMQBindingConfig),
   executerTimeout: Type.Integer(),
+  // Executer processes kept per origin domain, i.e. how many of its auctions can be executed at once.
+  executers: Type.Optional(
+    Type.Object({
+      concurrency: Type.Integer({ minimum: 1 }),
+      domains: Type.Optional(Type.Record(Type.String(), Type.Integer({ minimum: 1 }))), // Per-domain overrides.
+    }),
+  ),
   publisher: Type.Optional(Type.String()),
   subscriber: Type.Optional(Type.String()),
 });
@@ -87,6 +98,28 @@ export const TModeConfig = Type.Object({
   cleanup: Type.Boolean(),
 });
 
+export const TAuctionSelectionConfig = Type.Object({
+  // Maximum number of bid combinations evaluated per auction round.
+  maxCombinations: Type.Integer({ minimum: 1 }),
+  // Relative weights of each factor when scoring a router's bid.
+  weights: Type.Object({
+    liquidity: Type.Number({ minimum: 0 }),
+    successRate: Type.Number({ minimum: 0 }),
+    fairness: Type.Number({ minimum: 0 }),
+  }),
+  // Time (in seconds) after being selected in an auction before a router's fairness score fully recovers.
+  fairnessWindow: Type.Integer({ minimum: 1 }),
+});
+
+export type AuctionSelectionConfig = Static<typeof TAuctionSelectionConfig>;
+
+export const TRelayerMonitorConfig = Type.Object({
+  // Interval (in ms) at which the relayer tasks of sent auctions are checked.
+  interval: Type.Integer({ minimum: 1000 }),
+  // Meta tx attempts made for an auction before it's marked as failed.
+  maxAttempts: Type.Integer({ minimum: 1 }),
+});
+
 export const SequencerConfigSchema = Type.Object({
   chains: Type.Record(Type.String(), TChainConfig),
   logLevel: Type.Union([
@@ -106,7 +139,11 @@ export const SequencerConfigSchema = Type.Object({
   supportedBidVersion: Type.Optional(Type.String()),
   relayerUrl: Type.Optional(Type.String()),
   subgraphPrefix: Type.Optional(Type.String()),
+  // Checks subgraph endpoints against the chain head, failing over to fresher ones. Disabled if not set.
+  subgraphHealth: Type.Optional(SubgraphHealthConfigSchema),
   auctionRoundDepth: Type.Number(),
+  auctionSelection: TAuctionSelectionConfig,
+  relayerMonitor: TRelayerMonitorConfig,
   environment: Type.Union([Type.Literal("staging"), Type.Literal("production")]),
   messageQueue: TMessageQueueConfig,
 });
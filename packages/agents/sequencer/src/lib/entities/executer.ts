@@ -0,0 +1,12 @@
+import { NxtpErrorJson } from "@connext/nxtp-utils";
+
+// Sent to an executer process to run the auction for a transfer.
+export type ExecuterRequest = {
+  transferId: string;
+};
+
+// Sent back by the executer process once it's done with a transfer.
+export type ExecuterResponse = {
+  transferId: string;
+  error?: NxtpErrorJson;
+};
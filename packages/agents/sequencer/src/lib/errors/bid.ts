@@ -33,3 +33,9 @@ export class RoundInvalid extends NxtpError {
     super(`Rounds invalid`, context, RoundInvalid.name);
   }
 }
+
+export class AuctionNotFound extends NxtpError {
+  constructor(transferId: string, context: any = {}) {
+    super("No auction was found for this transfer.", { transferId, ...context }, AuctionNotFound.name);
+  }
+}
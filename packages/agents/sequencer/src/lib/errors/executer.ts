@@ -0,0 +1,13 @@
+import { NxtpError } from "@connext/nxtp-utils";
+
+export class ExecuterFailed extends NxtpError {
+  constructor(transferId: string, context: any = {}) {
+    super("Executer failed to execute the auction.", { transferId, ...context }, ExecuterFailed.name);
+  }
+}
+
+export class ExecuterExited extends NxtpError {
+  constructor(transferId: string, context: any = {}) {
+    super("Executer exited while executing the auction.", { transferId, ...context }, ExecuterExited.name);
+  }
+}
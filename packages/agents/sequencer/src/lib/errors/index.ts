@@ -1,2 +1,2 @@
-export * from "./relayer";
 export * from "./bid";
+export * from "./executer";
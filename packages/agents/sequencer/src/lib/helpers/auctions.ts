@@ -3,8 +3,9 @@ import {
   ExecuteArgs,
   OriginTransfer,
   getMinimumBidsCountForRound as _getMinimumBidsCountForRound,
+  getNtpTimeSeconds,
 } from "@connext/nxtp-utils";
-import { constants } from "ethers";
+import { BigNumber, constants } from "ethers";
 
 import { getContext } from "../../sequencer";
 import { RoundInvalid } from "../errors";
@@ -119,9 +120,11 @@ export const getMinimumBidsCountForRound = (round: number): number => {
  * Generate all combinations of an array.
  * @param sources - Array of input elements.
  * @param length - Desired length of combinations.
+ * @param limit - (optional) Maximum number of combinations to generate. Combinations are generated in
+ * order of the source elements, so the earliest elements are favored once the limit is reached.
  * @return - Array of combination arrays.
  */
-export const getAllSubsets = (sources: any[], length: number): any[] => {
+export const getAllSubsets = (sources: any[], length: number, limit = Infinity): any[] => {
   const sourceLength = sources.length;
   if (length > sourceLength) return [];
 
@@ -135,6 +138,9 @@ export const getAllSubsets = (sources: any[], length: number): any[] => {
 
     // For each element that remaines to be added to the working combination.
     for (let sourceIndex = currentIndex; sourceIndex < sourceLength; sourceIndex++) {
+      // Stop generating once we've hit the limit.
+      if (combos.length >= limit) return;
+
       // Get next (possibly partial) combination.
       const next = [...workingCombo, sources[sourceIndex]];
 
@@ -151,3 +157,61 @@ export const getAllSubsets = (sources: any[], length: number): any[] => {
   makeNextCombos([], 0, length);
   return combos;
 };
+
+/**
+ * Scores a router's bid for an auction round, weighing:
+ * - liquidity: how much liquidity the router has left after supplying its share of the transfer.
+ * - successRate: how often recent execution attempts involving the router succeeded.
+ * - fairness: how long ago the router was last selected, so the same router doesn't always win.
+ * @param router - The router address.
+ * @param liquidity - The router's liquidity for the asset on the destination domain.
+ * @param assignedAmount - The amount the router would have to supply in this round.
+ * @returns - Score between 0 and 1; higher is better.
+ */
+export const getRouterScore = async (
+  router: string,
+  liquidity: BigNumber,
+  assignedAmount: BigNumber,
+): Promise<number> => {
+  const {
+    config: {
+      auctionSelection: { weights, fairnessWindow },
+    },
+    adapters: { cache },
+  } = getContext();
+
+  // Ratio of liquidity left over after supplying the assigned amount, in basis points precision.
+  const liquidityScore =
+    liquidity.isZero() || liquidity.lt(assignedAmount)
+      ? 0
+      : 1 - assignedAmount.mul(10_000).div(liquidity).toNumber() / 10_000;
+  // Routers with no recorded executions are given the benefit of the doubt.
+  const successRate = (await cache.routers.getSuccessRate(router)) ?? 1;
+  const lastSelected = await cache.routers.getLastSelected(router);
+  const fairnessScore =
+    lastSelected === undefined ? 1 : Math.min(1, Math.max(0, getNtpTimeSeconds() - lastSelected) / fairnessWindow);
+
+  const totalWeight = weights.liquidity + weights.successRate + weights.fairness;
+  if (totalWeight === 0) {
+    return 0;
+  }
+  return (
+    (weights.liquidity * liquidityScore + weights.successRate * successRate + weights.fairness * fairnessScore) /
+    totalWeight
+  );
+};
+
+/**
+ * Ranks bid combinations by the average score of the routers involved.
+ * @param combinations - The bid combinations to rank.
+ * @param scores - Mapping of router address to its score.
+ * @returns - The combinations sorted by descending score. Ties keep their original order.
+ */
+export const rankCombinations = (combinations: Bid[][], scores: Map<string, number>): Bid[][] => {
+  const getCombinationScore = (combination: Bid[]): number =>
+    combination.reduce((total, bid) => total + (scores.get(bid.router) ?? 0), 0) / combination.length;
+  return combinations
+    .map((combination) => ({ combination, score: getCombinationScore(combination) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ combination }) => combination);
+};
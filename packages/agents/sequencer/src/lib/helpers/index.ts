@@ -1,25 +1,23 @@
-import { gelatoSend, isChainSupportedByGelato, getGelatoRelayerAddress } from "./relayer";
 import {
   encodeExecuteFromBids,
   getDestinationLocalAsset,
   getBidsRoundMap,
   getAllSubsets,
   getMinimumBidsCountForRound,
+  getRouterScore,
+  rankCombinations,
 } from "./auctions";
 
 export const getHelpers = () => {
   return {
-    relayer: {
-      gelatoSend,
-      isChainSupportedByGelato,
-      getGelatoRelayerAddress,
-    },
     auctions: {
       encodeExecuteFromBids,
       getDestinationLocalAsset,
       getBidsRoundMap,
       getAllSubsets,
       getMinimumBidsCountForRound,
+      getRouterScore,
+      rankCombinations,
     },
   };
 };
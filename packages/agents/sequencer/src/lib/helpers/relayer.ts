@@ -1,11 +0,0 @@
-import {
-  gelatoSend as _gelatoSend,
-  isChainSupportedByGelato as _isChainSupportedByGelato,
-  getGelatoRelayerAddress as _getGelatoRelayerAddress,
-} from "@connext/nxtp-utils";
-
-export const gelatoSend = _gelatoSend;
-
-export const isChainSupportedByGelato = _isChainSupportedByGelato;
-
-export const getGelatoRelayerAddress = _getGelatoRelayerAddress;
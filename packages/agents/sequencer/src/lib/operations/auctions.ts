@@ -5,10 +5,12 @@ import {
   RequestContext,
   createLoggingContext,
   ajv,
+  AuctionEventType,
   AuctionStatus,
   getNtpTimeSeconds,
   jsonifyError,
   OriginTransfer,
+  RelayerTaskStatus,
 } from "@connext/nxtp-utils";
 import { compare } from "compare-versions";
 
@@ -92,6 +94,7 @@ export const storeBid = async (bid: Bid, _requestContext: RequestContext): Promi
     destination: transfer.xparams!.destinationDomain!,
     bid,
   });
+  await cache.auctions.addEvent(transferId, { type: AuctionEventType.BidReceived, routers: [bid.router] });
   logger.info("Updated auction", requestContext, methodContext, {
     new: res === 0,
     auction: await cache.auctions.getAuction(transferId),
@@ -131,7 +134,14 @@ export const executeAuction = async (transferId: string, _requestContext: Reques
     relayer: { sendToRelayer },
   } = getOperations();
   const {
-    auctions: { getDestinationLocalAsset, getBidsRoundMap, getAllSubsets, getMinimumBidsCountForRound },
+    auctions: {
+      getDestinationLocalAsset,
+      getBidsRoundMap,
+      getAllSubsets,
+      getMinimumBidsCountForRound,
+      getRouterScore,
+      rankCombinations,
+    },
   } = getHelpers();
   const { requestContext, methodContext } = createLoggingContext(executeAuction.name, _requestContext);
   logger.debug(`Method start: ${executeAuction.name}`, requestContext, methodContext);
@@ -207,6 +217,7 @@ export const executeAuction = async (transferId: string, _requestContext: Reques
       bids,
     });
     await cache.auctions.setStatus(transferId, AuctionStatus.Executed);
+    await cache.auctions.addEvent(transferId, { type: AuctionEventType.Executed });
     return;
   }
 
@@ -221,108 +232,182 @@ export const executeAuction = async (transferId: string, _requestContext: Reques
     return;
   }
 
+  const asset = await getDestinationLocalAsset(
+    transfer.xparams!.originDomain,
+    transfer.origin.assets.bridged.asset,
+    destination,
+  );
+  // TODO: Should use amount from router's bid.
+  const amount = transfer.origin.assets.bridged.amount;
+
+  // Bid combinations already sent for this transfer whose meta tx failed; we don't send those again.
+  const failedCombinations = (await cache.auctions.getTask(transferId))?.failed ?? [];
+  const hasFailed = (round: number, routers: string[]): boolean =>
+    failedCombinations.some(
+      (failed) =>
+        failed.round === round &&
+        failed.routers.length === routers.length &&
+        failed.routers.every((router) => routers.includes(router)),
+    );
+
+  // Liquidity of each router that bid on this transfer, looked up once per auction.
+  const routerLiquidityMap: Map<string, BigNumber> = new Map();
+  const getRouterLiquidity = async (router: string): Promise<BigNumber> => {
+    if (routerLiquidityMap.has(router)) {
+      return routerLiquidityMap.get(router)!;
+    }
+    let routerLiquidity: BigNumber | undefined = await cache.routers.getLiquidity(router, destination, asset);
+    if (!routerLiquidity) {
+      // Either we haven't cached the liquidity yet, or the value cached has become expired.
+      routerLiquidity = await subgraph.getAssetBalance(destination, router, asset);
+      if (!routerLiquidity.eq(constants.Zero)) {
+        await cache.routers.setLiquidity(router, destination, asset, routerLiquidity);
+      } else {
+        // NOTE: Using WARN level here as this is unexpected behavior... routers who are bidding on a transfer should
+        // have added liquidity for the asset on the corresponding domain.
+        logger.warn("Skipped bid from router; liquidity not found in subgraph", requestContext, methodContext, {
+          transfer: {
+            transferId,
+            asset,
+            destination,
+            amount: amount.toString(),
+          },
+          assetBalanceId: `${asset.toLowerCase()}-${router.toLowerCase()}`,
+          routerLiquidity,
+          router,
+        });
+      }
+    }
+    routerLiquidityMap.set(router, routerLiquidity);
+    return routerLiquidity;
+  };
+
+  // Number of bid combinations across all rounds that haven't been sent to the relayer before.
+  let untriedCombinations = 0;
   for (const roundIdx of availableRoundIds) {
     const roundIdInNum = Number(roundIdx);
     const totalBids = bidsRoundMap[roundIdInNum];
-    const combinedBidsForRound = getAllSubsets(totalBids, getMinimumBidsCountForRound(roundIdInNum)) as Bid[][];
+    const assignedAmount = BigNumber.from(amount).div(getMinimumBidsCountForRound(roundIdInNum));
+
+    // Check the liquidity of each router whether it has enough funds, and score the bids of those that do.
+    const scores: Map<string, number> = new Map();
+    const eligibleBids: Bid[] = [];
+    for (const bid of totalBids) {
+      const { router } = bid;
+      const routerLiquidity = await getRouterLiquidity(router);
+      if (routerLiquidity.isZero()) {
+        await cache.auctions.addEvent(transferId, {
+          type: AuctionEventType.BidSkipped,
+          round: roundIdInNum,
+          routers: [router],
+          reason: "Liquidity not found",
+        });
+        continue;
+      }
+      if (routerLiquidity.lt(assignedAmount)) {
+        logger.info("Skipped bid from router: insufficient liquidity", requestContext, methodContext, {
+          transfer: {
+            transferId,
+            asset,
+            destination,
+            totalAmount: amount.toString(),
+            assignedAmount,
+          },
+          router,
+          liquidity: routerLiquidity.toString(),
+        });
+        await cache.auctions.addEvent(transferId, {
+          type: AuctionEventType.BidSkipped,
+          round: roundIdInNum,
+          routers: [router],
+          reason: `Insufficient liquidity: ${routerLiquidity.toString()} < ${assignedAmount.toString()}`,
+        });
+        continue;
+      }
+      scores.set(router, await getRouterScore(router, routerLiquidity, assignedAmount));
+      eligibleBids.push(bid);
+    }
+
+    // Favor the highest scored bids when capping the number of combinations generated, then try the
+    // combinations in order of their score. Ties keep the order in which the bids were received.
+    eligibleBids.sort((a, b) => scores.get(b.router)! - scores.get(a.router)!);
+    const combinedBidsForRound = rankCombinations(
+      getAllSubsets(
+        eligibleBids,
+        getMinimumBidsCountForRound(roundIdInNum),
+        config.auctionSelection.maxCombinations,
+      ) as Bid[][],
+      scores,
+    ).filter(
+      (combination) =>
+        !hasFailed(
+          roundIdInNum,
+          combination.map((bid) => bid.router),
+        ),
+    );
+    untriedCombinations += combinedBidsForRound.length;
     logger.debug(`Selecting the round ${roundIdx}`, requestContext, methodContext, {
       availableRoundIds,
       totalBidsCount: totalBids.length,
+      eligibleBidsCount: eligibleBids.length,
       totalBids: totalBids,
+      scores: Object.fromEntries(scores),
       combinationCount: combinedBidsForRound.length,
       combinations: combinedBidsForRound,
     });
+    await cache.auctions.addEvent(transferId, {
+      type: AuctionEventType.RoundChosen,
+      round: roundIdInNum,
+      routers: eligibleBids.map((bid) => bid.router),
+    });
     let taskId: string | undefined;
+    let sentRouters: string[] = [];
 
     // Try every combinations until we find one that works.
-    for (const randomCombination of combinedBidsForRound) {
-      const asset = await getDestinationLocalAsset(
-        transfer.xparams!.originDomain,
-        transfer.origin.assets.bridged.asset,
-        destination,
-      );
-      // TODO: Should use amount from router's bid.
-      const amount = transfer.origin.assets.bridged.amount;
-      const assignedAmount = BigNumber.from(amount).div(randomCombination.length);
-
-      // Check the liquidity of each router whether it has enough funds
-      let insufficientRouterExist = false;
-      const routerLiquidityMap: Map<string, BigNumber> = new Map();
-      for (const randomBid of randomCombination) {
-        const { router } = randomBid;
-        let routerLiquidity: BigNumber | undefined = await cache.routers.getLiquidity(router, destination, asset);
-        if (!routerLiquidity) {
-          // Either we haven't cached the liquidity yet, or the value cached has become expired.
-          routerLiquidity = await subgraph.getAssetBalance(destination, router, asset);
-          if (!routerLiquidity.eq(constants.Zero)) {
-            await cache.routers.setLiquidity(router, destination, asset, routerLiquidity);
-          } else {
-            // NOTE: Using WARN level here as this is unexpected behavior... routers who are bidding on a transfer should
-            // have added liquidity for the asset on the corresponding domain.
-            logger.warn("Skipped bid from router; liquidity not found in subgraph", requestContext, methodContext, {
-              transfer: {
-                transferId,
-                asset,
-                destination,
-                amount: amount.toString(),
-              },
-              assetBalanceId: `${asset.toLowerCase()}-${router.toLowerCase()}`,
-              routerLiquidity,
-              router,
-            });
-            insufficientRouterExist = true;
-            break;
-          }
-        }
-
-        routerLiquidityMap.set(router, routerLiquidity);
-
-        if (routerLiquidity.lt(assignedAmount)) {
-          logger.info("Skipped bid from router: insufficient liquidity", requestContext, methodContext, {
-            transfer: {
-              transferId,
-              asset,
-              destination,
-              totalAmount: amount.toString(),
-              assignedAmount,
-            },
-            router,
-            liquidity: routerLiquidity.toString(),
-          });
-          insufficientRouterExist = true;
-          break;
-        }
-      }
-
-      // Skip this combination if there is a router which doesn't have enough liquidity
-      if (insufficientRouterExist) continue;
-
+    for (const combination of combinedBidsForRound) {
+      const routers = combination.map((bid) => bid.router);
       try {
         logger.debug("Sending bid to relayer", requestContext, methodContext, {
           transferId,
           bid: {
             // NOTE: Obfuscating signatures here for safety.
-            routers: randomCombination.map((bid) => bid.router),
+            routers,
           },
         });
         // Send the relayer request based on chosen bids.
-        taskId = await sendToRelayer(roundIdInNum, randomCombination, transfer, asset, requestContext);
+        taskId = await sendToRelayer(roundIdInNum, combination, transfer, asset, requestContext);
         logger.info("Sent bid to relayer", requestContext, methodContext, {
           transferId,
           taskId,
           origin,
           destination,
         });
+        await cache.auctions.addEvent(transferId, {
+          type: AuctionEventType.RelayerTaskSent,
+          round: roundIdInNum,
+          routers,
+          taskId,
+        });
 
-        // Update router liquidity record to reflect spending.
-        for (const router of routerLiquidityMap.keys()) {
+        for (const router of routers) {
+          // Update router liquidity record to reflect spending.
           const routerLiqudity = routerLiquidityMap.get(router)!.sub(assignedAmount);
           await cache.routers.setLiquidity(router, destination, asset, routerLiqudity);
+          // Record the selection for fairness scoring. The success rate is recorded once the relayer task
+          // completes or fails.
+          await cache.routers.setLastSelected(router);
         }
 
         // Break out from the bid selection loop.
+        sentRouters = routers;
         break;
       } catch (error: any) {
+        await cache.auctions.addEvent(transferId, {
+          type: AuctionEventType.CombinationRejected,
+          round: roundIdInNum,
+          routers,
+          reason: (error as Error).message,
+        });
         logger.error(
           "Failed to send to relayer, trying next combination if possible",
           requestContext,
@@ -332,7 +417,7 @@ export const executeAuction = async (transferId: string, _requestContext: Reques
             transferId,
             round: roundIdInNum,
             combinations: combinedBidsForRound,
-            bidsCount: randomCombination.length,
+            bidsCount: combination.length,
           },
         );
       }
@@ -364,8 +449,117 @@ export const executeAuction = async (transferId: string, _requestContext: Reques
     });
 
     await cache.auctions.setStatus(transferId, AuctionStatus.Sent);
-    await cache.auctions.upsertTask({ transferId, taskId });
+    await cache.auctions.upsertTask({ transferId, taskId, round: roundIdInNum, routers: sentRouters });
 
     return;
   }
+
+  // If every bid combination was already sent and its meta tx failed, there's nothing left to try: mark the
+  // auction as failed so it isn't retried indefinitely.
+  if (failedCombinations.length > 0 && untriedCombinations === 0) {
+    await cache.auctions.setStatus(transferId, AuctionStatus.Failed);
+    await cache.auctions.addEvent(transferId, {
+      type: AuctionEventType.Failed,
+      reason: "No untried bid combinations left",
+    });
+    logger.warn("No untried bid combinations left, giving up on auction", requestContext, methodContext, {
+      transferId,
+      failed: failedCombinations,
+    });
+  }
+};
+
+/**
+ * Follows up on the relayer task of each auction sent for execution. Auctions whose task completed are marked as
+ * executed. Those whose task was cancelled or reverted are requeued, to be executed with another bid combination,
+ * until they run out of attempts and are marked as failed.
+ */
+export const checkSentAuctions = async (_requestContext: RequestContext): Promise<void> => {
+  const {
+    config,
+    logger,
+    adapters: { cache, mqClient },
+  } = getContext();
+  const {
+    relayer: { getTaskStatus },
+  } = getOperations();
+  const { requestContext, methodContext } = createLoggingContext(checkSentAuctions.name, _requestContext);
+
+  const transferIds = await cache.auctions.getSentTransfers();
+  logger.debug(`Method start: ${checkSentAuctions.name}`, requestContext, methodContext, {
+    sent: transferIds.length,
+  });
+
+  for (const transferId of transferIds) {
+    try {
+      const task = await cache.auctions.getTask(transferId);
+      if (!task) {
+        // Shouldn't happen: the task is stored along with the Sent status.
+        logger.warn("Task not found for sent auction", requestContext, methodContext, { transferId });
+        continue;
+      }
+
+      const status = await getTaskStatus(task.taskId, requestContext);
+      if (status === RelayerTaskStatus.Completed) {
+        for (const router of task.routers ?? []) {
+          await cache.routers.recordExecution(router, true);
+        }
+        await cache.auctions.setStatus(transferId, AuctionStatus.Executed);
+        await cache.auctions.addEvent(transferId, { type: AuctionEventType.Executed });
+        logger.info("Relayer task completed", requestContext, methodContext, { transferId, taskId: task.taskId });
+        continue;
+      } else if (status !== RelayerTaskStatus.Cancelled) {
+        // Still pending, or the relayer doesn't know about the task (yet).
+        continue;
+      }
+
+      await cache.auctions.failTask(transferId);
+      await cache.auctions.addEvent(transferId, {
+        type: AuctionEventType.RelayerTaskFailed,
+        round: task.round,
+        routers: task.routers,
+        taskId: task.taskId,
+      });
+      for (const router of task.routers ?? []) {
+        await cache.routers.recordExecution(router, false);
+      }
+
+      if (task.attempts >= config.relayerMonitor.maxAttempts) {
+        await cache.auctions.setStatus(transferId, AuctionStatus.Failed);
+        await cache.auctions.addEvent(transferId, {
+          type: AuctionEventType.Failed,
+          reason: `Relayer task failed after ${task.attempts} attempts`,
+        });
+        logger.warn("Relayer task failed, giving up on auction", requestContext, methodContext, {
+          transferId,
+          taskId: task.taskId,
+          attempts: task.attempts,
+        });
+        continue;
+      }
+
+      const auction = await cache.auctions.getAuction(transferId);
+      if (!auction) {
+        logger.error("Auction data not found for transfer!", requestContext, methodContext, undefined, { transferId });
+        continue;
+      }
+      await cache.auctions.setStatus(transferId, AuctionStatus.Queued);
+      const message: Message = { transferId, originDomain: auction.origin };
+      await mqClient.publish(config.messageQueue.publisher!, {
+        type: auction.origin,
+        body: message,
+        routingKey: auction.origin,
+        persistent: true,
+      });
+      logger.info("Relayer task failed, requeued auction", requestContext, methodContext, {
+        transferId,
+        taskId: task.taskId,
+        attempts: task.attempts,
+      });
+    } catch (error: any) {
+      logger.error("Error checking relayer task", requestContext, methodContext, jsonifyError(error as Error), {
+        transferId,
+      });
+    }
+  }
 };
@@ -1,14 +1,16 @@
-import { storeBid, executeAuction } from "./auctions";
-import { sendToRelayer } from "./relayer";
+import { storeBid, executeAuction, checkSentAuctions } from "./auctions";
+import { sendToRelayer, getTaskStatus } from "./relayer";
 
 export const getOperations = () => {
   return {
     auctions: {
       storeBid,
       executeAuction,
+      checkSentAuctions,
     },
     relayer: {
       sendToRelayer,
+      getTaskStatus,
     },
   };
 };
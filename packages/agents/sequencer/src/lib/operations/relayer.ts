@@ -1,5 +1,12 @@
 import { constants } from "ethers";
-import { RequestContext, createLoggingContext, Bid, connextRelayerSend, OriginTransfer } from "@connext/nxtp-utils";
+import {
+  RequestContext,
+  createLoggingContext,
+  Bid,
+  OriginTransfer,
+  RelayerApiFee,
+  RelayerTaskStatus,
+} from "@connext/nxtp-utils";
 
 import { getContext } from "../../sequencer";
 import { getHelpers } from "../helpers";
@@ -31,42 +38,15 @@ export const sendToRelayer = async (
 
   const encodedData = encodeExecuteFromBids(round, bids, transfer, local);
 
-  const relayerFee = {
+  const relayerFee: RelayerApiFee = {
+    chain: originChainId,
     // TODO: Is this correct?
     amount: "0",
     // amount: transfer.relayerFee!,
     // TODO: should handle relayer fee paid in alternative assets once that is implemented.
-    asset: constants.AddressZero,
+    token: constants.AddressZero,
   };
 
-  // TODO: Might want to move this logic inside the `relayer.send` method below.
-  // Try sending the tx to the custom configured relayer, if applicable.
-  // If this fails, we'll resort to using the default relayer network.
-  if (config.relayerUrl) {
-    try {
-      const result = await connextRelayerSend(config.relayerUrl, destinationChainId, {
-        fee: {
-          chain: originChainId,
-          amount: relayerFee.amount,
-          token: relayerFee.asset,
-        },
-        to: destinationConnextAddress,
-        data: encodedData,
-      });
-      const { taskId } = result;
-      logger.info("Sent meta transaction to Connext relayer", requestContext, methodContext, {
-        taskId,
-        transferId: transfer.transferId,
-      });
-      return taskId;
-    } catch (error: unknown) {
-      logger.warn("Failed to send meta transaction to Connext relayer", requestContext, methodContext, {
-        transferId: transfer.transferId,
-        error,
-      });
-    }
-  }
-
   // Validate the bid's fulfill call will succeed on chain.
   const relayerAddress = await relayer.getRelayerAddress(destinationChainId);
 
@@ -93,6 +73,32 @@ export const sendToRelayer = async (
     transferId: transfer.transferId,
   });
 
-  const taskId = await relayer.send(destinationChainId, destinationConnextAddress, encodedData, _requestContext);
+  // The relayer adapter falls back on the next relayer configured for the domain if one fails.
+  const taskId = await relayer.send(
+    destinationChainId,
+    destinationConnextAddress,
+    encodedData,
+    relayerFee,
+    requestContext,
+  );
+  logger.info("Sent meta tx to relayer", requestContext, methodContext, { taskId, transferId: transfer.transferId });
   return taskId;
 };
+
+/**
+ * Gets the status of a meta tx task from the relayer it was sent to.
+ *
+ * @param taskId - The ID of the task, as returned by `sendToRelayer`.
+ * @returns The status of the task; RelayerTaskStatus.None if no relayer knows about it.
+ */
+export const getTaskStatus = async (taskId: string, _requestContext: RequestContext): Promise<RelayerTaskStatus> => {
+  const {
+    logger,
+    adapters: { relayer },
+  } = getContext();
+  const { requestContext, methodContext } = createLoggingContext(getTaskStatus.name, _requestContext);
+
+  const status = await relayer.getTaskStatus(taskId);
+  logger.debug("Got task status from relayer", requestContext, methodContext, { taskId, status });
+  return status;
+};
@@ -13,11 +13,11 @@ import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
 import { StoreManager } from "@connext/nxtp-adapters-cache";
 import { ChainReader, getContractInterfaces, contractDeployments } from "@connext/nxtp-txservice";
 
-import { SequencerConfig } from "./lib/entities";
+import { ExecuterRequest, ExecuterResponse, SequencerConfig } from "./lib/entities";
 import { getConfig } from "./config";
 import { AppContext } from "./lib/entities/context";
 import { bindHealthServer, bindSubscriber } from "./bindings/subscriber";
-import { bindServer } from "./bindings/publisher";
+import { bindServer, bindTasks } from "./bindings/publisher";
 import { setupRelayer } from "./adapters";
 import { getHelpers } from "./lib/helpers";
 import { getOperations } from "./lib/operations";
@@ -50,11 +50,11 @@ export const makePublisher = async (_configOverride?: SequencerConfig) => {
 
     /// MARK - Adapters
     context.adapters.cache = await setupCache(context.config.redis, context.logger, requestContext);
-    context.adapters.subgraph = await setupSubgraphReader(requestContext);
     context.adapters.chainreader = new ChainReader(
       context.logger.child({ module: "ChainReader", level: context.config.logLevel }),
       context.config.chains,
     );
+    context.adapters.subgraph = await setupSubgraphReader(requestContext);
     context.adapters.contracts = getContractInterfaces();
     context.adapters.relayer = await setupRelayer();
     context.adapters.mqClient = await setupPublisher(requestContext);
@@ -62,6 +62,8 @@ export const makePublisher = async (_configOverride?: SequencerConfig) => {
     /// MARK - Bindings
     // Create server, set up routes, and start listening.
     await bindServer();
+    // Follow up on the relayer tasks of sent auctions, requeuing the ones that failed.
+    await bindTasks();
 
     context.logger.info("Sequencer boot complete!", requestContext, methodContext, {
       port: {
@@ -87,15 +89,12 @@ export const makePublisher = async (_configOverride?: SequencerConfig) => {
   }
 };
 
-export const execute = async (_configOverride?: SequencerConfig) => {
+export const makeExecuter = async (_configOverride?: SequencerConfig) => {
   const {
     auctions: { executeAuction },
   } = getOperations();
+  const { requestContext, methodContext } = createLoggingContext(makeExecuter.name);
   try {
-    // Transfer ID is a CLI argument. Always provided by the parent
-    const transferId = process.argv[2];
-    const { requestContext, methodContext } = createLoggingContext(execute.name, undefined, transferId);
-
     context.adapters = {} as any;
 
     /// MARK - Config.
@@ -110,26 +109,37 @@ export const execute = async (_configOverride?: SequencerConfig) => {
         },
       },
     });
-    context.logger.info("Sequencer config generated.", requestContext, methodContext, { config: context.config });
+    context.logger.info("Executer config generated.", requestContext, methodContext, { config: context.config });
 
     // TODO: Which of these are not needed ?
     context.adapters.cache = await setupCache(context.config.redis, context.logger, requestContext);
-    context.adapters.subgraph = await setupSubgraphReader(requestContext);
     context.adapters.chainreader = new ChainReader(
       context.logger.child({ module: "ChainReader", level: context.config.logLevel }),
       context.config.chains,
     );
+    context.adapters.subgraph = await setupSubgraphReader(requestContext);
     context.adapters.contracts = getContractInterfaces();
     context.adapters.relayer = await setupRelayer();
-
-    await executeAuction(transferId, requestContext);
-    context.logger.info("Executed", requestContext, methodContext, { transferId: transferId });
   } catch (error: any) {
-    const { requestContext, methodContext } = createLoggingContext(execute.name);
-    context.logger.error("Error executing:", requestContext, methodContext, jsonifyError(error as Error));
+    console.error("Error starting executer :'(", error);
     process.exit(1);
   }
-  process.exit();
+
+  // The executer stays up, executing one auction at a time as the parent's pool sends them.
+  const handleRequest = async (request: ExecuterRequest) => {
+    const { requestContext, methodContext } = createLoggingContext(makeExecuter.name, undefined, request.transferId);
+    const response: ExecuterResponse = { transferId: request.transferId };
+    try {
+      await executeAuction(request.transferId, requestContext);
+      context.logger.info("Executed", requestContext, methodContext, { transferId: request.transferId });
+    } catch (error: any) {
+      context.logger.error("Error executing:", requestContext, methodContext, jsonifyError(error as Error));
+      response.error = jsonifyError(error as Error);
+    }
+    process.send!(response);
+  };
+  process.on("message", (request: ExecuterRequest) => void handleRequest(request));
+  context.logger.info("Executer ready", requestContext, methodContext);
 };
 
 export const setupCache = async (
@@ -172,10 +182,16 @@ export const setupSubgraphReader = async (requestContext: RequestContext): Promi
     allowedDomains,
   });
 
+  // Auctions check assets and router liquidity for each bid; caching spares the subgraphs during bursts.
   const subgraphReader = await SubgraphReader.create(
     allowedChainData,
     context.config.environment,
     context.config.subgraphPrefix,
+    { enabled: true },
+    // Requires the chain reader to be set up first, to check the endpoints against the chain head.
+    context.config.subgraphHealth
+      ? { config: context.config.subgraphHealth, chainReader: context.adapters.chainreader }
+      : undefined,
   );
 
   // Pull support for domains that don't have a subgraph.
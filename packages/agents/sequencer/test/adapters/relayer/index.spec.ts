@@ -1,14 +1,31 @@
 import { restore, reset } from "sinon";
+import { expect } from "@connext/nxtp-utils";
+import { FallbackRelayer, RelayerType } from "@connext/nxtp-adapters-relayer";
 
 import { setupRelayer } from "../../../src/adapters";
+import { ctxMock } from "../../globalTestHook";
+import { mock } from "../../mock";
 
 describe("#Relayer Setup", () => {
-  beforeEach(() => {});
   afterEach(() => {
     restore();
     reset();
   });
-  it("should pick up the auction rounds which has enough number of bids", async () => {
-    setupRelayer();
+
+  it("should set up the default relayers", async () => {
+    ctxMock.config.relayerUrl = "http://relayer.example";
+    const relayer = await setupRelayer();
+    expect(relayer).to.be.instanceOf(FallbackRelayer);
+  });
+
+  it("should set up the relayers configured for each domain", async () => {
+    ctxMock.config.chains[mock.domain.A].relayers = [{ type: RelayerType.Gelato }];
+    const relayer = await setupRelayer();
+    expect(relayer).to.be.instanceOf(FallbackRelayer);
+  });
+
+  it("should throw if a configured relayer is invalid", async () => {
+    ctxMock.config.chains[mock.domain.A].relayers = [{ type: RelayerType.Connext }];
+    await expect(setupRelayer()).to.be.rejectedWith("Relayer config invalid");
   });
 });
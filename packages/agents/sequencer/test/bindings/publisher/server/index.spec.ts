@@ -1,10 +1,18 @@
 import { SinonStub, stub, restore, reset } from "sinon";
-import { AuctionsApiPostBidReq, AuctionStatus, expect, getRandomBytes32 } from "@connext/nxtp-utils";
+import {
+  AuctionEventType,
+  AuctionsApiPostBidReq,
+  AuctionStatus,
+  expect,
+  getNtpTimeSeconds,
+  getRandomBytes32,
+} from "@connext/nxtp-utils";
 import { FastifyInstance } from "fastify";
 
 import * as BindingFns from "../../../../src/bindings/publisher";
 import { mock } from "../../../mock";
 import { ctxMock, getOperationsStub } from "../../../globalTestHook";
+import { AuctionNotFound } from "../../../../src/lib/errors";
 
 let fastifyApp: FastifyInstance;
 describe("Bindings:Server", () => {
@@ -16,6 +24,8 @@ describe("Bindings:Server", () => {
     let upsertAuctionStub: SinonStub;
     let getStatusStub: SinonStub;
     let setStatusStub: SinonStub;
+    let getEventsStub: SinonStub;
+    let getHistoryStub: SinonStub;
 
     // operations
     let storeBidStub: SinonStub;
@@ -32,6 +42,9 @@ describe("Bindings:Server", () => {
 
       getTaskStub = stub(auctions, "getTask").resolves(undefined);
 
+      getEventsStub = stub(auctions, "getEvents").resolves([]);
+      getHistoryStub = stub(auctions, "getHistory").resolves([]);
+
       storeBidStub = stub();
       getOperationsStub.returns({
         auctions: {
@@ -95,6 +108,92 @@ describe("Bindings:Server", () => {
       expect(response.statusCode).to.be.eq(500);
     });
 
+    it("happy: should get auction timeline", async () => {
+      const transferId = getRandomBytes32();
+      const taskId = getRandomBytes32();
+      const timestamp = getNtpTimeSeconds().toString();
+      const events = [
+        { type: AuctionEventType.BidReceived, timestamp, routers: [mock.address.router] },
+        { type: AuctionEventType.RoundChosen, timestamp, round: 1, routers: [mock.address.router] },
+        { type: AuctionEventType.RelayerTaskSent, timestamp, round: 1, routers: [mock.address.router], taskId },
+      ];
+      getStatusStub.resolves(AuctionStatus.Sent);
+      getEventsStub.resolves(events);
+      getTaskStub.resolves({ timestamp, taskId, attempts: 1 });
+
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: `/auctions/${transferId}/timeline`,
+      });
+
+      expect(response.statusCode).to.be.eq(200);
+      expect(JSON.parse(response.payload)).to.be.deep.eq({
+        transferId,
+        status: AuctionStatus.Sent,
+        taskId,
+        attempts: 1,
+        events,
+      });
+      expect(getEventsStub).to.have.been.calledOnceWithExactly(transferId);
+    });
+
+    it("should get 404 on timeline of non-existent auction", async () => {
+      getStatusStub.resolves(AuctionStatus.None);
+      getEventsStub.resolves([]);
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: "/auctions/badid/timeline",
+      });
+      expect(response.statusCode).to.be.eq(404);
+      expect(JSON.parse(response.payload).error.type).to.be.eq(AuctionNotFound.name);
+    });
+
+    it("should get 500 if getting the timeline fails", async () => {
+      getStatusStub.rejects(new Error("cache down"));
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: `/auctions/${getRandomBytes32()}/timeline`,
+      });
+      expect(response.statusCode).to.be.eq(500);
+    });
+
+    it("happy: should get auction history", async () => {
+      const transferIds = [getRandomBytes32(), getRandomBytes32()];
+      const timestamp = getNtpTimeSeconds().toString();
+      getHistoryStub.resolves(transferIds.map((transferId) => ({ transferId, updated: timestamp })));
+      getStatusStub.resolves(AuctionStatus.Queued);
+      getEventsStub.onCall(0).resolves([
+        { type: AuctionEventType.BidReceived, timestamp, routers: [mock.address.router] },
+        { type: AuctionEventType.RoundChosen, timestamp, round: 1, routers: [mock.address.router] },
+      ]);
+
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: "/auctions/history?limit=2&offset=4",
+      });
+
+      expect(response.statusCode).to.be.eq(200);
+      expect(JSON.parse(response.payload).auctions).to.be.deep.eq([
+        {
+          transferId: transferIds[0],
+          status: AuctionStatus.Queued,
+          updated: timestamp,
+          lastEvent: { type: AuctionEventType.RoundChosen, timestamp, round: 1, routers: [mock.address.router] },
+        },
+        { transferId: transferIds[1], status: AuctionStatus.Queued, updated: timestamp },
+      ]);
+      expect(getHistoryStub).to.have.been.calledOnceWithExactly(2, 4);
+    });
+
+    it("should reject history request with invalid limit", async () => {
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: "/auctions/history?limit=0",
+      });
+      expect(response.statusCode).to.be.eq(400);
+      expect(getHistoryStub.callCount).to.be.eq(0);
+    });
+
     it("happy: should receive 500 error if handling the bid fails", async () => {
       storeBidStub.throws(new Error("Handling the bid failed!"));
       const bid = mock.entity.bid();
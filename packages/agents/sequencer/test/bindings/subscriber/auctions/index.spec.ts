@@ -1,29 +1,77 @@
-import { expect } from "@connext/nxtp-utils";
+import { AuctionStatus, expect } from "@connext/nxtp-utils";
 import { stub, SinonStub } from "sinon";
 
 import { bindSubscriber } from "../../../../src/bindings/subscriber";
+import { ExecuterPool } from "../../../../src/bindings/subscriber/auctions/pool";
+import { ExecuterFailed } from "../../../../src/lib/errors";
 import { ctxMock } from "../../../globalTestHook";
 
 describe("Bindings:Auctions", () => {
-  let spawnStub: SinonStub;
+  let executeStub: SinonStub;
+  let getStatusStub: SinonStub;
+  let getTaskStub: SinonStub;
+  let message: { body: any; ack: SinonStub; nack: SinonStub };
+
+  // Binds the subscriber and runs its handler against the message.
+  const handle = async () => {
+    await bindSubscriber("1111");
+    const handler = (ctxMock.adapters.mqClient.handle as SinonStub).getCall(0).args[1];
+    await handler(message);
+  };
+
   beforeEach(() => {
-    spawnStub = stub().resolves();
+    executeStub = stub(ExecuterPool.prototype, "execute").resolves();
+    getStatusStub = stub(ctxMock.adapters.cache.auctions, "getStatus").resolves(AuctionStatus.Sent);
+    getTaskStub = stub(ctxMock.adapters.cache.auctions, "getTask").resolves({ taskId: "task_1" } as any);
+    message = { body: { transferId: "transfer_1", originDomain: "1111" }, ack: stub(), nack: stub() };
+    ctxMock.adapters.mqClient.handle = stub().resolves();
   });
 
   it("should handle undefined handler", async () => {
     await bindSubscriber("1111");
     expect(ctxMock.adapters.mqClient.handle).to.be.calledOnceWith("1111");
   });
-  it("should handle valid message", async () => {
-    const message = { body: { transferId: "transfer_1", originDomain: "1111" } };
-    ctxMock.adapters.mqClient.handle = stub().yields(message);
-    await bindSubscriber("1111");
-    expect(ctxMock.adapters.mqClient.handle).to.be.calledOnceWith("1111");
+
+  it("should execute the auction in the origin domain's executers and ACK once sent", async () => {
+    await handle();
+    expect(executeStub).to.be.calledOnceWithExactly("1111", "transfer_1");
+    expect(message.ack).to.be.calledOnce;
+    expect(message.nack).to.not.be.called;
+  });
+
+  it("should ACK if the transfer was already executed", async () => {
+    getStatusStub.resolves(AuctionStatus.Executed);
+    getTaskStub.resolves(undefined);
+    await handle();
+    expect(message.ack).to.be.calledOnce;
   });
+
+  it("should ACK if the auction failed for good", async () => {
+    getStatusStub.resolves(AuctionStatus.Failed);
+    await handle();
+    expect(message.ack).to.be.calledOnce;
+    expect(message.nack).to.not.be.called;
+  });
+
+  it("should NACK if the auction wasn't sent to the relayer", async () => {
+    getStatusStub.resolves(AuctionStatus.Queued);
+    await handle();
+    expect(message.nack).to.be.calledOnce;
+    expect(message.ack).to.not.be.called;
+  });
+
+  it("should NACK if the executer fails", async () => {
+    executeStub.rejects(new ExecuterFailed("transfer_1"));
+    await handle();
+    expect(message.nack).to.be.calledOnce;
+    expect(getStatusStub).to.not.be.called;
+  });
+
   it("should handle missing transferId", async () => {
-    const message = { body: { originDomain: "1111" } };
-    ctxMock.adapters.mqClient.handle = stub().yields(message);
-    await bindSubscriber("1111");
-    expect(ctxMock.adapters.mqClient.handle).to.be.calledOnceWith("1111");
+    message.body = { originDomain: "1111" };
+    await handle();
+    expect(executeStub).to.not.be.called;
+    expect(message.ack).to.not.be.called;
+    expect(message.nack).to.not.be.called;
   });
 });
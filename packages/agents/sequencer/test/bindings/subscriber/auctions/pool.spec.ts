@@ -0,0 +1,125 @@
+import childProcess from "child_process";
+import { EventEmitter } from "events";
+
+import { expect, Logger } from "@connext/nxtp-utils";
+import { SinonFakeTimers, SinonStub, stub, useFakeTimers } from "sinon";
+
+import { ExecuterPool } from "../../../../src/bindings/subscriber/auctions/pool";
+import { ExecuterExited, ExecuterFailed } from "../../../../src/lib/errors";
+
+// Mimics a forked executer: requests sent to it are recorded, and tests reply to them with `emit("message")`.
+const mockExecuter = () => {
+  const executer = new EventEmitter() as EventEmitter & { send: SinonStub; kill: SinonStub };
+  executer.send = stub().returns(true);
+  executer.kill = stub().callsFake(() => executer.emit("exit", null, "SIGTERM"));
+  return executer;
+};
+
+describe("Bindings:Auctions:ExecuterPool", () => {
+  let forkStub: SinonStub;
+  let executers: ReturnType<typeof mockExecuter>[];
+  let pool: ExecuterPool;
+  let clock: SinonFakeTimers;
+
+  beforeEach(() => {
+    executers = [];
+    forkStub = stub(childProcess, "fork").callsFake(() => {
+      const executer = mockExecuter();
+      executers.push(executer);
+      return executer as any;
+    });
+    clock = useFakeTimers();
+    pool = new ExecuterPool(
+      "executer.js",
+      { default: 2, domains: { "2222": 1 } },
+      1_000,
+      new Logger({ level: "silent" }),
+    );
+  });
+
+  afterEach(() => {
+    clock.restore();
+  });
+
+  it("should send the auction to a new executer and resolve once it's done", async () => {
+    const done = pool.execute("1111", "transfer_1");
+    expect(forkStub).to.be.calledOnceWithExactly("executer.js");
+    expect(executers[0].send).to.be.calledOnceWithExactly({ transferId: "transfer_1" });
+
+    executers[0].emit("message", { transferId: "transfer_1" });
+    await done;
+    expect(pool.getStats()).to.be.deep.eq({ "1111": { executers: 1, busy: 0, queued: 0 } });
+  });
+
+  it("should reuse idle executers", async () => {
+    const first = pool.execute("1111", "transfer_1");
+    executers[0].emit("message", { transferId: "transfer_1" });
+    await first;
+
+    const second = pool.execute("1111", "transfer_2");
+    executers[0].emit("message", { transferId: "transfer_2" });
+    await second;
+    expect(forkStub).to.be.calledOnce;
+    expect(executers[0].send.secondCall).to.be.calledWithExactly({ transferId: "transfer_2" });
+  });
+
+  it("should queue auctions beyond the domain's concurrency", async () => {
+    const first = pool.execute("2222", "transfer_1");
+    const second = pool.execute("2222", "transfer_2");
+    expect(forkStub).to.be.calledOnce;
+    expect(pool.getStats()["2222"]).to.be.deep.eq({ executers: 1, busy: 1, queued: 1 });
+
+    executers[0].emit("message", { transferId: "transfer_1" });
+    await first;
+    expect(executers[0].send.secondCall).to.be.calledWithExactly({ transferId: "transfer_2" });
+    executers[0].emit("message", { transferId: "transfer_2" });
+    await second;
+  });
+
+  it("should keep separate executers for each origin domain", () => {
+    void pool.execute("1111", "transfer_1");
+    void pool.execute("1111", "transfer_2");
+    void pool.execute("3333", "transfer_3");
+    expect(forkStub).to.be.calledThrice;
+    expect(pool.getStats()).to.be.deep.eq({
+      "1111": { executers: 2, busy: 2, queued: 0 },
+      "3333": { executers: 1, busy: 1, queued: 0 },
+    });
+  });
+
+  it("should reject if the executer fails", async () => {
+    const done = pool.execute("1111", "transfer_1");
+    executers[0].emit("message", { transferId: "transfer_1", error: { message: "fail", type: "Error", context: {} } });
+    await expect(done).to.be.rejectedWith(ExecuterFailed);
+    expect(pool.getStats()["1111"]).to.be.deep.eq({ executers: 1, busy: 0, queued: 0 });
+  });
+
+  it("should kill and replace an executer that times out", async () => {
+    const first = pool.execute("2222", "transfer_1");
+    const second = pool.execute("2222", "transfer_2");
+    clock.tick(1_000);
+    await first;
+    expect(executers[0].kill).to.be.calledOnce;
+    expect(forkStub).to.be.calledTwice;
+    expect(executers[1].send).to.be.calledOnceWithExactly({ transferId: "transfer_2" });
+
+    executers[1].emit("message", { transferId: "transfer_2" });
+    await second;
+  });
+
+  it("should reject if the executer exits", async () => {
+    const done = pool.execute("1111", "transfer_1");
+    executers[0].emit("exit", 1, null);
+    await expect(done).to.be.rejectedWith(ExecuterExited);
+    expect(pool.getStats()["1111"]).to.be.deep.eq({ executers: 0, busy: 0, queued: 0 });
+  });
+
+  it("should kill every executer and reject pending auctions on close", async () => {
+    const first = pool.execute("2222", "transfer_1");
+    const second = pool.execute("2222", "transfer_2");
+    pool.close();
+    await expect(first).to.be.rejectedWith(ExecuterExited);
+    await expect(second).to.be.rejectedWith(ExecuterExited);
+    expect(executers[0].kill).to.be.calledOnce;
+  });
+});
@@ -1,5 +1,14 @@
-import { Bid, ExecuteArgs, expect, mkAddress, mkBytes32, mkSig, OriginTransfer } from "@connext/nxtp-utils";
-import { constants } from "ethers";
+import {
+  Bid,
+  ExecuteArgs,
+  expect,
+  getNtpTimeSeconds,
+  mkAddress,
+  mkBytes32,
+  mkSig,
+  OriginTransfer,
+} from "@connext/nxtp-utils";
+import { BigNumber, constants } from "ethers";
 import { stub, restore, reset, SinonStub } from "sinon";
 
 import {
@@ -8,6 +17,8 @@ import {
   getBidsRoundMap,
   getDestinationLocalAsset,
   getMinimumBidsCountForRound,
+  getRouterScore,
+  rankCombinations,
 } from "../../../src/lib/helpers/auctions";
 import { ctxMock } from "../../globalTestHook";
 import { mock } from "../../mock";
@@ -228,6 +239,78 @@ describe("Helpers:Auctions", () => {
       expect(getAllSubsets(sources, 2)).to.be.deep.eq(combination2);
       expect(getAllSubsets(sources, 3)).to.be.deep.eq(combination3);
     });
+
+    it("should stop generating combinations once the limit is reached", () => {
+      const sources = ["A", "B", "C", "D"];
+      expect(getAllSubsets(sources, 2, 3)).to.be.deep.eq([
+        ["A", "B"],
+        ["A", "C"],
+        ["A", "D"],
+      ]);
+      expect(getAllSubsets(sources, 3, 10).length).to.be.eq(4);
+    });
+  });
+
+  describe("#getRouterScore", () => {
+    const router = mkAddress("0x111");
+    let getSuccessRateStub: SinonStub;
+    let getLastSelectedStub: SinonStub;
+
+    beforeEach(() => {
+      getSuccessRateStub = stub(ctxMock.adapters.cache.routers, "getSuccessRate").resolves(undefined);
+      getLastSelectedStub = stub(ctxMock.adapters.cache.routers, "getLastSelected").resolves(undefined);
+    });
+
+    afterEach(() => {
+      restore();
+      reset();
+    });
+
+    it("happy: should give a perfect score to a fresh router with plenty of liquidity", async () => {
+      expect(await getRouterScore(router, BigNumber.from(10_000), BigNumber.from(0))).to.be.eq(1);
+    });
+
+    it("should weigh liquidity, success rate and fairness", async () => {
+      getSuccessRateStub.resolves(0.5);
+      getLastSelectedStub.resolves(getNtpTimeSeconds() - ctxMock.config.auctionSelection.fairnessWindow / 2);
+
+      // liquidity: 1 - 25 / 100 = 0.75, success rate: 0.5, fairness: ~0.5
+      const score = await getRouterScore(router, BigNumber.from(100), BigNumber.from(25));
+      expect(score).to.be.closeTo((0.75 + 0.5 + 0.5) / 3, 0.01);
+    });
+
+    it("should respect configured weights", async () => {
+      ctxMock.config.auctionSelection.weights = { liquidity: 1, successRate: 0, fairness: 0 };
+      getSuccessRateStub.resolves(0);
+
+      expect(await getRouterScore(router, BigNumber.from(100), BigNumber.from(25))).to.be.eq(0.75);
+    });
+
+    it("should return 0 if all weights are 0", async () => {
+      ctxMock.config.auctionSelection.weights = { liquidity: 0, successRate: 0, fairness: 0 };
+
+      expect(await getRouterScore(router, BigNumber.from(100), BigNumber.from(25))).to.be.eq(0);
+    });
+  });
+
+  describe("#rankCombinations", () => {
+    it("happy: should sort combinations by average router score, keeping order for ties", () => {
+      const bidA = { ...mock.entity.bid(), router: mkAddress("0xa") };
+      const bidB = { ...mock.entity.bid(), router: mkAddress("0xb") };
+      const bidC = { ...mock.entity.bid(), router: mkAddress("0xc") };
+      const scores = new Map([
+        [bidA.router, 0.2],
+        [bidB.router, 0.8],
+        [bidC.router, 0.8],
+      ]);
+
+      expect(rankCombinations([[bidA, bidB], [bidB], [bidC], [bidA]], scores)).to.be.deep.eq([
+        [bidB],
+        [bidC],
+        [bidA, bidB],
+        [bidA],
+      ]);
+    });
   });
 
   describe("#getMinimumBidsCountForRound", () => {
@@ -2,12 +2,14 @@ import {
   mkAddress,
   Bid,
   expect,
+  AuctionEventType,
   AuctionStatus,
   getRandomBytes32,
   getNtpTimeSeconds,
   XTransfer,
   XTransferStatus,
   mkSig,
+  RelayerTaskStatus,
 } from "@connext/nxtp-utils";
 import { stub, restore, reset, SinonStub } from "sinon";
 import { constants, BigNumber } from "ethers";
@@ -16,8 +18,14 @@ import Broker from "foo-foo-mq";
 import { ctxMock, getOperationsStub, getHelpersStub } from "../../globalTestHook";
 import { mock } from "../../mock";
 import { AuctionExpired, BidVersionInvalid, MissingXCall, ParamsInvalid } from "../../../src/lib/errors";
-import { executeAuction, storeBid } from "../../../src/lib/operations/auctions";
-import { getAllSubsets, getBidsRoundMap, getMinimumBidsCountForRound } from "../../../src/lib/helpers/auctions";
+import { checkSentAuctions, executeAuction, storeBid } from "../../../src/lib/operations/auctions";
+import {
+  getAllSubsets,
+  getBidsRoundMap,
+  getMinimumBidsCountForRound,
+  getRouterScore,
+  rankCombinations,
+} from "../../../src/lib/helpers/auctions";
 
 const { requestContext } = mock.loggingContext("BID-TEST");
 
@@ -25,7 +33,9 @@ describe("Operations:Auctions", () => {
   // db
   let getQueuedTransfersStub: SinonStub;
   let getAuctionStub: SinonStub;
+  let getTaskStub: SinonStub;
   let upsertTaskStub: SinonStub;
+  let addEventStub: SinonStub;
   let upsertAuctionStub: SinonStub;
   let getStatusStub: SinonStub;
   let setStatusStub: SinonStub;
@@ -33,10 +43,15 @@ describe("Operations:Auctions", () => {
   let storeTransfersStub: SinonStub;
   let setLiquidityStub: SinonStub;
   let getLiquidityStub: SinonStub;
+  let getSuccessRateStub: SinonStub;
+  let getLastSelectedStub: SinonStub;
+  let recordExecutionStub: SinonStub;
+  let setLastSelectedStub: SinonStub;
   let publishStub: SinonStub;
 
   // operations
   let sendToRelayerStub: SinonStub;
+  let getTaskStatusStub: SinonStub;
 
   // helpers
   let encodeExecuteFromBidStub: SinonStub;
@@ -51,18 +66,26 @@ describe("Operations:Auctions", () => {
 
     getQueuedTransfersStub = stub(auctions, "getQueuedTransfers");
 
+    getTaskStub = stub(auctions, "getTask").resolves(undefined);
     upsertTaskStub = stub(auctions, "upsertTask").resolves(0);
+    addEventStub = stub(auctions, "addEvent").resolves(1);
 
     getTransferStub = stub(transfers, "getTransfer");
     storeTransfersStub = stub(transfers, "storeTransfers");
 
     setLiquidityStub = stub(routers, "setLiquidity");
     getLiquidityStub = stub(routers, "getLiquidity");
+    getSuccessRateStub = stub(routers, "getSuccessRate").resolves(undefined);
+    getLastSelectedStub = stub(routers, "getLastSelected").resolves(undefined);
+    recordExecutionStub = stub(routers, "recordExecution").resolves(1);
+    setLastSelectedStub = stub(routers, "setLastSelected").resolves(1);
 
     sendToRelayerStub = stub().resolves();
+    getTaskStatusStub = stub().resolves(RelayerTaskStatus.Pending);
     getOperationsStub.returns({
       relayer: {
         sendToRelayer: sendToRelayerStub,
+        getTaskStatus: getTaskStatusStub,
       },
     });
 
@@ -76,6 +99,8 @@ describe("Operations:Auctions", () => {
         getBidsRoundMap,
         getAllSubsets,
         getMinimumBidsCountForRound,
+        getRouterScore,
+        rankCombinations,
       },
     });
 
@@ -110,6 +135,10 @@ describe("Operations:Auctions", () => {
       expect(getStatusStub.callCount).to.eq(2);
       expect(getStatusStub.getCall(0).args).to.be.deep.eq([transferId]);
       expect(getStatusStub.getCall(1).args).to.be.deep.eq([transferId]);
+      expect(addEventStub).to.have.been.calledOnceWithExactly(transferId, {
+        type: AuctionEventType.BidReceived,
+        routers: [bid.router],
+      });
     });
 
     it("should error if input validation fails", async () => {
@@ -265,7 +294,7 @@ describe("Operations:Auctions", () => {
         },
       ]);
       expect(setStatusStub.getCall(0).args).to.be.deep.eq([transferId, AuctionStatus.Sent]);
-      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([{ transferId, taskId }]);
+      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([{ transferId, taskId, round: 1, routers: [router1] }]);
     });
 
     it("should pick up a round-2 auction if a round-1 auction doesn't exist", async () => {
@@ -346,7 +375,9 @@ describe("Operations:Auctions", () => {
         },
       ]);
       expect(setStatusStub.getCall(0).args).to.be.deep.eq([transferId, AuctionStatus.Sent]);
-      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([{ transferId, taskId }]);
+      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([
+        { transferId, taskId, round: 2, routers: [router1, router2] },
+      ]);
     });
 
     it("should skip the combination with the bid of which router has insufficient liquidity", async () => {
@@ -435,7 +466,236 @@ describe("Operations:Auctions", () => {
         },
       ]);
       expect(setStatusStub.getCall(0).args).to.be.deep.eq([transferId, AuctionStatus.Sent]);
-      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([{ transferId, taskId }]);
+      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([
+        { transferId, taskId, round: 2, routers: [router1, router2] },
+      ]);
+    });
+
+    it("should prefer the combination with the highest scored routers", async () => {
+      getLiquidityStub.resolves(BigNumber.from("10000000000000000000"));
+      const taskId = getRandomBytes32();
+      sendToRelayerStub.resolves(taskId);
+      const transferId = getRandomBytes32();
+
+      const router1 = mkAddress("0x111");
+      const router2 = mkAddress("0x112");
+      const router3 = mkAddress("0x113");
+      const bids: Record<string, Bid> = {};
+      for (const router of [router1, router2, router3]) {
+        bids[router] = {
+          routerVersion: "0.0.0",
+          transferId: transferId,
+          origin: "1111",
+          router,
+          signatures: {
+            "2": mkSig(router),
+          },
+        };
+      }
+      // Router1 was just selected, so it should be least favored.
+      getLastSelectedStub.callsFake(async (router: string) => (router === router1 ? getNtpTimeSeconds() : undefined));
+
+      const auction = mock.entity.auction({
+        timestamp: (getNtpTimeSeconds() - ctxMock.config.auctionWaitTime - 20).toString(),
+        bids,
+      });
+      getAuctionStub.resolves(auction);
+      getTransferStub.resolves(mock.entity.xtransfer({ transferId }));
+
+      await executeAuction(transferId, requestContext);
+      expect(sendToRelayerStub.callCount).to.be.eq(1);
+      expect(sendToRelayerStub.getCall(0).args[0]).to.be.eq(2);
+      expect(sendToRelayerStub.getCall(0).args[1].map((bid: Bid) => bid.router)).to.be.deep.eq([router2, router3]);
+      expect(recordExecutionStub).to.not.have.been.called;
+      expect(setLastSelectedStub).to.have.been.calledWithExactly(router2);
+      expect(setLastSelectedStub).to.have.been.calledWithExactly(router3);
+    });
+
+    it("should not send bid combinations whose meta tx already failed", async () => {
+      getLiquidityStub.resolves(BigNumber.from("10000000000000000000"));
+      const taskId = getRandomBytes32();
+      sendToRelayerStub.resolves(taskId);
+      const transferId = getRandomBytes32();
+
+      const router1 = mkAddress("0x111");
+      const router2 = mkAddress("0x112");
+      const bids: Record<string, Bid> = {};
+      for (const router of [router1, router2]) {
+        bids[router] = {
+          routerVersion: "0.0.0",
+          transferId: transferId,
+          origin: "1111",
+          router,
+          signatures: {
+            "1": mkSig(router),
+          },
+        };
+      }
+      getTaskStub.resolves({
+        timestamp: getNtpTimeSeconds().toString(),
+        taskId: getRandomBytes32(),
+        attempts: 1,
+        failed: [{ round: 1, routers: [router1] }],
+      });
+
+      const auction = mock.entity.auction({
+        timestamp: (getNtpTimeSeconds() - ctxMock.config.auctionWaitTime - 20).toString(),
+        bids,
+      });
+      getAuctionStub.resolves(auction);
+      getTransferStub.resolves(mock.entity.xtransfer({ transferId }));
+
+      await executeAuction(transferId, requestContext);
+      expect(sendToRelayerStub.callCount).to.be.eq(1);
+      expect(sendToRelayerStub.getCall(0).args[1].map((bid: Bid) => bid.router)).to.be.deep.eq([router2]);
+      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([{ transferId, taskId, round: 1, routers: [router2] }]);
+    });
+
+    it("should mark the auction as failed if every bid combination already failed", async () => {
+      getLiquidityStub.resolves(BigNumber.from("10000000000000000000"));
+      const transferId = getRandomBytes32();
+
+      const router1 = mkAddress("0x111");
+      const router2 = mkAddress("0x112");
+      const bids: Record<string, Bid> = {};
+      for (const router of [router1, router2]) {
+        bids[router] = {
+          routerVersion: "0.0.0",
+          transferId: transferId,
+          origin: "1111",
+          router,
+          signatures: {
+            "1": mkSig(router),
+          },
+        };
+      }
+      getTaskStub.resolves({
+        timestamp: getNtpTimeSeconds().toString(),
+        taskId: getRandomBytes32(),
+        attempts: 2,
+        failed: [
+          { round: 1, routers: [router1] },
+          { round: 1, routers: [router2] },
+        ],
+      });
+
+      const auction = mock.entity.auction({
+        timestamp: (getNtpTimeSeconds() - ctxMock.config.auctionWaitTime - 20).toString(),
+        bids,
+      });
+      getAuctionStub.resolves(auction);
+      getTransferStub.resolves(mock.entity.xtransfer({ transferId }));
+
+      await executeAuction(transferId, requestContext);
+      expect(sendToRelayerStub).to.not.have.been.called;
+      expect(setStatusStub).to.have.been.calledOnceWithExactly(transferId, AuctionStatus.Failed);
+      expect(addEventStub).to.have.been.calledWithExactly(transferId, {
+        type: AuctionEventType.Failed,
+        reason: "No untried bid combinations left",
+      });
+    });
+
+    it("should not mark the auction as failed if sending every combination to relayer fails", async () => {
+      getLiquidityStub.resolves(BigNumber.from("10000000000000000000"));
+      sendToRelayerStub.rejects(new Error("fail"));
+      const transferId = getRandomBytes32();
+
+      const router1 = mkAddress("0x111");
+      const bids: Record<string, Bid> = {
+        [router1]: {
+          routerVersion: "0.0.0",
+          transferId: transferId,
+          origin: "1111",
+          router: router1,
+          signatures: {
+            "1": mkSig(router1),
+          },
+        },
+      };
+
+      const auction = mock.entity.auction({
+        timestamp: (getNtpTimeSeconds() - ctxMock.config.auctionWaitTime - 20).toString(),
+        bids,
+      });
+      getAuctionStub.resolves(auction);
+      getTransferStub.resolves(mock.entity.xtransfer({ transferId }));
+
+      await executeAuction(transferId, requestContext);
+      expect(sendToRelayerStub).to.have.been.calledOnce;
+      expect(setStatusStub).to.not.have.been.called;
+    });
+
+    it("should try the next combination if sending to relayer fails", async () => {
+      getLiquidityStub.resolves(BigNumber.from("10000000000000000000"));
+      const taskId = getRandomBytes32();
+      sendToRelayerStub.onCall(0).rejects(new Error("fail"));
+      sendToRelayerStub.onCall(1).resolves(taskId);
+      const transferId = getRandomBytes32();
+
+      const router1 = mkAddress("0x111");
+      const router2 = mkAddress("0x112");
+      const bids: Record<string, Bid> = {};
+      for (const router of [router1, router2]) {
+        bids[router] = {
+          routerVersion: "0.0.0",
+          transferId: transferId,
+          origin: "1111",
+          router,
+          signatures: {
+            "1": mkSig(router),
+          },
+        };
+      }
+
+      const auction = mock.entity.auction({
+        timestamp: (getNtpTimeSeconds() - ctxMock.config.auctionWaitTime - 20).toString(),
+        bids,
+      });
+      getAuctionStub.resolves(auction);
+      getTransferStub.resolves(mock.entity.xtransfer({ transferId }));
+
+      await executeAuction(transferId, requestContext);
+      expect(sendToRelayerStub.callCount).to.be.eq(2);
+      expect(sendToRelayerStub.getCall(1).args[1].map((bid: Bid) => bid.router)).to.be.deep.eq([router2]);
+      expect(recordExecutionStub).to.not.have.been.called;
+      expect(upsertTaskStub.getCall(0).args).to.be.deep.eq([{ transferId, taskId, round: 1, routers: [router2] }]);
+      expect(addEventStub.getCalls().map((call) => call.args)).to.be.deep.eq([
+        [transferId, { type: AuctionEventType.RoundChosen, round: 1, routers: [router1, router2] }],
+        [transferId, { type: AuctionEventType.CombinationRejected, round: 1, routers: [router1], reason: "fail" }],
+        [transferId, { type: AuctionEventType.RelayerTaskSent, round: 1, routers: [router2], taskId }],
+      ]);
+    });
+
+    it("should cap the number of combinations evaluated", async () => {
+      ctxMock.config.auctionSelection.maxCombinations = 2;
+      getLiquidityStub.resolves(BigNumber.from("10000000000000000000"));
+      sendToRelayerStub.rejects(new Error("fail"));
+      const transferId = getRandomBytes32();
+
+      const bids: Record<string, Bid> = {};
+      for (const router of [mkAddress("0x111"), mkAddress("0x112"), mkAddress("0x113"), mkAddress("0x114")]) {
+        bids[router] = {
+          routerVersion: "0.0.0",
+          transferId: transferId,
+          origin: "1111",
+          router,
+          signatures: {
+            "2": mkSig(router),
+          },
+        };
+      }
+
+      const auction = mock.entity.auction({
+        timestamp: (getNtpTimeSeconds() - ctxMock.config.auctionWaitTime - 20).toString(),
+        bids,
+      });
+      getAuctionStub.resolves(auction);
+      getTransferStub.resolves(mock.entity.xtransfer({ transferId }));
+
+      await executeAuction(transferId, requestContext);
+      // 4 routers make for 6 possible round-2 combinations; only 2 should be tried.
+      expect(sendToRelayerStub.callCount).to.be.eq(2);
+      expect(upsertTaskStub.callCount).to.be.eq(0);
     });
 
     it("should wait then proceed if time elapsed is insufficient", async () => {
@@ -494,6 +754,8 @@ describe("Operations:Auctions", () => {
       expect(getAuctionStub.callCount).to.be.eq(1);
       expect(getTransferStub.callCount).to.be.eq(1);
       expect(sendToRelayerStub.callCount).to.be.eq(0);
+      expect(setStatusStub.getCall(0).args[1]).to.be.eq(AuctionStatus.Executed);
+      expect(addEventStub.getCall(0).args[1]).to.be.deep.eq({ type: AuctionEventType.Executed });
     });
 
     it("should ignore if transfer xcall or relayer fee undefined", async () => {
@@ -644,6 +906,7 @@ describe("Operations:Auctions", () => {
       expect(getAuctionStub.callCount).to.be.eq(1);
       expect(getTransferStub.callCount).to.be.eq(1);
       expect(sendToRelayerStub.callCount).to.be.eq(0);
+      expect(addEventStub.getCall(0).args[1]).to.include({ type: AuctionEventType.BidSkipped, round: 1 });
     });
 
     it("does nothing if none queued", async () => {
@@ -651,4 +914,95 @@ describe("Operations:Auctions", () => {
       await executeAuction(requestContext);
     });
   });
+
+  describe("#checkSentAuctions", () => {
+    const router1 = mkAddress("0x111");
+    const router2 = mkAddress("0x112");
+    let transferId: string;
+    let taskId: string;
+    let getSentTransfersStub: SinonStub;
+    let failTaskStub: SinonStub;
+
+    beforeEach(() => {
+      transferId = getRandomBytes32();
+      taskId = getRandomBytes32();
+      getSentTransfersStub = stub(ctxMock.adapters.cache.auctions, "getSentTransfers").resolves([transferId]);
+      failTaskStub = stub(ctxMock.adapters.cache.auctions, "failTask").resolves();
+      getTaskStub.resolves({
+        timestamp: getNtpTimeSeconds().toString(),
+        taskId,
+        attempts: 1,
+        round: 2,
+        routers: [router1, router2],
+      });
+      getAuctionStub.resolves(mock.entity.auction({ origin: "1111" }));
+    });
+
+    it("should leave auctions whose task is still pending", async () => {
+      await checkSentAuctions(requestContext);
+      expect(getTaskStatusStub).to.have.been.calledOnceWith(taskId);
+      expect(setStatusStub).to.not.have.been.called;
+      expect(ctxMock.adapters.mqClient.publish).to.not.have.been.called;
+    });
+
+    it("should mark auctions whose task completed as executed", async () => {
+      getTaskStatusStub.resolves(RelayerTaskStatus.Completed);
+      await checkSentAuctions(requestContext);
+      expect(setStatusStub).to.have.been.calledOnceWithExactly(transferId, AuctionStatus.Executed);
+      expect(addEventStub).to.have.been.calledOnceWithExactly(transferId, { type: AuctionEventType.Executed });
+      expect(recordExecutionStub.callCount).to.be.eq(2);
+      expect(recordExecutionStub).to.have.been.calledWithExactly(router1, true);
+      expect(recordExecutionStub).to.have.been.calledWithExactly(router2, true);
+    });
+
+    it("should requeue auctions whose task was cancelled", async () => {
+      getTaskStatusStub.resolves(RelayerTaskStatus.Cancelled);
+      await checkSentAuctions(requestContext);
+
+      expect(failTaskStub).to.have.been.calledOnceWithExactly(transferId);
+      expect(addEventStub).to.have.been.calledOnceWithExactly(transferId, {
+        type: AuctionEventType.RelayerTaskFailed,
+        round: 2,
+        routers: [router1, router2],
+        taskId,
+      });
+      expect(recordExecutionStub.callCount).to.be.eq(2);
+      expect(recordExecutionStub).to.have.been.calledWithExactly(router1, false);
+      expect(recordExecutionStub).to.have.been.calledWithExactly(router2, false);
+      expect(setStatusStub).to.have.been.calledOnceWithExactly(transferId, AuctionStatus.Queued);
+      expect(ctxMock.adapters.mqClient.publish).to.have.been.calledOnceWithExactly(
+        ctxMock.config.messageQueue.publisher,
+        {
+          type: "1111",
+          body: { transferId, originDomain: "1111" },
+          routingKey: "1111",
+          persistent: true,
+        },
+      );
+    });
+
+    it("should mark auctions as failed once they run out of attempts", async () => {
+      getTaskStatusStub.resolves(RelayerTaskStatus.Cancelled);
+      getTaskStub.resolves({
+        timestamp: getNtpTimeSeconds().toString(),
+        taskId,
+        attempts: ctxMock.config.relayerMonitor.maxAttempts,
+      });
+      await checkSentAuctions(requestContext);
+
+      expect(failTaskStub).to.have.been.calledOnceWithExactly(transferId);
+      expect(setStatusStub).to.have.been.calledOnceWithExactly(transferId, AuctionStatus.Failed);
+      expect(addEventStub.getCall(1).args[1]).to.include({ type: AuctionEventType.Failed });
+      expect(ctxMock.adapters.mqClient.publish).to.not.have.been.called;
+    });
+
+    it("should keep checking other auctions if one fails", async () => {
+      const otherTransferId = getRandomBytes32();
+      getSentTransfersStub.resolves([transferId, otherTransferId]);
+      getTaskStatusStub.onFirstCall().rejects(new Error("fail"));
+      getTaskStatusStub.onSecondCall().resolves(RelayerTaskStatus.Completed);
+      await checkSentAuctions(requestContext);
+      expect(setStatusStub).to.have.been.calledOnceWithExactly(otherTransferId, AuctionStatus.Executed);
+    });
+  });
 });
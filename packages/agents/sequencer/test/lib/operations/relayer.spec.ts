@@ -1,8 +1,9 @@
 import { stub, restore, reset, SinonStub } from "sinon";
-import { mkAddress, expect, OriginTransfer } from "@connext/nxtp-utils";
+import { constants } from "ethers";
+import { mkAddress, expect, OriginTransfer, RelayerTaskStatus } from "@connext/nxtp-utils";
 
-import { mock, mockRelayerAddress } from "../../mock";
-import { sendToRelayer } from "../../../src/lib/operations/relayer";
+import { mock, mockRelayerAddress, mockTaskId } from "../../mock";
+import { getTaskStatus, sendToRelayer } from "../../../src/lib/operations/relayer";
 import { ctxMock, getHelpersStub } from "../../globalTestHook";
 
 const mockTransfers: OriginTransfer[] = [
@@ -76,7 +77,17 @@ describe("#relayer", () => {
         Number(mock.chain.B),
         ctxMock.config.chains[mock.domain.B].deployments.connext,
         "0xbeef",
+        { chain: Number(mock.chain.A), amount: "0", token: constants.AddressZero },
       );
     });
   });
+
+  describe("#getTaskStatus", () => {
+    it("should get the task status from the relayer", async () => {
+      (ctxMock.adapters.relayer.getTaskStatus as SinonStub).resolves(RelayerTaskStatus.Completed);
+      const status = await getTaskStatus(mockTaskId, loggingContext.requestContext);
+      expect(status).to.be.eq(RelayerTaskStatus.Completed);
+      expect(ctxMock.adapters.relayer.getTaskStatus).to.be.calledOnceWithExactly(mockTaskId);
+    });
+  });
 });
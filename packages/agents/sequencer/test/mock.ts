@@ -3,7 +3,7 @@ import { createStubInstance, SinonStubbedInstance, stub } from "sinon";
 import { AuctionsCache, RoutersCache, StoreManager } from "@connext/nxtp-adapters-cache";
 import { SubgraphReader } from "@connext/nxtp-adapters-subgraph";
 import { ChainReader, ConnextContractInterfaces } from "@connext/nxtp-txservice";
-import { mkAddress, Logger, mock as _mock, mkBytes32 } from "@connext/nxtp-utils";
+import { mkAddress, Logger, mock as _mock, mkBytes32, RelayerTaskStatus } from "@connext/nxtp-utils";
 import { ConnextInterface } from "@connext/nxtp-contracts/typechain-types/Connext";
 import { ConnextPriceOracleInterface } from "@connext/nxtp-contracts/typechain-types/ConnextPriceOracle";
 import { TokenRegistryInterface } from "@connext/nxtp-contracts/typechain-types/TokenRegistry";
@@ -65,6 +65,19 @@ export const mock = {
     network: "testnet",
     auctionWaitTime: 1_000,
     auctionRoundDepth: 4,
+    auctionSelection: {
+      maxCombinations: 100,
+      weights: {
+        liquidity: 1,
+        successRate: 1,
+        fairness: 1,
+      },
+      fairnessWindow: 600,
+    },
+    relayerMonitor: {
+      interval: 60_000,
+      maxAttempts: 3,
+    },
     mode: {
       cleanup: false,
     },
@@ -146,6 +159,7 @@ export const mock = {
       return {
         getRelayerAddress: stub().resolves(mockRelayerAddress),
         send: stub().resolves(mockTaskId),
+        getTaskStatus: stub().resolves(RelayerTaskStatus.Pending),
       };
     },
     mqClient: () => {
@@ -157,10 +171,6 @@ export const mock = {
     },
   },
   helpers: {
-    relayer: {
-      gelatoSend: stub(),
-      isChainSupportedByGelato: stub(),
-    },
     auctions: {
       encodeExecuteFromBids: stub(),
       getDestinationLocalAsset: stub(),
@@ -170,9 +180,11 @@ export const mock = {
     auctions: {
       storeBid: stub(),
       executeAuction: stub(),
+      checkSentAuctions: stub(),
     },
     relayer: {
       sendToRelayer: stub(),
+      getTaskStatus: stub(),
     },
   },
 };
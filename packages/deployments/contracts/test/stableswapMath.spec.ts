@@ -0,0 +1,169 @@
+import { BigNumber, Signer } from "ethers";
+import {
+  StableSwapPool,
+  calculateRemoveLiquidity,
+  calculateRemoveLiquidityOneToken,
+  calculateSwap,
+  calculateSwapOut,
+  calculateTokenAmount,
+  getA,
+  getAPrecise,
+  getVirtualPrice,
+  simulateSwap,
+} from "@connext/nxtp-utils";
+import { MAX_UINT256, TIME, asyncForEach, getCurrentBlockTimestamp, setTimestamp } from "./utils";
+import { solidity } from "ethereum-waffle";
+import { ethers, waffle } from "hardhat";
+
+import { TestERC20, LPToken, StableSwap } from "../src/typechain-types";
+import chai from "chai";
+
+chai.use(solidity);
+const { expect } = chai;
+
+// Checks the off-chain StableSwap math in nxtp-utils against the contracts, over the same pool states.
+describe("StableSwap off-chain math", async () => {
+  let swap: StableSwap;
+  let swapToken: LPToken;
+  let owner: Signer;
+  let user1: Signer;
+
+  const INITIAL_A_VALUE = 50;
+  const SWAP_FEE = 1e7;
+  const ADMIN_FEE = 5e9;
+
+  const fixture = async () => {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    user1 = signers[1];
+
+    const erc20Factory = await ethers.getContractFactory("TestERC20");
+    const firstToken = (await erc20Factory.deploy("Test Token", "TEST")) as TestERC20;
+    const secondToken = (await erc20Factory.deploy("Test Token", "TEST")) as TestERC20;
+
+    const lpTokenFactory = await ethers.getContractFactory("contracts/core/connext/helpers/LPToken.sol:LPToken");
+    const lpToken = (await lpTokenFactory.deploy()) as LPToken;
+
+    await asyncForEach([owner, user1], async (signer) => {
+      const address = await signer.getAddress();
+      await firstToken.mint(address, String(1e20));
+      await secondToken.mint(address, String(1e20));
+    });
+
+    const swapFactory = await ethers.getContractFactory("StableSwap");
+    swap = (await swapFactory.deploy()) as StableSwap;
+    await swap.initialize(
+      [firstToken.address, secondToken.address],
+      [18, 18],
+      "Test LP Token Name",
+      "TESTLP",
+      INITIAL_A_VALUE,
+      SWAP_FEE,
+      0,
+      lpToken.address,
+    );
+    await swap.setAdminFee(ADMIN_FEE);
+
+    swapToken = (await ethers.getContractAt(
+      "contracts/core/connext/helpers/LPToken.sol:LPToken",
+      (
+        await swap.swapStorage()
+      ).lpToken,
+    )) as LPToken;
+
+    await asyncForEach([owner, user1], async (signer) => {
+      await firstToken.connect(signer).approve(swap.address, MAX_UINT256);
+      await secondToken.connect(signer).approve(swap.address, MAX_UINT256);
+      await swapToken.connect(signer).approve(swap.address, MAX_UINT256);
+    });
+
+    // Leave the pool imbalanced, so the invariant is actually exercised.
+    await swap.addLiquidity([String(1e18), String(3e18)], 0, MAX_UINT256);
+  };
+
+  // Reads the pool into the snapshot the off-chain math runs over.
+  const getPool = async (): Promise<StableSwapPool> => {
+    const storage = await swap.swapStorage();
+    return {
+      initialA: storage.initialA,
+      futureA: storage.futureA,
+      initialATime: storage.initialATime,
+      futureATime: storage.futureATime,
+      swapFee: storage.swapFee,
+      adminFee: storage.adminFee,
+      // Both tokens have 18 decimals.
+      tokenPrecisionMultipliers: [BigNumber.from(1), BigNumber.from(1)],
+      balances: [await swap.getTokenBalance(0), await swap.getTokenBalance(1)],
+      adminFees: [await swap.getAdminBalance(0), await swap.getAdminBalance(1)],
+      lpTokenSupply: await swapToken.totalSupply(),
+    };
+  };
+
+  // Checks every quote the contracts expose, at the current block.
+  const expectParity = async () => {
+    const pool = await getPool();
+    const timestamp = await getCurrentBlockTimestamp();
+    const amount = BigNumber.from(String(1e17));
+
+    expect(getAPrecise(pool, timestamp)).to.be.eq(await swap.getAPrecise());
+    expect(getA(pool, timestamp)).to.be.eq(await swap.getA());
+    expect(getVirtualPrice(pool, timestamp)).to.be.eq(await swap.getVirtualPrice());
+    expect(calculateSwap(pool, 0, 1, amount, timestamp).dy).to.be.eq(await swap.calculateSwap(0, 1, amount));
+    expect(calculateSwap(pool, 1, 0, amount, timestamp).dy).to.be.eq(await swap.calculateSwap(1, 0, amount));
+    expect(calculateSwapOut(pool, 0, 1, amount, timestamp).dx).to.be.eq(await swap.calculateSwapOut(0, 1, amount));
+    expect(calculateTokenAmount(pool, [amount, amount.mul(2)], true, timestamp)).to.be.eq(
+      await swap.calculateTokenAmount([amount, amount.mul(2)], true),
+    );
+    expect(calculateTokenAmount(pool, [amount, BigNumber.from(0)], false, timestamp)).to.be.eq(
+      await swap.calculateTokenAmount([amount, 0], false),
+    );
+    expect(calculateRemoveLiquidity(pool, amount)).to.be.deep.eq(await swap.calculateRemoveLiquidity(amount));
+    expect(calculateRemoveLiquidityOneToken(pool, amount, 1, timestamp).dy).to.be.eq(
+      await swap.calculateRemoveLiquidityOneToken(amount, 1),
+    );
+  };
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>;
+
+  before(async () => {
+    loadFixture = waffle.createFixtureLoader();
+  });
+
+  beforeEach(async () => {
+    await loadFixture(fixture);
+  });
+
+  it("should match the contracts' quotes", async () => {
+    await expectParity();
+  });
+
+  it("should match the contracts after a series of swaps", async () => {
+    let simulated = await getPool();
+    for (const [from, to, dx] of [
+      [0, 1, String(5e17)],
+      [1, 0, String(2e18)],
+      [0, 1, String(3e16)],
+    ] as const) {
+      const result = simulateSwap(simulated, from, to, BigNumber.from(dx));
+      simulated = result.pool;
+      await swap.connect(user1).swap(from, to, dx, result.dy, MAX_UINT256);
+
+      const pool = await getPool();
+      expect(simulated.balances).to.be.deep.eq(pool.balances);
+      expect(simulated.adminFees).to.be.deep.eq(pool.adminFees);
+      await expectParity();
+    }
+  });
+
+  it("should match the contracts while ramping A", async () => {
+    const endTimestamp = (await getCurrentBlockTimestamp()) + 14 * TIME.DAYS + 1;
+    await swap.rampA(100, endTimestamp);
+    await expectParity();
+
+    await setTimestamp((await getCurrentBlockTimestamp()) + 100000);
+    await expectParity();
+
+    await setTimestamp(endTimestamp);
+    await expectParity();
+  });
+});
@@ -1,5 +1,5 @@
 /* eslint-disable prefer-const */
-import { Address, BigInt, Bytes, dataSource } from "@graphprotocol/graph-ts";
+import { Address, BigInt, Bytes, dataSource, ethereum } from "@graphprotocol/graph-ts";
 
 import {
   RouterLiquidityAdded,
@@ -19,19 +19,32 @@ import {
   RouterRecipientSet,
   MaxRoutersPerTransferUpdated,
 } from "../../generated/Connext/ConnextHandler";
+import { StableSwap as StableSwapTemplate } from "../../generated/templates";
+import {
+  StableSwap as StableSwapContract,
+  TokenSwap,
+  AddLiquidity,
+  RemoveLiquidity,
+  RemoveLiquidityOne,
+  RemoveLiquidityImbalance,
+} from "../../generated/templates/StableSwap/StableSwap";
 import {
   Asset,
   AssetBalance,
   Router,
+  RouterLiquidityEvent,
   Relayer,
   StableSwap,
   SponsorVault,
   OriginTransfer,
   DestinationTransfer,
   Setting,
+  StableSwapExchange,
+  StableSwapPoolEvent,
 } from "../../generated/schema";
 
 const DEFAULT_MAX_ROUTERS_PER_TRANSFER = 5;
+const SWAP_FEE_DENOMINATOR = BigInt.fromI32(10).pow(10);
 export function handleRelayerAdded(event: RelayerAdded): void {
   let relayerId = event.params.relayer.toHex();
   let relayer = Relayer.load(relayerId);
@@ -55,6 +68,11 @@ export function handleStableSwapAdded(event: StableSwapAdded): void {
     stableSwap.domain = event.params.domain;
     stableSwap.swapPool = event.params.swapPool;
     stableSwap.save();
+
+    // Index the pool's swaps and liquidity changes.
+    if (event.params.swapPool != Address.zero()) {
+      StableSwapTemplate.create(event.params.swapPool);
+    }
   }
 }
 
@@ -173,6 +191,8 @@ export function handleRouterLiquidityAdded(event: RouterLiquidityAdded): void {
 
   // save
   assetBalance.save();
+
+  createRouterLiquidityEvent(event, "Add", assetBalance, event.params.amount, event.params.caller);
 }
 
 /**
@@ -189,6 +209,8 @@ export function handleRouterLiquidityRemoved(event: RouterLiquidityRemoved): voi
 
   // save
   assetBalance.save();
+
+  createRouterLiquidityEvent(event, "Remove", assetBalance, event.params.amount, event.params.caller);
 }
 
 /**
@@ -405,6 +427,77 @@ export function handleReconciled(event: Reconciled): void {
   transfer.save();
 }
 
+/**
+ * Swaps and liquidity changes in the StableSwap pools added to Connext are recorded under the pool's address, with
+ * the pool's balances after the event, so pool history can be rebuilt off-chain.
+ */
+export function handleTokenSwap(event: TokenSwap): void {
+  let swapFee = StableSwapContract.bind(event.address).swapStorage().value4;
+
+  let exchange = new StableSwapExchange(event.transaction.hash.toHex() + "-" + event.logIndex.toString());
+  exchange.poolId = event.address;
+  exchange.buyer = event.params.buyer;
+  exchange.boughtId = event.params.boughtId;
+  exchange.soldId = event.params.soldId;
+  exchange.tokensSold = event.params.tokensSold;
+  exchange.tokensBought = event.params.tokensBought;
+  // The fee is taken out of the amount bought: tokensBought = (tokensBought + fee) * (1 - swapFee).
+  exchange.fee = event.params.tokensBought.times(swapFee).div(SWAP_FEE_DENOMINATOR.minus(swapFee));
+  exchange.balances = getPoolBalances(event.address);
+  exchange.transactionHash = event.transaction.hash;
+  exchange.timestamp = event.block.timestamp;
+  exchange.blockNumber = event.block.number;
+  exchange.save();
+}
+
+export function handleAddLiquidity(event: AddLiquidity): void {
+  createStableSwapPoolEvent(
+    event,
+    "Add",
+    event.params.provider,
+    event.params.tokenAmounts,
+    event.params.fees,
+    event.params.lpTokenSupply,
+  );
+}
+
+export function handleRemoveLiquidity(event: RemoveLiquidity): void {
+  createStableSwapPoolEvent(
+    event,
+    "Remove",
+    event.params.provider,
+    event.params.tokenAmounts,
+    zeros(event.params.tokenAmounts.length),
+    event.params.lpTokenSupply,
+  );
+}
+
+export function handleRemoveLiquidityOne(event: RemoveLiquidityOne): void {
+  let numTokens = getPoolBalances(event.address).length;
+  let tokenAmounts = zeros(numTokens);
+  tokenAmounts[event.params.boughtId.toI32()] = event.params.tokensBought;
+  createStableSwapPoolEvent(
+    event,
+    "Remove",
+    event.params.provider,
+    tokenAmounts,
+    zeros(numTokens),
+    // The event's supply is from before the LP tokens were burned.
+    event.params.lpTokenSupply.minus(event.params.lpTokenAmount),
+  );
+}
+
+export function handleRemoveLiquidityImbalance(event: RemoveLiquidityImbalance): void {
+  createStableSwapPoolEvent(
+    event,
+    "Remove",
+    event.params.provider,
+    event.params.tokenAmounts,
+    event.params.fees,
+    event.params.lpTokenSupply,
+  );
+}
+
 // eslint-disable-next-line @typescript-eslint/ban-types
 function getChainId(): BigInt {
   // try to get chainId from the mapping
@@ -480,3 +573,71 @@ function getOrCreateAssetBalance(local: Address, routerAddress: Address): AssetB
   }
   return assetBalance;
 }
+
+function createRouterLiquidityEvent(
+  event: ethereum.Event,
+  eventType: string,
+  assetBalance: AssetBalance,
+  amount: BigInt,
+  caller: Address,
+): void {
+  let liquidityEvent = new RouterLiquidityEvent(event.transaction.hash.toHex() + "-" + event.logIndex.toString());
+  liquidityEvent.eventType = eventType;
+  liquidityEvent.router = assetBalance.router;
+  liquidityEvent.asset = assetBalance.asset;
+  liquidityEvent.amount = amount;
+  liquidityEvent.balance = assetBalance.amount;
+  liquidityEvent.caller = caller;
+  liquidityEvent.transactionHash = event.transaction.hash;
+  liquidityEvent.timestamp = event.block.timestamp;
+  liquidityEvent.blockNumber = event.block.number;
+  liquidityEvent.save();
+}
+
+function createStableSwapPoolEvent(
+  event: ethereum.Event,
+  eventType: string,
+  provider: Address,
+  tokenAmounts: BigInt[],
+  fees: BigInt[],
+  lpTokenSupply: BigInt,
+): void {
+  let poolEvent = new StableSwapPoolEvent(event.transaction.hash.toHex() + "-" + event.logIndex.toString());
+  poolEvent.poolId = event.address;
+  poolEvent.eventType = eventType;
+  poolEvent.provider = provider;
+  poolEvent.tokenAmounts = tokenAmounts;
+  poolEvent.fees = fees;
+  poolEvent.lpTokenSupply = lpTokenSupply;
+  poolEvent.balances = getPoolBalances(event.address);
+  poolEvent.transactionHash = event.transaction.hash;
+  poolEvent.timestamp = event.block.timestamp;
+  poolEvent.blockNumber = event.block.number;
+  poolEvent.save();
+}
+
+// The pool doesn't expose its number of tokens, so balances are read until the index is out of range.
+// eslint-disable-next-line @typescript-eslint/ban-types
+function getPoolBalances(pool: Address): BigInt[] {
+  let contract = StableSwapContract.bind(pool);
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  let balances = new Array<BigInt>();
+  for (let i = 0; ; i++) {
+    let balance = contract.try_getTokenBalance(i);
+    if (balance.reverted) {
+      break;
+    }
+    balances.push(balance.value);
+  }
+  return balances;
+}
+
+// eslint-disable-next-line @typescript-eslint/ban-types
+function zeros(length: i32): BigInt[] {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  let values = new Array<BigInt>();
+  for (let i = 0; i < length; i++) {
+    values.push(BigInt.fromI32(0));
+  }
+  return values;
+}
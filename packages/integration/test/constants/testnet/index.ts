@@ -6,6 +6,7 @@ import { NxtpRouterConfig as RouterConfig } from "@connext/nxtp-router/src/confi
 import { version as routerPackageVersion } from "@connext/nxtp-router/package.json";
 import { RelayerConfig } from "@connext/nxtp-relayer/src/lib/entities/config";
 import { CartographerConfig } from "@connext/cartographer-poller/src/config";
+import { RelayerType } from "@connext/nxtp-adapters-relayer";
 
 export enum Environment {
   Staging = "staging",
@@ -32,6 +33,8 @@ export const NOMAD_ENVIRONMENT: "staging" | "production" = (process.env.NXTP_NOM
 // Whether or not to run certain agents locally.
 export const LOCAL_RELAYER_ENABLED = process.env.LOCAL_RELAYER_ENABLED === "true";
 export const LOCAL_CARTOGRAPHER_ENABLED = process.env.LOCAL_CARTOGRAPHER_ENABLED === "true";
+// If set, the sequencer will submit transactions directly from this key instead of using a relayer network.
+export const STANDIN_RELAYER_PRIVATE_KEY = process.env.STANDIN_RELAYER_PRIVATE_KEY;
 
 // TODO: May need to increase this at some point:
 export const RELAYER_FEE_AMOUNT = utils.parseEther("0.0000000001"); // In ETH.
@@ -278,6 +281,9 @@ export const SEQUENCER_CONFIG: Promise<SequencerConfig> = (async (): Promise<Seq
         providers: DESTINATION.config.providers,
         confirmations: DESTINATION.config.confirmations,
         deployments: DESTINATION.config.deployments,
+        relayers: STANDIN_RELAYER_PRIVATE_KEY
+          ? [{ type: RelayerType.Local, url: DESTINATION.config.providers[0], privateKey: STANDIN_RELAYER_PRIVATE_KEY }]
+          : undefined,
       },
     },
     logLevel: "info",
@@ -330,6 +336,8 @@ export const RELAYER_CONFIG: Promise<RelayerConfig> = (async (): Promise<Relayer
     mode: {
       cleanup: false,
     },
+    validateFees: false,
+    feeTolerance: 10,
     network: "testnet",
     environment: ENVIRONMENT.toString() as "staging" | "production",
   };
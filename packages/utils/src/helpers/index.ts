@@ -6,6 +6,7 @@ export * from "./math";
 export * from "./nomad";
 export * from "./parse";
 export * from "./signatures";
+export * from "./stableswap";
 export * from "./swap";
 export * from "./time";
 export * from "./address";
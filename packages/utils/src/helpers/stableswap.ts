@@ -0,0 +1,344 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import { getNtpTimeSeconds } from "./time";
+
+// A port of the StableSwap math in the contracts' `SwapUtils` and `AmplificationUtils`, so pools can be quoted from a
+// snapshot of their state without RPC calls. Results match the contracts' to the wei, including rounding.
+
+// The precision all pool balances are converted to.
+export const STABLESWAP_POOL_PRECISION_DECIMALS = 18;
+// The denominator of the swap and admin fees.
+export const STABLESWAP_FEE_DENOMINATOR = BigNumber.from(10).pow(10);
+// The precision of A, the amplification coefficient.
+export const STABLESWAP_A_PRECISION = BigNumber.from(100);
+// Max iterations when solving the invariant.
+const MAX_LOOP_LIMIT = 256;
+
+/**
+ * A snapshot of a StableSwap pool, as stored in `SwapUtils.Swap` (plus the LP token supply).
+ */
+export type StableSwapPool = {
+  // A (the amplification coefficient * n * (n - 1)) at the start and the end of its ramp, in A_PRECISION.
+  initialA: BigNumber;
+  futureA: BigNumber;
+  // Timestamps (in seconds) of the start and the end of the ramp.
+  initialATime: BigNumber;
+  futureATime: BigNumber;
+  // Fees, in FEE_DENOMINATOR. The admin fee is the share of the swap fee kept by the admin.
+  swapFee: BigNumber;
+  adminFee: BigNumber;
+  // Multipliers that bring each pooled token to the pool's precision.
+  tokenPrecisionMultipliers: BigNumber[];
+  // Pool and admin fee balances of each token, in the token's precision.
+  balances: BigNumber[];
+  adminFees: BigNumber[];
+  lpTokenSupply: BigNumber;
+};
+
+const within1 = (a: BigNumber, b: BigNumber): boolean => a.sub(b).abs().lte(1);
+
+const checkedSub = (a: BigNumber, b: BigNumber, message: string): BigNumber => {
+  if (b.gt(a)) {
+    throw new Error(message);
+  }
+  return a.sub(b);
+};
+
+/**
+ * Gets A in its raw precision at the given time, interpolating along its ramp.
+ *
+ * @param pool - The pool snapshot.
+ * @param timestamp - (optional) The time (in seconds) to get A at. Defaults to now.
+ */
+export const getAPrecise = (pool: StableSwapPool, timestamp: BigNumberish = getNtpTimeSeconds()): BigNumber => {
+  const { initialA: a0, futureA: a1, initialATime: t0, futureATime: t1 } = pool;
+  const now = BigNumber.from(timestamp);
+  if (now.gte(t1)) {
+    return a1;
+  }
+  const elapsed = now.sub(t0);
+  const duration = t1.sub(t0);
+  return a1.gt(a0) ? a0.add(a1.sub(a0).mul(elapsed).div(duration)) : a0.sub(a0.sub(a1).mul(elapsed).div(duration));
+};
+
+/**
+ * Gets A, the amplification coefficient * n * (n - 1), at the given time.
+ */
+export const getA = (pool: StableSwapPool, timestamp?: BigNumberish): BigNumber =>
+  getAPrecise(pool, timestamp).div(STABLESWAP_A_PRECISION);
+
+/**
+ * Scales balances to the pool's precision.
+ */
+export const getXp = (balances: BigNumber[], multipliers: BigNumber[]): BigNumber[] => {
+  if (balances.length !== multipliers.length) {
+    throw new Error("mismatch multipliers");
+  }
+  return balances.map((balance, i) => balance.mul(multipliers[i]));
+};
+
+/**
+ * Gets D, the StableSwap invariant, of the given balances.
+ *
+ * @param xp - Balances, in the pool's precision.
+ * @param a - A, in A_PRECISION.
+ */
+export const getD = (xp: BigNumber[], a: BigNumber): BigNumber => {
+  const numTokens = BigNumber.from(xp.length);
+  const s = xp.reduce((sum, x) => sum.add(x), BigNumber.from(0));
+  if (s.isZero()) {
+    return s;
+  }
+
+  let d = s;
+  const nA = a.mul(numTokens);
+  for (let i = 0; i < MAX_LOOP_LIMIT; i++) {
+    let dP = d;
+    for (const x of xp) {
+      dP = dP.mul(d).div(x.mul(numTokens));
+    }
+    const prevD = d;
+    d = nA
+      .mul(s)
+      .div(STABLESWAP_A_PRECISION)
+      .add(dP.mul(numTokens))
+      .mul(d)
+      .div(nA.sub(STABLESWAP_A_PRECISION).mul(d).div(STABLESWAP_A_PRECISION).add(numTokens.add(1).mul(dP)));
+    if (within1(d, prevD)) {
+      return d;
+    }
+  }
+  throw new Error("D does not converge");
+};
+
+// Solves the invariant for the balance y, given the sum and product terms of the other balances.
+const solveY = (a: BigNumber, d: BigNumber, others: BigNumber[], numTokens: BigNumber): BigNumber => {
+  const nA = a.mul(numTokens);
+  let c = d;
+  let s = BigNumber.from(0);
+  for (const x of others) {
+    s = s.add(x);
+    c = c.mul(d).div(x.mul(numTokens));
+  }
+  c = c.mul(d).mul(STABLESWAP_A_PRECISION).div(nA.mul(numTokens));
+  const b = s.add(d.mul(STABLESWAP_A_PRECISION).div(nA));
+
+  let y = d;
+  for (let i = 0; i < MAX_LOOP_LIMIT; i++) {
+    const yPrev = y;
+    y = y.mul(y).add(c).div(y.mul(2).add(b).sub(d));
+    if (within1(y, yPrev)) {
+      return y;
+    }
+  }
+  throw new Error("Approximation did not converge");
+};
+
+/**
+ * Gets the balance of the `to` token that keeps the invariant once the `from` token's balance is `x`.
+ *
+ * @param a - A, in A_PRECISION.
+ * @param tokenIndexFrom - Index of the token being sold.
+ * @param tokenIndexTo - Index of the token being bought.
+ * @param x - The new balance of the token being sold, in the pool's precision.
+ * @param xp - Balances, in the pool's precision.
+ */
+export const getY = (
+  a: BigNumber,
+  tokenIndexFrom: number,
+  tokenIndexTo: number,
+  x: BigNumber,
+  xp: BigNumber[],
+): BigNumber => {
+  if (tokenIndexFrom === tokenIndexTo) {
+    throw new Error("compare token to itself");
+  }
+  if (tokenIndexFrom >= xp.length || tokenIndexTo >= xp.length) {
+    throw new Error("token not found");
+  }
+  const d = getD(xp, a);
+  const others = xp.map((xi, i) => (i === tokenIndexFrom ? x : xi)).filter((_, i) => i !== tokenIndexTo);
+  return solveY(a, d, others, BigNumber.from(xp.length));
+};
+
+/**
+ * Gets the balance of a token that keeps the invariant at `d`, given the other balances.
+ *
+ * @param a - A, in A_PRECISION.
+ * @param tokenIndex - Index of the token to solve for.
+ * @param xp - Balances, in the pool's precision.
+ * @param d - The invariant.
+ */
+export const getYD = (a: BigNumber, tokenIndex: number, xp: BigNumber[], d: BigNumber): BigNumber => {
+  if (tokenIndex >= xp.length) {
+    throw new Error("Token not found");
+  }
+  return solveY(
+    a,
+    d,
+    xp.filter((_, i) => i !== tokenIndex),
+    BigNumber.from(xp.length),
+  );
+};
+
+/**
+ * Gets the fee charged on each token when liquidity is added or removed unevenly.
+ */
+export const getFeePerToken = (swapFee: BigNumber, numTokens: number): BigNumber =>
+  swapFee.mul(numTokens).div((numTokens - 1) * 4);
+
+/**
+ * Calculates a swap of `dx` of one token for another.
+ *
+ * @returns The amount received, and the swap fee in the pool's precision.
+ */
+export const calculateSwap = (
+  pool: StableSwapPool,
+  tokenIndexFrom: number,
+  tokenIndexTo: number,
+  dx: BigNumber,
+  timestamp?: BigNumberish,
+): { dy: BigNumber; dyFee: BigNumber } => {
+  const multipliers = pool.tokenPrecisionMultipliers;
+  const xp = getXp(pool.balances, multipliers);
+  if (tokenIndexFrom >= xp.length || tokenIndexTo >= xp.length) {
+    throw new Error("index out of range");
+  }
+  const x = dx.mul(multipliers[tokenIndexFrom]).add(xp[tokenIndexFrom]);
+  const y = getY(getAPrecise(pool, timestamp), tokenIndexFrom, tokenIndexTo, x, xp);
+  const dy = xp[tokenIndexTo].sub(y).sub(1);
+  const dyFee = dy.mul(pool.swapFee).div(STABLESWAP_FEE_DENOMINATOR);
+  return { dy: dy.sub(dyFee).div(multipliers[tokenIndexTo]), dyFee };
+};
+
+/**
+ * Calculates how much of one token must be sold to receive `dy` of another.
+ *
+ * @returns The amount to sell, and the swap fee in the pool's precision.
+ */
+export const calculateSwapOut = (
+  pool: StableSwapPool,
+  tokenIndexFrom: number,
+  tokenIndexTo: number,
+  dy: BigNumber,
+  timestamp?: BigNumberish,
+): { dx: BigNumber; dxFee: BigNumber } => {
+  const multipliers = pool.tokenPrecisionMultipliers;
+  const xp = getXp(pool.balances, multipliers);
+  if (tokenIndexFrom >= xp.length || tokenIndexTo >= xp.length) {
+    throw new Error("index out of range");
+  }
+  const a = getAPrecise(pool, timestamp);
+  const d0 = getD(xp, a);
+  xp[tokenIndexTo] = xp[tokenIndexTo].sub(dy.mul(multipliers[tokenIndexTo]));
+  const x = getYD(a, tokenIndexFrom, xp, d0);
+  const dx = x.sub(xp[tokenIndexFrom]).add(1);
+  const dxFee = dx.mul(pool.swapFee).div(STABLESWAP_FEE_DENOMINATOR);
+  return { dx: dx.add(dxFee).div(multipliers[tokenIndexFrom]), dxFee };
+};
+
+/**
+ * Simulates a swap of `dx` of one token for another, including the admin fee taken out of the pool.
+ *
+ * @returns The amount received, and the pool after the swap. The given snapshot isn't modified, so simulations can
+ * be chained to quote multi-step trades.
+ */
+export const simulateSwap = (
+  pool: StableSwapPool,
+  tokenIndexFrom: number,
+  tokenIndexTo: number,
+  dx: BigNumber,
+  timestamp?: BigNumberish,
+): { dy: BigNumber; pool: StableSwapPool } => {
+  const { dy, dyFee } = calculateSwap(pool, tokenIndexFrom, tokenIndexTo, dx, timestamp);
+  const dyAdminFee = dyFee
+    .mul(pool.adminFee)
+    .div(STABLESWAP_FEE_DENOMINATOR)
+    .div(pool.tokenPrecisionMultipliers[tokenIndexTo]);
+  const balances = [...pool.balances];
+  const adminFees = [...pool.adminFees];
+  balances[tokenIndexFrom] = balances[tokenIndexFrom].add(dx);
+  balances[tokenIndexTo] = balances[tokenIndexTo].sub(dy).sub(dyAdminFee);
+  adminFees[tokenIndexTo] = adminFees[tokenIndexTo].add(dyAdminFee);
+  return { dy, pool: { ...pool, balances, adminFees } };
+};
+
+/**
+ * Calculates the LP tokens minted by a deposit, or burned by a withdrawal, of the given amounts. Excludes fees.
+ *
+ * @param amounts - The amount of each token, in the token's precision.
+ * @param deposit - Whether this is a deposit or a withdrawal.
+ */
+export const calculateTokenAmount = (
+  pool: StableSwapPool,
+  amounts: BigNumber[],
+  deposit: boolean,
+  timestamp?: BigNumberish,
+): BigNumber => {
+  const a = getAPrecise(pool, timestamp);
+  const multipliers = pool.tokenPrecisionMultipliers;
+  const d0 = getD(getXp(pool.balances, multipliers), a);
+  const balances = pool.balances.map((balance, i) =>
+    deposit ? balance.add(amounts[i]) : checkedSub(balance, amounts[i], "withdraw >available"),
+  );
+  const d1 = getD(getXp(balances, multipliers), a);
+  return (deposit ? d1.sub(d0) : d0.sub(d1)).mul(pool.lpTokenSupply).div(d0);
+};
+
+/**
+ * Calculates the amount of each token received for burning `amount` of LP tokens.
+ */
+export const calculateRemoveLiquidity = (pool: StableSwapPool, amount: BigNumber): BigNumber[] => {
+  if (amount.gt(pool.lpTokenSupply)) {
+    throw new Error("exceed total supply");
+  }
+  return pool.balances.map((balance) => balance.mul(amount).div(pool.lpTokenSupply));
+};
+
+/**
+ * Calculates the amount of a single token received for burning `tokenAmount` of LP tokens.
+ *
+ * @returns The amount received, and the swap fee charged, both in the token's precision.
+ */
+export const calculateRemoveLiquidityOneToken = (
+  pool: StableSwapPool,
+  tokenAmount: BigNumber,
+  tokenIndex: number,
+  timestamp?: BigNumberish,
+): { dy: BigNumber; dyFee: BigNumber } => {
+  const xp = getXp(pool.balances, pool.tokenPrecisionMultipliers);
+  if (tokenIndex >= xp.length) {
+    throw new Error("index out of range");
+  }
+
+  const a = getAPrecise(pool, timestamp);
+  const d0 = getD(xp, a);
+  const d1 = d0.sub(tokenAmount.mul(d0).div(pool.lpTokenSupply));
+  if (tokenAmount.gt(xp[tokenIndex])) {
+    throw new Error("exceeds available");
+  }
+  const newY = getYD(a, tokenIndex, xp, d1);
+
+  const feePerToken = getFeePerToken(pool.swapFee, xp.length);
+  const xpReduced = xp.map((xpi, i) => {
+    // The expected change in each balance, had the withdrawal been made evenly, is charged the fee.
+    const dxExpected = i === tokenIndex ? xpi.mul(d1).div(d0).sub(newY) : xpi.sub(xpi.mul(d1).div(d0));
+    return xpi.sub(dxExpected.mul(feePerToken).div(STABLESWAP_FEE_DENOMINATOR));
+  });
+
+  const multiplier = pool.tokenPrecisionMultipliers[tokenIndex];
+  const dy = xpReduced[tokenIndex].sub(getYD(a, tokenIndex, xpReduced, d1)).sub(1).div(multiplier);
+  const dyFee = xp[tokenIndex].sub(newY).div(multiplier).sub(dy);
+  return { dy, dyFee };
+};
+
+/**
+ * Gets the virtual price of the LP token, i.e. D per LP token, in the pool's precision.
+ */
+export const getVirtualPrice = (pool: StableSwapPool, timestamp?: BigNumberish): BigNumber => {
+  if (pool.lpTokenSupply.isZero()) {
+    return BigNumber.from(0);
+  }
+  const d = getD(getXp(pool.balances, pool.tokenPrecisionMultipliers), getAPrecise(pool, timestamp));
+  return d.mul(BigNumber.from(10).pow(STABLESWAP_POOL_PRECISION_DECIMALS)).div(pool.lpTokenSupply);
+};
@@ -8,6 +8,9 @@ import {
   RelayerApiPostTaskRequestParams,
   NxtpError,
   RelayerApiPostTaskResponse,
+  RelayerApiStatusResponse,
+  GelatoApiStatusResponse,
+  RelayerApiAddressResponse,
 } from "../types";
 
 /// MARK - Gelato Relay API
@@ -40,6 +43,18 @@ export const gelatoSend = async (
   return output;
 };
 
+export const getGelatoTaskStatus = async (taskId: string, logger?: Logger): Promise<GelatoApiStatusResponse> => {
+  let output;
+  try {
+    const res = await axios.get(`${GELATO_SERVER}/tasks/GelatoMetaBox/${taskId}`);
+    output = res.data.data[0] as GelatoApiStatusResponse;
+  } catch (error: unknown) {
+    if (logger) logger.error("Error in getGelatoTaskStatus", undefined, undefined, jsonifyError(error as Error));
+    throw new NxtpError("Error getting task status from Gelato Relay", { taskId, error: jsonifyError(error as Error) });
+  }
+  return output;
+};
+
 export const isChainSupportedByGelato = async (chainId: number): Promise<boolean> => {
   const chainsSupportedByGelato = await getGelatoRelayChains();
   return chainsSupportedByGelato.includes(chainId.toString());
@@ -165,3 +180,28 @@ export const connextRelayerSend = async (
   }
   return output;
 };
+
+export const connextRelayerGetTaskStatus = async (url: string, taskId: string): Promise<RelayerApiStatusResponse> => {
+  let output;
+  try {
+    const res = await axios.get(`${url}/tasks/${taskId}`);
+    output = res.data as RelayerApiStatusResponse;
+  } catch (error: unknown) {
+    throw new NxtpError("Error getting task status from Connext Relayer", {
+      taskId,
+      error: jsonifyError(error as Error),
+    });
+  }
+  return output;
+};
+
+export const connextRelayerGetAddress = async (url: string): Promise<string> => {
+  let output;
+  try {
+    const res = await axios.get(`${url}/address`);
+    output = (res.data as RelayerApiAddressResponse).address;
+  } catch (error: unknown) {
+    throw new NxtpError("Error getting address from Connext Relayer", { error: jsonifyError(error as Error) });
+  }
+  return output;
+};
@@ -1,9 +1,10 @@
 import { Type, Static } from "@sinclair/typebox";
 
-import { BidSchema } from "./auctions";
+import { AuctionEventSchema, BidSchema } from "./auctions";
 import { NxtpErrorJsonSchema } from "./error";
 // import { ExecuteArgsSchema, CallParamsSchema } from "./xtransfers";
-import { TAddress, TChainId, TDecimalString } from "./primitives";
+import { TAddress, TChainId, TDecimalString, TIntegerString } from "./primitives";
+import { RouterBalanceSchema, XTransferSchema, XTransferStatus } from "./xtransfers";
 
 /// MARK - Shared API
 export const AdminSchema = Type.Object({
@@ -45,6 +46,33 @@ export const AuctionsApiGetQueuedResponseSchema = Type.Object({
 });
 export type AuctionsApiGetQueuedResponse = Static<typeof AuctionsApiGetQueuedResponseSchema>;
 
+export const AuctionsApiGetTimelineResponseSchema = Type.Object({
+  transferId: Type.String(),
+  status: Type.String(),
+  attempts: Type.Optional(Type.Number()),
+  taskId: Type.Optional(Type.String()),
+  events: Type.Array(AuctionEventSchema),
+});
+export type AuctionsApiGetTimelineResponse = Static<typeof AuctionsApiGetTimelineResponseSchema>;
+
+export const AuctionsApiGetHistoryRequestSchema = Type.Object({
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0 })),
+});
+export type AuctionsApiGetHistoryRequest = Static<typeof AuctionsApiGetHistoryRequestSchema>;
+
+export const AuctionsApiGetHistoryResponseSchema = Type.Object({
+  auctions: Type.Array(
+    Type.Object({
+      transferId: Type.String(),
+      status: Type.String(),
+      updated: Type.String(),
+      lastEvent: Type.Optional(AuctionEventSchema),
+    }),
+  ),
+});
+export type AuctionsApiGetHistoryResponse = Static<typeof AuctionsApiGetHistoryResponseSchema>;
+
 export const AuctionsApiErrorResponseSchema = Type.Object({
   message: Type.String(),
   error: Type.Optional(NxtpErrorJsonSchema),
@@ -84,6 +112,62 @@ export const RemoveLiquidityResponseSchema = Type.Object({
 });
 export type RemoveLiquidityResponse = Static<typeof RemoveLiquidityResponseSchema>;
 
+export const PauseBiddingRequestSchema = Type.Intersect([
+  AdminSchema,
+  Type.Object({
+    domain: Type.String(),
+    assetId: Type.Optional(TAddress),
+  }),
+]);
+export type PauseBiddingRequest = Static<typeof PauseBiddingRequestSchema>;
+
+export const ResumeBiddingRequestSchema = PauseBiddingRequestSchema;
+export type ResumeBiddingRequest = Static<typeof ResumeBiddingRequestSchema>;
+
+export const PausedBiddingResponseSchema = Type.Object({
+  paused: Type.Array(Type.Object({ domain: Type.String(), asset: Type.Optional(TAddress) })),
+});
+export type PausedBiddingResponse = Static<typeof PausedBiddingResponseSchema>;
+
+export const RouterBalancesResponseSchema = Type.Record(
+  Type.String(),
+  Type.Object({
+    native: TIntegerString,
+    liquidity: Type.Record(Type.String(), TIntegerString),
+  }),
+);
+export type RouterBalancesResponse = Static<typeof RouterBalancesResponseSchema>;
+
+export const DeadLettersResponseSchema = Type.Object({
+  deadLetters: Type.Array(
+    Type.Object({
+      transferId: Type.String(),
+      originDomain: Type.String(),
+      destinationDomain: Type.String(),
+      attempts: Type.Integer(),
+      timestamp: Type.Integer(),
+      error: Type.Optional(Type.String()),
+    }),
+  ),
+});
+export type DeadLettersResponse = Static<typeof DeadLettersResponseSchema>;
+
+export const ReplayDeadLettersRequestSchema = Type.Intersect([
+  AdminSchema,
+  Type.Object({
+    transferIds: Type.Array(Type.String(), { minItems: 1 }),
+  }),
+]);
+export type ReplayDeadLettersRequest = Static<typeof ReplayDeadLettersRequestSchema>;
+
+export const ReplayDeadLettersResponseSchema = Type.Object({
+  // Transfers that were republished to the xcall queue.
+  replayed: Type.Array(Type.String()),
+  // Transfers that had no dead-lettered xcall.
+  missing: Type.Array(Type.String()),
+});
+export type ReplayDeadLettersResponse = Static<typeof ReplayDeadLettersResponseSchema>;
+
 /// MARK - Relayer API ------------------------------------------------------------------------------
 
 export const RelayerApiFeeSchema = Type.Object({
@@ -115,6 +199,7 @@ export type RelayerApiErrorResponse = Static<typeof RelayerApiErrorResponseSchem
 export enum RelayerTaskStatus {
   None = "None",
   Pending = "Pending",
+  Sent = "Sent",
   Cancelled = "Cancelled",
   Completed = "Completed",
 }
@@ -123,10 +208,158 @@ export const RelayerApiStatusResponseSchema = Type.Object({
   chain: Type.String(),
   taskId: Type.String(),
   status: Type.Enum(RelayerTaskStatus),
-  error: Type.String(),
+  hash: Type.Optional(Type.String()),
+  error: Type.Optional(Type.String()),
 });
 export type RelayerApiStatusResponse = Static<typeof RelayerApiStatusResponseSchema>;
 
+export const RelayerApiGetTasksRequestSchema = Type.Object({
+  status: Type.Optional(Type.Enum(RelayerTaskStatus)),
+  chain: Type.Optional(Type.Integer()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  cursor: Type.Optional(Type.String()),
+});
+export type RelayerApiGetTasksRequest = Static<typeof RelayerApiGetTasksRequestSchema>;
+
+export const RelayerApiGetTasksResponseSchema = Type.Object({
+  tasks: Type.Array(RelayerApiStatusResponseSchema),
+  nextCursor: Type.Optional(Type.String()),
+});
+export type RelayerApiGetTasksResponse = Static<typeof RelayerApiGetTasksResponseSchema>;
+
+export const RelayerApiCancelTaskRequestSchema = AdminSchema;
+export type RelayerApiCancelTaskRequest = Static<typeof RelayerApiCancelTaskRequestSchema>;
+
+export const RelayerApiCancelTaskResponseSchema = Type.Object({
+  message: Type.String(),
+  taskId: Type.String(),
+});
+export type RelayerApiCancelTaskResponse = Static<typeof RelayerApiCancelTaskResponseSchema>;
+
+export const RelayerApiAddressResponseSchema = Type.Object({
+  address: TAddress,
+});
+export type RelayerApiAddressResponse = Static<typeof RelayerApiAddressResponseSchema>;
+
+/// MARK - Cartographer API -------------------------------------------------------------------------
+// Pages are fetched by passing back the `nextCursor` of the previous response; it is absent on the last page.
+export const CartographerApiGetTransfersRequestSchema = Type.Object({
+  status: Type.Optional(Type.Enum(XTransferStatus)),
+  originDomain: Type.Optional(Type.String()),
+  destinationDomain: Type.Optional(Type.String()),
+  xcallCaller: Type.Optional(TAddress),
+  to: Type.Optional(TAddress),
+  router: Type.Optional(TAddress),
+  orderBy: Type.Optional(Type.Union([Type.Literal("nonce"), Type.Literal("timestamp")])),
+  order: Type.Optional(Type.Union([Type.Literal("asc"), Type.Literal("desc")])),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  cursor: Type.Optional(Type.String()),
+});
+export type CartographerApiGetTransfersRequest = Static<typeof CartographerApiGetTransfersRequestSchema>;
+
+export const CartographerApiGetTransfersResponseSchema = Type.Object({
+  transfers: Type.Array(XTransferSchema),
+  nextCursor: Type.Optional(Type.String()),
+});
+export type CartographerApiGetTransfersResponse = Static<typeof CartographerApiGetTransfersResponseSchema>;
+
+export const CartographerApiGetTransferResponseSchema = XTransferSchema;
+export type CartographerApiGetTransferResponse = Static<typeof CartographerApiGetTransferResponseSchema>;
+
+export const CartographerApiGetRoutersRequestSchema = Type.Object({
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  cursor: Type.Optional(Type.String()),
+});
+export type CartographerApiGetRoutersRequest = Static<typeof CartographerApiGetRoutersRequestSchema>;
+
+export const CartographerApiGetRoutersResponseSchema = Type.Object({
+  routers: Type.Array(RouterBalanceSchema),
+  nextCursor: Type.Optional(Type.String()),
+});
+export type CartographerApiGetRoutersResponse = Static<typeof CartographerApiGetRoutersResponseSchema>;
+
+export const CartographerApiAssetSchema = Type.Object({
+  local: TAddress,
+  adoptedAsset: TAddress,
+  canonicalId: Type.String(),
+  canonicalDomain: Type.String(),
+  domain: Type.String(),
+});
+export type CartographerApiAsset = Static<typeof CartographerApiAssetSchema>;
+
+export const CartographerApiGetAssetsRequestSchema = Type.Object({
+  domain: Type.Optional(Type.String()),
+  canonicalId: Type.Optional(Type.String()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  cursor: Type.Optional(Type.String()),
+});
+export type CartographerApiGetAssetsRequest = Static<typeof CartographerApiGetAssetsRequestSchema>;
+
+export const CartographerApiGetAssetsResponseSchema = Type.Object({
+  assets: Type.Array(CartographerApiAssetSchema),
+  nextCursor: Type.Optional(Type.String()),
+});
+export type CartographerApiGetAssetsResponse = Static<typeof CartographerApiGetAssetsResponseSchema>;
+
+// Dates are inclusive `YYYY-MM-DD` bounds on the metric's day.
+export const CartographerApiGetTransferMetricsRequestSchema = Type.Object({
+  originDomain: Type.Optional(Type.String()),
+  destinationDomain: Type.Optional(Type.String()),
+  from: Type.Optional(Type.String({ format: "date" })),
+  to: Type.Optional(Type.String({ format: "date" })),
+});
+export type CartographerApiGetTransferMetricsRequest = Static<typeof CartographerApiGetTransferMetricsRequestSchema>;
+
+export const CartographerApiTransferVolumeSchema = Type.Object({
+  date: Type.String(),
+  status: Type.Enum(XTransferStatus),
+  originDomain: Type.String(),
+  destinationDomain: Type.String(),
+  router: Type.String(),
+  asset: TAddress,
+  volume: TIntegerString,
+  forceSlowTransferCount: Type.Integer(),
+});
+export type CartographerApiTransferVolume = Static<typeof CartographerApiTransferVolumeSchema>;
+
+export const CartographerApiGetTransferMetricsResponseSchema = Type.Object({
+  volume: Type.Array(CartographerApiTransferVolumeSchema),
+});
+export type CartographerApiGetTransferMetricsResponse = Static<typeof CartographerApiGetTransferMetricsResponseSchema>;
+
+export const CartographerApiGetLiquidityMetricsRequestSchema = Type.Object({
+  router: Type.Optional(TAddress),
+  domain: Type.Optional(Type.String()),
+  from: Type.Optional(Type.String({ format: "date" })),
+  to: Type.Optional(Type.String({ format: "date" })),
+});
+export type CartographerApiGetLiquidityMetricsRequest = Static<typeof CartographerApiGetLiquidityMetricsRequestSchema>;
+
+export const CartographerApiRouterLiquiditySchema = Type.Object({
+  date: Type.String(),
+  router: TAddress,
+  domain: Type.String(),
+  canonicalId: Type.String(),
+  avgLiquidity: TDecimalString,
+  minLiquidity: TIntegerString,
+  maxLiquidity: TIntegerString,
+  snapshotCount: Type.Integer(),
+});
+export type CartographerApiRouterLiquidity = Static<typeof CartographerApiRouterLiquiditySchema>;
+
+export const CartographerApiGetLiquidityMetricsResponseSchema = Type.Object({
+  liquidity: Type.Array(CartographerApiRouterLiquiditySchema),
+});
+export type CartographerApiGetLiquidityMetricsResponse = Static<
+  typeof CartographerApiGetLiquidityMetricsResponseSchema
+>;
+
+export const CartographerApiErrorResponseSchema = Type.Object({
+  message: Type.String(),
+  error: Type.Optional(NxtpErrorJsonSchema),
+});
+export type CartographerApiErrorResponse = Static<typeof CartographerApiErrorResponseSchema>;
+
 /// MARK - Gelato API -------------------------------------------------------------------------------
 export type GelatoApiTaskRequestParams = { dest: string; data: string; token: string; relayerFee: string };
 
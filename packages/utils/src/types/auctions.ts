@@ -26,6 +26,8 @@ export enum AuctionStatus {
   Queued = "Queued",
   Sent = "Sent",
   Executed = "Executed",
+  // Every meta tx attempt failed, and the auction won't be retried.
+  Failed = "Failed",
 }
 
 // Auction metadata, reflected in the header for auctions API and the auction cache.
@@ -56,5 +58,47 @@ export type AuctionTask = {
   taskId: string;
   // Number of meta tx attempts sent. Should be 1 in 99% of cases.
   attempts: number;
+  // Auction round and routers of the bid combination sent in the last meta tx.
+  round?: number;
+  routers?: string[];
+  // Bid combinations whose meta tx failed, which won't be sent again.
+  failed?: { round: number; routers: string[] }[];
 };
+
+// Events recorded over the lifecycle of an auction, used to build the auction's timeline.
+export enum AuctionEventType {
+  // A router's bid was received and stored.
+  BidReceived = "BidReceived",
+  // A router's bid was skipped for a round (e.g. due to insufficient liquidity).
+  BidSkipped = "BidSkipped",
+  // An auction round was chosen for bid selection.
+  RoundChosen = "RoundChosen",
+  // A combination of bids was rejected (e.g. the relayer refused it).
+  CombinationRejected = "CombinationRejected",
+  // A combination of bids was sent to the relayer for execution.
+  RelayerTaskSent = "RelayerTaskSent",
+  // The relayer task was cancelled or reverted.
+  RelayerTaskFailed = "RelayerTaskFailed",
+  // The transfer was executed on the destination domain.
+  Executed = "Executed",
+  // The auction was given up on after too many failed meta tx attempts.
+  Failed = "Failed",
+}
+
+export const AuctionEventSchema = Type.Object({
+  type: Type.Enum(AuctionEventType),
+  // Timestamp of when the event occurred.
+  timestamp: Type.String(),
+  // Auction round the event relates to, if any.
+  round: Type.Optional(Type.Integer()),
+  // Router(s) the event relates to, if any.
+  routers: Type.Optional(Type.Array(Type.String())),
+  // Relayer task ID, for RelayerTaskSent and RelayerTaskFailed.
+  taskId: Type.Optional(Type.String()),
+  // Human readable explanation, e.g. why a bid or combination was rejected.
+  reason: Type.Optional(Type.String()),
+});
+
+export type AuctionEvent = Static<typeof AuctionEventSchema>;
+
 /// -------------------------------------------------------------------------------------------------
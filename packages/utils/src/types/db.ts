@@ -53,6 +53,7 @@ export const convertFromDbTransfer = (transfer: any): XTransfer => {
             gasPrice: BigNumber.from(BigInt((transfer.xcall_gas_price as string) ?? "0")).toString(),
             timestamp: transfer.xcall_timestamp!,
             transactionHash: transfer.xcall_transaction_hash!,
+            ...(transfer.xcall_block_hash ? { blockHash: transfer.xcall_block_hash } : {}),
           },
         }
       : undefined,
@@ -79,6 +80,7 @@ export const convertFromDbTransfer = (transfer: any): XTransfer => {
             gasPrice: BigNumber.from(BigInt((transfer.execute_gas_price as string) ?? "0")).toString(),
             timestamp: transfer.execute_timestamp!,
             transactionHash: transfer.execute_transaction_hash!,
+            ...(transfer.execute_block_hash ? { blockHash: transfer.execute_block_hash } : {}),
             originSender: transfer.execute_origin_sender!,
           },
           reconcile: {
@@ -88,6 +90,7 @@ export const convertFromDbTransfer = (transfer: any): XTransfer => {
             gasPrice: BigNumber.from(BigInt((transfer.reconcile_gas_price as string) ?? "0")).toString(),
             timestamp: transfer.reconcile_timestamp!,
             transactionHash: transfer.reconcile_transaction_hash!,
+            ...(transfer.reconcile_block_hash ? { blockHash: transfer.reconcile_block_hash } : {}),
           },
         }
       : undefined,
@@ -4,4 +4,5 @@ export * from "./auctions";
 export * from "./db";
 export * from "./error";
 export * from "./primitives";
+export * from "./stableswap";
 export * from "./xtransfers";
@@ -0,0 +1,37 @@
+import { Type, Static } from "@sinclair/typebox";
+
+import { TAddress, TIntegerString } from "./primitives";
+
+// Amounts are in each token's precision, and balances are the pool's after the event.
+export const StableSwapExchangeSchema = Type.Object({
+  id: Type.String(),
+  domain: Type.String(),
+  poolId: TAddress, // The address of the pool.
+  buyer: TAddress,
+  boughtId: Type.Number(),
+  soldId: Type.Number(),
+  tokensSold: TIntegerString,
+  tokensBought: TIntegerString,
+  fee: TIntegerString, // In the bought token.
+  balances: Type.Array(TIntegerString),
+  transactionHash: Type.String(),
+  timestamp: Type.Number(),
+  blockNumber: Type.Number(),
+});
+export type StableSwapExchange = Static<typeof StableSwapExchangeSchema>;
+
+export const StableSwapPoolEventSchema = Type.Object({
+  id: Type.String(),
+  domain: Type.String(),
+  poolId: TAddress,
+  eventType: Type.Union([Type.Literal("Add"), Type.Literal("Remove")]),
+  provider: TAddress,
+  tokenAmounts: Type.Array(TIntegerString),
+  fees: Type.Array(TIntegerString),
+  lpTokenSupply: TIntegerString,
+  balances: Type.Array(TIntegerString),
+  transactionHash: Type.String(),
+  timestamp: Type.Number(),
+  blockNumber: Type.Number(),
+});
+export type StableSwapPoolEvent = Static<typeof StableSwapPoolEventSchema>;
@@ -1,6 +1,6 @@
 import { Type, Static } from "@sinclair/typebox";
 
-import { TAddress, TIntegerString } from ".";
+import { TAddress, TIntegerString } from "./primitives";
 
 // dear Jake, please stop changing this to enum
 export const XTransferStatus = {
@@ -19,7 +19,9 @@ export const XTransferMethodCallSchema = Type.Object({
   gasPrice: TIntegerString,
   gasLimit: TIntegerString,
   blockNumber: Type.Number(),
+  blockHash: Type.Optional(Type.String()),
 });
+export type XTransferMethodCall = Static<typeof XTransferMethodCallSchema>;
 
 export const XTransferOriginSchema = Type.Object({
   chain: TIntegerString,
@@ -192,3 +194,18 @@ export type AssetBalance = Static<typeof AssetBalanceSchema>;
 
 export const RouterBalanceSchema = Type.Object({ router: TAddress, assets: Type.Array(AssetBalanceSchema) });
 export type RouterBalance = Static<typeof RouterBalanceSchema>;
+
+export const RouterLiquidityEventSchema = Type.Object({
+  id: Type.String(),
+  domain: Type.String(),
+  router: TAddress,
+  eventType: Type.Union([Type.Literal("Add"), Type.Literal("Remove")]),
+  asset: TAddress,
+  amount: TIntegerString,
+  balance: TIntegerString,
+  caller: TAddress,
+  transactionHash: Type.String(),
+  timestamp: Type.Number(),
+  blockNumber: Type.Number(),
+});
+export type RouterLiquidityEvent = Static<typeof RouterLiquidityEventSchema>;
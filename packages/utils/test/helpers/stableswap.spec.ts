@@ -0,0 +1,169 @@
+import { expect } from "@connext/nxtp-utils";
+import { BigNumber } from "ethers";
+
+import {
+  StableSwapPool,
+  calculateRemoveLiquidity,
+  calculateRemoveLiquidityOneToken,
+  calculateSwap,
+  calculateSwapOut,
+  calculateTokenAmount,
+  getA,
+  getAPrecise,
+  getD,
+  getVirtualPrice,
+  simulateSwap,
+} from "../../src";
+
+// Expected values are those asserted against the contracts in the StableSwap tests, for a pool with A = 50 and a
+// 0.1% swap fee, seeded with 1e18 of each token.
+const mkPool = (overrides: Partial<StableSwapPool> = {}): StableSwapPool => ({
+  initialA: BigNumber.from(5000),
+  futureA: BigNumber.from(5000),
+  initialATime: BigNumber.from(0),
+  futureATime: BigNumber.from(0),
+  swapFee: BigNumber.from(1e7),
+  adminFee: BigNumber.from(0),
+  tokenPrecisionMultipliers: [BigNumber.from(1), BigNumber.from(1)],
+  balances: [BigNumber.from(String(1e18)), BigNumber.from(String(1e18))],
+  adminFees: [BigNumber.from(0), BigNumber.from(0)],
+  lpTokenSupply: BigNumber.from(String(2e18)),
+  ...overrides,
+});
+
+describe("Helpers:StableSwap", () => {
+  describe("#getAPrecise", () => {
+    it("should return futureA once the ramp is over", () => {
+      expect(getAPrecise(mkPool(), 1000).toString()).to.be.eq("5000");
+    });
+
+    it("should interpolate while ramping up", () => {
+      const pool = mkPool({
+        futureA: BigNumber.from(10000),
+        initialATime: BigNumber.from(0),
+        futureATime: BigNumber.from(1000),
+      });
+      expect(getAPrecise(pool, 0).toString()).to.be.eq("5000");
+      expect(getAPrecise(pool, 100).toString()).to.be.eq("5500");
+      expect(getA(pool, 999).toString()).to.be.eq("99");
+      expect(getA(pool, 1000).toString()).to.be.eq("100");
+    });
+
+    it("should interpolate while ramping down", () => {
+      const pool = mkPool({
+        futureA: BigNumber.from(2500),
+        initialATime: BigNumber.from(0),
+        futureATime: BigNumber.from(1000),
+      });
+      expect(getAPrecise(pool, 100).toString()).to.be.eq("4750");
+      expect(getA(pool, 1000).toString()).to.be.eq("25");
+    });
+  });
+
+  describe("#getD", () => {
+    it("should return 0 for an empty pool", () => {
+      expect(getD([BigNumber.from(0), BigNumber.from(0)], BigNumber.from(5000)).toString()).to.be.eq("0");
+    });
+
+    it("should return the sum of balances for a balanced pool", () => {
+      expect(getD(mkPool().balances, BigNumber.from(5000)).toString()).to.be.eq(String(2e18));
+    });
+  });
+
+  describe("#calculateSwap", () => {
+    it("happy: should match the contracts", () => {
+      const { dy } = calculateSwap(mkPool(), 0, 1, BigNumber.from(String(1e17)));
+      expect(dy.toString()).to.be.eq("99702611562565289");
+    });
+
+    it("should scale amounts by the precision multipliers", () => {
+      const pool = mkPool({
+        tokenPrecisionMultipliers: [BigNumber.from(1), BigNumber.from(10).pow(12)],
+        balances: [BigNumber.from(String(1e18)), BigNumber.from(1e6)],
+      });
+      expect(calculateSwap(pool, 0, 1, BigNumber.from(String(1e17))).dy.toString()).to.be.eq("99702");
+    });
+
+    it("should throw if a token index is out of range", () => {
+      expect(() => calculateSwap(mkPool(), 0, 9, BigNumber.from(String(1e17)))).to.throw("index out of range");
+    });
+  });
+
+  describe("#calculateSwapOut", () => {
+    it("happy: should match the contracts", () => {
+      const { dx } = calculateSwapOut(mkPool(), 0, 1, BigNumber.from(String(1e17)));
+      expect(dx.toString()).to.be.eq("100298575938780351");
+    });
+  });
+
+  describe("#simulateSwap", () => {
+    it("should update the pool like the contracts", () => {
+      const { dy, pool } = simulateSwap(mkPool(), 0, 1, BigNumber.from(String(1e17)));
+      expect(dy.toString()).to.be.eq("99702611562565289");
+      expect(getVirtualPrice(pool).toString()).to.be.eq("1000050005862349911");
+
+      const { pool: next } = simulateSwap(pool, 1, 0, BigNumber.from(String(1e17)));
+      expect(getVirtualPrice(next).toString()).to.be.eq("1000100104768517937");
+    });
+
+    it("should take the admin fee out of the pool", () => {
+      const initial = mkPool({ adminFee: BigNumber.from(5e9) });
+      const { dy, pool } = simulateSwap(initial, 0, 1, BigNumber.from(String(1e17)));
+      const { dyFee } = calculateSwap(initial, 0, 1, BigNumber.from(String(1e17)));
+      expect(pool.adminFees[1].toString()).to.be.eq(dyFee.div(2).toString());
+      expect(pool.balances[1].toString()).to.be.eq(initial.balances[1].sub(dy).sub(dyFee.div(2)).toString());
+      expect(initial.balances[1].toString()).to.be.eq(String(1e18));
+    });
+  });
+
+  describe("#calculateTokenAmount", () => {
+    it("should mint the increase in D for a balanced deposit", () => {
+      const amounts = [BigNumber.from(String(1e18)), BigNumber.from(String(1e18))];
+      expect(calculateTokenAmount(mkPool(), amounts, true).toString()).to.be.eq(String(2e18));
+    });
+
+    it("should throw when withdrawing more than the pool has", () => {
+      const amounts = [BigNumber.from(String(2e18)), BigNumber.from(0)];
+      expect(() => calculateTokenAmount(mkPool(), amounts, false)).to.throw("withdraw >available");
+    });
+  });
+
+  describe("#calculateRemoveLiquidity", () => {
+    it("should return a proportional share of each token", () => {
+      expect(calculateRemoveLiquidity(mkPool(), BigNumber.from(String(1e18)))).to.be.deep.eq([
+        BigNumber.from(String(5e17)),
+        BigNumber.from(String(5e17)),
+      ]);
+    });
+
+    it("should throw when burning more than the supply", () => {
+      expect(() => calculateRemoveLiquidity(mkPool(), BigNumber.from(String(3e18)))).to.throw("exceed total supply");
+    });
+  });
+
+  describe("#calculateRemoveLiquidityOneToken", () => {
+    it("happy: should match the contracts", () => {
+      // After a deposit of [2e18, 1e16], with no admin fee.
+      const minted = BigNumber.from("1996275270169644725");
+      const pool = mkPool({
+        balances: [BigNumber.from(String(3e18)), BigNumber.from(String(1.01e18))],
+        lpTokenSupply: minted.add(String(2e18)),
+      });
+      expect(calculateRemoveLiquidityOneToken(pool, minted, 0).dy.toString()).to.be.eq("2008990034631583696");
+    });
+
+    it("should throw if the token index is out of range", () => {
+      expect(() => calculateRemoveLiquidityOneToken(mkPool(), BigNumber.from(1), 5)).to.throw("index out of range");
+    });
+  });
+
+  describe("#getVirtualPrice", () => {
+    it("should return 0 without supply", () => {
+      expect(getVirtualPrice(mkPool({ lpTokenSupply: BigNumber.from(0) })).toString()).to.be.eq("0");
+    });
+
+    it("should return 1e18 for a balanced pool", () => {
+      expect(getVirtualPrice(mkPool()).toString()).to.be.eq(String(1e18));
+    });
+  });
+});
@@ -14,7 +14,11 @@ import {
   getPaymentTokens,
   NxtpError,
   connextRelayerSend,
+  connextRelayerGetTaskStatus,
+  connextRelayerGetAddress,
+  getGelatoTaskStatus,
   RelayerApiPostTaskRequestParams,
+  RelayerTaskStatus,
   expect,
 } from "../../src";
 
@@ -57,6 +61,21 @@ describe("Peripherals:Gelato", () => {
     });
   });
 
+  describe("#getGelatoTaskStatus", () => {
+    it("happy: should get task status from gelato", async () => {
+      const status = { taskId: "0x1", taskState: "ExecSuccess" };
+      axiosGetStub.resolves({ data: { data: [status] } });
+      const res = await getGelatoTaskStatus("0x1");
+      expect(axiosGetStub).to.have.been.calledOnceWithExactly("https://relay.gelato.digital/tasks/GelatoMetaBox/0x1");
+      expect(res).to.be.deep.eq(status);
+    });
+
+    it("should throw if the request fails", async () => {
+      axiosGetStub.throws(new Error("Request failed!"));
+      await expect(getGelatoTaskStatus("0x1")).to.be.rejectedWith(NxtpError);
+    });
+  });
+
   describe("#isChainSupportedByGelato", () => {
     beforeEach(() => {});
     afterEach(() => {
@@ -264,4 +283,35 @@ describe("Peripherals:Gelato", () => {
       await expect(connextRelayerSend(url, chainId, params)).to.be.rejectedWith(NxtpError);
     });
   });
+
+  describe("#connextRelayerGetTaskStatus", () => {
+    it("happy: should get task status", async () => {
+      const status = { chain: "1337", taskId: "0x1", status: RelayerTaskStatus.Sent, hash: "0x2" };
+      axiosGetStub.resolves({ data: status });
+      const url = "mock-url";
+      const res = await connextRelayerGetTaskStatus(url, "0x1");
+      expect(axiosGetStub).to.have.been.calledOnceWithExactly(`${url}/tasks/0x1`);
+      expect(res).to.be.deep.eq(status);
+    });
+
+    it("should throw if the request fails", async () => {
+      axiosGetStub.throws(new Error("Request failed!"));
+      await expect(connextRelayerGetTaskStatus("mock-url", "0x1")).to.be.rejectedWith(NxtpError);
+    });
+  });
+
+  describe("#connextRelayerGetAddress", () => {
+    it("happy: should get the relayer address", async () => {
+      axiosGetStub.resolves({ data: { address: mkAddress("0x111") } });
+      const url = "mock-url";
+      const res = await connextRelayerGetAddress(url);
+      expect(axiosGetStub).to.have.been.calledOnceWithExactly(`${url}/address`);
+      expect(res).to.be.eq(mkAddress("0x111"));
+    });
+
+    it("should throw if the request fails", async () => {
+      axiosGetStub.throws(new Error("Request failed!"));
+      await expect(connextRelayerGetAddress("mock-url")).to.be.rejectedWith(NxtpError);
+    });
+  });
 });